@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { DeveloperRoute } from "@/components/DeveloperRoute";
+import { AdminRoute } from "@/components/AdminRoute";
 import { Layout } from "@/components/Layout";
 import { AriaLiveProvider } from "@/lib/aria-live";
 import { SkipToMainContent } from "@/lib/focus-trap";
@@ -29,6 +30,8 @@ const Settings = lazy(() => import("./pages/Settings"));
 const Billing = lazy(() => import("./pages/Billing"));
 const AdminPromptGenerator = lazy(() => import("./pages/AdminPromptGenerator"));
 const AdminPromptFactorySettings = lazy(() => import("./pages/AdminPromptFactorySettings"));
+const AdminStateCallingRules = lazy(() => import("./pages/AdminStateCallingRules"));
+const AdminWebhookErrors = lazy(() => import("./pages/AdminWebhookErrors"));
 const NotFound = () => <div>404 - Page Not Found</div>; // Temporary placeholder
 const Appointments = lazy(() => import("./pages/Appointments"));
 
@@ -118,6 +121,20 @@ const App = () => (
                         </DeveloperRoute>
                       </Suspense>
                     } />
+                    <Route path="admin/calling-rules" element={
+                      <Suspense fallback={<PageLoader />}>
+                        <AdminRoute>
+                          <AdminStateCallingRules />
+                        </AdminRoute>
+                      </Suspense>
+                    } />
+                    <Route path="admin/webhook-errors" element={
+                      <Suspense fallback={<PageLoader />}>
+                        <AdminRoute>
+                          <AdminWebhookErrors />
+                        </AdminRoute>
+                      </Suspense>
+                    } />
                     <Route path="recordings" element={
                       <Suspense fallback={<PageLoader />}>
                         <Recordings />
@@ -0,0 +1,126 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash } from "@phosphor-icons/react";
+import {
+  getDefaultAgentVariants,
+  getTrafficShares,
+  variantLabel,
+  type AgentVariantEntry,
+} from "@/lib/ab-testing";
+
+interface AgentOption {
+  id: string;
+  name: string;
+}
+
+interface AgentVariantSettingsProps {
+  value: AgentVariantEntry[];
+  onChange: (variants: AgentVariantEntry[]) => void;
+  primaryAgentId: string;
+  agents: AgentOption[];
+}
+
+export function AgentVariantSettings({ value, onChange, primaryAgentId, agents }: AgentVariantSettingsProps) {
+  const enabled = value.length > 0;
+  const shares = getTrafficShares(value);
+
+  const updateVariant = (index: number, updates: Partial<AgentVariantEntry>) => {
+    onChange(value.map((variant, i) => (i === index ? { ...variant, ...updates } : variant)));
+  };
+
+  const agentName = (agentId: string) => agents.find(agent => agent.id === agentId)?.name || 'Campaign agent';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="ab-test-enabled"
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked ? getDefaultAgentVariants(primaryAgentId) : [])}
+        />
+        <Label htmlFor="ab-test-enabled">Split contacts across several agents</Label>
+      </div>
+
+      {enabled && (
+        <div className="space-y-2">
+          {value.map((variant, index) => {
+            // Agents already used by another variant cannot be picked twice
+            const takenAgentIds = new Set(value.filter((_, i) => i !== index).map(other => other.agent_id));
+
+            return (
+              <div key={index} className="grid grid-cols-[auto_1fr_5rem_3rem_auto] gap-2 items-end">
+                <Badge variant={index === 0 ? "default" : "secondary"} className="mb-2">
+                  {variantLabel(index)}
+                </Badge>
+                <div className="space-y-1">
+                  <Label htmlFor={`ab-variant-agent-${index}`} className="text-xs">
+                    {index === 0 ? 'Campaign agent (control)' : 'Agent'}
+                  </Label>
+                  {index === 0 ? (
+                    <Input id={`ab-variant-agent-${index}`} value={agentName(primaryAgentId)} disabled />
+                  ) : (
+                    <Select
+                      value={variant.agent_id || undefined}
+                      onValueChange={(agent_id) => updateVariant(index, { agent_id })}
+                    >
+                      <SelectTrigger id={`ab-variant-agent-${index}`}>
+                        <SelectValue placeholder="Choose an agent" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {agents
+                          .filter(agent => !takenAgentIds.has(agent.id))
+                          .map(agent => (
+                            <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`ab-variant-weight-${index}`} className="text-xs">Weight</Label>
+                  <Input
+                    id={`ab-variant-weight-${index}`}
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={variant.weight}
+                    onChange={(e) => updateVariant(index, { weight: Math.max(1, parseInt(e.target.value) || 1) })}
+                  />
+                </div>
+                <span className="text-sm text-muted-foreground mb-2">{shares[index]}%</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={index === 0 || value.length <= 2}
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  aria-label={`Remove variant ${variantLabel(index)}`}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={value.length >= agents.length}
+            onClick={() => onChange([...value, { agent_id: '', weight: value[value.length - 1]?.weight || 1 }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add agent
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Each contact is assigned to one variant for the whole campaign, in proportion to the weights.
+            Results compare every variant against A.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,9 @@ import {
   Gear as Settings,
   CreditCard,
   Flask,
-  Sliders
+  Sliders,
+  Scales,
+  WebhooksLogo
 } from "@phosphor-icons/react";
 import { NavLink, useLocation } from "react-router-dom";
 import {
@@ -48,13 +50,21 @@ export function AppSidebar() {
   const { user } = useAuth();
   const showPromptFactory = isAdmin && isDeveloperEmail(user?.email);
 
-  const navigation = showPromptFactory
+  const adminNavigation = isAdmin
     ? [
         ...baseNavigation,
+        { title: "Calling Rules", url: "/admin/calling-rules", icon: Scales },
+        { title: "Webhook Errors", url: "/admin/webhook-errors", icon: WebhooksLogo }
+      ]
+    : baseNavigation;
+
+  const navigation = showPromptFactory
+    ? [
+        ...adminNavigation,
         { title: "Prompt Factory", url: "/admin/prompt-generator", icon: Flask },
         { title: "Prompt Factory Settings", url: "/admin/prompt-factory-settings", icon: Sliders }
       ]
-    : baseNavigation;
+    : adminNavigation;
 
   const isActive = (path: string) => {
     if (path === "/") {
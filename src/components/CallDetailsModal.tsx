@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Phone, Clock, ChatCircle as MessageSquare, Calendar, User, Envelope as Mail } from "@phosphor-icons/react";
 import { format, parseISO, isValid } from "date-fns";
+import { formatExtractedValue, getExtractionColumns, type ExtractedFields, type ExtractionField } from "@/lib/extraction-schema";
 
 interface CallDetailsModalProps {
   isOpen: boolean;
@@ -20,12 +21,19 @@ interface CallDetailsModalProps {
     follow_up_reason?: string;
     appointment_data?: any;
     custom_analysis?: any;
+    extracted_fields?: ExtractedFields | null;
+    contact_extracted_fields?: ExtractedFields;
+    extraction_schema?: ExtractionField[];
   } | null;
 }
 
 export function CallDetailsModal({ isOpen, onClose, callData }: CallDetailsModalProps) {
   if (!callData) return null;
 
+  // The contact's latest value of each field, which this call may have updated
+  const leadFields = callData.contact_extracted_fields || callData.extracted_fields || {};
+  const leadColumns = getExtractionColumns(callData.extraction_schema || [], [{ extracted_fields: leadFields }]);
+
   const formatDuration = (seconds: number | null) => {
     if (!seconds) return 'N/A';
     const minutes = Math.floor(seconds / 60);
@@ -212,6 +220,26 @@ export function CallDetailsModal({ isOpen, onClose, callData }: CallDetailsModal
                 </div>
               )}
 
+              {/* Typed fields extracted onto the contact */}
+              {leadColumns.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Lead Details</label>
+                  <dl className="mt-2 grid grid-cols-2 gap-3 rounded-lg border p-4">
+                    {leadColumns.map(column => (
+                      <div key={column.key}>
+                        <dt className="text-xs text-muted-foreground capitalize">{column.label}</dt>
+                        <dd className="text-sm">
+                          {formatExtractedValue(column.field, leadFields[column.key])}
+                          {callData.extracted_fields && callData.extracted_fields[column.key] === undefined && (
+                            <span className="text-xs text-muted-foreground"> (earlier call)</span>
+                          )}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+
               {/* Custom Analysis */}
               {callData.custom_analysis && (
                 <div>
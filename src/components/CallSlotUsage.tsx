@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { PhoneCall } from "@phosphor-icons/react";
+import { dashboardService } from "@/services/dashboard.service";
+import { getSlotUsagePercent, type AccountSlotUsage } from "@/lib/call-slots";
+
+// Live calls change by the minute (process-campaign runs once a minute)
+const REFRESH_INTERVAL_MS = 30000;
+
+export function CallSlotUsage() {
+  const [usage, setUsage] = useState<AccountSlotUsage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadUsage = () => {
+      dashboardService.getCallSlotUsage()
+        .then(result => {
+          if (!cancelled) setUsage(result);
+        })
+        .catch(error => {
+          console.error('Error loading call slot usage:', error);
+        });
+    };
+
+    loadUsage();
+    const interval = setInterval(loadUsage, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (!usage || usage.campaigns.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <PhoneCall weight="duotone" className="h-5 w-5 text-primary" />
+              Call Slots
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Live calls across all campaigns. Free slots are shared evenly between active campaigns.
+            </CardDescription>
+          </div>
+          <span className="text-2xl font-semibold">
+            {usage.activeCalls}
+            <span className="text-base text-muted-foreground font-normal"> / {usage.limit}</span>
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={getSlotUsagePercent(usage)} className="h-2" />
+        <div className="space-y-2">
+          {usage.campaigns.map(campaign => (
+            <div key={campaign.campaign_id} className="flex items-center justify-between text-sm">
+              <span className="truncate">
+                {campaign.campaign_name}
+                {campaign.status !== 'active' && (
+                  <span className="text-xs text-muted-foreground ml-2">{campaign.status}</span>
+                )}
+              </span>
+              <span className="text-muted-foreground whitespace-nowrap ml-4">
+                {campaign.active_calls} live · up to {campaign.concurrent_calls}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
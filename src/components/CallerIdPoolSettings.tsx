@@ -0,0 +1,100 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CircleNotch } from "@phosphor-icons/react";
+import { usePhoneNumbers } from "@/features/agents/hooks/usePhoneNumbers";
+import type { CallerIdPoolEntry } from "@/features/campaigns/types/campaign.types";
+
+interface CallerIdPoolSettingsProps {
+  value: CallerIdPoolEntry[];
+  onChange: (pool: CallerIdPoolEntry[]) => void;
+}
+
+const formatPhoneNumber = (phoneNumber: string) => {
+  const digits = phoneNumber.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+  return digits.length === 10
+    ? `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`
+    : phoneNumber;
+};
+
+export function CallerIdPoolSettings({ value, onChange }: CallerIdPoolSettingsProps) {
+  const { phoneNumbers, loading } = usePhoneNumbers();
+
+  const togglePhoneNumber = (phoneNumberId: string, checked: boolean, currentCap: number | null) => {
+    if (checked) {
+      onChange([...value, { phone_number_id: phoneNumberId, max_calls_per_day: currentCap }]);
+    } else {
+      onChange(value.filter(entry => entry.phone_number_id !== phoneNumberId));
+    }
+  };
+
+  const updateDailyCap = (phoneNumberId: string, raw: string) => {
+    const parsed = parseInt(raw, 10);
+    onChange(value.map(entry =>
+      entry.phone_number_id === phoneNumberId
+        ? { ...entry, max_calls_per_day: Number.isNaN(parsed) ? null : Math.max(1, parsed) }
+        : entry
+    ));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CircleNotch className="h-4 w-4 animate-spin" />
+        Loading phone numbers...
+      </div>
+    );
+  }
+
+  if (phoneNumbers.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You have no active phone numbers. Calls will use the agent's phone number.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {phoneNumbers.map(phone => {
+        const entry = value.find(e => e.phone_number_id === phone.id);
+        const idPrefix = `caller-id-${phone.id}`;
+
+        return (
+          <div key={phone.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+            <div className="flex items-center gap-3">
+              <Checkbox
+                id={`${idPrefix}-selected`}
+                checked={!!entry}
+                onCheckedChange={(checked) => togglePhoneNumber(phone.id, checked === true, phone.max_calls_per_day)}
+              />
+              <Label htmlFor={`${idPrefix}-selected`} className="font-medium">
+                {formatPhoneNumber(phone.phone_number)}
+              </Label>
+            </div>
+            {entry && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`${idPrefix}-daily-cap`} className="text-xs text-muted-foreground whitespace-nowrap">
+                  Daily cap
+                </Label>
+                <Input
+                  id={`${idPrefix}-daily-cap`}
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  className="w-28"
+                  value={entry.max_calls_per_day ?? ''}
+                  onChange={(e) => updateDailyCap(phone.id, e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <p className="text-sm text-muted-foreground">
+        Each call uses the selected number matching the contact's area code or state, rotating between equal matches.
+        Leave all unselected to call from the agent's phone number. Daily caps apply to the number across all campaigns.
+      </p>
+    </div>
+  );
+}
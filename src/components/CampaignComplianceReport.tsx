@@ -0,0 +1,101 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Scales } from "@phosphor-icons/react";
+import { campaignsService } from "@/services/campaigns.service";
+import { COMPLIANCE_RULE_LABELS, type ComplianceRule, type ComplianceSkip } from "@/lib/state-calling-rules";
+
+interface CampaignComplianceReportProps {
+  campaignId: string;
+}
+
+function contactName(skip: ComplianceSkip): string {
+  const name = [skip.contacts?.first_name, skip.contacts?.last_name].filter(Boolean).join(' ');
+  return name || 'Unknown contact';
+}
+
+export function CampaignComplianceReport({ campaignId }: CampaignComplianceReportProps) {
+  const [skips, setSkips] = useState<ComplianceSkip[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    campaignsService.getComplianceSkips(campaignId)
+      .then(rows => {
+        if (!cancelled) setSkips(rows);
+      })
+      .catch(error => {
+        console.error('Error loading compliance report:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  const countsByRule = useMemo(() => {
+    const counts = new Map<ComplianceRule, number>();
+    for (const skip of skips) {
+      counts.set(skip.rule, (counts.get(skip.rule) || 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [skips]);
+
+  if (skips.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scales className="h-5 w-5" />
+          State Compliance
+        </CardTitle>
+        <CardDescription>
+          Calls held back by a state calling-law rule, once per contact, rule and day. They are dialed once the rule allows it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {countsByRule.map(([rule, count]) => (
+            <Badge key={rule} variant="secondary">
+              {COMPLIANCE_RULE_LABELS[rule]}: {count.toLocaleString()}
+            </Badge>
+          ))}
+        </div>
+        <div className="border rounded-lg max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Held back</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>State</TableHead>
+                <TableHead>Rule</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {skips.map(skip => (
+                <TableRow key={skip.id}>
+                  <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                    {new Date(skip.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{contactName(skip)}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{skip.phone_number}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{skip.state}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{COMPLIANCE_RULE_LABELS[skip.rule]}</div>
+                    {skip.detail && <div className="text-xs text-muted-foreground">{skip.detail}</div>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,6 +21,37 @@ import { useActiveAgents } from "@/hooks/queries/useAgentQueries";
 import { contactsService } from "@/services/contacts.service";
 import { campaignsService } from "@/services/campaigns.service";
 import { billingService } from "@/services/billing.service";
+import { RetryPolicySettings } from "@/components/RetryPolicySettings";
+import { CallerIdPoolSettings } from "@/components/CallerIdPoolSettings";
+import { CampaignScheduleSettings } from "@/components/CampaignScheduleSettings";
+import { WeeklyScheduleEditor } from "@/components/WeeklyScheduleEditor";
+import { QueueOrderSettings } from "@/components/QueueOrderSettings";
+import { AgentVariantSettings } from "@/components/AgentVariantSettings";
+import { LaunchForecast } from "@/components/LaunchForecast";
+import { describeVoicemailDrop, validateVoicemailDrop } from "@/lib/voicemail-drop";
+import { QUEUE_ORDER_STRATEGIES, getDefaultQueueOrder, validateQueueOrder, type QueueOrder } from "@/lib/queue-order";
+import {
+  DAY_KEYS,
+  formatWeeklySchedule,
+  getDefaultWeeklySchedule,
+  getScheduleBounds,
+  validateWeeklySchedule,
+  type WeeklySchedule,
+} from "@/lib/calling-schedule";
+import type { ForecastInput } from "@/lib/campaign-forecast";
+import { getTrafficShares, validateAgentVariants, variantLabel, type AgentVariantEntry } from "@/lib/ab-testing";
+import {
+  RETRY_OUTCOMES,
+  getDefaultRetryPolicy,
+  getDefaultRateLimits,
+  getDefaultSpendCaps,
+  getDefaultSchedule,
+  type CallerIdPoolEntry,
+  type CampaignScheduleDates,
+  type DialRateLimits,
+  type RetryPolicy,
+  type SpendCaps,
+} from "@/features/campaigns/types/campaign.types";
 
 interface CampaignCreationWizardProps {
   onClose: () => void;
@@ -56,27 +87,20 @@ interface CampaignFormData {
   name: string;
   description: string;
   agent_id: string;
-  contact_group_id: string;
+  contact_group_ids: string[];
   concurrent_calls: number;
   max_retry_days: number;
-  calling_hours: {
-    start: string;
-    end: string;
-  };
-  active_days: string[];
-  selectedVariables: StandardVariableMapping[];
+  weekly_schedule: WeeklySchedule;
+  schedule: CampaignScheduleDates;
+  retry_policy: RetryPolicy;
+  rate_limits: DialRateLimits;
+  spend_caps: SpendCaps;
+  caller_id_pool: CallerIdPoolEntry[];
+  queue_order: QueueOrder;
+  agent_variants: AgentVariantEntry[];
+  group_variables: Record<string, StandardVariableMapping[]>; // field mappings per contact group
 }
 
-const DAYS_OF_WEEK = [
-  { value: 'mon', label: 'Monday' },
-  { value: 'tue', label: 'Tuesday' },
-  { value: 'wed', label: 'Wednesday' },
-  { value: 'thu', label: 'Thursday' },
-  { value: 'fri', label: 'Friday' },
-  { value: 'sat', label: 'Saturday' },
-  { value: 'sun', label: 'Sunday' },
-];
-
 const FIELD_NAME_SUGGESTIONS: Record<string, string> = {
   'first_name': 'firstName',
   'last_name': 'lastName',
@@ -97,9 +121,13 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
   const [currentStep, setCurrentStep] = useState(1);
   const [loading, setLoading] = useState(false);
   const [contactGroups, setContactGroups] = useState<ContactGroup[]>([]);
-  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
-  const [selectedContactGroup, setSelectedContactGroup] = useState<ContactGroup | null>(null);
+  const [groupDetails, setGroupDetails] = useState<Record<string, ContactGroup>>({});
+  const [mappingGroupId, setMappingGroupId] = useState('');
   const [openCategories, setOpenCategories] = useState<Record<string, boolean>>({});
+  const [retryRulesOpen, setRetryRulesOpen] = useState(false);
+  const [callerIdPoolOpen, setCallerIdPoolOpen] = useState(false);
+  const [queueOrderOpen, setQueueOrderOpen] = useState(false);
+  const [abTestOpen, setAbTestOpen] = useState(false);
   const { toast } = useToast();
   
   // Use React Query hook for agents
@@ -109,27 +137,24 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
     name: '',
     description: '',
     agent_id: '',
-    contact_group_id: '',
+    contact_group_ids: [],
     concurrent_calls: 5,
     max_retry_days: 3,
-    calling_hours: {
-      start: '09:00',
-      end: '17:00',
-    },
-    active_days: ['mon', 'tue', 'wed', 'thu', 'fri'],
-    selectedVariables: []
+    weekly_schedule: getDefaultWeeklySchedule(),
+    schedule: getDefaultSchedule(),
+    retry_policy: getDefaultRetryPolicy(),
+    rate_limits: getDefaultRateLimits(),
+    spend_caps: getDefaultSpendCaps(),
+    caller_id_pool: [],
+    queue_order: getDefaultQueueOrder(),
+    agent_variants: [],
+    group_variables: {}
   });
 
   useEffect(() => {
     fetchContactGroups();
   }, []);
 
-  useEffect(() => {
-    if (formData.contact_group_id) {
-      fetchContactGroupDetails(formData.contact_group_id);
-    }
-  }, [formData.contact_group_id]);
-
   const fetchContactGroups = async () => {
     try {
       const groups = await contactsService.getActiveGroups();
@@ -150,8 +175,7 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
       const contactGroup = await contactsService.getGroupById(groupId);
 
       if (contactGroup) {
-        setSelectedContactGroup(contactGroup);
-        setCsvHeaders(contactGroup.csv_headers || []);
+        setGroupDetails(prev => ({ ...prev, [groupId]: contactGroup }));
         
         // Initialize standard variable mappings with auto-mapping
         const variableMappings: StandardVariableMapping[] = STANDARD_VARIABLES.map(variable => {
@@ -173,7 +197,7 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
 
         setFormData(prev => ({
           ...prev,
-          selectedVariables: variableMappings
+          group_variables: { ...prev.group_variables, [groupId]: variableMappings }
         }));
 
         // Initialize open categories with Contact Information open
@@ -192,16 +216,41 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
   const updateVariableMapping = (variableKey: string, updates: Partial<StandardVariableMapping>) => {
     setFormData(prev => ({
       ...prev,
-      selectedVariables: prev.selectedVariables.map(mapping =>
-        mapping.variableKey === variableKey ? { ...mapping, ...updates } : mapping
-      )
+      group_variables: {
+        ...prev.group_variables,
+        [mappingGroupId]: (prev.group_variables[mappingGroupId] || []).map(mapping =>
+          mapping.variableKey === variableKey ? { ...mapping, ...updates } : mapping
+        )
+      }
     }));
   };
 
+  const toggleContactGroup = (groupId: string, checked: boolean) => {
+    const contact_group_ids = checked
+      ? [...formData.contact_group_ids, groupId]
+      : formData.contact_group_ids.filter(id => id !== groupId);
+
+    setFormData(prev => ({ ...prev, contact_group_ids }));
+
+    // Field mappings are auto-mapped once per group and kept if the group is deselected and picked again
+    if (checked && !groupDetails[groupId]) {
+      fetchContactGroupDetails(groupId);
+    }
+    if (!contact_group_ids.includes(mappingGroupId)) {
+      setMappingGroupId(contact_group_ids[0] || '');
+    }
+  };
+
+  // Field mappings of the group being edited in the contact information step
+  const selectedVariables = formData.group_variables[mappingGroupId] || [];
+  const csvHeaders = groupDetails[mappingGroupId]?.csv_headers || [];
+  const selectedGroupsContacts = formData.contact_group_ids
+    .reduce((sum, groupId) => sum + (contactGroups.find(g => g.id === groupId)?.total_contacts || 0), 0);
+
   const validateStep = (step: number): boolean => {
     switch (step) {
-      case 1:
-        if (!formData.name || !formData.agent_id || !formData.contact_group_id) {
+      case 1: {
+        if (!formData.name || !formData.agent_id || formData.contact_group_ids.length === 0) {
           toast({
             title: "Missing Information",
             description: "Please fill in all required fields.",
@@ -209,37 +258,90 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
           });
           return false;
         }
-        return true;
-      case 2:
-        if (formData.active_days.length === 0) {
+        const variantsError = validateAgentVariants(formData.agent_variants);
+        if (variantsError) {
+          setAbTestOpen(true);
           toast({
-            title: "No Active Days",
-            description: "Please select at least one day for calling.",
+            title: "Invalid A/B Test",
+            description: variantsError,
             variant: "destructive",
           });
           return false;
         }
         return true;
-      case 3:
-        const phoneNumberMapping = formData.selectedVariables.find(v => v.variableKey === 'phone_number');
-        if (!phoneNumberMapping?.isSelected || !phoneNumberMapping?.csvHeader) {
+      }
+      case 2: {
+        const scheduleError = validateWeeklySchedule(formData.weekly_schedule);
+        if (scheduleError) {
           toast({
-            title: "Phone Number Required",
-            description: "Phone number must be mapped and selected for AI calling.",
+            title: "Invalid Calling Hours",
+            description: scheduleError,
             variant: "destructive",
           });
           return false;
         }
-        
-        const hasSelectedFields = formData.selectedVariables.some(v => v.isSelected && v.csvHeader);
-        if (!hasSelectedFields) {
+        const voicemailError = formData.retry_policy.voicemail_drop && validateVoicemailDrop(formData.retry_policy.voicemail_drop);
+        if (voicemailError) {
+          setRetryRulesOpen(true);
           toast({
-            title: "No Fields Selected",
-            description: "Please select at least one field to share with the AI.",
+            title: "Invalid Voicemail Drop",
+            description: voicemailError,
             variant: "destructive",
           });
           return false;
         }
+        const queueOrderError = validateQueueOrder(formData.queue_order);
+        if (queueOrderError) {
+          setQueueOrderOpen(true);
+          toast({
+            title: "Invalid Call Order",
+            description: queueOrderError,
+            variant: "destructive",
+          });
+          return false;
+        }
+        if (formData.schedule.ends_at) {
+          const endsAt = new Date(formData.schedule.ends_at);
+          const startsAt = formData.schedule.starts_at ? new Date(formData.schedule.starts_at) : new Date();
+          if (endsAt <= startsAt) {
+            toast({
+              title: "Invalid Schedule",
+              description: "The end date must be after the start date.",
+              variant: "destructive",
+            });
+            return false;
+          }
+        }
+        return true;
+      }
+      case 3:
+        // Every group needs its own phone number mapping and at least one shared field
+        for (const groupId of formData.contact_group_ids) {
+          const variables = formData.group_variables[groupId] || [];
+          const groupName = groupDetails[groupId]?.name || 'the contact group';
+
+          const phoneNumberMapping = variables.find(v => v.variableKey === 'phone_number');
+          if (!phoneNumberMapping?.isSelected || !phoneNumberMapping?.csvHeader) {
+            setMappingGroupId(groupId);
+            toast({
+              title: "Phone Number Required",
+              description: `Phone number must be mapped and selected for AI calling in ${groupName}.`,
+              variant: "destructive",
+            });
+            return false;
+          }
+
+          const hasSelectedFields = variables.some(v => v.isSelected && v.csvHeader);
+          if (!hasSelectedFields) {
+            setMappingGroupId(groupId);
+            toast({
+              title: "No Fields Selected",
+              description: `Please select at least one field of ${groupName} to share with the AI.`,
+              variant: "destructive",
+            });
+            return false;
+          }
+        }
         return true;
       default:
         return true;
@@ -256,6 +358,42 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
     setCurrentStep(prev => prev - 1);
   };
 
+  // Campaign columns that drive dialing, shared by the launch and the dial plan estimate
+  const getDialingFields = () => ({
+    concurrent_calls: formData.concurrent_calls,
+    max_retry_days: formData.max_retry_days,
+    weekly_schedule: formData.weekly_schedule,
+    // Legacy single-window columns, kept for older readers
+    calling_hours: getScheduleBounds(formData.weekly_schedule),
+    active_days: DAY_KEYS.filter(day => formData.weekly_schedule[day].length > 0),
+    settings: {
+      retry_policy: formData.retry_policy,
+      rate_limits: formData.rate_limits,
+      spend_caps: formData.spend_caps,
+      queue_order: { ...formData.queue_order, tiers: formData.queue_order.tiers.filter(tier => tier.trim() !== '') }
+    },
+    starts_at: formData.schedule.starts_at ? new Date(formData.schedule.starts_at).toISOString() : null,
+    ends_at: formData.schedule.ends_at ? new Date(formData.schedule.ends_at).toISOString() : null,
+    blackout_dates: formData.schedule.blackout_dates,
+    holiday_calendar: formData.schedule.holiday_calendar,
+    timezone: userTimezone
+  });
+
+  const getForecastInput = (): ForecastInput => ({
+    contacts: selectedGroupsContacts,
+    weekly_schedule: formData.weekly_schedule,
+    timezone: userTimezone,
+    concurrent_calls: formData.concurrent_calls,
+    max_retry_days: formData.max_retry_days,
+    retry_rules: formData.retry_policy.rules,
+    rate_limits: formData.rate_limits,
+    spend_caps: formData.spend_caps,
+    starts_at: formData.schedule.starts_at ? new Date(formData.schedule.starts_at).toISOString() : null,
+    ends_at: formData.schedule.ends_at ? new Date(formData.schedule.ends_at).toISOString() : null,
+    blackout_dates: formData.schedule.blackout_dates,
+    holiday_calendar: formData.schedule.holiday_calendar
+  });
+
   const handleLaunch = async () => {
     setLoading(true);
     try {
@@ -271,11 +409,16 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
         return;
       }
 
+      // Every agent of an A/B test needs its prompt built and must be free
+      const campaignAgentIds = formData.agent_variants.length > 0
+        ? formData.agent_variants.map(variant => variant.agent_id)
+        : [formData.agent_id];
+
       // Check if agent is already linked to another active campaign
       const { data: existingCampaigns, error: campaignCheckError } = await supabase
         .from('campaigns')
         .select('id, name, status')
-        .eq('agent_id', formData.agent_id)
+        .in('agent_id', campaignAgentIds)
         .in('status', ['scheduled', 'active']);
 
       if (campaignCheckError) {
@@ -297,93 +440,102 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
         return;
       }
 
-      // Prepare field mappings and selected fields
-      const selectedFields = formData.selectedVariables
-        .filter(v => v.isSelected && v.csvHeader)
-        .map(v => v.variableKey);
-      
-      const fieldMappings = formData.selectedVariables
-        .filter(v => v.isSelected && v.csvHeader)
-        .reduce((acc, v) => ({ ...acc, [v.variableKey]: v.csvHeader }), {});
+      // Prepare field mappings and selected fields for each contact group
+      const groupFields = formData.contact_group_ids.map((groupId, position) => {
+        const variables = (formData.group_variables[groupId] || []).filter(v => v.isSelected && v.csvHeader);
+        return {
+          contact_group_id: groupId,
+          position,
+          selected_fields: variables.map(v => v.variableKey),
+          field_mappings: variables.reduce((acc, v) => ({ ...acc, [v.variableKey]: v.csvHeader }), {})
+        };
+      });
 
-      // Build dynamic prompt with selected fields and update Retell LLM
-      try {
-        const { data: promptData, error: promptError } = await supabase.functions.invoke('build-prompt', {
-          body: {
-            agentId: formData.agent_id,
-            selectedFields,
-            fieldMappings
-          }
-        });
+      // The agent prompt covers every field shared in any of the groups
+      const selectedFields = [...new Set(groupFields.flatMap(group => group.selected_fields))];
+      const fieldMappings = Object.assign({}, ...groupFields.map(group => group.field_mappings));
 
-        if (promptError) {
-          console.error('Failed to build dynamic prompt:', promptError);
-          toast({
-            title: "Prompt Update Failed",
-            description: "Failed to update AI agent prompt. Campaign may not work correctly.",
-            variant: "destructive",
+      // Build dynamic prompt with selected fields and update Retell LLM
+      for (const agentId of campaignAgentIds) {
+        try {
+          const { data: promptData, error: promptError } = await supabase.functions.invoke('build-prompt', {
+            body: {
+              agentId,
+              selectedFields,
+              fieldMappings
+            }
           });
-          // Don't continue with campaign creation if prompt building fails
-          return;
-        } else {
-          console.log('Dynamic prompt built successfully:', promptData?.cached ? 'from cache' : 'freshly built');
-          
-          // Check if LLM was updated successfully
-          if (!promptData?.llm_updated) {
-            console.warn('LLM update failed:', promptData?.llm_error);
+
+          if (promptError) {
+            console.error('Failed to build dynamic prompt:', promptError);
             toast({
-              title: "AI Agent Update Warning",
-              description: promptData?.llm_error || "Failed to update AI agent. Campaign may not work correctly.",
+              title: "Prompt Update Failed",
+              description: "Failed to update AI agent prompt. Campaign may not work correctly.",
               variant: "destructive",
             });
-            // Don't continue if LLM update failed
+            // Don't continue with campaign creation if prompt building fails
             return;
-          }
+          } else {
+            console.log('Dynamic prompt built successfully:', promptData?.cached ? 'from cache' : 'freshly built');
+          
+            // Check if LLM was updated successfully
+            if (!promptData?.llm_updated) {
+              console.warn('LLM update failed:', promptData?.llm_error);
+              toast({
+                title: "AI Agent Update Warning",
+                description: promptData?.llm_error || "Failed to update AI agent. Campaign may not work correctly.",
+                variant: "destructive",
+              });
+              // Don't continue if LLM update failed
+              return;
+            }
           
+            toast({
+              title: "AI Agent Updated",
+              description: "Agent prompt updated successfully with campaign data.",
+            });
+          }
+        } catch (promptBuildError) {
+          console.error('Error building dynamic prompt:', promptBuildError);
           toast({
-            title: "AI Agent Updated",
-            description: "Agent prompt updated successfully with campaign data.",
+            title: "Update Failed",
+            description: "Failed to update AI agent. Please try again.",
+            variant: "destructive",
           });
+          return;
         }
-      } catch (promptBuildError) {
-        console.error('Error building dynamic prompt:', promptBuildError);
-        toast({
-          title: "Update Failed",
-          description: "Failed to update AI agent. Please try again.",
-          variant: "destructive",
-        });
-        return;
       }
 
+      // Campaigns with a future start date wait as 'scheduled' until process-campaign activates them
+      const startsAt = formData.schedule.starts_at ? new Date(formData.schedule.starts_at) : null;
+      const isScheduled = !!startsAt && startsAt > new Date();
+
       // Create campaign
       const campaignData = await campaignsService.create({
         name: formData.name,
         description: formData.description,
         agent_id: formData.agent_id,
-        contact_group_id: formData.contact_group_id,
-        concurrent_calls: formData.concurrent_calls,
-        max_retry_days: formData.max_retry_days,
-        calling_hours: formData.calling_hours,
-        active_days: formData.active_days,
-        timezone: userTimezone,
-        status: 'active',
-        started_at: new Date().toISOString()
+        // Legacy single-group column, kept for older readers
+        contact_group_id: formData.contact_group_ids[0],
+        ...getDialingFields(),
+        status: isScheduled ? 'scheduled' : 'active',
+        started_at: isScheduled ? null : new Date().toISOString()
       });
 
       const { error: contactsError } = await supabase
         .from('campaign_contacts')
-        .insert({
-          campaign_id: campaignData.id,
-          contact_group_id: formData.contact_group_id,
-          selected_fields: selectedFields,
-          field_mappings: fieldMappings
-        });
+        .insert(groupFields.map(group => ({ ...group, campaign_id: campaignData.id })));
 
       if (contactsError) throw contactsError;
 
+      await campaignsService.setCallerIdPool(campaignData.id, formData.caller_id_pool);
+      await campaignsService.setAgentVariants(campaignData.id, formData.agent_variants);
+
       toast({
-        title: "Campaign Launched!",
-        description: "Your campaign has been started successfully.",
+        title: isScheduled ? "Campaign Scheduled!" : "Campaign Launched!",
+        description: isScheduled
+          ? `Your campaign will start on ${startsAt.toLocaleString()}.`
+          : "Your campaign has been started successfully.",
       });
       onSuccess();
     } catch (error) {
@@ -427,7 +579,12 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
               <LabelWithRequired htmlFor="agent" required>Select AI Agent</LabelWithRequired>
               <Select
                 value={formData.agent_id}
-                onValueChange={(value) => setFormData(prev => ({ ...prev, agent_id: value }))}
+                onValueChange={(value) => setFormData(prev => ({
+                  ...prev,
+                  agent_id: value,
+                  // Variant A always uses the campaign agent
+                  agent_variants: prev.agent_variants.map((variant, index) => (index === 0 ? { ...variant, agent_id: value } : variant))
+                }))}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Choose an agent" />
@@ -442,60 +599,91 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
               </Select>
             </div>
 
+            {formData.agent_id && (
+              <Collapsible open={abTestOpen} onOpenChange={setAbTestOpen}>
+                <CollapsibleTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    className="w-full justify-between p-4 h-auto border rounded-lg hover:bg-muted/50"
+                    aria-expanded={abTestOpen}
+                  >
+                    <span className="font-medium">A/B Test</span>
+                    <CaretDown className={`h-4 w-4 transition-transform ${abTestOpen ? 'rotate-180' : ''}`} />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="mt-3">
+                  <AgentVariantSettings
+                    value={formData.agent_variants}
+                    onChange={(agent_variants) => setFormData(prev => ({ ...prev, agent_variants }))}
+                    primaryAgentId={formData.agent_id}
+                    agents={agents}
+                  />
+                </CollapsibleContent>
+              </Collapsible>
+            )}
+
             <div className="space-y-4">
               <div className="space-y-2">
                 <Label className="text-lg font-medium flex items-center gap-2">
                   <Users className="h-5 w-5" />
                   Select Contacts
                 </Label>
-                <Select
-                  value={formData.contact_group_id}
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, contact_group_id: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Choose a contact group" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {contactGroups.map(group => (
-                      <SelectItem key={group.id} value={group.id}>
-                        {group.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Choose one or more contact groups. Numbers that appear in more than one group are only called once.
+                </p>
               </div>
 
-              {selectedContactGroup && (
-                <Card className="border-l-4 border-l-primary">
-                  <CardContent className="pt-4">
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <h4 className="font-medium">{selectedContactGroup.name}</h4>
-                        <Badge variant="secondary" className="flex items-center gap-1">
-                          <Users className="h-3 w-3" />
-                          {selectedContactGroup.total_contacts} contacts available
-                        </Badge>
-                      </div>
-                      {selectedContactGroup.description && (
-                        <p className="text-sm text-muted-foreground">{selectedContactGroup.description}</p>
-                      )}
-                      {csvHeaders.length > 0 && (
-                        <div className="flex flex-wrap gap-1 mt-2">
-                          {csvHeaders.slice(0, 5).map((header: string) => (
-                            <Badge key={header} variant="outline" className="text-xs">
-                              {header}
-                            </Badge>
-                          ))}
-                          {csvHeaders.length > 5 && (
-                            <Badge variant="outline" className="text-xs">
-                              +{csvHeaders.length - 5} more
+              <div className="space-y-2">
+                {contactGroups.map(group => {
+                  const selected = formData.contact_group_ids.includes(group.id);
+                  const headers = groupDetails[group.id]?.csv_headers || [];
+
+                  return (
+                    <Card key={group.id} className={selected ? "border-l-4 border-l-primary" : undefined}>
+                      <CardContent className="pt-4">
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                              <Checkbox
+                                id={`contact-group-${group.id}`}
+                                checked={selected}
+                                onCheckedChange={(checked) => toggleContactGroup(group.id, !!checked)}
+                              />
+                              <Label htmlFor={`contact-group-${group.id}`} className="font-medium">{group.name}</Label>
+                            </div>
+                            <Badge variant="secondary" className="flex items-center gap-1">
+                              <Users className="h-3 w-3" />
+                              {group.total_contacts} contacts available
                             </Badge>
+                          </div>
+                          {selected && group.description && (
+                            <p className="text-sm text-muted-foreground">{group.description}</p>
+                          )}
+                          {selected && headers.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {headers.slice(0, 5).map((header: string) => (
+                                <Badge key={header} variant="outline" className="text-xs">
+                                  {header}
+                                </Badge>
+                              ))}
+                              {headers.length > 5 && (
+                                <Badge variant="outline" className="text-xs">
+                                  +{headers.length - 5} more
+                                </Badge>
+                              )}
+                            </div>
                           )}
                         </div>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+
+              {formData.contact_group_ids.length > 1 && (
+                <p className="text-sm text-muted-foreground">
+                  {formData.contact_group_ids.length} groups selected · {selectedGroupsContacts} contacts before de-duplication
+                </p>
               )}
             </div>
           </div>
@@ -522,6 +710,95 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label>Dialing Rate Limits</Label>
+              <div className="grid grid-cols-3 gap-3">
+                {([
+                  { key: 'per_minute', label: 'Per minute' },
+                  { key: 'per_hour', label: 'Per hour' },
+                  { key: 'per_day', label: 'Per day' },
+                ] as const).map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`rate-limit-${key}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`rate-limit-${key}`}
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      value={formData.rate_limits[key] ?? ''}
+                      onChange={(e) => {
+                        const parsed = parseInt(e.target.value, 10);
+                        setFormData(prev => ({
+                          ...prev,
+                          rate_limits: { ...prev.rate_limits, [key]: Number.isNaN(parsed) ? null : Math.max(1, parsed) }
+                        }));
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Maximum calls this campaign may place. Account and phone number limits also apply.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Spend Caps</Label>
+              <div className="grid grid-cols-3 gap-3">
+                {([
+                  { key: 'max_daily_cents', label: 'Per day ($)' },
+                  { key: 'max_total_cents', label: 'Total ($)' },
+                  { key: 'max_cost_per_appointment_cents', label: 'Per appointment ($)' },
+                ] as const).map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`spend-cap-${key}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`spend-cap-${key}`}
+                      type="number"
+                      min={1}
+                      step={1}
+                      placeholder="No cap"
+                      value={formData.spend_caps[key] === null ? '' : formData.spend_caps[key] / 100}
+                      onChange={(e) => {
+                        const parsed = parseFloat(e.target.value);
+                        setFormData(prev => ({
+                          ...prev,
+                          spend_caps: { ...prev.spend_caps, [key]: Number.isNaN(parsed) ? null : Math.max(1, Math.round(parsed * 100)) }
+                        }));
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                The campaign pauses automatically when a cap is reached. The daily budget resets at midnight in the campaign timezone.
+              </p>
+            </div>
+
+            <Collapsible open={callerIdPoolOpen} onOpenChange={setCallerIdPoolOpen}>
+              <CollapsibleTrigger asChild>
+                <Button
+                  variant="ghost"
+                  className="w-full justify-between p-4 h-auto border rounded-lg hover:bg-muted/50"
+                  aria-expanded={callerIdPoolOpen}
+                >
+                  <span className="font-medium">
+                    Caller ID Pool
+                    {formData.caller_id_pool.length > 0 && (
+                      <Badge variant="secondary" className="ml-2">{formData.caller_id_pool.length} selected</Badge>
+                    )}
+                  </span>
+                  <CaretDown className={`h-4 w-4 transition-transform ${callerIdPoolOpen ? 'rotate-180' : ''}`} />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3">
+                <CallerIdPoolSettings
+                  value={formData.caller_id_pool}
+                  onChange={(caller_id_pool) => setFormData(prev => ({ ...prev, caller_id_pool }))}
+                />
+              </CollapsibleContent>
+            </Collapsible>
+
             <div className="space-y-2">
               <Label>Max Retry Days</Label>
               <div className="flex items-center gap-4">
@@ -536,65 +813,66 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
                 <span className="w-12 text-center font-medium">{formData.max_retry_days}</span>
               </div>
               <p className="text-sm text-muted-foreground">
-                Number of additional days to retry unanswered calls. Each retry will be at a different time within your calling hours.
+                Number of days after the first attempt during which contacts can be retried. The retry rules below decide which outcomes are retried and how often.
               </p>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="start-time">Start Time</Label>
-                <Input
-                  id="start-time"
-                  type="time"
-                  value={formData.calling_hours.start}
-                  onChange={(e) => setFormData(prev => ({
-                    ...prev,
-                    calling_hours: { ...prev.calling_hours, start: e.target.value }
-                  }))}
+            <Collapsible open={retryRulesOpen} onOpenChange={setRetryRulesOpen}>
+              <CollapsibleTrigger asChild>
+                <Button
+                  variant="ghost"
+                  className="w-full justify-between p-4 h-auto border rounded-lg hover:bg-muted/50"
+                  aria-expanded={retryRulesOpen}
+                >
+                  <span className="font-medium">Retry Rules</span>
+                  <CaretDown className={`h-4 w-4 transition-transform ${retryRulesOpen ? 'rotate-180' : ''}`} />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3">
+                <RetryPolicySettings
+                  value={formData.retry_policy}
+                  onChange={(retry_policy) => setFormData(prev => ({ ...prev, retry_policy }))}
                 />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="end-time">End Time</Label>
-                <Input
-                  id="end-time"
-                  type="time"
-                  value={formData.calling_hours.end}
-                  onChange={(e) => setFormData(prev => ({
-                    ...prev,
-                    calling_hours: { ...prev.calling_hours, end: e.target.value }
-                  }))}
+              </CollapsibleContent>
+            </Collapsible>
+
+            <Collapsible open={queueOrderOpen} onOpenChange={setQueueOrderOpen}>
+              <CollapsibleTrigger asChild>
+                <Button
+                  variant="ghost"
+                  className="w-full justify-between p-4 h-auto border rounded-lg hover:bg-muted/50"
+                  aria-expanded={queueOrderOpen}
+                >
+                  <span className="font-medium">Call Order</span>
+                  <CaretDown className={`h-4 w-4 transition-transform ${queueOrderOpen ? 'rotate-180' : ''}`} />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3">
+                <QueueOrderSettings
+                  value={formData.queue_order}
+                  onChange={(queue_order) => setFormData(prev => ({ ...prev, queue_order }))}
+                  contactGroupIds={formData.contact_group_ids}
                 />
-              </div>
+              </CollapsibleContent>
+            </Collapsible>
+
+            <div className="space-y-2">
+              <Label>Calling Hours</Label>
+              <WeeklyScheduleEditor
+                value={formData.weekly_schedule}
+                onChange={(weekly_schedule) => setFormData(prev => ({ ...prev, weekly_schedule }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Times are in each contact's local timezone
+              </p>
             </div>
 
             <div className="space-y-2">
-              <Label>Active Days</Label>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                {DAYS_OF_WEEK.map(day => (
-                  <div key={day.value} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={day.value}
-                      checked={formData.active_days.includes(day.value)}
-                      onCheckedChange={(checked) => {
-                        if (checked) {
-                          setFormData(prev => ({
-                            ...prev,
-                            active_days: [...prev.active_days, day.value]
-                          }));
-                        } else {
-                          setFormData(prev => ({
-                            ...prev,
-                            active_days: prev.active_days.filter(d => d !== day.value)
-                          }));
-                        }
-                      }}
-                    />
-                    <Label htmlFor={day.value} className="cursor-pointer">
-                      {day.label}
-                    </Label>
-                  </div>
-                ))}
-              </div>
+              <Label>Schedule</Label>
+              <CampaignScheduleSettings
+                value={formData.schedule}
+                onChange={(schedule) => setFormData(prev => ({ ...prev, schedule }))}
+              />
             </div>
           </div>
         );
@@ -611,6 +889,27 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
               </p>
             </div>
 
+            {formData.contact_group_ids.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="mapping-group">Field mappings for</Label>
+                <Select value={mappingGroupId} onValueChange={setMappingGroupId}>
+                  <SelectTrigger id="mapping-group">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {formData.contact_group_ids.map(groupId => (
+                      <SelectItem key={groupId} value={groupId}>
+                        {groupDetails[groupId]?.name || contactGroups.find(g => g.id === groupId)?.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Each group is mapped separately, since their CSV columns can differ
+                </p>
+              </div>
+            )}
+
             <div className="space-y-4">
               {Object.entries(categories).map(([categoryName, variables]) => (
                 <Collapsible
@@ -637,7 +936,7 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
                   <CollapsibleContent id={`category-content-${categoryName.replace(/\s+/g, '-')}`}>
                     <div className="space-y-3 mt-3 ml-4">
                       {variables.map(variable => {
-                        const mapping = formData.selectedVariables.find(v => v.variableKey === variable.key);
+                        const mapping = selectedVariables.find(v => v.variableKey === variable.key);
                         if (!mapping) return null;
 
                         return (
@@ -706,7 +1005,7 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
               </CardHeader>
               <CardContent>
                 <div className="text-xs space-y-1">
-                  {formData.selectedVariables
+                  {selectedVariables
                     .filter(v => v.isSelected && v.csvHeader)
                     .map(v => {
                       const variable = STANDARD_VARIABLES.find(sv => sv.key === v.variableKey);
@@ -716,7 +1015,7 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
                         </div>
                       );
                     })}
-                  {formData.selectedVariables.filter(v => v.isSelected && v.csvHeader).length === 0 && (
+                  {selectedVariables.filter(v => v.isSelected && v.csvHeader).length === 0 && (
                     <div className="text-muted-foreground">No fields selected</div>
                   )}
                 </div>
@@ -737,15 +1036,80 @@ export function CampaignCreationWizard({ onClose, onSuccess, userTimezone = 'Ame
               <CardContent className="space-y-2 text-sm">
                 <div><strong>Name:</strong> {formData.name}</div>
                 <div><strong>Agent:</strong> {agents.find(a => a.id === formData.agent_id)?.name}</div>
-                <div><strong>Contact Group:</strong> {contactGroups.find(g => g.id === formData.contact_group_id)?.name}</div>
-                <div><strong>Selected Fields:</strong> {formData.selectedVariables.filter(v => v.isSelected && v.csvHeader).length} fields</div>
+                {formData.agent_variants.length > 0 && (
+                  <div>
+                    <strong>A/B Test:</strong>{' '}
+                    {formData.agent_variants
+                      .map((variant, index) => `${variantLabel(index)} ${agents.find(a => a.id === variant.agent_id)?.name} (${getTrafficShares(formData.agent_variants)[index]}%)`)
+                      .join(' · ')}
+                  </div>
+                )}
+                <div>
+                  <strong>{formData.contact_group_ids.length > 1 ? 'Contact Groups' : 'Contact Group'}:</strong>{' '}
+                  {formData.contact_group_ids.map(groupId => contactGroups.find(g => g.id === groupId)?.name).join(', ')}
+                </div>
+                <div>
+                  <strong>Selected Fields:</strong>{' '}
+                  {formData.contact_group_ids
+                    .map(groupId => (formData.group_variables[groupId] || []).filter(v => v.isSelected && v.csvHeader).length)
+                    .join(' / ')} fields
+                </div>
                 <div><strong>Concurrent Calls:</strong> {formData.concurrent_calls}</div>
+                <div>
+                  <strong>Rate Limits:</strong>{' '}
+                  {formData.rate_limits.per_minute ?? '∞'}/min, {formData.rate_limits.per_hour ?? '∞'}/hr, {formData.rate_limits.per_day ?? '∞'}/day
+                </div>
+                <div>
+                  <strong>Spend Caps:</strong>{' '}
+                  {[
+                    formData.spend_caps.max_daily_cents !== null && `${formatCredits(formData.spend_caps.max_daily_cents)}/day`,
+                    formData.spend_caps.max_total_cents !== null && `${formatCredits(formData.spend_caps.max_total_cents)} total`,
+                    formData.spend_caps.max_cost_per_appointment_cents !== null && `${formatCredits(formData.spend_caps.max_cost_per_appointment_cents)}/appointment`
+                  ].filter(Boolean).join(', ') || 'None'}
+                </div>
+                <div>
+                  <strong>Caller IDs:</strong>{' '}
+                  {formData.caller_id_pool.length > 0
+                    ? `${formData.caller_id_pool.length} numbers (local presence)`
+                    : "Agent's phone number"}
+                </div>
+                <div>
+                  <strong>Call Order:</strong>{' '}
+                  {QUEUE_ORDER_STRATEGIES.find(strategy => strategy.value === formData.queue_order.strategy)?.label}
+                  {formData.queue_order.strategy === 'field' && formData.queue_order.field && ` (${formData.queue_order.field})`}
+                </div>
                 <div><strong>Retry Days:</strong> {formData.max_retry_days}</div>
-                <div><strong>Calling Hours:</strong> {formData.calling_hours.start} - {formData.calling_hours.end}</div>
-                <div><strong>Active Days:</strong> {formData.active_days.map(d => DAYS_OF_WEEK.find(day => day.value === d)?.label).join(', ')}</div>
+                <div>
+                  <strong>Retried Outcomes:</strong>{' '}
+                  {RETRY_OUTCOMES
+                    .filter(outcome => formData.retry_policy.rules[outcome.value].enabled)
+                    .map(outcome => outcome.label)
+                    .join(', ') || 'None'}
+                </div>
+                <div><strong>Voicemail:</strong> {describeVoicemailDrop(formData.retry_policy.voicemail_drop)}</div>
+                <div><strong>Calling Hours:</strong> {formatWeeklySchedule(formData.weekly_schedule)}</div>
+                <div>
+                  <strong>Schedule:</strong>{' '}
+                  {formData.schedule.starts_at ? new Date(formData.schedule.starts_at).toLocaleString() : 'Starts immediately'}
+                  {formData.schedule.ends_at && ` – ${new Date(formData.schedule.ends_at).toLocaleString()}`}
+                </div>
+                {(formData.schedule.blackout_dates.length > 0 || formData.schedule.holiday_calendar) && (
+                  <div>
+                    <strong>Skipped Dates:</strong>{' '}
+                    {[
+                      formData.schedule.blackout_dates.length > 0 && `${formData.schedule.blackout_dates.length} blackout dates`,
+                      formData.schedule.holiday_calendar === 'us_federal' && 'US federal holidays'
+                    ].filter(Boolean).join(', ')}
+                  </div>
+                )}
               </CardContent>
             </Card>
             
+            <LaunchForecast
+              input={getForecastInput()}
+              onSimulate={() => campaignsService.simulate(getDialingFields(), formData.contact_group_ids)}
+            />
+
             <div className="bg-warning/10 border border-warning p-4 rounded-lg">
               <p className="text-sm">
                 <strong>Important:</strong> Once launched, your campaign will begin calling contacts immediately during the specified hours.
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, X } from "@phosphor-icons/react";
+import { getUpcomingHolidays } from "@/lib/holidays";
+import type { CampaignScheduleDates } from "@/features/campaigns/types/campaign.types";
+
+interface CampaignScheduleSettingsProps {
+  value: CampaignScheduleDates;
+  onChange: (schedule: CampaignScheduleDates) => void;
+}
+
+// Dates are stored as YYYY-MM-DD; parse them as local dates for display
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'EEE, MMM d, yyyy');
+
+export function CampaignScheduleSettings({ value, onChange }: CampaignScheduleSettingsProps) {
+  const [newBlackoutDate, setNewBlackoutDate] = useState('');
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const addBlackoutDate = () => {
+    if (!newBlackoutDate || value.blackout_dates.includes(newBlackoutDate)) return;
+    onChange({ ...value, blackout_dates: [...value.blackout_dates, newBlackoutDate].sort() });
+    setNewBlackoutDate('');
+  };
+
+  const removeBlackoutDate = (date: string) => {
+    onChange({ ...value, blackout_dates: value.blackout_dates.filter(d => d !== date) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-starts-at">Start</Label>
+          <Input
+            id="schedule-starts-at"
+            type="datetime-local"
+            value={value.starts_at}
+            onChange={(e) => onChange({ ...value, starts_at: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">Leave empty to start immediately</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-ends-at">End</Label>
+          <Input
+            id="schedule-ends-at"
+            type="datetime-local"
+            value={value.ends_at}
+            min={value.starts_at || undefined}
+            onChange={(e) => onChange({ ...value, ends_at: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">The campaign completes automatically at this time</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="schedule-blackout-date">Blackout Dates</Label>
+        <div className="flex gap-2">
+          <Input
+            id="schedule-blackout-date"
+            type="date"
+            min={today}
+            value={newBlackoutDate}
+            onChange={(e) => setNewBlackoutDate(e.target.value)}
+          />
+          <Button type="button" variant="outline" onClick={addBlackoutDate} disabled={!newBlackoutDate}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {value.blackout_dates.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {value.blackout_dates.map(date => (
+              <Badge key={date} variant="secondary" className="gap-1">
+                {formatDate(date)}
+                <button
+                  type="button"
+                  onClick={() => removeBlackoutDate(date)}
+                  aria-label={`Remove blackout date ${date}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">No calls are placed on these dates</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="schedule-us-holidays"
+            checked={value.holiday_calendar === 'us_federal'}
+            onCheckedChange={(checked) => onChange({ ...value, holiday_calendar: checked ? 'us_federal' : null })}
+          />
+          <Label htmlFor="schedule-us-holidays">Skip US federal holidays</Label>
+        </div>
+        {value.holiday_calendar && (
+          <p className="text-xs text-muted-foreground">
+            Upcoming: {getUpcomingHolidays(value.holiday_calendar, today, 3)
+              .map(holiday => `${holiday.name} (${formatDate(holiday.date)})`)
+              .join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
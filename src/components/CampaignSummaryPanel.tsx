@@ -0,0 +1,79 @@
+import { Badge } from "@/components/ui/badge";
+import { formatCredits } from "@/lib/credits";
+import {
+  COMPLETION_REASON_LABELS,
+  formatHourRange,
+  getOutcomeBreakdown,
+  type CampaignSummary,
+} from "@/lib/campaign-summary";
+
+interface CampaignSummaryPanelProps {
+  summary: CampaignSummary;
+}
+
+const formatDuration = (seconds: number | null) => {
+  if (!seconds) return 'N/A';
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export function CampaignSummaryPanel({ summary }: CampaignSummaryPanelProps) {
+  const outcomes = getOutcomeBreakdown(summary);
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg bg-muted/30">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Campaign Summary</span>
+        <Badge variant="outline" className="text-xs">
+          {COMPLETION_REASON_LABELS[summary.completion_reason] || summary.completion_reason}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        <div>
+          <p className="text-lg font-semibold">{summary.contacts_called} / {summary.contacts}</p>
+          <p className="text-xs text-muted-foreground">Contacts called</p>
+        </div>
+        <div>
+          <p className="text-lg font-semibold text-green-600">{summary.appointments}</p>
+          <p className="text-xs text-muted-foreground">Appointments</p>
+        </div>
+        <div>
+          <p className="text-lg font-semibold">{formatCredits(summary.spend_cents)}</p>
+          <p className="text-xs text-muted-foreground">
+            Spend{summary.cost_per_appointment_cents !== null && ` · ${formatCredits(summary.cost_per_appointment_cents)}/appt`}
+          </p>
+        </div>
+        <div>
+          <p className="text-lg font-semibold">{formatDuration(summary.avg_duration_seconds)}</p>
+          <p className="text-xs text-muted-foreground">Avg call length</p>
+        </div>
+      </div>
+
+      {outcomes.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Outcomes ({summary.calls} calls)</span>
+          <div className="flex flex-wrap gap-1">
+            {outcomes.map(({ outcome, label, calls }) => (
+              <Badge key={outcome} variant="secondary" className="text-xs">
+                {label}: {calls}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">Best hours to call</span>
+        <span>
+          {summary.best_hours.length > 0
+            ? summary.best_hours.map(slot => `${formatHourRange(slot.hour)} (${slot.connect_rate}%)`).join(', ')
+            : 'Not enough calls'}
+        </span>
+      </div>
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">Follow-ups</span>
+        <span>{summary.high_follow_up} high · {summary.medium_follow_up} medium</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowsClockwise, Gauge, GearSix, PauseCircle, Play, Plus, WarningCircle, type Icon } from "@phosphor-icons/react";
+import { campaignsService } from "@/services/campaigns.service";
+import {
+  CAMPAIGN_EVENT_ACTOR_LABELS,
+  CAMPAIGN_EVENT_LABELS,
+  describeSettingChanges,
+  formatCampaignReason,
+  type CampaignEvent,
+  type CampaignEventType,
+} from "@/lib/campaign-events";
+
+interface CampaignTimelineProps {
+  campaignId: string;
+}
+
+const EVENT_ICONS: Record<CampaignEventType, Icon> = {
+  created: Plus,
+  status_changed: ArrowsClockwise,
+  auto_paused: PauseCircle,
+  resumed: Play,
+  cap_reached: Gauge,
+  settings_changed: GearSix,
+  error: WarningCircle,
+};
+
+const EVENT_ICON_CLASSES: Partial<Record<CampaignEventType, string>> = {
+  auto_paused: 'text-warning',
+  cap_reached: 'text-warning',
+  error: 'text-destructive',
+};
+
+function describeEvent(event: CampaignEvent): string[] {
+  const lines: string[] = [];
+
+  if (event.from_status && event.to_status && event.from_status !== event.to_status) {
+    lines.push(`${event.from_status} → ${event.to_status}`);
+  }
+  if (event.reason) {
+    lines.push(formatCampaignReason(event.reason));
+  }
+  if (event.event_type === 'resumed' && event.details.previous_reason) {
+    lines.push(`Was paused for: ${formatCampaignReason(event.details.previous_reason)}`);
+  }
+  if (event.event_type === 'settings_changed') {
+    lines.push(...describeSettingChanges(event.details.changes));
+  }
+
+  return lines;
+}
+
+export function CampaignTimeline({ campaignId }: CampaignTimelineProps) {
+  const [events, setEvents] = useState<CampaignEvent[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    campaignsService.getEvents(campaignId)
+      .then(rows => {
+        if (!cancelled) setEvents(rows);
+      })
+      .catch(error => {
+        console.error('Error loading campaign activity:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  if (events.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+        <CardDescription>
+          Status changes, automatic pauses and resumes, limits, settings edits and errors, newest first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4 max-h-96 overflow-y-auto">
+          {events.map(event => {
+            const EventIcon = EVENT_ICONS[event.event_type];
+            return (
+              <li key={event.id} className="flex gap-3">
+                <EventIcon className={`h-5 w-5 mt-0.5 shrink-0 ${EVENT_ICON_CLASSES[event.event_type] || 'text-muted-foreground'}`} />
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">{CAMPAIGN_EVENT_LABELS[event.event_type]}</span>
+                    <span className="text-xs text-muted-foreground">{new Date(event.created_at).toLocaleString()}</span>
+                  </div>
+                  {describeEvent(event).map(line => (
+                    <p key={line} className="text-sm text-muted-foreground">{line}</p>
+                  ))}
+                  <Badge variant="outline" className="text-xs">{CAMPAIGN_EVENT_ACTOR_LABELS[event.actor_type]}</Badge>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Voicemail } from "@phosphor-icons/react";
+import { campaignsService } from "@/services/campaigns.service";
+import { summarizeVoicemails, type VoicemailStatsRow } from "@/lib/voicemail-drop";
+
+interface CampaignVoicemailReportProps {
+  campaignId: string;
+}
+
+export function CampaignVoicemailReport({ campaignId }: CampaignVoicemailReportProps) {
+  const [rows, setRows] = useState<VoicemailStatsRow[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    campaignsService.getVoicemailStats(campaignId)
+      .then(result => {
+        if (!cancelled) setRows(result);
+      })
+      .catch(error => {
+        console.error('Error loading voicemail report:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  const summary = useMemo(() => summarizeVoicemails(rows), [rows]);
+
+  if (summary.total === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Voicemail className="h-5 w-5" />
+          Voicemails
+        </CardTitle>
+        <CardDescription>
+          Calls that reached voicemail, and whether the campaign's voicemail drop left a message or hung up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Reached</p>
+            <p className="text-2xl font-semibold">{summary.total.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Messages left</p>
+            <p className="text-2xl font-semibold">{summary.left.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Hung up</p>
+            <p className="text-2xl font-semibold">{summary.hung_up.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Agent's setting</p>
+            <p className="text-2xl font-semibold">{summary.agent_setting.toLocaleString()}</p>
+          </div>
+        </div>
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Attempt</TableHead>
+                <TableHead className="text-right">Messages left</TableHead>
+                <TableHead className="text-right">Hung up</TableHead>
+                <TableHead className="text-right">Agent's setting</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.byAttempt.map(attempt => (
+                <TableRow key={attempt.attempt_number}>
+                  <TableCell>Attempt {attempt.attempt_number}</TableCell>
+                  <TableCell className="text-right">{attempt.left.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{attempt.hung_up.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{attempt.agent_setting.toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
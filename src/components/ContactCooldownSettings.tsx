@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Hourglass } from "@phosphor-icons/react";
+import { useToast } from "@/hooks/use-toast";
+import { contactsService } from "@/services/contacts.service";
+import { DEFAULT_COOLDOWN_RULE, type ContactCooldownRule } from "@/lib/contact-cooldown";
+
+const parseLimit = (value: string) => (value ? Math.max(1, Math.round(Number(value))) : null);
+
+export function ContactCooldownSettings() {
+  const [rule, setRule] = useState<ContactCooldownRule>(DEFAULT_COOLDOWN_RULE);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    contactsService.getCooldownRule()
+      .then(saved => {
+        if (!cancelled) setRule(saved);
+      })
+      .catch(error => {
+        console.error('Error loading cooldown rule:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateRule = (changes: Partial<ContactCooldownRule>) => {
+    setRule(prev => ({ ...prev, ...changes }));
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    if (rule.enabled && !rule.conversation_cooldown_days && !rule.max_dials_per_week) {
+      toast({
+        title: "Nothing to Enforce",
+        description: "Set a cooldown after conversations, a weekly dial limit, or both.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await contactsService.saveCooldownRule(rule);
+      setHasChanges(false);
+      toast({
+        title: "Cooldown Saved",
+        description: rule.enabled ? "Every campaign now holds numbers that are cooling down." : "The cooldown is off.",
+      });
+    } catch (error) {
+      console.error('Error saving cooldown rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the cooldown rule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="h-5 w-5" />
+              Cross-Campaign Cooldown
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Hold a number across all campaigns, even when it is in several contact groups. Callbacks a lead asked for are still made.
+            </CardDescription>
+          </div>
+          <Switch
+            checked={rule.enabled}
+            onCheckedChange={(checked) => updateRule({ enabled: checked })}
+            aria-label="Enable the cross-campaign cooldown"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="conversation-cooldown">Days after a conversation</Label>
+            <Input
+              id="conversation-cooldown"
+              type="number"
+              min={1}
+              placeholder="No cooldown"
+              value={rule.conversation_cooldown_days ?? ''}
+              onChange={(e) => updateRule({ conversation_cooldown_days: parseLimit(e.target.value) })}
+              disabled={!rule.enabled}
+            />
+            <p className="text-xs text-muted-foreground">No campaign dials the number again within this many days of a connected call.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="weekly-dials">Dials per number per week</Label>
+            <Input
+              id="weekly-dials"
+              type="number"
+              min={1}
+              placeholder="No limit"
+              value={rule.max_dials_per_week ?? ''}
+              onChange={(e) => updateRule({ max_dials_per_week: parseLimit(e.target.value) })}
+              disabled={!rule.enabled}
+            />
+            <p className="text-xs text-muted-foreground">Counted across every campaign over the last 7 days.</p>
+          </div>
+        </div>
+        {hasChanges && (
+          <Button onClick={handleSave} disabled={saving}>
+            Save Cooldown
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
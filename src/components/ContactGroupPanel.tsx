@@ -1,6 +1,6 @@
 // @ts-nocheck
-import { useState } from "react";
-import { X, DownloadSimple, Trash, Phone, CaretLeft, CaretRight } from "@phosphor-icons/react";
+import { useEffect, useState } from "react";
+import { X, DownloadSimple, Trash, Phone, CaretLeft, CaretRight, Prohibit, Hourglass } from "@phosphor-icons/react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
@@ -13,6 +13,9 @@ import { useContacts } from "@/hooks/useApiQuery";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { queryKeys } from "@/lib/queryClient";
+import { getPhoneMatchKey } from "@/lib/do-not-call";
+import { describeHeldNumber, type HeldNumber } from "@/lib/contact-cooldown";
+import { contactsService } from "@/services/contacts.service";
 import type { ContactGroup, Contact } from "@/types/contacts";
 
 interface ContactGroupPanelProps {
@@ -46,6 +49,48 @@ export function ContactGroupPanel({ contactGroup, open, onOpenChange, onGroupDel
   ) : [];
   const totalContacts = contactsData?.length || 0;
 
+  // Numbers of the contacts shown that are on the account's do-not-call list or cooling down
+  const [suppressedKeys, setSuppressedKeys] = useState<Set<string>>(new Set());
+  const [heldNumbers, setHeldNumbers] = useState<Map<string, HeldNumber>>(new Map());
+  const contactPhones = (contact: Contact) => contact.phone_numbers?.length ? contact.phone_numbers : [contact.phone_number];
+  const pagePhones = contacts.flatMap(contactPhones).filter(Boolean).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!pagePhones) return;
+
+    contactsService.getSuppressedPhoneKeys(pagePhones.split(','))
+      .then(keys => {
+        if (!cancelled) setSuppressedKeys(keys);
+      })
+      .catch(error => {
+        console.error('Error loading do-not-call numbers:', error);
+      });
+
+    contactsService.getHeldNumbers(pagePhones.split(','))
+      .then(held => {
+        if (!cancelled) setHeldNumbers(held);
+      })
+      .catch(error => {
+        console.error('Error loading held numbers:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pagePhones]);
+
+  const isSuppressed = (contact: Contact) =>
+    contactPhones(contact).some(phone => phone && suppressedKeys.has(getPhoneMatchKey(phone)));
+
+  // Why the cooldown holds a contact's numbers, or null when none is held
+  const getHoldReason = (contact: Contact) => {
+    const held = contactPhones(contact)
+      .map(phone => phone && heldNumbers.get(getPhoneMatchKey(phone)))
+      .filter((entry): entry is HeldNumber => !!entry);
+    return held.length > 0 ? held.map(describeHeldNumber).join('\n') : null;
+  };
+
   // Show error toast if fetching fails
   if (error) {
     console.error('Error fetching contacts:', error);
@@ -339,9 +384,19 @@ export function ContactGroupPanel({ contactGroup, open, onOpenChange, onGroupDel
                       </TableHeader>
                       <TableBody>
                         {contacts.map((contact) => (
-                          <TableRow key={contact.id}>
+                          <TableRow key={contact.id} className={isSuppressed(contact) ? "bg-muted/50" : undefined}>
                             <TableCell>
-                              {getStatusDot(contact.status)}
+                              {isSuppressed(contact) ? (
+                                <span title="On the do-not-call list - never called by any campaign">
+                                  <Prohibit className="h-4 w-4 text-destructive" aria-label="On the do-not-call list" />
+                                </span>
+                              ) : getHoldReason(contact) ? (
+                                <span title={`Held by the cross-campaign cooldown - ${getHoldReason(contact)}`}>
+                                  <Hourglass className="h-4 w-4 text-warning" aria-label="Held by the cross-campaign cooldown" />
+                                </span>
+                              ) : (
+                                getStatusDot(contact.status)
+                              )}
                             </TableCell>
                              {getDisplayColumns().map((column) => (
                                <TableCell key={column} className="max-w-[120px] truncate">
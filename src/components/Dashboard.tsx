@@ -50,6 +50,7 @@ import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { CallDetailsModal } from "./CallDetailsModal";
+import { CallSlotUsage } from "./CallSlotUsage";
 
 const Dashboard = memo(function Dashboard() {
   const [timePeriod, setTimePeriod] = useState("today");
@@ -436,6 +437,9 @@ const Dashboard = memo(function Dashboard() {
         )}
       </div>
 
+      {/* Live calls against the account-wide concurrency ceiling */}
+      <CallSlotUsage />
+
       {/* Main Content Grid */}
       <div className="grid gap-6 lg:grid-cols-2">
         {/* Active Campaigns - Enhanced Design */}
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import Papa from "papaparse";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MagnifyingGlass, Plus, Prohibit, Trash, UploadSimple } from "@phosphor-icons/react";
+import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/usePerformance";
+import { contactsService } from "@/services/contacts.service";
+import {
+  DO_NOT_CALL_SOURCE_LABELS,
+  extractPhoneNumbersFromCsv,
+  normalizePhoneNumber,
+  type DoNotCallNumber,
+} from "@/lib/do-not-call";
+
+export function DoNotCallList() {
+  const [numbers, setNumbers] = useState<DoNotCallNumber[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState('');
+  const [newNumbers, setNewNumbers] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const debouncedSearch = useDebounce(search, 300);
+  const { toast } = useToast();
+
+  const loadNumbers = useCallback(async () => {
+    try {
+      const result = await contactsService.getDoNotCallNumbers(debouncedSearch);
+      setNumbers(result.numbers);
+      setTotal(result.total);
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error loading do-not-call list:', error);
+    }
+  }, [debouncedSearch]);
+
+  useEffect(() => {
+    loadNumbers();
+  }, [loadNumbers]);
+
+  const addNumbers = async (phoneNumbers: string[], source: 'manual' | 'import') => {
+    setSaving(true);
+    try {
+      const added = await contactsService.addDoNotCallNumbers(phoneNumbers, source);
+      const skipped = phoneNumbers.length - added;
+      toast({
+        title: "Do-Not-Call List Updated",
+        description: `${added} number${added === 1 ? '' : 's'} added${skipped > 0 ? `, ${skipped} already on the list` : ''}. Campaigns will not call them.`,
+      });
+      await loadNumbers();
+    } catch (error) {
+      console.error('Error adding do-not-call numbers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add numbers to the do-not-call list",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const entries = newNumbers.split(/[\n,;]+/).map(entry => entry.trim()).filter(Boolean);
+    const valid = entries.map(normalizePhoneNumber).filter((phone): phone is string => !!phone);
+
+    if (valid.length < entries.length) {
+      toast({
+        title: "Invalid Numbers",
+        description: `${entries.length - valid.length} of the numbers entered are not valid phone numbers.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (valid.length === 0) return;
+
+    await addNumbers(valid, 'manual');
+    setNewNumbers('');
+  };
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    Papa.parse<unknown[]>(file, {
+      skipEmptyLines: true,
+      complete: (results) => {
+        const phoneNumbers = extractPhoneNumbersFromCsv(results.data);
+        if (phoneNumbers.length === 0) {
+          toast({
+            title: "No Numbers Found",
+            description: "The file has no valid phone numbers.",
+            variant: "destructive",
+          });
+          return;
+        }
+        addNumbers(phoneNumbers, 'import');
+      },
+      error: (error) => {
+        toast({
+          title: "CSV parsing error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    try {
+      await contactsService.removeDoNotCallNumbers([...selected]);
+      toast({
+        title: "Numbers Removed",
+        description: `${selected.size} number${selected.size === 1 ? '' : 's'} removed. Campaigns may call them again.`,
+      });
+      await loadNumbers();
+    } catch (error) {
+      console.error('Error removing do-not-call numbers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove numbers from the do-not-call list",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const allSelected = numbers.length > 0 && selected.size === numbers.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Prohibit className="h-5 w-5" />
+          Do-Not-Call List
+        </CardTitle>
+        <CardDescription>
+          Numbers no campaign will ever call. Leads who ask not to be called again are added automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Add numbers, separated by commas"
+            className="max-w-sm"
+            value={newNumbers}
+            onChange={(e) => setNewNumbers(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            aria-label="Phone numbers to add to the do-not-call list"
+          />
+          <Button onClick={handleAdd} disabled={saving || !newNumbers.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={saving}>
+            <UploadSimple className="h-4 w-4 mr-2" />
+            Import CSV
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="relative flex-1 max-w-sm">
+            <MagnifyingGlass className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input
+              placeholder="Search numbers..."
+              className="pl-10"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              aria-label="Search the do-not-call list"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">{total.toLocaleString()} numbers</span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={handleRemove}
+              disabled={saving || selected.size === 0}
+            >
+              <Trash className="h-4 w-4 mr-2" />
+              Remove {selected.size > 0 ? selected.size : ''}
+            </Button>
+          </div>
+        </div>
+
+        {numbers.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            {search ? 'No matching numbers' : 'No numbers on the do-not-call list'}
+          </p>
+        ) : (
+          <div className="border rounded-lg max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelected(checked ? new Set(numbers.map(entry => entry.id)) : new Set())}
+                      aria-label="Select all numbers"
+                    />
+                  </TableHead>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Added</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {numbers.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(entry.id)}
+                        onCheckedChange={(checked) => toggleSelected(entry.id, !!checked)}
+                        aria-label={`Select ${entry.phone_number}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{entry.phone_number}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-xs">{DO_NOT_CALL_SOURCE_LABELS[entry.source]}</Badge>
+                      {(entry.reason || entry.campaigns?.name) && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {[entry.campaigns?.name, entry.reason].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleDateString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {total > numbers.length && (
+          <p className="text-xs text-muted-foreground">
+            Showing the newest {numbers.length.toLocaleString()} numbers. Search to find others.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
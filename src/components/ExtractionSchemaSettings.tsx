@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListChecks, Plus, X } from "@phosphor-icons/react";
+import { useToast } from "@/hooks/use-toast";
+import { agentsService } from "@/services/agents.service";
+import {
+  EXTRACTION_FIELD_TYPES,
+  MAX_EXTRACTION_FIELDS,
+  SELLER_LEAD_FIELDS,
+  toFieldKey,
+  validateExtractionSchema,
+  type ExtractionField,
+  type ExtractionFieldType,
+} from "@/lib/extraction-schema";
+
+interface ExtractionSchemaSettingsProps {
+  agentId: string;
+}
+
+const parseOptions = (value: string) => value.split(',').map(option => option.trim());
+
+export function ExtractionSchemaSettings({ agentId }: ExtractionSchemaSettingsProps) {
+  const [fields, setFields] = useState<ExtractionField[]>([]);
+  // Keys already holding values on contacts keep their key when the label changes
+  const [savedKeys, setSavedKeys] = useState<Set<string>>(new Set());
+  const [hasChanges, setHasChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    agentsService.getExtractionSchema(agentId)
+      .then(schema => {
+        if (cancelled) return;
+        setFields(schema);
+        setSavedKeys(new Set(schema.map(field => field.key)));
+      })
+      .catch(error => {
+        console.error('Error loading extraction schema:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId]);
+
+  const updateFields = (next: ExtractionField[]) => {
+    setFields(next);
+    setHasChanges(true);
+  };
+
+  const updateField = (index: number, changes: Partial<ExtractionField>) => {
+    updateFields(fields.map((field, i) => {
+      if (i !== index) return field;
+      const updated = { ...field, ...changes };
+      if (changes.label !== undefined && !savedKeys.has(field.key)) {
+        updated.key = toFieldKey(changes.label);
+      }
+      return updated;
+    }));
+  };
+
+  const addField = () => {
+    updateFields([...fields, { key: '', label: '', type: 'text', description: '' }]);
+  };
+
+  const addSellerFields = () => {
+    const keys = new Set(fields.map(field => field.key));
+    updateFields([...fields, ...SELLER_LEAD_FIELDS.filter(field => !keys.has(field.key))]);
+  };
+
+  const handleSave = async () => {
+    const schema = fields.map(field => ({
+      ...field,
+      options: field.type === 'choice' ? (field.options || []).filter(Boolean) : undefined,
+    }));
+    const error = validateExtractionSchema(schema);
+    if (error) {
+      toast({ title: "Check the Fields", description: error, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await agentsService.saveExtractionSchema(agentId, schema);
+      setFields(schema);
+      setSavedKeys(new Set(schema.map(field => field.key)));
+      setHasChanges(false);
+      toast({
+        title: "Extraction Fields Saved",
+        description: "The agent's post-call analysis now extracts these fields from every call.",
+      });
+    } catch (error) {
+      console.error('Error saving extraction schema:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the extraction fields",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Lead Data Extraction
+        </CardTitle>
+        <CardDescription className="mt-1">
+          Fields read from every call and saved on the contact, shown as columns in campaign results.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {fields.map((field, index) => (
+          <div key={index} className="space-y-2 p-3 border rounded-md">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Label (e.g., Asking price)"
+                className="text-sm"
+                value={field.label}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+                aria-label="Field label"
+              />
+              <Select
+                value={field.type}
+                onValueChange={(value: ExtractionFieldType) => updateField(index, { type: value })}
+              >
+                <SelectTrigger className="w-32 text-sm" aria-label="Field type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXTRACTION_FIELD_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateFields(fields.filter((_, i) => i !== index))}
+                aria-label={`Remove ${field.label || 'field'}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+            <Input
+              placeholder="What to extract, for the post-call analysis"
+              className="text-sm"
+              value={field.description}
+              onChange={(e) => updateField(index, { description: e.target.value })}
+              aria-label="Field description"
+            />
+            {field.type === 'choice' && (
+              <Input
+                placeholder="Options, separated by commas"
+                className="text-sm"
+                value={(field.options || []).join(', ')}
+                onChange={(e) => updateField(index, { options: parseOptions(e.target.value) })}
+                aria-label="Field options"
+              />
+            )}
+            {field.key && <p className="text-xs text-muted-foreground font-mono">{field.key}</p>}
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={addField} disabled={fields.length >= MAX_EXTRACTION_FIELDS}>
+            <Plus className="h-3 w-3 mr-1" /> Add Field
+          </Button>
+          {fields.length === 0 && (
+            <Button variant="outline" size="sm" onClick={addSellerFields}>
+              Use Seller Lead Fields
+            </Button>
+          )}
+          {hasChanges && (
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              Save Extraction Fields
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowsClockwise, Target } from "@phosphor-icons/react";
+import { useToast } from "@/hooks/use-toast";
+import { campaignsService } from "@/services/campaigns.service";
+import {
+  DEFAULT_FOLLOW_UP_RUBRIC,
+  FOLLOW_UP_LEVELS,
+  parsePhrases,
+  validateFollowUpRubric,
+  type FollowUpRubric,
+} from "@/lib/follow-up-rubric";
+
+// Batches scored per click; the scheduled run picks up whatever is left
+const MAX_RESCORE_ROUNDS = 5;
+
+export function FollowUpRubricSettings() {
+  const [rubric, setRubric] = useState<FollowUpRubric>(DEFAULT_FOLLOW_UP_RUBRIC);
+  const [highPhrases, setHighPhrases] = useState(DEFAULT_FOLLOW_UP_RUBRIC.high_phrases.join(', '));
+  const [lowPhrases, setLowPhrases] = useState(DEFAULT_FOLLOW_UP_RUBRIC.low_phrases.join(', '));
+  const [hasChanges, setHasChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [rescoring, setRescoring] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    campaignsService.getFollowUpRubric()
+      .then(saved => {
+        if (cancelled || !saved) return;
+        setRubric(saved);
+        setHighPhrases(saved.high_phrases.join(', '));
+        setLowPhrases(saved.low_phrases.join(', '));
+      })
+      .catch(error => {
+        console.error('Error loading follow-up rubric:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateRubric = (changes: Partial<FollowUpRubric>) => {
+    setRubric(prev => ({ ...prev, ...changes }));
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    const next = { ...rubric, high_phrases: parsePhrases(highPhrases), low_phrases: parsePhrases(lowPhrases) };
+    const error = validateFollowUpRubric(next);
+    if (error) {
+      toast({ title: "Check the Rubric", description: error, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await campaignsService.saveFollowUpRubric(next);
+      setRubric(next);
+      setHasChanges(false);
+      toast({
+        title: "Rubric Saved",
+        description: "New calls are scored with it. Rescore past calls to apply it to them too.",
+      });
+    } catch (error) {
+      console.error('Error saving follow-up rubric:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the follow-up rubric",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRescore = async () => {
+    setRescoring(true);
+    try {
+      let scored = 0;
+      let more = true;
+      for (let round = 0; round < MAX_RESCORE_ROUNDS && more; round++) {
+        const result = await campaignsService.rescoreFollowUps();
+        scored += result.scored;
+        more = result.more;
+      }
+      toast({
+        title: "Calls Rescored",
+        description: more
+          ? `${scored} calls rescored. The rest are rescored in the background.`
+          : scored > 0 ? `${scored} calls rescored with the current rubric.` : "All calls are already scored with the current rubric.",
+      });
+    } catch (error) {
+      console.error('Error rescoring calls:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rescore calls",
+        variant: "destructive",
+      });
+    } finally {
+      setRescoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Follow-Up Scoring
+        </CardTitle>
+        <CardDescription className="mt-1">
+          Each analyzed call is scored high, medium or low follow-up potential against this rubric, using its transcript, summary and extracted lead details.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {FOLLOW_UP_LEVELS.map(level => (
+            <div key={level.value} className="space-y-2">
+              <Label htmlFor={`follow-up-${level.value}`}>{level.label}</Label>
+              <Textarea
+                id={`follow-up-${level.value}`}
+                className="text-sm"
+                rows={3}
+                value={rubric[level.value]}
+                onChange={(e) => updateRubric({ [level.value]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="follow-up-high-phrases">Buying signals</Label>
+            <Input
+              id="follow-up-high-phrases"
+              className="text-sm"
+              placeholder="Phrases, separated by commas"
+              value={highPhrases}
+              onChange={(e) => {
+                setHighPhrases(e.target.value);
+                setHasChanges(true);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="follow-up-low-phrases">Rejection signals</Label>
+            <Input
+              id="follow-up-low-phrases"
+              className="text-sm"
+              placeholder="Phrases, separated by commas"
+              value={lowPhrases}
+              onChange={(e) => {
+                setLowPhrases(e.target.value);
+                setHasChanges(true);
+              }}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Signal phrases are used when calls are scored without the AI model.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          {hasChanges && (
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              Save Rubric
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleRescore} disabled={rescoring || hasChanges}>
+            <ArrowsClockwise className={`h-3 w-3 mr-1 ${rescoring ? 'animate-spin' : ''}`} />
+            Rescore Past Calls
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CircleNotch, Flask, Warning } from "@phosphor-icons/react";
+import { useToast } from "@/hooks/use-toast";
+import { campaignsService } from "@/services/campaigns.service";
+import { formatCredits } from "@/lib/credits";
+import {
+  MIN_HISTORY_CALLS,
+  SIMULATION_STOP_REASON_LABELS,
+  forecastCampaign,
+  resolveCallRates,
+  type CallOutcomeStats,
+  type ForecastInput,
+  type SimulationResult,
+} from "@/lib/campaign-forecast";
+
+interface LaunchForecastProps {
+  input: ForecastInput;
+  onSimulate: () => Promise<SimulationResult>;
+}
+
+const LIMIT_MESSAGES = {
+  end_date: 'The end date arrives before every contact is called.',
+  spend_cap: 'The total spend cap runs out before every contact is called.',
+  horizon: 'The list is not finished within a year with these settings.',
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div>
+      <p className="text-lg font-semibold">{value}</p>
+      <p className="text-xs text-muted-foreground">{label}{detail && ` · ${detail}`}</p>
+    </div>
+  );
+}
+
+export function LaunchForecast({ input, onSimulate }: LaunchForecastProps) {
+  const [stats, setStats] = useState<CallOutcomeStats[] | null>(null);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    campaignsService.getAccountCallStats()
+      .then(rows => {
+        if (!cancelled) setStats(rows);
+      })
+      .catch(error => {
+        console.error('Error loading call history:', error);
+        if (!cancelled) setStats([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const rates = useMemo(() => (stats ? resolveCallRates(stats) : null), [stats]);
+  const forecast = useMemo(() => (rates ? forecastCampaign(input, rates) : null), [input, rates]);
+
+  const handleSimulate = async () => {
+    setSimulating(true);
+    try {
+      setSimulation(await onSimulate());
+    } catch (error) {
+      console.error('Error simulating campaign:', error);
+      toast({
+        title: "Estimate Failed",
+        description: "Could not estimate the dial plan. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Launch Forecast</CardTitle>
+        <CardDescription>
+          {rates?.source === 'history'
+            ? `Based on your last ${rates.sample_size} finished calls.`
+            : `Based on typical rates until your account has ${MIN_HISTORY_CALLS} finished calls.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!forecast ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CircleNotch className="h-4 w-4 animate-spin" />
+            Loading call history...
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat
+                label="Calendar days"
+                value={forecast.finishes ? String(forecast.calendar_days) : `${forecast.calendar_days}+`}
+                detail={forecast.finish_date ? `until ${formatDate(forecast.finish_date)}` : undefined}
+              />
+              <Stat label="Dials incl. retries" value={forecast.dials.toLocaleString()} detail={`${forecast.daily_capacity.toLocaleString()}/day max`} />
+              <Stat label="Expected cost" value={formatCredits(forecast.cost_cents)} />
+              <Stat label="Expected appointments" value={String(forecast.appointments)} detail={`${forecast.connected.toLocaleString()} connected`} />
+            </div>
+            {forecast.limited_by && (
+              <div className="flex items-center gap-2 text-sm text-warning">
+                <Warning className="h-4 w-4" />
+                {LIMIT_MESSAGES[forecast.limited_by]}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Button type="button" variant="outline" size="sm" onClick={handleSimulate} disabled={simulating}>
+            {simulating ? <CircleNotch className="h-4 w-4 mr-2 animate-spin" /> : <Flask className="h-4 w-4 mr-2" />}
+            Estimate dial plan
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Estimates daily dials from your contacts, calling hours, limits and retry rules without placing any calls.
+            Contacts are taken in list order and caller-ID caps and account-wide limits are left out, so the live campaign can differ.
+          </p>
+        </div>
+
+        {simulation && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{SIMULATION_STOP_REASON_LABELS[simulation.stop_reason]}</span>
+              <span>
+                {simulation.totals.dials.toLocaleString()} dials · {simulation.totals.contacts_reached.toLocaleString()} of {simulation.phones.toLocaleString()} numbers reached · {formatCredits(simulation.totals.cost_cents)}
+              </span>
+            </div>
+            <div className="border rounded-lg max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Dials</TableHead>
+                    <TableHead>Connected</TableHead>
+                    <TableHead>Appointments</TableHead>
+                    <TableHead>Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {simulation.days.map(day => (
+                    <TableRow key={day.date}>
+                      <TableCell>{formatDate(day.date)}</TableCell>
+                      <TableCell>
+                        {day.dials}{' '}
+                        <span className="text-xs text-muted-foreground">({day.first_attempts} new, {day.retries} retries)</span>
+                      </TableCell>
+                      <TableCell>{day.connected}</TableCell>
+                      <TableCell>{day.appointments}</TableCell>
+                      <TableCell>{formatCredits(day.cost_cents)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
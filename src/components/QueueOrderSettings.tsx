@@ -0,0 +1,276 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { CircleNotch, Plus, Trash } from "@phosphor-icons/react";
+import { contactsService } from "@/services/contacts.service";
+import {
+  QUEUE_ORDER_STRATEGIES,
+  orderContacts,
+  type LeadScoreFactor,
+  type QueueContact,
+  type QueueOrder,
+  type QueueOrderStrategy,
+} from "@/lib/queue-order";
+
+interface QueueOrderSettingsProps {
+  value: QueueOrder;
+  onChange: (order: QueueOrder) => void;
+  contactGroupIds: string[];
+}
+
+// Large groups are previewed from a sample of their contacts
+const PREVIEW_LIMIT = 1000;
+const PREVIEW_ROWS = 10;
+
+const contactLabel = (contact: QueueContact) =>
+  [contact.first_name, contact.last_name].filter(Boolean).join(' ') || contact.phone_number || 'Unnamed contact';
+
+export function QueueOrderSettings({ value, onChange, contactGroupIds }: QueueOrderSettingsProps) {
+  const [contacts, setContacts] = useState<QueueContact[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Stable dependency for the effect below (a new array is passed on every render)
+  const groupIdsKey = contactGroupIds.join(',');
+
+  useEffect(() => {
+    const groupIds = groupIdsKey ? groupIdsKey.split(',') : [];
+    if (groupIds.length === 0) return;
+    let cancelled = false;
+
+    setLoading(true);
+    Promise.all(groupIds.map(groupId => contactsService.getContacts(groupId, 1, Math.ceil(PREVIEW_LIMIT / groupIds.length))))
+      .then(groups => {
+        if (!cancelled) setContacts(groups.flatMap(rows => rows || []) as QueueContact[]);
+      })
+      .catch(error => {
+        console.error('Error loading contacts for call order preview:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupIdsKey]);
+
+  // Fields available for ordering are the keys stored on the imported contacts
+  const fields = useMemo(() => {
+    const keys = new Set<string>();
+    contacts.forEach(contact => Object.keys(contact.data || {}).forEach(key => keys.add(key)));
+    return [...keys].sort();
+  }, [contacts]);
+
+  const preview = useMemo(() => orderContacts(contacts, value).slice(0, PREVIEW_ROWS), [contacts, value]);
+
+  const update = (updates: Partial<QueueOrder>) => onChange({ ...value, ...updates });
+
+  const updateFactor = (index: number, updates: Partial<LeadScoreFactor>) => {
+    update({
+      lead_score_factors: value.lead_score_factors.map((factor, i) => (i === index ? { ...factor, ...updates } : factor)),
+    });
+  };
+
+  const describePriority = (contact: QueueContact, priority: number | null) => {
+    switch (value.strategy) {
+      case 'field':
+        return value.field ? String(contact.data?.[value.field] ?? '—') : '—';
+      case 'lead_score':
+        return `Score ${priority ?? 0}`;
+      case 'priority_tiers':
+        return value.tier_field ? String(contact.data?.[value.tier_field] ?? 'No tier') : 'No tier';
+      default:
+        return contact.created_at ? new Date(contact.created_at).toLocaleDateString() : '';
+    }
+  };
+
+  const fieldSelect = (id: string, selected: string | null, onSelect: (field: string) => void) => (
+    <Select value={selected ?? undefined} onValueChange={onSelect}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={fields.length > 0 ? "Select a field" : "No contact fields found"} />
+      </SelectTrigger>
+      <SelectContent>
+        {fields.map(field => (
+          <SelectItem key={field} value={field}>{field}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="queue-order-strategy">Order contacts by</Label>
+        <Select
+          value={value.strategy}
+          onValueChange={(strategy: QueueOrderStrategy) => update({ strategy })}
+        >
+          <SelectTrigger id="queue-order-strategy">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {QUEUE_ORDER_STRATEGIES.map(strategy => (
+              <SelectItem key={strategy.value} value={strategy.value}>{strategy.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {QUEUE_ORDER_STRATEGIES.find(strategy => strategy.value === value.strategy)?.description}
+        </p>
+      </div>
+
+      {value.strategy === 'field' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="queue-order-field" className="text-xs">Field</Label>
+            {fieldSelect('queue-order-field', value.field, (field) => update({ field }))}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="queue-order-direction" className="text-xs">Call first</Label>
+            <Select
+              value={value.direction}
+              onValueChange={(direction: 'asc' | 'desc') => update({ direction })}
+            >
+              <SelectTrigger id="queue-order-direction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="desc">Highest / most recent</SelectItem>
+                <SelectItem value="asc">Lowest / oldest</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {value.strategy === 'lead_score' && (
+        <div className="space-y-2">
+          {value.lead_score_factors.map((factor, index) => (
+            <div key={index} className="grid grid-cols-[1fr_5rem_8rem_auto] gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor={`lead-score-field-${index}`} className="text-xs">Field</Label>
+                {fieldSelect(`lead-score-field-${index}`, factor.field || null, (field) => updateFactor(index, { field }))}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`lead-score-weight-${index}`} className="text-xs">Weight</Label>
+                <Input
+                  id={`lead-score-weight-${index}`}
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={factor.weight}
+                  onChange={(e) => updateFactor(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`lead-score-prefer-${index}`} className="text-xs">Better when</Label>
+                <Select
+                  value={factor.prefer}
+                  onValueChange={(prefer: 'high' | 'low') => updateFactor(index, { prefer })}
+                >
+                  <SelectTrigger id={`lead-score-prefer-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="high">Higher</SelectItem>
+                    <SelectItem value="low">Lower</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ lead_score_factors: value.lead_score_factors.filter((_, i) => i !== index) })}
+                aria-label={`Remove lead score factor ${index + 1}`}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update({
+              lead_score_factors: [...value.lead_score_factors, { field: '', weight: 1, prefer: 'high' }],
+            })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add factor
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Each factor adds its weight times the contact's percentile for that field
+          </p>
+        </div>
+      )}
+
+      {value.strategy === 'priority_tiers' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="queue-order-tier-field" className="text-xs">Tier field</Label>
+            {fieldSelect('queue-order-tier-field', value.tier_field, (tier_field) => update({ tier_field }))}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="queue-order-tiers" className="text-xs">Tiers, highest first</Label>
+            <Input
+              id="queue-order-tiers"
+              placeholder="hot, warm, cold"
+              value={value.tiers.join(', ')}
+              onChange={(e) => update({ tiers: e.target.value.split(',').map(tier => tier.trimStart()) })}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="queue-order-boost-callbacks"
+            checked={value.boost_callbacks}
+            onCheckedChange={(boost_callbacks) => update({ boost_callbacks })}
+          />
+          <Label htmlFor="queue-order-boost-callbacks">Call leads who asked for a callback first</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="queue-order-boost-positive"
+            checked={value.boost_positive}
+            onCheckedChange={(boost_positive) => update({ boost_positive })}
+          />
+          <Label htmlFor="queue-order-boost-positive">Then leads with a positive earlier call</Label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Call order preview</Label>
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CircleNotch className="h-4 w-4 animate-spin" />
+            Loading contacts...
+          </div>
+        ) : preview.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No contacts to preview</p>
+        ) : (
+          <ol className="border rounded-lg divide-y text-sm">
+            {preview.map(({ contact, priority }, index) => (
+              <li key={contact.id} className="flex items-center justify-between px-3 py-2">
+                <span>
+                  <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                  {contactLabel(contact)}
+                </span>
+                <span className="text-muted-foreground">{describePriority(contact, priority)}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+        {contacts.length >= PREVIEW_LIMIT && (
+          <p className="text-xs text-muted-foreground">Preview based on a sample of {contacts.length} contacts</p>
+        )}
+      </div>
+    </div>
+  );
+}
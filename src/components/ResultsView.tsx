@@ -13,19 +13,28 @@ import { useToast } from "@/hooks/use-toast";
 import { format, formatDistanceToNow } from "date-fns";
 import { useParams, useNavigate } from "react-router-dom";
 import { CallDetailsModal } from "./CallDetailsModal";
+import { VariantComparison } from "./VariantComparison";
+import { CampaignTimeline } from "./CampaignTimeline";
+import { CampaignComplianceReport } from "./CampaignComplianceReport";
+import { CampaignVoicemailReport } from "./CampaignVoicemailReport";
+import { CALL_DISPOSITIONS, CALL_DISPOSITION_LABELS, getDispositionLabel, isConnectedDisposition } from "@/lib/call-disposition";
+import { formatExtractedValue, getExtractionColumns, type ExtractedFields, type ExtractionField } from "@/lib/extraction-schema";
 
 interface CallResult {
   id: string;
   campaign_id: string;
   contact_id: string;
   phone_number: string;
+  from_phone_number: string | null;
   call_status: string;
+  disposition: string | null;
   call_duration: number | null;
   call_summary: any;
   appointment_data: any;
   custom_analysis: any;
   follow_up_potential: string | null;
   follow_up_reason: string | null;
+  extracted_fields: ExtractedFields | null;
   transcript: string | null;
   recording_url: string | null;
   created_at: string;
@@ -35,9 +44,11 @@ interface CallResult {
   contact_first_name?: string;
   contact_last_name?: string;
   contact_email?: string;
+  contact_extracted_fields?: ExtractedFields;
   // Campaign data
   campaign_name?: string;
   agent_customizations?: any;
+  extraction_schema?: ExtractionField[];
   // Cost data
   call_costs?: { user_cost_cents: number };
 }
@@ -61,6 +72,7 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
     dateRange: '7'
   });
   const [agentConfig, setAgentConfig] = useState<unknown>(null);
+  const [extractionSchema, setExtractionSchema] = useState<ExtractionField[]>([]);
   const [selectedCall, setSelectedCall] = useState<CallResult | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const { toast } = useToast();
@@ -78,11 +90,12 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
           contacts!inner(
             first_name,
             last_name,
-            email
+            email,
+            extracted_fields
           ),
           campaigns!inner(
             name,
-            user_agents(customizations)
+            user_agents(customizations, extraction_schema)
           ),
           call_costs(user_cost_cents)
         `)
@@ -100,6 +113,11 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
         query = query.gte('created_at', cutoffDate.toISOString());
       }
 
+      // Disposition filter
+      if (filters.outcome !== 'all') {
+        query = query.eq('disposition', filters.outcome);
+      }
+
       // Follow-up filter
       if (filters.followUp !== 'all') {
         query = query.eq('follow_up_potential', filters.followUp);
@@ -114,8 +132,10 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
         contact_first_name: result.contacts?.first_name,
         contact_last_name: result.contacts?.last_name,
         contact_email: result.contacts?.email,
+        contact_extracted_fields: result.contacts?.extracted_fields,
         campaign_name: result.campaigns?.name,
         agent_customizations: result.campaigns?.user_agents?.customizations,
+        extraction_schema: result.campaigns?.user_agents?.extraction_schema || [],
         call_costs: result.call_costs?.[0] || null
       })) || [];
 
@@ -127,6 +147,7 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
         if (transformedResults[0].campaign_name) {
           setCampaignName(transformedResults[0].campaign_name);
         }
+        setExtractionSchema(transformedResults[0].extraction_schema);
       }
 
       // Client-side search filter
@@ -159,6 +180,15 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
       return <Badge variant="success">Appointment Booked</Badge>;
     }
 
+    // Calls that never reached the lead (or where the lead opted out) have no conversation to grade
+    if (result.disposition && (!isConnectedDisposition(result.disposition) || result.disposition === 'do-not-call-request')) {
+      return (
+        <Badge variant={result.disposition === 'do-not-call-request' ? "destructive" : "secondary"}>
+          {getDispositionLabel(result.disposition)}
+        </Badge>
+      );
+    }
+
     if (result.call_successful === true) {
       return <Badge variant="success">Successful</Badge>;
     }
@@ -214,16 +244,19 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
 
   const exportResults = () => {
     const csvContent = [
-      ['Name', 'Phone', 'Campaign', 'Outcome', 'Duration', 'Cost', 'Follow-up', 'Date'],
+      ['Name', 'Phone', 'Caller ID', 'Campaign', 'Outcome', 'Duration', 'Cost', 'Follow-up', 'Date', ...extractionColumns.map(column => column.label)],
       ...results.map(result => [
         `${result.contact_first_name || ''} ${result.contact_last_name || ''}`.trim(),
         result.phone_number,
+        result.from_phone_number || '',
         result.campaign_name,
         result.appointment_data?.booked ? 'Appointment' : result.custom_analysis ? 'Data' : 'Call',
         formatDuration(result.call_duration),
         formatCost(result.call_costs?.user_cost_cents || null),
         result.follow_up_potential || 'None',
-        format(new Date(result.created_at), 'MM/dd/yyyy')
+        format(new Date(result.created_at), 'MM/dd/yyyy'),
+        // Extracted text (a lead's motivation) can hold commas and quotes
+        ...extractionColumns.map(column => `"${String(result.extracted_fields?.[column.key] ?? '').replace(/"/g, '""')}"`)
       ])
     ].map(row => row.join(',')).join('\n');
 
@@ -241,6 +274,9 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
   const appointmentCount = results.filter(r => r.appointment_data?.booked).length;
   const highFollowUpCount = results.filter(r => r.follow_up_potential === 'high').length;
   const customDataCount = results.filter(r => r.custom_analysis && Object.keys(r.custom_analysis).length > 0).length;
+  // Fields of the agent's extraction schema get their own columns
+  const extractionColumns = getExtractionColumns(extractionSchema, results);
+  const extractedKeys = new Set(extractionColumns.map(column => column.key));
 
   if (loading) {
     return (
@@ -343,6 +379,18 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
         )}
       </div>
 
+      {/* A/B test comparison for split campaigns */}
+      {campaignId && <VariantComparison campaignId={campaignId} />}
+
+      {/* Campaign activity timeline */}
+      {campaignId && <CampaignTimeline campaignId={campaignId} />}
+
+      {/* Attempts held back by state calling-law rules */}
+      {campaignId && <CampaignComplianceReport campaignId={campaignId} />}
+
+      {/* Voicemails left versus hung up */}
+      {campaignId && <CampaignVoicemailReport campaignId={campaignId} />}
+
       {/* Filters */}
       <Card>
         <CardHeader>
@@ -369,6 +417,18 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
               aria-label="Search contacts in campaign results"
             />
             
+            <select
+              value={filters.outcome}
+              onChange={(e) => setFilters(prev => ({ ...prev, outcome: e.target.value }))}
+              className="px-3 py-2 border rounded-md"
+              aria-label="Filter by disposition"
+            >
+              <option value="all">All Dispositions</option>
+              {CALL_DISPOSITIONS.map(disposition => (
+                <option key={disposition} value={disposition}>{CALL_DISPOSITION_LABELS[disposition]}</option>
+              ))}
+            </select>
+
             <select
               value={filters.followUp}
               onChange={(e) => setFilters(prev => ({ ...prev, followUp: e.target.value }))}
@@ -402,6 +462,9 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
                    <TableHead>Phone</TableHead>
                    <TableHead>Campaign</TableHead>
                    <TableHead>Outcome</TableHead>
+                   {extractionColumns.map(column => (
+                     <TableHead key={column.key} className="capitalize whitespace-nowrap">{column.label}</TableHead>
+                   ))}
                    {customDataCount > 0 && (
                      <TableHead>Custom Analysis</TableHead>
                    )}
@@ -414,7 +477,7 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
               <TableBody>
                 {results.length === 0 ? (
                   <TableRow>
-                     <TableCell colSpan={customDataCount > 0 ? 9 : 8} className="text-center py-8 text-muted-foreground">
+                     <TableCell colSpan={(customDataCount > 0 ? 9 : 8) + extractionColumns.length} className="text-center py-8 text-muted-foreground">
                        No results found. Start a campaign to see call results here.
                      </TableCell>
                   </TableRow>
@@ -433,14 +496,22 @@ function ResultsView({ selectedCampaignId }: ResultsViewProps) {
                       </TableCell>
                       <TableCell className="font-mono text-sm">
                         {result.phone_number}
+                        {result.from_phone_number && (
+                          <p className="text-xs text-muted-foreground">from {result.from_phone_number}</p>
+                        )}
                       </TableCell>
                        <TableCell>{result.campaign_name}</TableCell>
                        <TableCell>{getOutcomeBadge(result)}</TableCell>
+                       {extractionColumns.map(column => (
+                         <TableCell key={column.key} className="text-sm whitespace-nowrap">
+                           {formatExtractedValue(column.field, result.extracted_fields?.[column.key])}
+                         </TableCell>
+                       ))}
                        {customDataCount > 0 && (
                          <TableCell>
                            {result.custom_analysis ? (
                              <div className="space-y-1">
-                               {Object.entries(result.custom_analysis).map(([key, value]) => (
+                               {Object.entries(result.custom_analysis).filter(([key]) => !extractedKeys.has(key)).map(([key, value]) => (
                                  <div key={key} className="text-sm">
                                    <span className="font-medium text-muted-foreground">
                                      {key.replace(/_/g, ' ')}: 
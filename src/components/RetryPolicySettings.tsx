@@ -0,0 +1,116 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { VoicemailDropSettings } from "@/components/VoicemailDropSettings";
+import {
+  RETRY_OUTCOMES,
+  getDefaultVoicemailDrop,
+  type RetryOutcome,
+  type RetryPolicy,
+  type RetryRule,
+} from "@/features/campaigns/types/campaign.types";
+
+interface RetryPolicySettingsProps {
+  value: RetryPolicy;
+  onChange: (policy: RetryPolicy) => void;
+}
+
+// Empty input means "no limit"
+const parseLimit = (raw: string): number | null => {
+  if (raw.trim() === '') return null;
+  const parsed = parseInt(raw, 10);
+  return Number.isNaN(parsed) ? null : Math.max(1, parsed);
+};
+
+export function RetryPolicySettings({ value, onChange }: RetryPolicySettingsProps) {
+  const updateRule = (outcome: RetryOutcome, updates: Partial<RetryRule>) => {
+    onChange({
+      ...value,
+      rules: {
+        ...value.rules,
+        [outcome]: { ...value.rules[outcome], ...updates },
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {RETRY_OUTCOMES.map(outcome => {
+        const rule = value.rules[outcome.value];
+        const idPrefix = `retry-${outcome.value}`;
+
+        return (
+          <div key={outcome.value} className="p-3 border rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor={`${idPrefix}-enabled`} className="font-medium">{outcome.label}</Label>
+                <p className="text-xs text-muted-foreground">{outcome.description}</p>
+              </div>
+              <Switch
+                id={`${idPrefix}-enabled`}
+                checked={rule.enabled}
+                onCheckedChange={(checked) => updateRule(outcome.value, { enabled: checked })}
+                aria-label={`Retry ${outcome.label} calls`}
+              />
+            </div>
+
+            {rule.enabled && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`${idPrefix}-spacing`} className="text-xs">Min hours between attempts</Label>
+                  <Input
+                    id={`${idPrefix}-spacing`}
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={rule.min_spacing_hours}
+                    onChange={(e) => updateRule(outcome.value, {
+                      min_spacing_hours: Math.max(0, parseFloat(e.target.value) || 0)
+                    })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`${idPrefix}-per-phone`} className="text-xs">Max attempts per phone</Label>
+                  <Input
+                    id={`${idPrefix}-per-phone`}
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={rule.max_attempts_per_phone ?? ''}
+                    onChange={(e) => updateRule(outcome.value, { max_attempts_per_phone: parseLimit(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`${idPrefix}-per-contact`} className="text-xs">Max attempts per contact</Label>
+                  <Input
+                    id={`${idPrefix}-per-contact`}
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={rule.max_attempts_per_contact ?? ''}
+                    onChange={(e) => updateRule(outcome.value, { max_attempts_per_contact: parseLimit(e.target.value) })}
+                  />
+                </div>
+                <div className="flex items-center gap-2 sm:col-span-3">
+                  <Switch
+                    id={`${idPrefix}-rotate`}
+                    checked={rule.rotate_time_of_day}
+                    onCheckedChange={(checked) => updateRule(outcome.value, { rotate_time_of_day: checked })}
+                  />
+                  <Label htmlFor={`${idPrefix}-rotate`} className="text-sm">
+                    Rotate time of day (retry in a different part of the calling window)
+                  </Label>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <VoicemailDropSettings
+        value={value.voicemail_drop ?? getDefaultVoicemailDrop()}
+        onChange={(voicemail_drop) => onChange({ ...value, voicemail_drop })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PhoneCall, X } from "@phosphor-icons/react";
+import { useToast } from "@/hooks/use-toast";
+import { campaignsService } from "@/services/campaigns.service";
+import { CALLBACK_SOURCE_LABELS, formatCallbackTime, type ScheduledCallback } from "@/lib/callbacks";
+
+const contactName = (callback: ScheduledCallback) =>
+  [callback.contacts?.first_name, callback.contacts?.last_name].filter(Boolean).join(' ') || callback.phone_number;
+
+export function UpcomingCallbacks() {
+  const [callbacks, setCallbacks] = useState<ScheduledCallback[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    campaignsService.getUpcomingCallbacks()
+      .then(rows => {
+        if (!cancelled) setCallbacks(rows);
+      })
+      .catch(error => {
+        console.error('Error loading upcoming callbacks:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleCancel = async (callback: ScheduledCallback) => {
+    try {
+      await campaignsService.cancelCallback(callback.id);
+      setCallbacks(prev => prev.filter(row => row.id !== callback.id));
+      toast({
+        title: "Callback Cancelled",
+        description: `${contactName(callback)} will not be called back.`,
+      });
+    } catch (error) {
+      console.error('Error cancelling callback:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel the callback",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (callbacks.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PhoneCall className="h-5 w-5" />
+          Upcoming Callbacks
+        </CardTitle>
+        <CardDescription>
+          Leads who asked to be called back. They are dialed at the requested time, in their own timezone, during the campaign's calling hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Lead</TableHead>
+              <TableHead>Campaign</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {callbacks.map(callback => (
+              <TableRow key={callback.id}>
+                <TableCell className="whitespace-nowrap">
+                  {formatCallbackTime(callback)}
+                  {!callback.time_resolved && (
+                    <Badge variant="outline" className="ml-2 text-xs" title="The requested time could not be read, so the lead is called back a day later">
+                      Estimated
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div>{contactName(callback)}</div>
+                  <div className="text-xs text-muted-foreground">{callback.phone_number}</div>
+                </TableCell>
+                <TableCell>{callback.campaigns?.name}</TableCell>
+                <TableCell>
+                  <div>{callback.requested_text ? `"${callback.requested_text}"` : 'No time given'}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {CALLBACK_SOURCE_LABELS[callback.source]}{callback.note && ` · ${callback.note}`}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => handleCancel(callback)} title="Cancel callback">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trophy } from "@phosphor-icons/react";
+import { campaignsService } from "@/services/campaigns.service";
+import {
+  MIN_SAMPLE_SIZE,
+  SIGNIFICANCE_LABELS,
+  appointmentRate,
+  compareProportions,
+  connectRate,
+  followUpRate,
+  type ProportionTest,
+  type VariantStats,
+} from "@/lib/ab-testing";
+
+interface VariantComparisonProps {
+  campaignId: string;
+}
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const formatDuration = (seconds: number | null) => {
+  if (!seconds) return 'N/A';
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+function SignificanceBadge({ test }: { test: ProportionTest }) {
+  const variant = test.significance === 'significant' ? 'default' : 'outline';
+  const sign = test.difference > 0 ? '+' : '';
+
+  return (
+    <Badge
+      variant={variant}
+      className={test.significance === 'significant' && test.difference < 0 ? 'bg-destructive' : undefined}
+      title={test.p_value !== null ? `p = ${test.p_value.toFixed(3)}` : `Needs at least ${MIN_SAMPLE_SIZE} calls per variant`}
+    >
+      {sign}{(test.difference * 100).toFixed(1)} pts · {SIGNIFICANCE_LABELS[test.significance]}
+    </Badge>
+  );
+}
+
+export function VariantComparison({ campaignId }: VariantComparisonProps) {
+  const [stats, setStats] = useState<VariantStats[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    campaignsService.getVariantStats(campaignId)
+      .then(rows => {
+        if (!cancelled) setStats(rows);
+      })
+      .catch(error => {
+        console.error('Error loading A/B test results:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  if (stats.length < 2) return null;
+
+  const [control] = stats;
+
+  // Leader on appointments per dialed call, only called once the lead is significant
+  const leader = stats.reduce((best, current) => (appointmentRate(current) > appointmentRate(best) ? current : best));
+  const leaderIsSignificant = leader !== control
+    && compareProportions(control.appointments, control.dialed, leader.appointments, leader.dialed).significance === 'significant';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>A/B Test</CardTitle>
+        <CardDescription>
+          Each variant compared with variant A (the campaign agent). Differences are tested at 95% confidence.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead>Contacts</TableHead>
+                <TableHead>Connect Rate</TableHead>
+                <TableHead>Avg Duration</TableHead>
+                <TableHead>Follow-up Potential</TableHead>
+                <TableHead>Appointments</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.map(variant => {
+                const isControl = variant === control;
+
+                return (
+                  <TableRow key={variant.variant_id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={isControl ? "default" : "secondary"}>{variant.label}</Badge>
+                        <span className="font-medium">{variant.agent_name || 'Deleted agent'}</span>
+                        {leaderIsSignificant && variant === leader && (
+                          <Trophy className="h-4 w-4 text-yellow-600" aria-label="Winning variant" />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{variant.contacts}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <div>{formatPercent(connectRate(variant))} <span className="text-xs text-muted-foreground">({variant.connected}/{variant.dialed})</span></div>
+                        {!isControl && (
+                          <SignificanceBadge test={compareProportions(control.connected, control.dialed, variant.connected, variant.dialed)} />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatDuration(variant.avg_duration_seconds)}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <div>
+                          {formatPercent(followUpRate(variant))}{' '}
+                          <span className="text-xs text-muted-foreground">({variant.high_follow_up} high, {variant.medium_follow_up} medium)</span>
+                        </div>
+                        {!isControl && (
+                          <SignificanceBadge
+                            test={compareProportions(
+                              control.high_follow_up + control.medium_follow_up,
+                              control.connected,
+                              variant.high_follow_up + variant.medium_follow_up,
+                              variant.connected
+                            )}
+                          />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <div>{variant.appointments} <span className="text-xs text-muted-foreground">({formatPercent(appointmentRate(variant))} of dialed)</span></div>
+                        {!isControl && (
+                          <SignificanceBadge test={compareProportions(control.appointments, control.dialed, variant.appointments, variant.dialed)} />
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  VOICEMAIL_DROP_MODES,
+  type VoicemailDrop,
+  type VoicemailDropMode,
+} from "@/features/campaigns/types/campaign.types";
+import { VOICEMAIL_PLACEHOLDERS, leavesMessages, parseAttemptList } from "@/lib/voicemail-drop";
+
+interface VoicemailDropSettingsProps {
+  value: VoicemailDrop;
+  onChange: (drop: VoicemailDrop) => void;
+}
+
+export function VoicemailDropSettings({ value, onChange }: VoicemailDropSettingsProps) {
+  // Kept as typed so "1, " can be edited before the next number is entered
+  const [attemptsInput, setAttemptsInput] = useState(value.attempts.join(', '));
+  const mode = VOICEMAIL_DROP_MODES.find(option => option.value === value.mode);
+
+  const handleAttemptsChange = (raw: string) => {
+    setAttemptsInput(raw);
+    onChange({ ...value, attempts: parseAttemptList(raw) });
+  };
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div>
+        <Label htmlFor="voicemail-drop-mode" className="font-medium">Voicemail Drop</Label>
+        <p className="text-xs text-muted-foreground">What a call does when it reaches voicemail</p>
+      </div>
+
+      <Select value={value.mode} onValueChange={(mode: VoicemailDropMode) => onChange({ ...value, mode })}>
+        <SelectTrigger id="voicemail-drop-mode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {VOICEMAIL_DROP_MODES.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {mode && <p className="text-xs text-muted-foreground">{mode.description}</p>}
+
+      {value.mode === 'selected_attempts' && (
+        <div className="space-y-1">
+          <Label htmlFor="voicemail-drop-attempts" className="text-xs">Attempt numbers</Label>
+          <Input
+            id="voicemail-drop-attempts"
+            placeholder="e.g. 1, 3"
+            value={attemptsInput}
+            onChange={(e) => handleAttemptsChange(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Counted per contact: attempt 1 is the first call to the contact.</p>
+        </div>
+      )}
+
+      {leavesMessages(value) && (
+        <div className="space-y-1">
+          <Label htmlFor="voicemail-drop-script" className="text-xs">Voicemail script</Label>
+          <Textarea
+            id="voicemail-drop-script"
+            rows={3}
+            placeholder="Hi {{first_name}}, this is Sam calling about {{address}}. Please call me back at your convenience."
+            value={value.script}
+            onChange={(e) => onChange({ ...value, script: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Placeholders are filled from the contact when the call is placed:{' '}
+            {VOICEMAIL_PLACEHOLDERS.map(key => `{{${key}}}`).join(', ')}, or any mapped field by its variable name.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
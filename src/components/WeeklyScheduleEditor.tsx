@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash, Copy } from "@phosphor-icons/react";
+import { WEEKDAYS, type CallingWindow, type DayKey, type WeeklySchedule } from "@/lib/calling-schedule";
+
+interface WeeklyScheduleEditorProps {
+  value: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+}
+
+const DEFAULT_WINDOW: CallingWindow = { start: '09:00', end: '17:00' };
+
+export function WeeklyScheduleEditor({ value, onChange }: WeeklyScheduleEditorProps) {
+  const setDayWindows = (day: DayKey, windows: CallingWindow[]) => {
+    onChange({ ...value, [day]: windows });
+  };
+
+  const updateWindow = (day: DayKey, index: number, updates: Partial<CallingWindow>) => {
+    setDayWindows(day, value[day].map((window, i) => (i === index ? { ...window, ...updates } : window)));
+  };
+
+  const addWindow = (day: DayKey) => {
+    // Start the new window an hour after the previous one ends
+    const last = value[day][value[day].length - 1];
+    const startHour = last ? Math.min(22, Number(last.end.split(':')[0]) + 1) : 9;
+    const toTime = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+    setDayWindows(day, [...value[day], { start: toTime(startHour), end: toTime(startHour + 1) }]);
+  };
+
+  const copyToWeekdays = (day: DayKey) => {
+    const updated = { ...value };
+    for (const weekday of ['mon', 'tue', 'wed', 'thu', 'fri'] as DayKey[]) {
+      updated[weekday] = value[day].map(window => ({ ...window }));
+    }
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-2">
+      {WEEKDAYS.map(day => {
+        const windows = value[day.value];
+        const enabled = windows.length > 0;
+
+        return (
+          <div key={day.value} className="p-3 border rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`schedule-${day.value}`}
+                  checked={enabled}
+                  onCheckedChange={(checked) => setDayWindows(day.value, checked ? [{ ...DEFAULT_WINDOW }] : [])}
+                />
+                <Label htmlFor={`schedule-${day.value}`} className="font-medium">{day.label}</Label>
+              </div>
+              {enabled && (
+                <div className="flex gap-1">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => addWindow(day.value)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Window
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copyToWeekdays(day.value)}
+                    aria-label={`Copy ${day.label} windows to Monday through Friday`}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {windows.map((window, index) => (
+              <div key={index} className="flex items-center gap-2 pl-10">
+                <Input
+                  type="time"
+                  value={window.start}
+                  onChange={(e) => updateWindow(day.value, index, { start: e.target.value })}
+                  aria-label={`${day.label} window ${index + 1} start`}
+                  className="w-32"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  value={window.end}
+                  onChange={(e) => updateWindow(day.value, index, { end: e.target.value })}
+                  aria-label={`${day.label} window ${index + 1} end`}
+                  className="w-32"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDayWindows(day.value, windows.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${day.label} window ${index + 1}`}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
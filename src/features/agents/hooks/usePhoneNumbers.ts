@@ -4,8 +4,10 @@ import { supabase } from '@/integrations/supabase/client';
 interface PhoneNumber {
   id: string;
   phone_number: string;
+  area_code: string;
   agent_id: string | null;
   status: string;
+  max_calls_per_day: number | null;
 }
 
 export function usePhoneNumbers() {
@@ -30,7 +32,7 @@ export function usePhoneNumbers() {
       
       const { data, error } = await supabase
         .from('phone_numbers')
-        .select('id, phone_number, agent_id, status')
+        .select('id, phone_number, area_code, agent_id, status, max_calls_per_day')
         .eq('user_id', user.id)
         .eq('status', 'active');
 
@@ -1,3 +1,8 @@
+import type { HolidayCalendar } from '@/lib/holidays';
+import { getDefaultWeeklySchedule, type WeeklySchedule } from '@/lib/calling-schedule';
+import { getDefaultQueueOrder, type QueueOrder } from '@/lib/queue-order';
+import type { AgentVariantEntry } from '@/lib/ab-testing';
+
 export interface StandardVariableMapping {
   variableKey: string;
   isSelected: boolean;
@@ -9,15 +14,18 @@ export interface CampaignFormData {
   name: string;
   description: string;
   agent_id: string;
-  contact_group_id: string;
+  contact_group_ids: string[];
   concurrent_calls: number;
   max_retry_days: number;
-  calling_hours: {
-    start: string;
-    end: string;
-  };
-  active_days: string[];
-  selectedVariables: StandardVariableMapping[];
+  weekly_schedule: WeeklySchedule;
+  schedule: CampaignScheduleDates;
+  retry_policy: RetryPolicy;
+  rate_limits: DialRateLimits;
+  spend_caps: SpendCaps;
+  caller_id_pool: CallerIdPoolEntry[];
+  queue_order: QueueOrder;
+  agent_variants: AgentVariantEntry[];
+  group_variables: Record<string, StandardVariableMapping[]>; // field mappings per contact group
 }
 
 export interface CampaignCreationWizardProps {
@@ -56,13 +64,138 @@ export const getDefaultFormData = (): CampaignFormData => ({
   name: '',
   description: '',
   agent_id: '',
-  contact_group_id: '',
+  contact_group_ids: [],
   concurrent_calls: 5,
   max_retry_days: 3,
-  calling_hours: {
-    start: '09:00',
-    end: '17:00',
+  weekly_schedule: getDefaultWeeklySchedule(),
+  schedule: getDefaultSchedule(),
+  retry_policy: getDefaultRetryPolicy(),
+  rate_limits: getDefaultRateLimits(),
+  spend_caps: getDefaultSpendCaps(),
+  caller_id_pool: [],
+  queue_order: getDefaultQueueOrder(),
+  agent_variants: [],
+  group_variables: {}
+});
+
+export type RetryOutcome = 'no-answer' | 'voicemail' | 'busy' | 'quick-hangup' | 'failed-to-initiate';
+
+export interface RetryRule {
+  enabled: boolean;
+  min_spacing_hours: number;
+  max_attempts_per_phone: number | null;
+  max_attempts_per_contact: number | null;
+  rotate_time_of_day: boolean;
+}
+
+export type VoicemailDropMode = 'agent' | 'never' | 'every_attempt' | 'final_attempt' | 'selected_attempts';
+
+/**
+ * What a call does when it reaches voicemail. The script's {{placeholders}} are filled from the
+ * contact's data when the call is placed.
+ */
+export interface VoicemailDrop {
+  mode: VoicemailDropMode;
+  // Attempt numbers of the contact (1 = first call), for selected_attempts
+  attempts: number[];
+  script: string;
+}
+
+/**
+ * Per-campaign retry policy, stored in campaigns.settings.retry_policy
+ */
+export interface RetryPolicy {
+  rules: Record<RetryOutcome, RetryRule>;
+  // Missing on campaigns created before voicemail drop, which keep the agent's setting
+  voicemail_drop?: VoicemailDrop;
+}
+
+export const RETRY_OUTCOMES: { value: RetryOutcome; label: string; description: string }[] = [
+  { value: 'no-answer', label: 'No Answer', description: 'The call rang out without being picked up' },
+  { value: 'voicemail', label: 'Voicemail', description: 'The call reached voicemail or an answering machine' },
+  { value: 'busy', label: 'Busy', description: 'The line was busy' },
+  { value: 'quick-hangup', label: 'Quick Hangup', description: 'The lead hung up within 30 seconds' },
+  { value: 'failed-to-initiate', label: 'Failed to Initiate', description: 'The call could not be placed' },
+];
+
+export const VOICEMAIL_DROP_MODES: { value: VoicemailDropMode; label: string; description: string }[] = [
+  { value: 'agent', label: "Agent's setting", description: "Every call follows the agent's own voicemail setting" },
+  { value: 'never', label: 'Never leave a message', description: 'Hang up on every voicemail' },
+  { value: 'every_attempt', label: 'Every attempt', description: 'Leave the script on every voicemail' },
+  { value: 'final_attempt', label: 'Final attempt only', description: 'Hang up until the retry rules allow no more voicemail retries' },
+  { value: 'selected_attempts', label: 'Selected attempts', description: 'Leave the script only on the attempt numbers you choose' },
+];
+
+export const getDefaultVoicemailDrop = (): VoicemailDrop => ({
+  mode: 'agent',
+  attempts: [],
+  script: '',
+});
+
+export const getDefaultRetryPolicy = (): RetryPolicy => ({
+  rules: {
+    'no-answer': { enabled: true, min_spacing_hours: 20, max_attempts_per_phone: 4, max_attempts_per_contact: 6, rotate_time_of_day: true },
+    'voicemail': { enabled: true, min_spacing_hours: 24, max_attempts_per_phone: 2, max_attempts_per_contact: 4, rotate_time_of_day: true },
+    'busy': { enabled: true, min_spacing_hours: 1, max_attempts_per_phone: 3, max_attempts_per_contact: 6, rotate_time_of_day: false },
+    'quick-hangup': { enabled: true, min_spacing_hours: 48, max_attempts_per_phone: 2, max_attempts_per_contact: 3, rotate_time_of_day: true },
+    'failed-to-initiate': { enabled: true, min_spacing_hours: 1, max_attempts_per_phone: 2, max_attempts_per_contact: 4, rotate_time_of_day: false },
   },
-  active_days: ['mon', 'tue', 'wed', 'thu', 'fri'],
-  selectedVariables: []
-});
\ No newline at end of file
+  voicemail_drop: getDefaultVoicemailDrop(),
+});
+
+/**
+ * Per-campaign dialing caps, stored in campaigns.settings.rate_limits (null = no cap)
+ */
+export interface DialRateLimits {
+  per_minute: number | null;
+  per_hour: number | null;
+  per_day: number | null;
+}
+
+export const getDefaultRateLimits = (): DialRateLimits => ({
+  per_minute: 10,
+  per_hour: 300,
+  per_day: null,
+});
+
+/**
+ * Per-campaign spend caps in cents, stored in campaigns.settings.spend_caps (null = no cap)
+ */
+export interface SpendCaps {
+  max_daily_cents: number | null;
+  max_total_cents: number | null;
+  max_cost_per_appointment_cents: number | null;
+}
+
+export const getDefaultSpendCaps = (): SpendCaps => ({
+  max_daily_cents: null,
+  max_total_cents: null,
+  max_cost_per_appointment_cents: null,
+});
+
+/**
+ * Phone number in a campaign's caller-ID pool (campaign_phone_numbers).
+ * The daily cap is stored on the phone number itself (null = no cap).
+ */
+export interface CallerIdPoolEntry {
+  phone_number_id: string;
+  max_calls_per_day: number | null;
+}
+
+/**
+ * Start/end and blackout dates of a campaign (campaigns.starts_at, ends_at, blackout_dates, holiday_calendar).
+ * starts_at and ends_at hold datetime-local input values; empty means "immediately" / "no end".
+ */
+export interface CampaignScheduleDates {
+  starts_at: string;
+  ends_at: string;
+  blackout_dates: string[];
+  holiday_calendar: HolidayCalendar | null;
+}
+
+export const getDefaultSchedule = (): CampaignScheduleDates => ({
+  starts_at: '',
+  ends_at: '',
+  blackout_dates: [],
+  holiday_calendar: null,
+});
@@ -14,6 +14,36 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_dialing_limits: {
+        Row: {
+          created_at: string | null
+          max_calls_per_day: number | null
+          max_calls_per_hour: number | null
+          max_calls_per_minute: number | null
+          max_concurrent_calls: number | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          max_calls_per_day?: number | null
+          max_calls_per_hour?: number | null
+          max_calls_per_minute?: number | null
+          max_concurrent_calls?: number | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          max_calls_per_day?: number | null
+          max_calls_per_hour?: number | null
+          max_calls_per_minute?: number | null
+          max_concurrent_calls?: number | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       agent_templates: {
         Row: {
           base_prompt: string
@@ -50,6 +80,258 @@ export type Database = {
         }
         Relationships: []
       }
+      campaign_agent_variants: {
+        Row: {
+          agent_id: string
+          campaign_id: string
+          created_at: string
+          id: string
+          label: string
+          weight: number
+        }
+        Insert: {
+          agent_id: string
+          campaign_id: string
+          created_at?: string
+          id?: string
+          label: string
+          weight?: number
+        }
+        Update: {
+          agent_id?: string
+          campaign_id?: string
+          created_at?: string
+          id?: string
+          label?: string
+          weight?: number
+        }
+        Relationships: []
+      }
+      campaign_events: {
+        Row: {
+          actor_id: string | null
+          actor_type: string
+          campaign_id: string
+          created_at: string
+          details: Json
+          event_type: string
+          from_status: string | null
+          id: string
+          reason: string | null
+          to_status: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_type: string
+          campaign_id: string
+          created_at?: string
+          details?: Json
+          event_type: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          actor_type?: string
+          campaign_id?: string
+          created_at?: string
+          details?: Json
+          event_type?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status?: string | null
+        }
+        Relationships: []
+      }
+      campaign_phone_numbers: {
+        Row: {
+          campaign_id: string
+          created_at: string | null
+          last_used_at: string | null
+          phone_number_id: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string | null
+          last_used_at?: string | null
+          phone_number_id: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string | null
+          last_used_at?: string | null
+          phone_number_id?: string
+        }
+        Relationships: []
+      }
+      compliance_skips: {
+        Row: {
+          campaign_id: string
+          contact_id: string
+          created_at: string
+          detail: string | null
+          id: string
+          local_date: string
+          phone_index: number
+          phone_number: string
+          rule: string
+          state: string
+        }
+        Insert: {
+          campaign_id: string
+          contact_id: string
+          created_at?: string
+          detail?: string | null
+          id?: string
+          local_date: string
+          phone_index?: number
+          phone_number: string
+          rule: string
+          state: string
+        }
+        Update: {
+          campaign_id?: string
+          contact_id?: string
+          created_at?: string
+          detail?: string | null
+          id?: string
+          local_date?: string
+          phone_index?: number
+          phone_number?: string
+          rule?: string
+          state?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_skips_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_skips_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_cooldown_rules: {
+        Row: {
+          conversation_cooldown_days: number | null
+          created_at: string
+          enabled: boolean
+          max_dials_per_week: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_cooldown_days?: number | null
+          created_at?: string
+          enabled?: boolean
+          max_dials_per_week?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_cooldown_days?: number | null
+          created_at?: string
+          enabled?: boolean
+          max_dials_per_week?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      dial_rate_counters: {
+        Row: {
+          call_count: number
+          scope: string
+          scope_id: string
+          window_start: string
+          window_type: string
+        }
+        Insert: {
+          call_count?: number
+          scope: string
+          scope_id: string
+          window_start: string
+          window_type: string
+        }
+        Update: {
+          call_count?: number
+          scope?: string
+          scope_id?: string
+          window_start?: string
+          window_type?: string
+        }
+        Relationships: []
+      }
+      do_not_call_numbers: {
+        Row: {
+          attempt_id: string | null
+          campaign_id: string | null
+          created_at: string
+          id: string
+          normalized_phone: string | null
+          phone_number: string
+          reason: string | null
+          source: string
+          user_id: string
+        }
+        Insert: {
+          attempt_id?: string | null
+          campaign_id?: string | null
+          created_at?: string
+          id?: string
+          normalized_phone?: string | null
+          phone_number: string
+          reason?: string | null
+          source?: string
+          user_id: string
+        }
+        Update: {
+          attempt_id?: string | null
+          campaign_id?: string | null
+          created_at?: string
+          id?: string
+          normalized_phone?: string | null
+          phone_number?: string
+          reason?: string | null
+          source?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      follow_up_rubrics: {
+        Row: {
+          created_at: string
+          rubric: Json
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          rubric: Json
+          updated_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          rubric?: Json
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
       lead_specs: {
         Row: {
           created_at: string
@@ -262,9 +544,11 @@ export type Database = {
       campaign_contact_attempts: {
         Row: {
           actual_time: string | null
+          agent_id: string | null
           appointment_data: Json | null
           attempt_day: number
           attempt_number: number
+          call_analyzed_at: string | null
           call_duration: number | null
           call_status: Database["public"]["Enums"]["call_status"] | null
           call_successful: boolean | null
@@ -273,25 +557,39 @@ export type Database = {
           contact_id: string | null
           created_at: string | null
           custom_analysis: Json | null
+          disposition: string | null
           ended_at: string | null
+          extracted_fields: Json | null
           follow_up_potential: string | null
           follow_up_reason: string | null
+          follow_up_rubric_version: number | null
+          follow_up_scored_at: string | null
+          follow_up_scorer: string | null
+          from_phone_number: string | null
+          from_phone_number_id: string | null
           id: string
           phone_index: number | null
           phone_number: string
+          reconciled_at: string | null
           recording_url: string | null
           retell_call_data: Json | null
           retell_call_id: string | null
+          retry_outcome: string | null
           scheduled_time: string | null
           total_phones: number | null
           transcript: string | null
           user_id: string | null
+          variant_id: string | null
+          voicemail_action: string | null
+          voicemail_message: string | null
         }
         Insert: {
           actual_time?: string | null
+          agent_id?: string | null
           appointment_data?: Json | null
           attempt_day?: number
           attempt_number: number
+          call_analyzed_at?: string | null
           call_duration?: number | null
           call_status?: Database["public"]["Enums"]["call_status"] | null
           call_successful?: boolean | null
@@ -300,25 +598,39 @@ export type Database = {
           contact_id?: string | null
           created_at?: string | null
           custom_analysis?: Json | null
+          disposition?: string | null
           ended_at?: string | null
+          extracted_fields?: Json | null
           follow_up_potential?: string | null
           follow_up_reason?: string | null
+          follow_up_rubric_version?: number | null
+          follow_up_scored_at?: string | null
+          follow_up_scorer?: string | null
+          from_phone_number?: string | null
+          from_phone_number_id?: string | null
           id?: string
           phone_index?: number | null
           phone_number: string
+          reconciled_at?: string | null
           recording_url?: string | null
           retell_call_data?: Json | null
           retell_call_id?: string | null
+          retry_outcome?: string | null
           scheduled_time?: string | null
           total_phones?: number | null
           transcript?: string | null
           user_id?: string | null
+          variant_id?: string | null
+          voicemail_action?: string | null
+          voicemail_message?: string | null
         }
         Update: {
           actual_time?: string | null
+          agent_id?: string | null
           appointment_data?: Json | null
           attempt_day?: number
           attempt_number?: number
+          call_analyzed_at?: string | null
           call_duration?: number | null
           call_status?: Database["public"]["Enums"]["call_status"] | null
           call_successful?: boolean | null
@@ -327,19 +639,31 @@ export type Database = {
           contact_id?: string | null
           created_at?: string | null
           custom_analysis?: Json | null
+          disposition?: string | null
           ended_at?: string | null
+          extracted_fields?: Json | null
           follow_up_potential?: string | null
           follow_up_reason?: string | null
+          follow_up_rubric_version?: number | null
+          follow_up_scored_at?: string | null
+          follow_up_scorer?: string | null
+          from_phone_number?: string | null
+          from_phone_number_id?: string | null
           id?: string
           phone_index?: number | null
           phone_number?: string
+          reconciled_at?: string | null
           recording_url?: string | null
           retell_call_data?: Json | null
           retell_call_id?: string | null
+          retry_outcome?: string | null
           scheduled_time?: string | null
           total_phones?: number | null
           transcript?: string | null
           user_id?: string | null
+          variant_id?: string | null
+          voicemail_action?: string | null
+          voicemail_message?: string | null
         }
         Relationships: [
           {
@@ -413,6 +737,7 @@ export type Database = {
           created_at: string | null
           field_mappings: Json | null
           id: string
+          position: number
           selected_fields: Json | null
         }
         Insert: {
@@ -421,6 +746,7 @@ export type Database = {
           created_at?: string | null
           field_mappings?: Json | null
           id?: string
+          position?: number
           selected_fields?: Json | null
         }
         Update: {
@@ -429,6 +755,7 @@ export type Database = {
           created_at?: string | null
           field_mappings?: Json | null
           id?: string
+          position?: number
           selected_fields?: Json | null
         }
         Relationships: [
@@ -453,13 +780,16 @@ export type Database = {
           active_calls_count: number | null
           active_days: string[] | null
           agent_id: string | null
+          blackout_dates: string[]
           calling_hours: Json | null
           completed_at: string | null
           concurrent_calls: number | null
           contact_group_id: string | null
           created_at: string | null
           description: string | null
+          ends_at: string | null
           field_mappings: Json | null
+          holiday_calendar: string | null
           id: string
           max_retry_days: number | null
           name: string
@@ -467,22 +797,28 @@ export type Database = {
           schedule_config: Json | null
           settings: Json | null
           started_at: string | null
+          starts_at: string | null
           status: Database["public"]["Enums"]["campaign_status"] | null
+          summary: Json | null
           timezone: string | null
           updated_at: string | null
           user_id: string
+          weekly_schedule: Json | null
         }
         Insert: {
           active_calls_count?: number | null
           active_days?: string[] | null
           agent_id?: string | null
+          blackout_dates?: string[]
           calling_hours?: Json | null
           completed_at?: string | null
           concurrent_calls?: number | null
           contact_group_id?: string | null
           created_at?: string | null
           description?: string | null
+          ends_at?: string | null
           field_mappings?: Json | null
+          holiday_calendar?: string | null
           id?: string
           max_retry_days?: number | null
           name: string
@@ -490,22 +826,28 @@ export type Database = {
           schedule_config?: Json | null
           settings?: Json | null
           started_at?: string | null
+          starts_at?: string | null
           status?: Database["public"]["Enums"]["campaign_status"] | null
+          summary?: Json | null
           timezone?: string | null
           updated_at?: string | null
           user_id: string
+          weekly_schedule?: Json | null
         }
         Update: {
           active_calls_count?: number | null
           active_days?: string[] | null
           agent_id?: string | null
+          blackout_dates?: string[]
           calling_hours?: Json | null
           completed_at?: string | null
           concurrent_calls?: number | null
           contact_group_id?: string | null
           created_at?: string | null
           description?: string | null
+          ends_at?: string | null
           field_mappings?: Json | null
+          holiday_calendar?: string | null
           id?: string
           max_retry_days?: number | null
           name?: string
@@ -513,10 +855,13 @@ export type Database = {
           schedule_config?: Json | null
           settings?: Json | null
           started_at?: string | null
+          starts_at?: string | null
           status?: Database["public"]["Enums"]["campaign_status"] | null
+          summary?: Json | null
           timezone?: string | null
           updated_at?: string | null
           user_id?: string
+          weekly_schedule?: Json | null
         }
         Relationships: [
           {
@@ -579,12 +924,16 @@ export type Database = {
           custom_fields: Json | null
           data: Json
           email: string | null
+          extracted_at: string | null
+          extracted_fields: Json
           first_name: string | null
           id: string
           last_name: string | null
           phone_number: string
           phone_numbers: string[] | null
           status: string | null
+          timezone: string | null
+          timezone_source: string | null
           updated_at: string | null
         }
         Insert: {
@@ -594,12 +943,16 @@ export type Database = {
           custom_fields?: Json | null
           data?: Json
           email?: string | null
+          extracted_at?: string | null
+          extracted_fields?: Json
           first_name?: string | null
           id?: string
           last_name?: string | null
           phone_number: string
           phone_numbers?: string[] | null
           status?: string | null
+          timezone?: string | null
+          timezone_source?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -609,12 +962,16 @@ export type Database = {
           custom_fields?: Json | null
           data?: Json
           email?: string | null
+          extracted_at?: string | null
+          extracted_fields?: Json
           first_name?: string | null
           id?: string
           last_name?: string | null
           phone_number?: string
           phone_numbers?: string[] | null
           status?: string | null
+          timezone?: string | null
+          timezone_source?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -696,6 +1053,9 @@ export type Database = {
           area_code: string
           created_at: string | null
           id: string
+          max_calls_per_day: number | null
+          max_calls_per_hour: number | null
+          max_calls_per_minute: number | null
           monthly_cost_cents: number
           next_billing_date: string | null
           phone_number: string
@@ -712,6 +1072,9 @@ export type Database = {
           area_code: string
           created_at?: string | null
           id?: string
+          max_calls_per_day?: number | null
+          max_calls_per_hour?: number | null
+          max_calls_per_minute?: number | null
           monthly_cost_cents?: number
           next_billing_date?: string | null
           phone_number: string
@@ -728,6 +1091,9 @@ export type Database = {
           area_code?: string
           created_at?: string | null
           id?: string
+          max_calls_per_day?: number | null
+          max_calls_per_hour?: number | null
+          max_calls_per_minute?: number | null
           monthly_cost_cents?: number
           next_billing_date?: string | null
           phone_number?: string
@@ -791,6 +1157,24 @@ export type Database = {
           },
         ]
       }
+      plan_concurrency_limits: {
+        Row: {
+          max_concurrent_calls: number
+          plan: Database["public"]["Enums"]["user_plan"]
+          updated_at: string
+        }
+        Insert: {
+          max_concurrent_calls: number
+          plan: Database["public"]["Enums"]["user_plan"]
+          updated_at?: string
+        }
+        Update: {
+          max_concurrent_calls?: number
+          plan?: Database["public"]["Enums"]["user_plan"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           company_name: string | null
@@ -830,12 +1214,139 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_callbacks: {
+        Row: {
+          callback_at: string
+          campaign_id: string
+          contact_id: string
+          created_at: string
+          dialed_attempt_id: string | null
+          id: string
+          note: string | null
+          phone_index: number
+          phone_number: string
+          requested_text: string | null
+          source: string
+          source_attempt_id: string
+          status: string
+          time_resolved: boolean
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          callback_at: string
+          campaign_id: string
+          contact_id: string
+          created_at?: string
+          dialed_attempt_id?: string | null
+          id?: string
+          note?: string | null
+          phone_index?: number
+          phone_number: string
+          requested_text?: string | null
+          source: string
+          source_attempt_id: string
+          status?: string
+          time_resolved?: boolean
+          timezone: string
+          updated_at?: string
+        }
+        Update: {
+          callback_at?: string
+          campaign_id?: string
+          contact_id?: string
+          created_at?: string
+          dialed_attempt_id?: string | null
+          id?: string
+          note?: string | null
+          phone_index?: number
+          phone_number?: string
+          requested_text?: string | null
+          source?: string
+          source_attempt_id?: string
+          status?: string
+          time_resolved?: boolean
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      state_calling_rules: {
+        Row: {
+          citation: string | null
+          created_at: string
+          enabled: boolean
+          max_attempts_per_day: number | null
+          notes: string | null
+          saturday_end: string | null
+          saturday_start: string | null
+          state: string
+          sunday_end: string | null
+          sunday_start: string | null
+          updated_at: string
+          updated_by: string | null
+          weekday_end: string
+          weekday_start: string
+        }
+        Insert: {
+          citation?: string | null
+          created_at?: string
+          enabled?: boolean
+          max_attempts_per_day?: number | null
+          notes?: string | null
+          saturday_end?: string | null
+          saturday_start?: string | null
+          state: string
+          sunday_end?: string | null
+          sunday_start?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          weekday_end?: string
+          weekday_start?: string
+        }
+        Update: {
+          citation?: string | null
+          created_at?: string
+          enabled?: boolean
+          max_attempts_per_day?: number | null
+          notes?: string | null
+          saturday_end?: string | null
+          saturday_start?: string | null
+          state?: string
+          sunday_end?: string | null
+          sunday_start?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          weekday_end?: string
+          weekday_start?: string
+        }
+        Relationships: []
+      }
+      us_states: {
+        Row: {
+          code: string
+          name: string
+          timezone: string
+        }
+        Insert: {
+          code: string
+          name: string
+          timezone: string
+        }
+        Update: {
+          code?: string
+          name?: string
+          timezone?: string
+        }
+        Relationships: []
+      }
       user_agents: {
         Row: {
           configured_prompt: string | null
           created_at: string | null
           customizations: Json | null
           dynamic_prompt: string | null
+          extraction_schema: Json
           id: string
           is_active: boolean | null
           name: string
@@ -855,6 +1366,7 @@ export type Database = {
           created_at?: string | null
           customizations?: Json | null
           dynamic_prompt?: string | null
+          extraction_schema?: Json
           id?: string
           is_active?: boolean | null
           name: string
@@ -874,6 +1386,7 @@ export type Database = {
           created_at?: string | null
           customizations?: Json | null
           dynamic_prompt?: string | null
+          extraction_schema?: Json
           id?: string
           is_active?: boolean | null
           name?: string
@@ -1047,6 +1560,57 @@ export type Database = {
           },
         ]
       }
+      webhook_errors: {
+        Row: {
+          created_at: string | null
+          dead_lettered_at: string | null
+          error_message: string
+          error_stack: string | null
+          event_id: string
+          event_type: string
+          id: string
+          last_retry_at: string | null
+          max_retries: number | null
+          next_retry_at: string | null
+          payload: Json
+          resolved_at: string | null
+          retry_count: number | null
+          webhook_type: string
+        }
+        Insert: {
+          created_at?: string | null
+          dead_lettered_at?: string | null
+          error_message: string
+          error_stack?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          last_retry_at?: string | null
+          max_retries?: number | null
+          next_retry_at?: string | null
+          payload: Json
+          resolved_at?: string | null
+          retry_count?: number | null
+          webhook_type: string
+        }
+        Update: {
+          created_at?: string | null
+          dead_lettered_at?: string | null
+          error_message?: string
+          error_stack?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_retry_at?: string | null
+          max_retries?: number | null
+          next_retry_at?: string | null
+          payload?: Json
+          resolved_at?: string | null
+          retry_count?: number | null
+          webhook_type?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -1070,6 +1634,26 @@ export type Database = {
         }
         Returns: Json
       }
+      build_campaign_summary: {
+        Args: { p_campaign_id: string; p_completion_reason: string }
+        Returns: Json
+      }
+      calling_window_segment: {
+        Args: { p_at?: string; p_calling_hours: Json; p_timezone: string }
+        Returns: number
+      }
+      campaign_has_remaining_contacts: {
+        Args: { p_campaign_id: string }
+        Returns: boolean
+      }
+      campaign_weekly_schedule: {
+        Args: {
+          p_active_days: string[]
+          p_calling_hours: Json
+          p_weekly_schedule: Json
+        }
+        Returns: Json
+      }
       check_agent_edit_allowed: {
         Args: { agent_uuid: string }
         Returns: Json
@@ -1078,6 +1662,22 @@ export type Database = {
         Args: { p_estimated_cost_cents?: number; p_user_id: string }
         Returns: Json
       }
+      check_campaign_spend_caps: {
+        Args: { p_campaign_id: string; p_estimated_call_cents?: number }
+        Returns: Json
+      }
+      cleanup_dial_rate_counters: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      complete_campaign: {
+        Args: { p_campaign_id: string; p_completion_reason: string }
+        Returns: Json
+      }
+      contact_sort_value: {
+        Args: { p_value: string }
+        Returns: number
+      }
       deduct_credits: {
         Args: {
           p_amount_cents: number
@@ -1087,14 +1687,149 @@ export type Database = {
         }
         Returns: Json
       }
+      get_account_call_stats: {
+        Args: { p_days?: number; p_user_id: string }
+        Returns: {
+          appointments: number
+          avg_duration_seconds: number
+          avg_retell_cost_cents: number
+          calls: number
+          outcome: string
+        }[]
+      }
+      get_account_concurrency_limit: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      get_account_slot_usage: {
+        Args: { p_user_id: string }
+        Returns: {
+          active_calls: number
+          campaign_id: string
+          campaign_name: string
+          concurrent_calls: number
+          status: string
+        }[]
+      }
       get_available_credits: {
         Args: { p_user_id: string }
         Returns: number
       }
+      get_campaign_contact_phones: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          contact_group_id: string
+          contact_id: string
+          is_duplicate: boolean
+          phone_index: number
+          phone_number: string
+          total_phones: number
+        }[]
+      }
+      get_campaign_contact_timezones: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          contact_count: number
+          timezone: string
+        }[]
+      }
+      get_campaign_group_progress: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          called_contacts: number
+          contact_group_id: string
+          duplicate_numbers: number
+          group_name: string
+          total_contacts: number
+          unique_contacts: number
+        }[]
+      }
+      get_campaign_rate_limit_usage: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          cap: number
+          scope: string
+          scope_id: string
+          scope_label: string
+          used: number
+          window_type: string
+        }[]
+      }
+      get_campaign_spend: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          appointments: number
+          cost_per_appointment_cents: number
+          in_progress_calls: number
+          today_cents: number
+          total_cents: number
+        }[]
+      }
+      get_campaign_variant_stats: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          agent_id: string
+          agent_name: string
+          appointments: number
+          avg_duration_seconds: number
+          connected: number
+          contacts: number
+          dialed: number
+          high_follow_up: number
+          label: string
+          medium_follow_up: number
+          variant_id: string
+          weight: number
+        }[]
+      }
+      get_campaign_voicemail_stats: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          attempt_number: number
+          voicemail_action: string
+          voicemails: number
+        }[]
+      }
+      get_contact_group_phones: {
+        Args: { p_contact_group_ids: string[] }
+        Returns: {
+          contact_group_id: string
+          contact_id: string
+          is_duplicate: boolean
+          phone_index: number
+          phone_number: string
+          timezone: string
+          total_phones: number
+        }[]
+      }
       get_credit_status: {
         Args: { p_user_id: string }
         Returns: Json
       }
+      get_dial_rate_caps: {
+        Args: { p_campaign_id: string; p_phone_number_id?: string }
+        Returns: {
+          cap: number
+          scope: string
+          scope_id: string
+          window_type: string
+        }[]
+      }
+      get_follow_up_scoring_queue: {
+        Args: { p_limit?: number; p_user_id?: string }
+        Returns: {
+          attempt_id: string
+        }[]
+      }
+      get_held_numbers: {
+        Args: { p_phone_numbers: string[] }
+        Returns: {
+          detail: string
+          held_until: string
+          phone_key: string
+          reason: string
+        }[]
+      }
       get_next_contacts_to_call: {
         Args: {
           p_campaign_id: string
@@ -1102,21 +1837,137 @@ export type Database = {
           p_max_retry_days: number
         }
         Returns: {
+          attempt_day: number
+          attempt_number: number
+          callback_id: string
+          compliance_detail: string
+          compliance_rule: string
+          contact_attempts: number
           contact_data: Json
+          contact_group_id: string
           contact_id: string
+          contact_state: string
+          last_attempt_at: string
+          last_outcome: string
+          phone_attempts: number
           phone_index: number
           phone_number: string
+          timezone: string
           total_phones: number
         }[]
       }
+      get_number_cooldown: {
+        Args: { p_at?: string; p_phone_number: string; p_user_id: string }
+        Returns: {
+          detail: string
+          held_until: string
+          reason: string
+        }[]
+      }
+      get_retry_rule: {
+        Args: { p_outcome: string; p_settings: Json }
+        Returns: Json
+      }
+      is_number_suppressed: {
+        Args: { p_phone_number: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_within_calling_hours: {
+        Args: {
+          p_active_days: string[]
+          p_at?: string
+          p_calling_hours: Json
+          p_timezone: string
+        }
+        Returns: boolean
+      }
+      is_within_weekly_schedule: {
+        Args: { p_at?: string; p_schedule: Json; p_timezone: string }
+        Returns: boolean
+      }
+      log_campaign_event: {
+        Args: {
+          p_campaign_id: string
+          p_details?: Json
+          p_event_type: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      phone_area_code: {
+        Args: { p_phone_number: string }
+        Returns: string
+      }
+      record_extracted_fields: {
+        Args: { p_attempt_id: string; p_fields: Json }
+        Returns: undefined
+      }
       release_reserved_credits: {
         Args: { p_amount_cents: number; p_user_id: string }
         Returns: Json
       }
+      resolve_contact_state: {
+        Args: { p_address: string; p_data: Json; p_phone_number: string }
+        Returns: string
+      }
+      save_follow_up_rubric: {
+        Args: { p_rubric: Json }
+        Returns: number
+      }
+      schedule_callback: {
+        Args: {
+          p_attempt_id: string
+          p_callback_at: string
+          p_note: string
+          p_requested_text: string
+          p_source: string
+          p_time_resolved: boolean
+          p_timezone: string
+        }
+        Returns: string
+      }
+      select_caller_id: {
+        Args: { p_campaign_id: string; p_contact_id: string; p_to_number: string }
+        Returns: {
+          match_type: string
+          phone_number: string
+          phone_number_id: string
+        }[]
+      }
+      state_calling_rule_block: {
+        Args: {
+          p_at?: string
+          p_attempts_last_day: number
+          p_state: string
+          p_timezone: string
+        }
+        Returns: {
+          detail: string
+          rule: string
+        }[]
+      }
+      suppress_attempt_number: {
+        Args: { p_attempt_id: string; p_reason: string; p_source: string }
+        Returns: string
+      }
+      try_acquire_dial_slot: {
+        Args: { p_campaign_id: string; p_phone_number_id?: string }
+        Returns: Json
+      }
+      weekly_schedule_segment: {
+        Args: { p_at?: string; p_schedule: Json; p_timezone: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "manager" | "user"
-      call_status: "completed" | "failed" | "busy" | "no-answer" | "in-progress"
+      call_status:
+        | "completed"
+        | "failed"
+        | "busy"
+        | "no-answer"
+        | "in-progress"
+        | "voicemail"
       campaign_status: "active" | "paused" | "completed" | "scheduled" | "draft"
       contact_group_status: "active" | "paused" | "completed"
       phone_status: "active" | "inactive"
@@ -1250,7 +2101,14 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "manager", "user"],
-      call_status: ["completed", "failed", "busy", "no-answer", "in-progress"],
+      call_status: [
+        "completed",
+        "failed",
+        "busy",
+        "no-answer",
+        "in-progress",
+        "voicemail",
+      ],
       campaign_status: ["active", "paused", "completed", "scheduled", "draft"],
       contact_group_status: ["active", "paused", "completed"],
       phone_status: ["active", "inactive"],
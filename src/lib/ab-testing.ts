@@ -0,0 +1,127 @@
+/**
+ * A/B split testing across agents
+ * Variant setup for the campaign wizard and the per-variant comparison shown in ResultsView.
+ * Variant A is the campaign's own agent and acts as the control.
+ */
+
+/**
+ * Agent in a campaign's A/B split (campaign_agent_variants); labels follow list order (A, B, C...)
+ */
+export interface AgentVariantEntry {
+  agent_id: string;
+  weight: number;
+}
+
+/**
+ * Per-variant results from get_campaign_variant_stats
+ */
+export interface VariantStats {
+  variant_id: string;
+  label: string;
+  weight: number;
+  agent_id: string;
+  agent_name: string | null;
+  contacts: number;
+  dialed: number;
+  connected: number;
+  avg_duration_seconds: number | null;
+  high_follow_up: number;
+  medium_follow_up: number;
+  appointments: number;
+}
+
+export type Significance = 'significant' | 'trending' | 'not_significant' | 'insufficient_data';
+
+export interface ProportionTest {
+  difference: number; // variant rate minus control rate
+  p_value: number | null;
+  significance: Significance;
+}
+
+// Below this many dialed calls per variant the normal approximation is not trustworthy
+export const MIN_SAMPLE_SIZE = 30;
+
+export const SIGNIFICANCE_LABELS: Record<Significance, string> = {
+  significant: 'Significant (95%)',
+  trending: 'Trending (90%)',
+  not_significant: 'Not significant',
+  insufficient_data: 'Needs more data',
+};
+
+export const variantLabel = (index: number) => String.fromCharCode(65 + index);
+
+export const getDefaultAgentVariants = (primaryAgentId: string): AgentVariantEntry[] => [
+  { agent_id: primaryAgentId, weight: 50 },
+  { agent_id: '', weight: 50 },
+];
+
+/**
+ * Share of traffic (0–100) each variant receives
+ */
+export function getTrafficShares(variants: AgentVariantEntry[]): number[] {
+  const total = variants.reduce((sum, variant) => sum + Math.max(0, variant.weight), 0);
+  return variants.map(variant => (total > 0 ? Math.round((100 * Math.max(0, variant.weight)) / total) : 0));
+}
+
+/**
+ * Validation message for an A/B split, or null when it is valid (an empty list means no split)
+ */
+export function validateAgentVariants(variants: AgentVariantEntry[]): string | null {
+  if (variants.length === 0) return null;
+  if (variants.length < 2) return 'An A/B test needs at least two agents.';
+  if (variants.some(variant => !variant.agent_id)) return 'Choose an agent for every variant.';
+  if (new Set(variants.map(variant => variant.agent_id)).size !== variants.length) {
+    return 'Each variant must use a different agent.';
+  }
+  if (variants.some(variant => !Number.isInteger(variant.weight) || variant.weight <= 0)) {
+    return 'Traffic weights must be whole numbers above 0.';
+  }
+  return null;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, accurate to about 1e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided two-proportion z-test of a variant against the control
+ */
+export function compareProportions(
+  controlSuccesses: number,
+  controlTotal: number,
+  variantSuccesses: number,
+  variantTotal: number
+): ProportionTest {
+  const controlRate = controlTotal > 0 ? controlSuccesses / controlTotal : 0;
+  const variantRate = variantTotal > 0 ? variantSuccesses / variantTotal : 0;
+  const difference = variantRate - controlRate;
+
+  if (controlTotal < MIN_SAMPLE_SIZE || variantTotal < MIN_SAMPLE_SIZE) {
+    return { difference, p_value: null, significance: 'insufficient_data' };
+  }
+
+  const pooled = (controlSuccesses + variantSuccesses) / (controlTotal + variantTotal);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / controlTotal + 1 / variantTotal));
+  // Identical all-or-nothing outcomes on both sides: no evidence of a difference
+  if (standardError === 0) {
+    return { difference, p_value: 1, significance: 'not_significant' };
+  }
+
+  const pValue = 2 * (1 - normalCdf(Math.abs(difference) / standardError));
+  return {
+    difference,
+    p_value: pValue,
+    significance: pValue < 0.05 ? 'significant' : pValue < 0.1 ? 'trending' : 'not_significant',
+  };
+}
+
+export const connectRate = (stats: VariantStats) => (stats.dialed > 0 ? stats.connected / stats.dialed : 0);
+
+export const appointmentRate = (stats: VariantStats) => (stats.dialed > 0 ? stats.appointments / stats.dialed : 0);
+
+export const followUpRate = (stats: VariantStats) =>
+  stats.connected > 0 ? (stats.high_follow_up + stats.medium_follow_up) / stats.connected : 0;
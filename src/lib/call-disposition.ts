@@ -0,0 +1,60 @@
+/**
+ * Call dispositions (campaign_contact_attempts.disposition)
+ * Set by retell-webhook from how the call ended and the post-call analysis; mirrors
+ * supabase/functions/_shared/call-disposition.ts.
+ */
+
+export type CallDisposition =
+  | 'connected'
+  | 'no-answer'
+  | 'busy'
+  | 'voicemail'
+  | 'failed-to-connect'
+  | 'invalid-number'
+  | 'early-hangup'
+  | 'do-not-call-request'
+  | 'transferred'
+  | 'appointment-booked';
+
+export const CALL_DISPOSITIONS: CallDisposition[] = [
+  'connected',
+  'appointment-booked',
+  'transferred',
+  'early-hangup',
+  'do-not-call-request',
+  'voicemail',
+  'no-answer',
+  'busy',
+  'failed-to-connect',
+  'invalid-number',
+];
+
+export const CALL_DISPOSITION_LABELS: Record<CallDisposition, string> = {
+  connected: 'Connected',
+  'no-answer': 'No answer',
+  busy: 'Busy',
+  voicemail: 'Voicemail',
+  'failed-to-connect': 'Failed to connect',
+  'invalid-number': 'Invalid number',
+  'early-hangup': 'Early hangup',
+  'do-not-call-request': 'Do-not-call request',
+  transferred: 'Transferred',
+  'appointment-booked': 'Appointment booked',
+};
+
+// Dispositions of calls that reached the lead
+export const CONNECTED_DISPOSITIONS: CallDisposition[] = [
+  'connected',
+  'early-hangup',
+  'do-not-call-request',
+  'transferred',
+  'appointment-booked',
+];
+
+export function isConnectedDisposition(disposition: string | null | undefined): boolean {
+  return CONNECTED_DISPOSITIONS.includes(disposition as CallDisposition);
+}
+
+export function getDispositionLabel(disposition: string | null | undefined): string | null {
+  return disposition ? CALL_DISPOSITION_LABELS[disposition as CallDisposition] || disposition : null;
+}
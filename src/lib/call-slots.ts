@@ -0,0 +1,27 @@
+/**
+ * Account-wide concurrency ceiling (public.get_account_concurrency_limit)
+ * Live calls across all of an account's campaigns never exceed the ceiling: an admin-set limit,
+ * otherwise the plan default. process-campaign shares free slots fairly between active campaigns.
+ */
+
+export interface CampaignSlotUsage {
+  campaign_id: string;
+  campaign_name: string;
+  status: string;
+  concurrent_calls: number;
+  active_calls: number;
+}
+
+export interface AccountSlotUsage {
+  limit: number;
+  activeCalls: number;
+  campaigns: CampaignSlotUsage[];
+}
+
+/**
+ * Share of the ceiling in use, 0-100
+ */
+export function getSlotUsagePercent(usage: AccountSlotUsage): number {
+  if (usage.limit <= 0) return 0;
+  return Math.min(100, Math.round((usage.activeCalls / usage.limit) * 100));
+}
@@ -0,0 +1,42 @@
+/**
+ * Callbacks requested by leads during a call (public.scheduled_callbacks)
+ * retell-webhook stores them with the requested time resolved in the contact's timezone;
+ * process-campaign dials the lead once the callback is due.
+ */
+
+export type CallbackSource = 'tool_call' | 'analysis';
+
+export interface ScheduledCallback {
+  id: string;
+  campaign_id: string;
+  contact_id: string;
+  phone_number: string;
+  callback_at: string;
+  timezone: string;
+  requested_text: string | null;
+  note: string | null;
+  source: CallbackSource;
+  time_resolved: boolean;
+  campaigns: { name: string } | null;
+  contacts: { first_name: string | null; last_name: string | null } | null;
+}
+
+export const CALLBACK_SOURCE_LABELS: Record<CallbackSource, string> = {
+  tool_call: 'Agent',
+  analysis: 'Call analysis',
+};
+
+/**
+ * Callback time in the lead's own timezone, e.g. "Thu, Nov 20, 5:00 PM EST"
+ */
+export function formatCallbackTime(callback: Pick<ScheduledCallback, 'callback_at' | 'timezone'>): string {
+  return new Date(callback.callback_at).toLocaleString('en-US', {
+    timeZone: callback.timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * Weekly calling schedule
+ * Mirrors supabase/functions/_shared/calling-schedule.ts so the UI shows the same windows process-campaign dials in.
+ * All wall-clock calculations go through Intl so they stay correct across DST changes.
+ */
+
+export type DayKey = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export interface CallingWindow {
+  start: string; // HH:MM
+  end: string;   // HH:MM
+}
+
+export type WeeklySchedule = Record<DayKey, CallingWindow[]>;
+
+export interface ScheduledCampaign {
+  weekly_schedule?: Partial<WeeklySchedule> | null;
+  calling_hours?: CallingWindow | null;
+  active_days?: string[] | null;
+  timezone?: string | null;
+}
+
+export const DAY_KEYS: DayKey[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Monday-first for display
+export const WEEKDAYS: { value: DayKey; label: string }[] = [
+  { value: 'mon', label: 'Monday' },
+  { value: 'tue', label: 'Tuesday' },
+  { value: 'wed', label: 'Wednesday' },
+  { value: 'thu', label: 'Thursday' },
+  { value: 'fri', label: 'Friday' },
+  { value: 'sat', label: 'Saturday' },
+  { value: 'sun', label: 'Sunday' },
+];
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  dayKey: DayKey;
+  minutes: number; // minutes past midnight
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Weekly schedule of a campaign; campaigns without one use calling_hours on every active day
+ */
+export function resolveWeeklySchedule(campaign: ScheduledCampaign): WeeklySchedule {
+  const schedule = {} as WeeklySchedule;
+
+  for (const day of DAY_KEYS) {
+    if (campaign.weekly_schedule) {
+      schedule[day] = [...(campaign.weekly_schedule[day] || [])]
+        .sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+    } else if (campaign.calling_hours && campaign.active_days?.includes(day)) {
+      schedule[day] = [campaign.calling_hours];
+    } else {
+      schedule[day] = [];
+    }
+  }
+
+  return schedule;
+}
+
+/**
+ * Wall-clock date and time of a moment in the given timezone
+ */
+export function getLocalDateTime(date: Date, timezone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    dayKey: get('weekday').slice(0, 3).toLowerCase() as DayKey,
+    minutes: Number(get('hour')) * 60 + Number(get('minute'))
+  };
+}
+
+/**
+ * UTC instant of a wall-clock time in the given timezone.
+ * The offset is re-checked at the result so times on DST transition days resolve correctly.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timezone: string): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+
+  const offsetAt = (instant: number) => {
+    const local = getLocalDateTime(new Date(instant), timezone);
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, Math.floor(local.minutes / 60), local.minutes % 60);
+    return localAsUtc - Math.floor(instant / 60000) * 60000;
+  };
+
+  const firstGuess = wallClockAsUtc - offsetAt(wallClockAsUtc);
+  return new Date(wallClockAsUtc - offsetAt(firstGuess));
+}
+
+/**
+ * Whether a moment falls inside any calling window of its local weekday
+ */
+export function isWithinSchedule(schedule: WeeklySchedule, timezone: string, now: Date = new Date()): boolean {
+  const local = getLocalDateTime(now, timezone);
+
+  return schedule[local.dayKey].some(window =>
+    local.minutes >= timeToMinutes(window.start) && local.minutes <= timeToMinutes(window.end)
+  );
+}
+
+/**
+ * Start of the next calling window after a moment (null if the schedule has no windows)
+ */
+export function getNextWindowStart(schedule: WeeklySchedule, timezone: string, now: Date = new Date()): Date | null {
+  const local = getLocalDateTime(now, timezone);
+
+  for (let daysAhead = 0; daysAhead <= 7; daysAhead++) {
+    // Calendar arithmetic on a UTC date avoids any dependence on the runtime timezone
+    const calendarDay = new Date(Date.UTC(local.year, local.month - 1, local.day + daysAhead));
+    const dayKey = DAY_KEYS[calendarDay.getUTCDay()];
+
+    for (const window of schedule[dayKey]) {
+      const startMinutes = timeToMinutes(window.start);
+      if (daysAhead === 0 && startMinutes <= local.minutes) continue;
+
+      return zonedTimeToUtc(
+        calendarDay.getUTCFullYear(),
+        calendarDay.getUTCMonth() + 1,
+        calendarDay.getUTCDate(),
+        startMinutes,
+        timezone
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Earliest next window start across several timezones (e.g. the zones of a campaign's contacts)
+ */
+export function getEarliestWindowStart(schedule: WeeklySchedule, timezones: string[], now: Date = new Date()): Date | null {
+  let earliest: Date | null = null;
+  for (const timezone of timezones) {
+    const start = getNextWindowStart(schedule, timezone, now);
+    if (start && (!earliest || start < earliest)) {
+      earliest = start;
+    }
+  }
+  return earliest;
+}
+
+/**
+ * Earliest start and latest end across all windows, for places that show a single range
+ */
+export function getScheduleBounds(schedule: WeeklySchedule): CallingWindow | null {
+  const windows = DAY_KEYS.flatMap(day => schedule[day]);
+  if (windows.length === 0) return null;
+
+  return windows.reduce((bounds, window) => ({
+    start: timeToMinutes(window.start) < timeToMinutes(bounds.start) ? window.start : bounds.start,
+    end: timeToMinutes(window.end) > timeToMinutes(bounds.end) ? window.end : bounds.end,
+  }));
+}
+
+/**
+ * Default schedule for new campaigns: weekdays 9am–5pm
+ */
+export function getDefaultWeeklySchedule(): WeeklySchedule {
+  const window = { start: '09:00', end: '17:00' };
+  return {
+    sun: [],
+    mon: [{ ...window }],
+    tue: [{ ...window }],
+    wed: [{ ...window }],
+    thu: [{ ...window }],
+    fri: [{ ...window }],
+    sat: [],
+  };
+}
+
+/**
+ * Validation message for a weekly schedule, or null when it is valid
+ */
+export function validateWeeklySchedule(schedule: WeeklySchedule): string | null {
+  const days = WEEKDAYS.filter(day => schedule[day.value].length > 0);
+  if (days.length === 0) {
+    return 'Please add at least one calling window.';
+  }
+
+  for (const day of days) {
+    const windows = [...schedule[day.value]].sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+    for (let i = 0; i < windows.length; i++) {
+      if (timeToMinutes(windows[i].end) <= timeToMinutes(windows[i].start)) {
+        return `${day.label}: each window must end after it starts.`;
+      }
+      if (i > 0 && timeToMinutes(windows[i].start) <= timeToMinutes(windows[i - 1].end)) {
+        return `${day.label}: calling windows must not overlap.`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Short summary such as "Mon–Fri 10:00–12:00, 16:00–19:00 · Sat 11:00–14:00"
+ */
+export function formatWeeklySchedule(schedule: WeeklySchedule): string {
+  const groups: { days: string[]; windows: string }[] = [];
+
+  for (const day of WEEKDAYS) {
+    if (schedule[day.value].length === 0) continue;
+    const windows = schedule[day.value].map(window => `${window.start}–${window.end}`).join(', ');
+    const previous = groups[groups.length - 1];
+    const previousDay = previous?.days[previous.days.length - 1];
+    const isConsecutive = previousDay !== undefined
+      && WEEKDAYS.findIndex(d => d.label.slice(0, 3) === previousDay) === WEEKDAYS.indexOf(day) - 1;
+
+    if (previous && previous.windows === windows && isConsecutive) {
+      previous.days.push(day.label.slice(0, 3));
+    } else {
+      groups.push({ days: [day.label.slice(0, 3)], windows });
+    }
+  }
+
+  return groups
+    .map(group => `${group.days.length > 1 ? `${group.days[0]}–${group.days[group.days.length - 1]}` : group.days[0]} ${group.windows}`)
+    .join(' · ');
+}
@@ -0,0 +1,131 @@
+/**
+ * Campaign activity timeline
+ * Rows of public.campaign_events: status changes, auto-pauses and resumes, cap hits, settings edits
+ * and dialing errors, with who made them and why.
+ */
+
+export type CampaignEventType =
+  | 'created'
+  | 'status_changed'
+  | 'auto_paused'
+  | 'resumed'
+  | 'cap_reached'
+  | 'settings_changed'
+  | 'error';
+
+export type CampaignEventActor = 'user' | 'admin' | 'system';
+
+export interface SettingChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface CampaignEvent {
+  id: string;
+  campaign_id: string;
+  event_type: CampaignEventType;
+  from_status: string | null;
+  to_status: string | null;
+  reason: string | null;
+  actor_type: CampaignEventActor;
+  actor_id: string | null;
+  details: {
+    previous_reason?: string;
+    changes?: Record<string, SettingChange>;
+    [key: string]: unknown;
+  };
+  created_at: string;
+}
+
+export const CAMPAIGN_EVENT_LABELS: Record<CampaignEventType, string> = {
+  created: 'Campaign created',
+  status_changed: 'Status changed',
+  auto_paused: 'Paused automatically',
+  resumed: 'Resumed',
+  cap_reached: 'Limit reached',
+  settings_changed: 'Settings edited',
+  error: 'Dialing error',
+};
+
+export const CAMPAIGN_EVENT_ACTOR_LABELS: Record<CampaignEventActor, string> = {
+  user: 'You',
+  admin: 'Admin',
+  system: 'System',
+};
+
+const REASON_LABELS: Record<string, string> = {
+  // Pauses (campaigns.paused_reason)
+  'user has no credits': 'Insufficient Credits',
+  insufficient_credits: 'Insufficient Credits',
+  'Insufficient credits - campaign auto-paused': 'Insufficient Credits',
+  'no eligible contacts': 'No contacts to call',
+  outside_calling_hours: 'Outside calling hours',
+  blackout_date: 'Blackout date',
+  daily_budget_reached: 'Daily budget reached',
+  spend_cap_reached: 'Spend cap reached',
+  appointment_cost_cap_reached: 'Cost per appointment cap reached',
+  // Completion (campaigns.summary.completion_reason)
+  all_contacts_processed: 'Every contact is done',
+  end_date_reached: 'End date reached',
+  // Limits
+  account_concurrency: 'Account concurrent call limit',
+  // Errors logged by process-campaign
+  attempt_not_created: 'Could not record the call attempt',
+  missing_phone_or_agent: 'Missing phone number or agent',
+  retell_api_key_missing: 'Retell API key not configured',
+  retell_call_rejected: 'Retell rejected the call',
+  retell_request_failed: 'Could not reach Retell',
+  completion_failed: 'Could not complete the campaign',
+};
+
+const RATE_LIMIT_SCOPE_LABELS: Record<string, string> = {
+  campaign: 'Campaign',
+  account: 'Account',
+  phone_number: 'Caller ID',
+};
+
+const SETTING_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  agent_id: 'Agent',
+  concurrent_calls: 'Concurrent calls',
+  max_retry_days: 'Retry days',
+  weekly_schedule: 'Calling hours',
+  timezone: 'Timezone',
+  field_mappings: 'Field mappings',
+  starts_at: 'Start date',
+  ends_at: 'End date',
+  blackout_dates: 'Blackout dates',
+  holiday_calendar: 'Holidays',
+  'settings.retry_policy': 'Retry policy',
+  'settings.rate_limits': 'Dial rate limits',
+  'settings.spend_caps': 'Spend caps',
+  'settings.queue_order': 'Queue order',
+};
+
+/**
+ * Readable reason of a pause, completion, rate limit hit (`<scope>_per_<window>`) or error.
+ * Unknown reasons are shown as stored.
+ */
+export function formatCampaignReason(reason: string): string {
+  if (REASON_LABELS[reason]) return REASON_LABELS[reason];
+
+  const rateLimit = reason.match(/^(campaign|account|phone_number)_per_(minute|hour|day)$/);
+  if (rateLimit) return `${RATE_LIMIT_SCOPE_LABELS[rateLimit[1]]} per-${rateLimit[2]} dial limit`;
+
+  return reason;
+}
+
+// Settings whose old and new values are shown as is
+const VALUE_SETTINGS = ['name', 'concurrent_calls', 'max_retry_days', 'timezone'];
+
+/**
+ * One line per setting changed by a settings edit, e.g. "Concurrent calls: 5 → 10" or "Spend caps"
+ */
+export function describeSettingChanges(changes: Record<string, SettingChange> | undefined): string[] {
+  return Object.entries(changes || {}).map(([key, change]) => {
+    const label = SETTING_LABELS[key] || key;
+    if (!VALUE_SETTINGS.includes(key)) return label;
+    return `${label}: ${change.from ?? 'none'} → ${change.to ?? 'none'}`;
+  });
+}
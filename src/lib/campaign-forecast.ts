@@ -0,0 +1,340 @@
+/**
+ * Launch forecast for the campaign wizard
+ * Expected calendar days, dials, cost and appointments for a contact list under the chosen calling
+ * hours, concurrency, rate limits and retry policy, from the account's own call history.
+ * Call rates mirror supabase/functions/_shared/call-rates.ts; the day-by-day dial plan
+ * estimate of process-campaign (simulate mode) returns a SimulationResult.
+ */
+
+import { calculateUserCost } from '@/lib/credits';
+import { getUSFederalHolidays, type HolidayCalendar } from '@/lib/holidays';
+import { DAY_KEYS, getLocalDateTime, timeToMinutes, type CallingWindow, type WeeklySchedule } from '@/lib/calling-schedule';
+
+// Below this many finished calls the account history is too thin and default rates are used
+export const MIN_HISTORY_CALLS = 50;
+
+// Retell list price per minute before markup, for outcomes without recorded costs
+const DEFAULT_RETELL_CENTS_PER_MINUTE = 7;
+
+// Forecasts stop looking further ahead than this
+const FORECAST_HORIZON_DAYS = 365;
+
+/**
+ * Per-outcome call history from get_account_call_stats
+ */
+export interface CallOutcomeStats {
+  outcome: string;
+  calls: number;
+  avg_duration_seconds: number | null;
+  avg_retell_cost_cents: number | null;
+  appointments: number;
+}
+
+export interface OutcomeRate {
+  outcome: string;
+  probability: number;
+  duration_seconds: number;
+  user_cost_cents: number;
+}
+
+export interface CallRates {
+  source: 'history' | 'defaults';
+  sample_size: number;
+  outcomes: OutcomeRate[];
+  appointment_rate: number; // per connected call
+}
+
+interface ForecastRetryRule {
+  enabled: boolean;
+  min_spacing_hours: number;
+  max_attempts_per_phone: number | null;
+  max_attempts_per_contact: number | null;
+}
+
+export interface ForecastInput {
+  contacts: number;
+  weekly_schedule: WeeklySchedule;
+  timezone: string;
+  concurrent_calls: number;
+  max_retry_days: number;
+  retry_rules: Record<string, ForecastRetryRule>;
+  rate_limits: { per_minute: number | null; per_hour: number | null; per_day: number | null };
+  spend_caps: { max_daily_cents: number | null; max_total_cents: number | null };
+  starts_at: string | null;
+  ends_at: string | null;
+  blackout_dates: string[];
+  holiday_calendar: HolidayCalendar | null;
+}
+
+export interface LaunchForecast {
+  finishes: boolean;
+  limited_by: 'end_date' | 'spend_cap' | 'horizon' | null;
+  calendar_days: number; // from the start date to the last dial, inclusive
+  calling_days: number;
+  finish_date: string | null; // YYYY-MM-DD of the last dial
+  daily_capacity: number; // dials on the busiest calling day of the week
+  dials: number;
+  connected: number;
+  appointments: number;
+  cost_cents: number;
+}
+
+export type SimulationStopReason =
+  | 'all_contacts_processed'
+  | 'end_date_reached'
+  | 'spend_cap_reached'
+  | 'horizon_reached'
+  | 'dial_limit_reached';
+
+export interface SimulatedDay {
+  date: string;
+  dials: number;
+  first_attempts: number;
+  retries: number;
+  connected: number;
+  appointments: number;
+  cost_cents: number;
+  outcomes: Record<string, number>;
+}
+
+/**
+ * Day-by-day dial plan from process-campaign's simulate mode
+ */
+export interface SimulationResult {
+  started_at: string;
+  ended_at: string;
+  stop_reason: SimulationStopReason;
+  phones: number;
+  days: SimulatedDay[];
+  totals: {
+    dials: number;
+    connected: number;
+    appointments: number;
+    cost_cents: number;
+    contacts_reached: number;
+  };
+  rates: CallRates;
+}
+
+export const SIMULATION_STOP_REASON_LABELS: Record<SimulationStopReason, string> = {
+  all_contacts_processed: 'Every contact is done',
+  end_date_reached: 'Stopped at the end date',
+  spend_cap_reached: 'Stopped at the spend cap',
+  horizon_reached: 'Still running at the end of the estimate',
+  dial_limit_reached: 'Estimate dial limit reached',
+};
+
+const DEFAULT_OUTCOMES: CallOutcomeStats[] = [
+  { outcome: 'connected', calls: 30, avg_duration_seconds: 120, avg_retell_cost_cents: null, appointments: 2 },
+  { outcome: 'no-answer', calls: 40, avg_duration_seconds: 25, avg_retell_cost_cents: null, appointments: 0 },
+  { outcome: 'voicemail', calls: 20, avg_duration_seconds: 35, avg_retell_cost_cents: null, appointments: 0 },
+  { outcome: 'busy', calls: 5, avg_duration_seconds: 5, avg_retell_cost_cents: null, appointments: 0 },
+  { outcome: 'quick-hangup', calls: 5, avg_duration_seconds: 12, avg_retell_cost_cents: null, appointments: 0 },
+];
+
+/**
+ * Outcome probabilities and per-call costs from an account's call history (defaults when too thin)
+ */
+export function resolveCallRates(stats: CallOutcomeStats[]): CallRates {
+  const sampleSize = stats.reduce((sum, row) => sum + row.calls, 0);
+  const useHistory = sampleSize >= MIN_HISTORY_CALLS;
+  const rows = useHistory ? stats : DEFAULT_OUTCOMES;
+  const total = rows.reduce((sum, row) => sum + row.calls, 0);
+
+  const outcomes = rows.map(row => {
+    const durationSeconds = Math.max(0, Number(row.avg_duration_seconds) || 0);
+    const retellCostCents = row.avg_retell_cost_cents !== null && row.avg_retell_cost_cents !== undefined
+      ? Number(row.avg_retell_cost_cents)
+      : (durationSeconds / 60) * DEFAULT_RETELL_CENTS_PER_MINUTE;
+
+    return {
+      outcome: row.outcome,
+      probability: row.calls / total,
+      duration_seconds: Math.round(durationSeconds),
+      user_cost_cents: calculateUserCost(retellCostCents),
+    };
+  });
+
+  const connected = rows.find(row => row.outcome === 'connected')?.calls || 0;
+  const appointments = rows.reduce((sum, row) => sum + row.appointments, 0);
+
+  return {
+    source: useHistory ? 'history' : 'defaults',
+    sample_size: sampleSize,
+    outcomes,
+    appointment_rate: connected > 0 ? appointments / connected : 0,
+  };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateString = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+// Dials process-campaign can start in the given windows from a minute of the day: it runs every
+// minute (end minute included) and starts up to perRun calls each run
+function getWindowCapacity(
+  windows: CallingWindow[],
+  fromMinute: number,
+  perRun: number,
+  perHour: number | null
+): number {
+  const usedPerHour = new Map<number, number>();
+  let total = 0;
+
+  for (const window of windows) {
+    for (let minute = Math.max(timeToMinutes(window.start), fromMinute); minute <= timeToMinutes(window.end); minute++) {
+      const hour = Math.floor(minute / 60);
+      const used = usedPerHour.get(hour) || 0;
+      const dials = perHour === null ? perRun : Math.max(0, Math.min(perRun, perHour - used));
+      usedPerHour.set(hour, used + dials);
+      total += dials;
+    }
+  }
+
+  return total;
+}
+
+interface RetryCohort {
+  due: number; // day index
+  first: number; // day index of the first attempt
+  attempts: number;
+  count: number;
+}
+
+/**
+ * Expected-value forecast, one calendar day at a time in the campaign timezone.
+ * Contacts are assumed to have one number and to share the campaign timezone.
+ */
+export function forecastCampaign(input: ForecastInput, rates: CallRates, now: Date = new Date()): LaunchForecast {
+  const startsAt = input.starts_at ? new Date(input.starts_at) : null;
+  const start = startsAt && startsAt > now ? startsAt : now;
+  const endDate = input.ends_at ? getLocalDateString(new Date(input.ends_at), input.timezone) : null;
+  const local = getLocalDateTime(start, input.timezone);
+  const firstDay = new Date(Date.UTC(local.year, local.month - 1, local.day));
+
+  // A call holds its concurrency slot until it ends, so slots free up once per average call length
+  const avgCallSeconds = rates.outcomes.reduce((sum, rate) => sum + rate.probability * rate.duration_seconds, 0);
+  const slotsPerRun = input.concurrent_calls * Math.min(1, 60 / Math.max(avgCallSeconds, 1));
+  const perRun = Math.max(0, Math.min(slotsPerRun, input.rate_limits.per_minute ?? Infinity));
+  const costPerDial = rates.outcomes.reduce((sum, rate) => sum + rate.probability * rate.user_cost_cents, 0);
+  const connectRate = rates.outcomes.find(rate => rate.outcome === 'connected')?.probability || 0;
+
+  const holidays = new Set<string>();
+  if (input.holiday_calendar === 'us_federal') {
+    for (let year = local.year; year <= local.year + 2; year++) {
+      for (const holiday of getUSFederalHolidays(year)) holidays.add(holiday.date);
+    }
+  }
+
+  const dayCapacity = (windows: CallingWindow[], fromMinute: number) => {
+    let capacity = getWindowCapacity(windows, fromMinute, perRun, input.rate_limits.per_hour);
+    if (input.rate_limits.per_day !== null) capacity = Math.min(capacity, input.rate_limits.per_day);
+    if (input.spend_caps.max_daily_cents !== null && costPerDial > 0) {
+      capacity = Math.min(capacity, Math.ceil(input.spend_caps.max_daily_cents / costPerDial));
+    }
+    return capacity;
+  };
+  const weeklyCapacity = Object.fromEntries(DAY_KEYS.map(day => [day, dayCapacity(input.weekly_schedule[day], 0)]));
+
+  let fresh = Math.max(0, input.contacts);
+  let cohorts: RetryCohort[] = [];
+  let dials = 0;
+  let callingDays = 0;
+  let lastDialDay: number | null = null;
+  let limitedBy: LaunchForecast['limited_by'] = 'horizon';
+
+  for (let dayIndex = 0; dayIndex < FORECAST_HORIZON_DAYS; dayIndex++) {
+    if (fresh < 0.5 && cohorts.reduce((sum, cohort) => sum + cohort.count, 0) < 0.5) {
+      limitedBy = null;
+      break;
+    }
+
+    const date = new Date(firstDay.getTime() + dayIndex * 24 * 60 * 60 * 1000);
+    const dateString = toDateString(date);
+    if (endDate && dateString > endDate) {
+      limitedBy = 'end_date';
+      break;
+    }
+    if (input.spend_caps.max_total_cents !== null && dials * costPerDial >= input.spend_caps.max_total_cents) {
+      limitedBy = 'spend_cap';
+      break;
+    }
+
+    const dayKey = DAY_KEYS[date.getUTCDay()];
+    if (input.blackout_dates.includes(dateString) || holidays.has(dateString)) continue;
+
+    let capacity = dayIndex === 0
+      ? dayCapacity(input.weekly_schedule[dayKey], local.minutes)
+      : weeklyCapacity[dayKey];
+    if (input.spend_caps.max_total_cents !== null && costPerDial > 0) {
+      capacity = Math.min(capacity, (input.spend_caps.max_total_cents - dials * costPerDial) / costPerDial);
+    }
+    if (capacity <= 0) continue;
+
+    // Retries with spacing shorter than half the day's calling time come back the same day
+    const callingMinutes = input.weekly_schedule[dayKey]
+      .reduce((sum, window) => sum + timeToMinutes(window.end) - timeToMinutes(window.start), 0);
+    const retryDelay = (spacingHours: number) =>
+      spacingHours >= 24 ? Math.ceil(spacingHours / 24) : (spacingHours * 60 <= callingMinutes / 2 ? 0 : 1);
+
+    const dialsBefore = dials;
+    const dial = (count: number, attempts: number, first: number) => {
+      dials += count;
+      for (const rate of rates.outcomes) {
+        const rule = input.retry_rules[rate.outcome];
+        if (!rule?.enabled) continue;
+        if (rule.max_attempts_per_phone !== null && attempts >= rule.max_attempts_per_phone) continue;
+        if (rule.max_attempts_per_contact !== null && attempts >= rule.max_attempts_per_contact) continue;
+
+        cohorts.push({ due: dayIndex + retryDelay(rule.min_spacing_hours), first, attempts, count: count * rate.probability });
+      }
+    };
+
+    // Due retries first (oldest first), then new numbers, until the day's capacity is used
+    for (let pass = 0; pass < 20 && capacity > 0.01; pass++) {
+      cohorts = cohorts.filter(cohort => cohort.count > 0.001 && (cohort.due > dayIndex || dayIndex - cohort.first < input.max_retry_days));
+      const due = cohorts.filter(cohort => cohort.due <= dayIndex).sort((a, b) => a.due - b.due);
+      if (due.length === 0 && fresh <= 0) break;
+
+      for (const cohort of due) {
+        const count = Math.min(cohort.count, capacity);
+        cohort.count -= count;
+        capacity -= count;
+        if (count > 0) dial(count, cohort.attempts + 1, cohort.first);
+      }
+
+      const newDials = Math.min(fresh, capacity);
+      fresh -= newDials;
+      capacity -= newDials;
+      if (newDials > 0) dial(newDials, 1, dayIndex);
+    }
+
+    if (dials > dialsBefore) {
+      callingDays++;
+      lastDialDay = dayIndex;
+    }
+  }
+
+  const connected = dials * connectRate;
+  const finishDate = lastDialDay === null ? null : toDateString(new Date(firstDay.getTime() + lastDialDay * 24 * 60 * 60 * 1000));
+
+  return {
+    finishes: limitedBy === null,
+    limited_by: limitedBy,
+    calendar_days: lastDialDay === null ? 0 : lastDialDay + 1,
+    calling_days: callingDays,
+    finish_date: finishDate,
+    daily_capacity: Math.floor(Math.max(...Object.values(weeklyCapacity))),
+    dials: Math.round(dials),
+    connected: Math.round(connected),
+    appointments: Math.round(connected * rates.appointment_rate * 10) / 10,
+    cost_cents: Math.round(dials * costPerDial),
+  };
+}
+
+// YYYY-MM-DD of a moment in the given timezone
+function getLocalDateString(date: Date, timezone: string): string {
+  const local = getLocalDateTime(date, timezone);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+}
@@ -16,9 +16,10 @@ const VALID_TRANSITIONS: StateTransition[] = [
   { from: ['draft'], to: 'scheduled' },
   { from: ['draft'], to: 'active' },
   
-  // Scheduled can become active or be cancelled back to draft
+  // Scheduled can become active, be cancelled back to draft, or complete if its end date passes first
   { from: ['scheduled'], to: 'active' },
   { from: ['scheduled'], to: 'draft' },
+  { from: ['scheduled'], to: 'completed' },
   
   // Active can be paused or completed
   { from: ['active'], to: 'paused' },
@@ -78,8 +79,11 @@ export function validateCampaignTransition(
     agent_id?: string; 
     contact_group_id?: string;
     total_contacts?: number;
+    starts_at?: string | null;
+    ends_at?: string | null;
   },
-  newStatus: CampaignStatus
+  newStatus: CampaignStatus,
+  now: Date = new Date()
 ): { valid: boolean; error?: string } {
   // Check if transition is allowed
   if (!isValidTransition(campaign.status, newStatus)) {
@@ -88,6 +92,38 @@ export function validateCampaignTransition(
       error: `Invalid state transition from ${campaign.status} to ${newStatus}`
     };
   }
+
+  // Start/end dates
+  const hasStarted = !campaign.starts_at || new Date(campaign.starts_at) <= now;
+  const hasEnded = !!campaign.ends_at && new Date(campaign.ends_at) <= now;
+
+  if (newStatus === 'scheduled' && hasStarted) {
+    return {
+      valid: false,
+      error: 'Cannot schedule campaign without a future start date'
+    };
+  }
+
+  if (newStatus === 'active' && campaign.status === 'scheduled' && !hasStarted) {
+    return {
+      valid: false,
+      error: 'Cannot activate campaign before its start date'
+    };
+  }
+
+  if ((newStatus === 'active' || newStatus === 'scheduled') && hasEnded) {
+    return {
+      valid: false,
+      error: 'Cannot activate campaign after its end date'
+    };
+  }
+
+  if (newStatus === 'completed' && campaign.status === 'scheduled' && !hasEnded) {
+    return {
+      valid: false,
+      error: 'Scheduled campaign can only complete once its end date has passed'
+    };
+  }
   
   // Additional validation for activating campaigns
   if (newStatus === 'active') {
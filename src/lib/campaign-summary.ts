@@ -0,0 +1,61 @@
+/**
+ * End-of-campaign summary
+ * Shape of campaigns.summary, written by public.complete_campaign when a campaign finishes.
+ */
+
+export type CompletionReason = 'all_contacts_processed' | 'end_date_reached';
+
+export interface BestHour {
+  hour: number; // contact-local hour of day, 0-23
+  dialed: number;
+  connected: number;
+  connect_rate: number; // percent
+}
+
+export interface CampaignSummary {
+  completion_reason: CompletionReason;
+  generated_at: string;
+  contacts: number;
+  contacts_called: number;
+  calls: number;
+  outcomes: Record<string, number>;
+  appointments: number;
+  high_follow_up: number;
+  medium_follow_up: number;
+  avg_duration_seconds: number | null;
+  spend_cents: number;
+  cost_per_appointment_cents: number | null;
+  best_hours: BestHour[];
+}
+
+export const COMPLETION_REASON_LABELS: Record<CompletionReason, string> = {
+  all_contacts_processed: 'All contacts processed',
+  end_date_reached: 'End date reached',
+};
+
+// Call statuses and retry outcomes that can appear in summary.outcomes
+export const OUTCOME_LABELS: Record<string, string> = {
+  completed: 'Connected',
+  'no-answer': 'No answer',
+  voicemail: 'Voicemail',
+  busy: 'Busy',
+  'quick-hangup': 'Quick hangup',
+  'failed-to-initiate': 'Failed to start',
+  failed: 'Failed',
+};
+
+const formatHour = (hour: number) => `${hour % 12 || 12}${hour < 12 ? 'am' : 'pm'}`;
+
+/**
+ * One-hour slot label, e.g. "10am–11am"
+ */
+export const formatHourRange = (hour: number) => `${formatHour(hour)}–${formatHour((hour + 1) % 24)}`;
+
+/**
+ * Outcomes ordered by number of calls, with readable labels
+ */
+export function getOutcomeBreakdown(summary: CampaignSummary): { outcome: string; label: string; calls: number }[] {
+  return Object.entries(summary.outcomes || {})
+    .map(([outcome, calls]) => ({ outcome, label: OUTCOME_LABELS[outcome] || outcome, calls }))
+    .sort((a, b) => b.calls - a.calls);
+}
@@ -0,0 +1,45 @@
+/**
+ * Account-wide contact cooldown (public.contact_cooldown_rules)
+ * Holds a phone number across all campaigns after a completed conversation, or once it was dialed
+ * too often in the last 7 days. get_next_contacts_to_call skips held numbers except for callbacks
+ * the lead asked for.
+ */
+
+export type CooldownReason = 'recent_conversation' | 'weekly_dial_limit';
+
+export interface ContactCooldownRule {
+  enabled: boolean;
+  conversation_cooldown_days: number | null;
+  max_dials_per_week: number | null;
+}
+
+export interface HeldNumber {
+  phone_key: string;
+  held_until: string;
+  reason: CooldownReason;
+  detail: string | null;
+}
+
+export const DEFAULT_COOLDOWN_RULE: ContactCooldownRule = {
+  enabled: false,
+  conversation_cooldown_days: null,
+  max_dials_per_week: null,
+};
+
+export const COOLDOWN_REASON_LABELS: Record<CooldownReason, string> = {
+  recent_conversation: 'Recent conversation',
+  weekly_dial_limit: 'Weekly dial limit',
+};
+
+/**
+ * Why a number is held, e.g. "Recent conversation until Nov 28, 3:15 PM: Spoke with this number in Spring Promo on Nov 21"
+ */
+export function describeHeldNumber(held: HeldNumber): string {
+  const until = new Date(held.held_until).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return `${COOLDOWN_REASON_LABELS[held.reason]} until ${until}${held.detail ? `: ${held.detail}` : ''}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Account-wide do-not-call list (public.do_not_call_numbers)
+ * Numbers on the list are never dialed by any campaign. They are added by hand, from a CSV, or by
+ * retell-webhook when a lead asks not to be called again. Numbers match on their last 10 digits.
+ */
+
+export type DoNotCallSource = 'manual' | 'import' | 'tool_call' | 'analysis';
+
+export interface DoNotCallNumber {
+  id: string;
+  phone_number: string;
+  normalized_phone: string;
+  source: DoNotCallSource;
+  reason: string | null;
+  campaign_id: string | null;
+  created_at: string;
+  campaigns: { name: string } | null;
+}
+
+export const DO_NOT_CALL_SOURCE_LABELS: Record<DoNotCallSource, string> = {
+  manual: 'Added by hand',
+  import: 'CSV import',
+  tool_call: 'Lead asked (agent)',
+  analysis: 'Lead asked (call analysis)',
+};
+
+// CSV columns read for numbers; files without such a column are read in full
+const PHONE_COLUMN = /phone|mobile|cell|tel|number/i;
+
+/**
+ * Phone number in E.164 form, as contacts are imported (10 digits are US/Canada numbers).
+ * Null when the input is not a phone number.
+ */
+export function normalizePhoneNumber(input: unknown): string | null {
+  if (input === null || input === undefined) return null;
+  const digits = String(input).replace(/\D/g, '');
+
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  if (digits.length > 11 && digits.length <= 15) return `+${digits}`;
+  return null;
+}
+
+/**
+ * Key a number is matched on against the list: its last 10 digits, like normalized_phone
+ */
+export function getPhoneMatchKey(phoneNumber: string): string {
+  return phoneNumber.replace(/\D/g, '').slice(-10);
+}
+
+/**
+ * Unique phone numbers of parsed CSV rows. A first row without numbers is a header: the columns
+ * named like phone numbers are read when there are any, every column otherwise.
+ */
+export function extractPhoneNumbersFromCsv(rows: unknown[][]): string[] {
+  const [firstRow = [], ...otherRows] = rows;
+  const hasHeader = !firstRow.some(cell => normalizePhoneNumber(cell));
+  const phoneColumns = hasHeader
+    ? firstRow.map((cell, index) => (PHONE_COLUMN.test(String(cell)) ? index : -1)).filter(index => index >= 0)
+    : [];
+
+  const numbers = new Map<string, string>();
+  for (const row of hasHeader ? otherRows : rows) {
+    const cells = phoneColumns.length > 0 ? phoneColumns.map(index => row[index]) : row;
+    for (const cell of cells) {
+      const phoneNumber = normalizePhoneNumber(cell);
+      if (phoneNumber && !numbers.has(getPhoneMatchKey(phoneNumber))) {
+        numbers.set(getPhoneMatchKey(phoneNumber), phoneNumber);
+      }
+    }
+  }
+  return [...numbers.values()];
+}
@@ -0,0 +1,126 @@
+/**
+ * Agent extraction schemas (user_agents.extraction_schema)
+ * Fields Retell's post-call analysis extracts from each call; the typed values land in
+ * campaign_contact_attempts.extracted_fields and contacts.extracted_fields.
+ * Validation mirrors supabase/functions/_shared/post-call-extraction.ts.
+ */
+
+export type ExtractionFieldType = 'text' | 'number' | 'boolean' | 'choice';
+
+export interface ExtractionField {
+  key: string;
+  label: string;
+  type: ExtractionFieldType;
+  description: string;
+  options?: string[];
+}
+
+export type ExtractedFields = Record<string, string | number | boolean>;
+
+export const MAX_EXTRACTION_FIELDS = 20;
+
+export const EXTRACTION_FIELD_TYPES: { value: ExtractionFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'choice', label: 'Choice' },
+];
+
+// Starting point for seller lead agents
+export const SELLER_LEAD_FIELDS: ExtractionField[] = [
+  { key: 'motivation', label: 'Motivation', type: 'text', description: 'Why the lead is considering selling, in a few words' },
+  {
+    key: 'timeline',
+    label: 'Timeline',
+    type: 'choice',
+    description: 'How soon the lead wants to sell',
+    options: ['ASAP', '1-3 months', '3-6 months', '6+ months', 'Not selling'],
+  },
+  { key: 'asking_price', label: 'Asking price', type: 'number', description: 'Price the lead wants for the property, in dollars' },
+  {
+    key: 'property_condition',
+    label: 'Property condition',
+    type: 'choice',
+    description: 'Condition of the property as the lead describes it',
+    options: ['Excellent', 'Good', 'Needs work', 'Poor'],
+  },
+  { key: 'decision_maker', label: 'Decision maker', type: 'boolean', description: 'Whether the lead can decide on the sale alone' },
+];
+
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+/**
+ * Field key derived from a label, e.g. "Asking Price" → "asking_price"
+ */
+export function toFieldKey(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 40);
+}
+
+/**
+ * Error message for an invalid schema, or null when it can be saved
+ */
+export function validateExtractionSchema(fields: ExtractionField[]): string | null {
+  if (fields.length > MAX_EXTRACTION_FIELDS) {
+    return `At most ${MAX_EXTRACTION_FIELDS} fields are allowed`;
+  }
+
+  const keys = new Set<string>();
+  for (const field of fields) {
+    if (!field.label.trim()) {
+      return 'Every field needs a label';
+    }
+    if (!FIELD_KEY_PATTERN.test(field.key)) {
+      return `"${field.label}" needs a label starting with a letter`;
+    }
+    if (keys.has(field.key)) {
+      return `Two fields are named "${field.label}"`;
+    }
+    keys.add(field.key);
+    if (field.type === 'choice' && (field.options || []).filter(option => option.trim()).length < 2) {
+      return `"${field.label}" needs at least two options`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Display text of an extracted value
+ */
+export function formatExtractedValue(field: ExtractionField | undefined, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') {
+    return /price|amount|value|cost|budget/.test(field?.key || '')
+      ? `$${value.toLocaleString()}`
+      : value.toLocaleString();
+  }
+  return String(value);
+}
+
+/**
+ * Columns for a list of calls: the schema's fields in order, then any other extracted key
+ * (a variant agent's schema, or a field removed since). Fields no call has a value for are left out.
+ */
+export function getExtractionColumns(
+  schema: ExtractionField[],
+  rows: { extracted_fields?: ExtractedFields | null }[]
+): { key: string; label: string; field?: ExtractionField }[] {
+  const columns = schema.map(field => ({ key: field.key, label: field.label, field }));
+  const known = new Set(columns.map(column => column.key));
+
+  for (const row of rows) {
+    for (const key of Object.keys(row.extracted_fields || {})) {
+      if (!known.has(key)) {
+        known.add(key);
+        columns.push({ key, label: key.replace(/_/g, ' '), field: undefined });
+      }
+    }
+  }
+
+  return columns.filter(column => rows.some(row => row.extracted_fields?.[column.key] !== undefined));
+}
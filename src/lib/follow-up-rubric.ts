@@ -0,0 +1,56 @@
+/**
+ * Follow-up scoring rubric (follow_up_rubrics)
+ * What makes a lead high, medium or low follow-up potential; each analyzed call is scored against it
+ * into campaign_contact_attempts.follow_up_potential and follow_up_reason.
+ * Defaults and validation mirror supabase/functions/_shared/follow-up-scoring.ts.
+ */
+
+export type FollowUpPotential = 'high' | 'medium' | 'low';
+
+export interface FollowUpRubric {
+  high: string;
+  medium: string;
+  low: string;
+  // Phrases the rule-based scorer counts as buying or rejection signals
+  high_phrases: string[];
+  low_phrases: string[];
+}
+
+export interface FollowUpRescoreResult {
+  scored: number;
+  failed: number;
+  more: boolean;
+}
+
+export const DEFAULT_FOLLOW_UP_RUBRIC: FollowUpRubric = {
+  high: 'The lead wants to sell soon, asked for an offer or a callback, or booked an appointment',
+  medium: 'The lead is open to selling later or wants more information, without a timeline',
+  low: 'The lead is not interested, asked not to be called, or the call ended before any real conversation',
+  high_phrases: ['make me an offer', 'call me back', 'how much', 'send me', 'interested', 'as soon as possible', 'asap'],
+  low_phrases: ['not interested', 'not selling', 'stop calling', 'wrong number', 'remove me', "don't call"],
+};
+
+export const FOLLOW_UP_LEVELS: { value: FollowUpPotential; label: string }[] = [
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+/**
+ * Phrases typed as a comma-separated list
+ */
+export function parsePhrases(value: string): string[] {
+  return value.split(',').map(phrase => phrase.trim()).filter(Boolean);
+}
+
+/**
+ * Error message for an invalid rubric, or null when it can be saved
+ */
+export function validateFollowUpRubric(rubric: FollowUpRubric): string | null {
+  for (const level of FOLLOW_UP_LEVELS) {
+    if (!rubric[level.value].trim()) {
+      return `Describe what makes a ${level.label.toLowerCase()} follow-up potential`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,13 @@
+/**
+ * Holiday calendars for campaign scheduling
+ * The calendar lives in supabase/functions/_shared/holidays.ts, which process-campaign uses to skip
+ * holidays, so the dashboard shows the same dates the campaign skips.
+ */
+
+export {
+  HOLIDAY_CALENDARS,
+  getUSFederalHolidays,
+  getUpcomingHolidays,
+  type Holiday,
+  type HolidayCalendar,
+} from '../../supabase/functions/_shared/holidays.ts';
@@ -0,0 +1,185 @@
+/**
+ * Dial queue ordering
+ * Mirrors the ORDER BY of get_next_contacts_to_call (and public.contact_sort_value) so the
+ * campaign wizard can preview the call order before launch.
+ */
+
+export type QueueOrderStrategy = 'created_at' | 'field' | 'lead_score' | 'priority_tiers';
+
+export interface LeadScoreFactor {
+  field: string;
+  weight: number;
+  prefer: 'high' | 'low';
+}
+
+/**
+ * Per-campaign dial queue ordering, stored in campaigns.settings.queue_order
+ */
+export interface QueueOrder {
+  strategy: QueueOrderStrategy;
+  field: string | null;
+  direction: 'asc' | 'desc';
+  lead_score_factors: LeadScoreFactor[];
+  tier_field: string | null;
+  tiers: string[]; // highest priority first
+  boost_callbacks: boolean;
+  boost_positive: boolean;
+}
+
+export interface QueueContact {
+  id: string;
+  created_at: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  phone_number?: string | null;
+  data: Record<string, unknown> | null;
+}
+
+export interface OrderedContact {
+  contact: QueueContact;
+  priority: number | null;
+}
+
+export const QUEUE_ORDER_STRATEGIES: { value: QueueOrderStrategy; label: string; description: string }[] = [
+  { value: 'created_at', label: 'Import order', description: 'Contacts are called in the order they were imported' },
+  { value: 'field', label: 'Contact field', description: 'Sort by a numeric or date field such as listing price or last contact date' },
+  { value: 'lead_score', label: 'Lead score', description: 'Weighted 0–100 score across several fields' },
+  { value: 'priority_tiers', label: 'Priority tiers', description: 'Call contacts by the tier named in one of their fields' },
+];
+
+export const getDefaultQueueOrder = (): QueueOrder => ({
+  strategy: 'created_at',
+  field: null,
+  direction: 'desc',
+  lead_score_factors: [],
+  tier_field: null,
+  tiers: [],
+  boost_callbacks: true,
+  boost_positive: true,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since 1970-01-01, or null for an impossible date such as 2024-02-30
+function toEpochDays(year: number, month: number, day: number): number | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.getTime() / DAY_MS;
+}
+
+/**
+ * Sortable number for a contact field: plain or currency numbers, and dates
+ * (YYYY-MM-DD or MM/DD/YYYY) as days since 1970. Null when the value is neither.
+ */
+export function parseSortValue(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  const numeric = trimmed.replace(/[$,\s]/g, '');
+  if (/^-?\d+(\.\d+)?$/.test(numeric)) return Number(numeric);
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return toEpochDays(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return toEpochDays(Number(us[3]), Number(us[1]), Number(us[2]));
+
+  return null;
+}
+
+/**
+ * Lead scores (0–100) per contact id. Each factor contributes its weight times the contact's
+ * percentile rank for that field (inverted for "prefer low"); contacts missing a value get 0 for it.
+ */
+export function computeLeadScores(contacts: QueueContact[], factors: LeadScoreFactor[]): Map<string, number> {
+  const scores = new Map<string, number>(contacts.map(contact => [contact.id, 0]));
+  const totalWeight = factors.reduce((sum, factor) => sum + Math.max(0, factor.weight), 0);
+  if (totalWeight === 0) return scores;
+
+  for (const factor of factors) {
+    if (factor.weight <= 0) continue;
+
+    const values = contacts
+      .map(contact => ({ id: contact.id, value: parseSortValue(contact.data?.[factor.field]) }))
+      .filter((entry): entry is { id: string; value: number } => entry.value !== null);
+    const sorted = values.map(entry => entry.value).sort((a, b) => a - b);
+
+    for (const entry of values) {
+      // percent_rank(): share of other values strictly below this one
+      const below = sorted.findIndex(value => value >= entry.value);
+      const rank = sorted.length > 1 ? below / (sorted.length - 1) : 0;
+      const contribution = factor.weight * (factor.prefer === 'low' ? 1 - rank : rank);
+      scores.set(entry.id, (scores.get(entry.id) || 0) + contribution);
+    }
+  }
+
+  for (const [id, score] of scores) {
+    scores.set(id, Math.round((1000 * score) / totalWeight) / 10);
+  }
+  return scores;
+}
+
+/**
+ * Contacts in the order the campaign will dial them (highest priority first, then oldest first).
+ * Callback and positive-call boosts depend on call history and are not part of the preview.
+ */
+export function orderContacts(contacts: QueueContact[], order: QueueOrder): OrderedContact[] {
+  const leadScores = order.strategy === 'lead_score'
+    ? computeLeadScores(contacts, order.lead_score_factors)
+    : null;
+  const tiers = order.tiers.map(tier => tier.trim().toLowerCase());
+
+  const getPriority = (contact: QueueContact): number | null => {
+    switch (order.strategy) {
+      case 'field': {
+        const value = order.field ? parseSortValue(contact.data?.[order.field]) : null;
+        if (value === null) return null;
+        return order.direction === 'asc' ? -value : value;
+      }
+      case 'lead_score':
+        return leadScores?.get(contact.id) ?? null;
+      case 'priority_tiers': {
+        const raw = order.tier_field ? contact.data?.[order.tier_field] : null;
+        const index = raw === null || raw === undefined ? -1 : tiers.indexOf(String(raw).trim().toLowerCase());
+        return index === -1 ? null : tiers.length - index;
+      }
+      default:
+        return null;
+    }
+  };
+
+  return contacts
+    .map(contact => ({ contact, priority: getPriority(contact) }))
+    .sort((a, b) => {
+      if (a.priority !== b.priority) {
+        if (a.priority === null) return 1;
+        if (b.priority === null) return -1;
+        return b.priority - a.priority;
+      }
+      const created = (a.contact.created_at || '').localeCompare(b.contact.created_at || '');
+      return created !== 0 ? created : a.contact.id.localeCompare(b.contact.id);
+    });
+}
+
+/**
+ * Validation message for a queue ordering, or null when it is valid
+ */
+export function validateQueueOrder(order: QueueOrder): string | null {
+  switch (order.strategy) {
+    case 'field':
+      return order.field ? null : 'Choose the contact field to order by.';
+    case 'lead_score':
+      if (order.lead_score_factors.length === 0) return 'Add at least one lead score factor.';
+      if (order.lead_score_factors.some(factor => !factor.field)) return 'Choose a field for every lead score factor.';
+      if (!order.lead_score_factors.some(factor => factor.weight > 0)) return 'At least one lead score factor needs a weight above 0.';
+      return null;
+    case 'priority_tiers':
+      if (!order.tier_field) return 'Choose the field that holds the priority tier.';
+      return order.tiers.some(tier => tier.trim() !== '') ? null : 'List at least one priority tier.';
+    default:
+      return null;
+  }
+}
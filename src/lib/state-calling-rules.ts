@@ -0,0 +1,110 @@
+/**
+ * State calling-law rules (public.state_calling_rules) and the attempts they held back
+ * (public.compliance_skips). process-campaign enforces a contact's state rule on top of the
+ * campaign schedule; the state comes from the contact's zip code, then the phone's area code.
+ */
+
+export type ComplianceRule = 'calling_hours' | 'saturday' | 'sunday' | 'daily_attempts';
+
+export interface UsState {
+  code: string;
+  name: string;
+  timezone: string;
+}
+
+export interface StateCallingRule {
+  state: string;
+  weekday_start: string;
+  weekday_end: string;
+  saturday_start: string | null;
+  saturday_end: string | null;
+  sunday_start: string | null;
+  sunday_end: string | null;
+  max_attempts_per_day: number | null;
+  enabled: boolean;
+  citation: string | null;
+  notes: string | null;
+  updated_at: string;
+}
+
+export type StateCallingRuleInput = Omit<StateCallingRule, 'updated_at'>;
+
+export interface ComplianceSkip {
+  id: string;
+  contact_id: string;
+  phone_number: string;
+  state: string;
+  rule: ComplianceRule;
+  detail: string | null;
+  local_date: string;
+  created_at: string;
+  contacts: { first_name: string | null; last_name: string | null } | null;
+}
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+  calling_hours: 'Outside state calling hours',
+  saturday: 'No Saturday calls',
+  sunday: 'No Sunday calls',
+  daily_attempts: 'Daily attempt limit',
+};
+
+/**
+ * Rule for a state that has none yet: federal TCPA hours every day, no attempt limit
+ */
+export function createDefaultRule(state: string): StateCallingRuleInput {
+  return {
+    state,
+    weekday_start: '08:00',
+    weekday_end: '21:00',
+    saturday_start: '08:00',
+    saturday_end: '21:00',
+    sunday_start: '08:00',
+    sunday_end: '21:00',
+    max_attempts_per_day: null,
+    enabled: true,
+    citation: null,
+    notes: null,
+  };
+}
+
+// "08:00:00" (Postgres TIME) -> "08:00"
+export function formatRuleTime(time: string | null): string {
+  return time ? time.slice(0, 5) : '';
+}
+
+/**
+ * One-line summary of a rule, e.g. "Mon–Fri 08:00–20:00 · Sat 08:00–20:00 · No Sunday calls · 3 calls / 24 h"
+ */
+export function describeStateRule(rule: StateCallingRuleInput): string {
+  const window = (start: string | null, end: string | null) => `${formatRuleTime(start)}–${formatRuleTime(end)}`;
+  const parts = [`Mon–Fri ${window(rule.weekday_start, rule.weekday_end)}`];
+
+  parts.push(rule.saturday_start ? `Sat ${window(rule.saturday_start, rule.saturday_end)}` : 'No Saturday calls');
+  parts.push(rule.sunday_start ? `Sun ${window(rule.sunday_start, rule.sunday_end)}` : 'No Sunday calls');
+  if (rule.max_attempts_per_day) {
+    parts.push(`${rule.max_attempts_per_day} call${rule.max_attempts_per_day === 1 ? '' : 's'} / 24 h`);
+  }
+
+  return parts.join(' · ');
+}
+
+/**
+ * Why a rule cannot be saved, or null when it is valid (mirrors the table's CHECK constraints)
+ */
+export function validateStateRule(rule: StateCallingRuleInput): string | null {
+  const windows: [string, string | null, string | null][] = [
+    ['Weekday', rule.weekday_start, rule.weekday_end],
+    ['Saturday', rule.saturday_start, rule.saturday_end],
+    ['Sunday', rule.sunday_start, rule.sunday_end],
+  ];
+
+  for (const [label, start, end] of windows) {
+    if (label === 'Weekday' && (!start || !end)) return 'Weekday calling hours are required';
+    if (!!start !== !!end) return `${label} calling hours need both a start and an end`;
+    if (start && end && start >= end) return `${label} calling hours must end after they start`;
+  }
+  if (rule.max_attempts_per_day !== null && rule.max_attempts_per_day < 1) {
+    return 'The daily attempt limit must be at least 1';
+  }
+  return null;
+}
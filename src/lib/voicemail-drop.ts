@@ -0,0 +1,95 @@
+/**
+ * Voicemail drop
+ * Editing helpers for the campaign's voicemail rule (retry_policy.voicemail_drop) and the voicemail
+ * report. process-campaign decides per call in supabase/functions/_shared/voicemail-drop.ts.
+ */
+
+import type { VoicemailDrop } from '@/features/campaigns/types/campaign.types';
+
+export type VoicemailAction = 'leave_message' | 'hangup';
+
+// Contact placeholders every call has; mapped contact fields can be used by their variable name too
+export const VOICEMAIL_PLACEHOLDERS = ['first_name', 'last_name', 'email', 'address', 'phone_number'];
+
+/**
+ * One row of get_campaign_voicemail_stats (voicemail_action NULL = the agent's setting)
+ */
+export interface VoicemailStatsRow {
+  attempt_number: number;
+  voicemail_action: VoicemailAction | null;
+  voicemails: number;
+}
+
+export interface VoicemailAttemptSummary {
+  attempt_number: number;
+  left: number;
+  hung_up: number;
+  agent_setting: number;
+}
+
+export interface VoicemailSummary {
+  total: number;
+  left: number;
+  hung_up: number;
+  agent_setting: number;
+  byAttempt: VoicemailAttemptSummary[];
+}
+
+export const leavesMessages = (drop: VoicemailDrop) => drop.mode !== 'agent' && drop.mode !== 'never';
+
+/**
+ * "1, 3" -> [1, 3], ignoring anything that is not a positive whole number
+ */
+export function parseAttemptList(raw: string): number[] {
+  const attempts = raw
+    .split(/[\s,]+/)
+    .map(part => Number(part))
+    .filter(attempt => Number.isInteger(attempt) && attempt > 0);
+  return [...new Set(attempts)].sort((a, b) => a - b);
+}
+
+export function validateVoicemailDrop(drop: VoicemailDrop): string | null {
+  if (drop.mode === 'selected_attempts' && drop.attempts.length === 0) {
+    return 'List the attempt numbers that leave a voicemail.';
+  }
+  if (leavesMessages(drop) && !drop.script.trim()) {
+    return 'Write the voicemail script to leave.';
+  }
+  return null;
+}
+
+export function describeVoicemailDrop(drop: VoicemailDrop | undefined): string {
+  switch (drop?.mode) {
+    case 'never':
+      return 'Never leave a message';
+    case 'every_attempt':
+      return 'Leave a message on every attempt';
+    case 'final_attempt':
+      return 'Leave a message on the final attempt';
+    case 'selected_attempts':
+      return `Leave a message on attempt ${drop.attempts.join(', ')}`;
+    default:
+      return "Agent's setting";
+  }
+}
+
+export function summarizeVoicemails(rows: VoicemailStatsRow[]): VoicemailSummary {
+  const byAttempt = new Map<number, VoicemailAttemptSummary>();
+  const summary: VoicemailSummary = { total: 0, left: 0, hung_up: 0, agent_setting: 0, byAttempt: [] };
+
+  for (const row of rows) {
+    const attempt = byAttempt.get(row.attempt_number)
+      || { attempt_number: row.attempt_number, left: 0, hung_up: 0, agent_setting: 0 };
+    const key = row.voicemail_action === 'leave_message'
+      ? 'left'
+      : row.voicemail_action === 'hangup' ? 'hung_up' : 'agent_setting';
+
+    attempt[key] += row.voicemails;
+    summary[key] += row.voicemails;
+    summary.total += row.voicemails;
+    byAttempt.set(row.attempt_number, attempt);
+  }
+
+  summary.byAttempt = [...byAttempt.values()].sort((a, b) => a.attempt_number - b.attempt_number);
+  return summary;
+}
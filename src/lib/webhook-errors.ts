@@ -0,0 +1,40 @@
+/**
+ * Failed webhook deliveries (webhook_errors)
+ * The retry-webhook-errors function retries them with backoff; admins replay them by hand.
+ */
+
+export type WebhookErrorStatus = 'retrying' | 'dead_letter' | 'resolved';
+
+export interface WebhookErrorRow {
+  id: string;
+  webhook_type: string;
+  event_type: string;
+  event_id: string;
+  error_message: string;
+  retry_count: number;
+  max_retries: number;
+  next_retry_at: string | null;
+  last_retry_at: string | null;
+  dead_lettered_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface WebhookReplayResult {
+  success: boolean;
+  result: 'resolved' | 'rescheduled' | 'dead_lettered';
+  note?: string;
+  error?: string;
+}
+
+export const WEBHOOK_ERROR_STATUS_LABELS: Record<WebhookErrorStatus, string> = {
+  retrying: 'Retrying',
+  dead_letter: 'Dead letter',
+  resolved: 'Resolved',
+};
+
+export function getWebhookErrorStatus(row: WebhookErrorRow): WebhookErrorStatus {
+  if (row.resolved_at) return 'resolved';
+  if (row.dead_lettered_at || !row.next_retry_at) return 'dead_letter';
+  return 'retrying';
+}
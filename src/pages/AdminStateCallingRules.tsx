@@ -0,0 +1,358 @@
+import { Scales, PencilSimple, Trash, CircleNotch as Loader2 } from "@phosphor-icons/react";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useConfirmDialog } from "@/components/ui/confirm-dialog";
+import { campaignsService } from "@/services/campaigns.service";
+import {
+  createDefaultRule,
+  describeStateRule,
+  formatRuleTime,
+  validateStateRule,
+  type StateCallingRule,
+  type StateCallingRuleInput,
+  type UsState,
+} from "@/lib/state-calling-rules";
+
+type DayWindow = 'saturday' | 'sunday';
+
+export default function AdminStateCallingRules() {
+  const [states, setStates] = useState<UsState[]>([]);
+  const [rules, setRules] = useState<Map<string, StateCallingRule>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<StateCallingRuleInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { confirm, ConfirmDialog } = useConfirmDialog();
+
+  const loadRules = useCallback(async () => {
+    try {
+      const [stateRows, ruleRows] = await Promise.all([
+        campaignsService.getUsStates(),
+        campaignsService.getStateCallingRules(),
+      ]);
+      setStates(stateRows);
+      setRules(new Map(ruleRows.map(rule => [rule.state, rule])));
+    } catch (error) {
+      console.error('Error loading state calling rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load state calling rules",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const saveRule = async (rule: StateCallingRuleInput) => {
+    const validationError = validateStateRule(rule);
+    if (validationError) {
+      toast({ title: "Invalid Rule", description: validationError, variant: "destructive" });
+      return false;
+    }
+
+    setSaving(true);
+    try {
+      await campaignsService.saveStateCallingRule(rule);
+      toast({ title: "Rule Saved", description: `Campaigns now follow the ${rule.state} rule.` });
+      await loadRules();
+      return true;
+    } catch (error) {
+      console.error('Error saving state calling rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the rule. Only admins can edit calling rules.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (editing && await saveRule(editing)) {
+      setEditing(null);
+    }
+  };
+
+  const handleToggle = (rule: StateCallingRule, enabled: boolean) => {
+    const { updated_at: _updatedAt, ...input } = rule;
+    saveRule({ ...input, enabled });
+  };
+
+  const handleDelete = async (state: UsState) => {
+    const confirmed = await confirm(
+      'Remove State Rule',
+      `Remove the ${state.name} rule? Contacts in ${state.name} will only follow their campaign's schedule.`,
+      'destructive'
+    );
+    if (!confirmed) return;
+
+    try {
+      await campaignsService.deleteStateCallingRule(state.code);
+      toast({ title: "Rule Removed", description: `${state.name} no longer has a calling rule.` });
+      await loadRules();
+    } catch (error) {
+      console.error('Error removing state calling rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openEditor = (state: string) => {
+    const rule = rules.get(state);
+    if (!rule) {
+      setEditing(createDefaultRule(state));
+      return;
+    }
+    const { updated_at: _updatedAt, ...input } = rule;
+    setEditing({
+      ...input,
+      weekday_start: formatRuleTime(input.weekday_start),
+      weekday_end: formatRuleTime(input.weekday_end),
+      saturday_start: input.saturday_start && formatRuleTime(input.saturday_start),
+      saturday_end: input.saturday_end && formatRuleTime(input.saturday_end),
+      sunday_start: input.sunday_start && formatRuleTime(input.sunday_start),
+      sunday_end: input.sunday_end && formatRuleTime(input.sunday_end),
+    });
+  };
+
+  const updateEditing = (changes: Partial<StateCallingRuleInput>) => {
+    setEditing(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const setDayAllowed = (day: DayWindow, allowed: boolean) => {
+    if (!editing) return;
+    updateEditing({
+      [`${day}_start`]: allowed ? editing.weekday_start : null,
+      [`${day}_end`]: allowed ? editing.weekday_end : null,
+    });
+  };
+
+  const renderDayWindow = (day: DayWindow, label: string) => {
+    if (!editing) return null;
+    const start = editing[`${day}_start`];
+    const end = editing[`${day}_end`];
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${day}-allowed`}>Calls on {label}</Label>
+          <Switch id={`${day}-allowed`} checked={start !== null} onCheckedChange={(checked) => setDayAllowed(day, checked)} />
+        </div>
+        {start !== null && (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="time"
+              value={start}
+              onChange={(e) => updateEditing({ [`${day}_start`]: e.target.value })}
+              aria-label={`${label} start`}
+            />
+            <Input
+              type="time"
+              value={end || ''}
+              onChange={(e) => updateEditing({ [`${day}_end`]: e.target.value })}
+              aria-label={`${label} end`}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const editingStateName = editing ? states.find(state => state.code === editing.state)?.name || editing.state : '';
+
+  return (
+    <div className="space-y-6 max-w-5xl">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Scales className="h-8 w-8" />
+          State Calling Rules
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          State calling-law limits every campaign follows on top of its own schedule
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules by State</CardTitle>
+          <CardDescription>
+            Hours are the contact's local time and the end time is exclusive. A contact's state comes from their zip code,
+            then the area code of the number dialed. States without a rule only follow the campaign schedule.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>State</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead className="w-24">Enforced</TableHead>
+                    <TableHead className="w-28" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {states.map(state => {
+                    const rule = rules.get(state.code);
+                    return (
+                      <TableRow key={state.code}>
+                        <TableCell>
+                          <div className="font-medium">{state.name}</div>
+                          <div className="text-xs text-muted-foreground">{state.code}</div>
+                        </TableCell>
+                        <TableCell>
+                          {rule ? (
+                            <>
+                              <div className="text-sm">{describeStateRule(rule)}</div>
+                              {rule.citation && <div className="text-xs text-muted-foreground">{rule.citation}</div>}
+                            </>
+                          ) : (
+                            <Badge variant="outline" className="text-muted-foreground">Campaign schedule only</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {rule && (
+                            <Switch
+                              checked={rule.enabled}
+                              onCheckedChange={(checked) => handleToggle(rule, checked)}
+                              disabled={saving}
+                              aria-label={`Enforce the ${state.name} rule`}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openEditor(state.code)} aria-label={`Edit the ${state.name} rule`}>
+                              <PencilSimple className="h-4 w-4" />
+                            </Button>
+                            {rule && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => handleDelete(state)}
+                                aria-label={`Remove the ${state.name} rule`}
+                              >
+                                <Trash className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingStateName} Calling Rule</DialogTitle>
+            <DialogDescription>
+              Contacts in {editingStateName} are only called inside these hours and limits.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Monday to Friday</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="time"
+                    value={editing.weekday_start}
+                    onChange={(e) => updateEditing({ weekday_start: e.target.value })}
+                    aria-label="Weekday start"
+                  />
+                  <Input
+                    type="time"
+                    value={editing.weekday_end}
+                    onChange={(e) => updateEditing({ weekday_end: e.target.value })}
+                    aria-label="Weekday end"
+                  />
+                </div>
+              </div>
+
+              {renderDayWindow('saturday', 'Saturdays')}
+              {renderDayWindow('sunday', 'Sundays')}
+
+              <div className="space-y-2">
+                <Label htmlFor="max-attempts">Calls to a contact per 24 hours</Label>
+                <Input
+                  id="max-attempts"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={editing.max_attempts_per_day ?? ''}
+                  onChange={(e) => updateEditing({ max_attempts_per_day: e.target.value ? Number(e.target.value) : null })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="citation">Statute</Label>
+                <Input
+                  id="citation"
+                  value={editing.citation || ''}
+                  onChange={(e) => updateEditing({ citation: e.target.value || null })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  rows={2}
+                  value={editing.notes || ''}
+                  onChange={(e) => updateEditing({ notes: e.target.value || null })}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="rule-enabled">Enforce this rule</Label>
+                <Switch id="rule-enabled" checked={editing.enabled} onCheckedChange={(checked) => updateEditing({ enabled: checked })} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog />
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { WebhooksLogo, ArrowClockwise, CircleNotch as Loader2 } from "@phosphor-icons/react";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { webhooksService } from "@/services/webhooks.service";
+import {
+  WEBHOOK_ERROR_STATUS_LABELS,
+  getWebhookErrorStatus,
+  type WebhookErrorRow,
+  type WebhookErrorStatus,
+} from "@/lib/webhook-errors";
+
+type StatusFilter = WebhookErrorStatus | 'all';
+
+const STATUS_BADGE_VARIANTS: Record<WebhookErrorStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  retrying: 'secondary',
+  dead_letter: 'destructive',
+  resolved: 'outline',
+};
+
+export default function AdminWebhookErrors() {
+  const [errors, setErrors] = useState<WebhookErrorRow[]>([]);
+  const [filter, setFilter] = useState<StatusFilter>('dead_letter');
+  const [loading, setLoading] = useState(true);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadErrors = useCallback(async () => {
+    try {
+      setErrors(await webhooksService.getWebhookErrors(filter));
+    } catch (error) {
+      console.error('Error loading webhook errors:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load failed webhook events",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, toast]);
+
+  useEffect(() => {
+    loadErrors();
+  }, [loadErrors]);
+
+  const handleReplay = async (row: WebhookErrorRow) => {
+    setReplayingId(row.id);
+    try {
+      const result = await webhooksService.replayWebhookError(row.id);
+      toast(result.success
+        ? { title: "Event Replayed", description: `The ${row.event_type} event was ${result.note || 'applied'}.` }
+        : { title: "Replay Failed", description: result.error || "The event failed again.", variant: "destructive" });
+      await loadErrors();
+    } catch (error) {
+      console.error('Error replaying webhook:', error);
+      toast({
+        title: "Error",
+        description: "Failed to replay the event. Only admins can replay webhooks.",
+        variant: "destructive",
+      });
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-6xl">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <WebhooksLogo className="h-8 w-8" />
+          Webhook Errors
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Retell and Stripe events that failed to apply
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Failed Events</CardTitle>
+              <CardDescription className="mt-1">
+                Failed events are retried automatically with a growing delay. Events that used up their retries, or
+                were never retryable, are dead letters until you replay them.
+              </CardDescription>
+            </div>
+            <Select value={filter} onValueChange={(value: StatusFilter) => setFilter(value)}>
+              <SelectTrigger className="w-40" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dead_letter">Dead letters</SelectItem>
+                <SelectItem value="retrying">Retrying</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : errors.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No failed events</p>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Failed</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead>Retries</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-28" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {errors.map(row => {
+                    const status = getWebhookErrorStatus(row);
+                    return (
+                      <TableRow key={row.id}>
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                          {new Date(row.created_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm font-medium">{row.webhook_type} · {row.event_type}</div>
+                          <div className="text-xs text-muted-foreground font-mono break-all">{row.event_id}</div>
+                        </TableCell>
+                        <TableCell className="text-sm max-w-xs">
+                          <div className="line-clamp-3">{row.error_message}</div>
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {row.retry_count} / {row.max_retries}
+                          {status === 'retrying' && row.next_retry_at && (
+                            <div className="text-xs text-muted-foreground">
+                              next {new Date(row.next_retry_at).toLocaleTimeString()}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_BADGE_VARIANTS[status]}>{WEBHOOK_ERROR_STATUS_LABELS[status]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {status !== 'resolved' && (
+                            <div className="flex justify-end">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleReplay(row)}
+                                disabled={replayingId !== null}
+                              >
+                                {replayingId === row.id
+                                  ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                  : <ArrowClockwise className="h-4 w-4 mr-1" />}
+                                Replay
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -55,6 +55,7 @@ import { updateExistingAgent } from '@/features/agents/services/agentUpdate';
 // Components
 import { TestCallButton } from '@/components/TestCallButton';
 import { PhoneNumberSelector } from '@/components/PhoneNumberSelector';
+import { ExtractionSchemaSettings } from '@/components/ExtractionSchemaSettings';
 
 type PlaceholderComponentType = "text" | "textarea" | "number" | "trait_selector";
 
@@ -2742,6 +2743,9 @@ const AgentConfiguration: React.FC = () => {
               )}
             </CardContent>
           </Card>
+
+          {/* Typed fields extracted onto contacts (saved agents only) */}
+          {isEditMode && agentId && <ExtractionSchemaSettings agentId={agentId} />}
         </div>
       </div>
 
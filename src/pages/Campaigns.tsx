@@ -15,9 +15,15 @@ import { useNavigate, useParams } from "react-router-dom";
 import { useTimezone } from "@/hooks/useTimezone";
 import { getUserCredits, formatCredits } from "@/lib/credits";
 import { validateCampaignTransition, type CampaignStatus } from "@/lib/campaign-state-machine";
+import { formatWeeklySchedule, getEarliestWindowStart, resolveWeeklySchedule, type WeeklySchedule } from "@/lib/calling-schedule";
 import { useConfirmDialog } from "@/components/ui/confirm-dialog";
 import { withTimeout, TIMEOUT_DURATIONS } from "@/lib/timeout";
 import { CreditStatusIndicator } from "@/components/CreditStatusIndicator";
+import { CampaignSummaryPanel } from "@/components/CampaignSummaryPanel";
+import { UpcomingCallbacks } from "@/components/UpcomingCallbacks";
+import { FollowUpRubricSettings } from "@/components/FollowUpRubricSettings";
+import type { CampaignSummary } from "@/lib/campaign-summary";
+import { formatCampaignReason } from "@/lib/campaign-events";
 
 interface Campaign {
   id: string;
@@ -30,9 +36,14 @@ interface Campaign {
   max_retry_days: number;
   calling_hours: any;
   active_days: string[];
+  weekly_schedule?: WeeklySchedule | null;
   field_mappings: any;
   timezone?: string;
   paused_reason?: string | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  blackout_dates?: string[];
+  holiday_calendar?: string | null;
   user_agents?: { name: string; phone_numbers?: { phone_number: string } };
   contact_groups?: { name: string; contacts?: unknown[] };
   total_contacts?: number;
@@ -42,8 +53,56 @@ interface Campaign {
   pickups?: number;
   no_answers?: number;
   failed_calls?: number;
+  rate_limit_usage?: RateLimitUsage[];
+  spend?: CampaignSpend | null;
+  group_progress?: GroupProgress[];
+  contact_timezones?: string[];
+  summary?: CampaignSummary | null;
+  settings?: { spend_caps?: Partial<Record<'max_daily_cents' | 'max_total_cents' | 'max_cost_per_appointment_cents', number | null>> } | null;
 }
 
+interface CampaignSpend {
+  total_cents: number;
+  today_cents: number;
+  appointments: number;
+  cost_per_appointment_cents: number | null;
+  in_progress_calls: number;
+}
+
+interface GroupProgress {
+  contact_group_id: string;
+  group_name: string;
+  total_contacts: number;
+  unique_contacts: number;
+  duplicate_numbers: number;
+  called_contacts: number;
+}
+
+interface RateLimitUsage {
+  scope: 'campaign' | 'account' | 'phone_number';
+  scope_id: string;
+  scope_label: string;
+  window_type: 'minute' | 'hour' | 'day';
+  used: number;
+  cap: number | null;
+}
+
+const RATE_LIMIT_WINDOW_LABELS: Record<RateLimitUsage['window_type'], string> = {
+  minute: 'min',
+  hour: 'hr',
+  day: 'day'
+};
+
+// One row per scope: the campaign, the account, then each number the campaign dials from
+const groupRateLimitUsage = (usage: RateLimitUsage[]): RateLimitUsage[][] => {
+  const groups = new Map<string, RateLimitUsage[]>();
+  for (const row of usage) {
+    const key = `${row.scope}:${row.scope_id}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return [...groups.values()];
+};
+
 interface CampaignCardProps {
   campaign: Campaign;
   onPause: (campaignId: string) => void;
@@ -85,7 +144,9 @@ const CampaignCard = ({
           </CardTitle>
           <CardDescription>
             Agent: {campaign.user_agents?.name || 'Not assigned'} •
-            Contacts: {campaign.contact_groups?.name || 'Not assigned'}
+            Contacts: {campaign.group_progress?.length
+              ? campaign.group_progress.map(group => group.group_name).join(', ')
+              : campaign.contact_groups?.name || 'Not assigned'}
           </CardDescription>
           {campaign.status === 'paused' && (campaign.paused_reason === 'user has no credits' || campaign.paused_reason === 'insufficient_credits') && (
             <div className="mt-2 p-2 bg-destructive/10 rounded-md">
@@ -94,6 +155,42 @@ const CampaignCard = ({
               </p>
             </div>
           )}
+          {campaign.status === 'scheduled' && campaign.starts_at && (
+            <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
+              <p className="text-sm text-blue-700 font-medium">
+                Scheduled to start {new Date(campaign.starts_at).toLocaleString()}
+              </p>
+            </div>
+          )}
+          {campaign.status === 'paused' && campaign.paused_reason === 'blackout_date' && (
+            <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
+              <p className="text-sm text-blue-700 font-medium">
+                Campaign paused - blackout date or holiday
+              </p>
+              <p className="text-xs text-blue-600 mt-1">
+                Will resume on the next calling day
+              </p>
+            </div>
+          )}
+          {campaign.status === 'paused' && campaign.paused_reason === 'daily_budget_reached' && (
+            <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
+              <p className="text-sm text-blue-700 font-medium">
+                Campaign paused - daily budget of {formatCredits(campaign.settings?.spend_caps?.max_daily_cents || 0)} reached
+              </p>
+              <p className="text-xs text-blue-600 mt-1">
+                Will resume tomorrow
+              </p>
+            </div>
+          )}
+          {campaign.status === 'paused' && (campaign.paused_reason === 'spend_cap_reached' || campaign.paused_reason === 'appointment_cost_cap_reached') && (
+            <div className="mt-2 p-2 bg-destructive/10 rounded-md">
+              <p className="text-sm text-destructive font-medium">
+                {campaign.paused_reason === 'spend_cap_reached'
+                  ? `Campaign paused - total spend cap of ${formatCredits(campaign.settings?.spend_caps?.max_total_cents || 0)} reached`
+                  : `Campaign paused - cost per appointment above ${formatCredits(campaign.settings?.spend_caps?.max_cost_per_appointment_cents || 0)}`}
+              </p>
+            </div>
+          )}
           {campaign.status === 'paused' && campaign.paused_reason === 'outside_calling_hours' && (
             <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
               <p className="text-sm text-blue-700 font-medium">
@@ -147,6 +244,32 @@ const CampaignCard = ({
         />
       </div>
 
+      {campaign.group_progress && campaign.group_progress.length > 1 && (
+        <div className="space-y-2">
+          {campaign.group_progress.map(group => (
+            <div key={group.contact_group_id} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">{group.group_name}</span>
+                <span>
+                  {group.called_contacts} / {group.unique_contacts}
+                  {group.duplicate_numbers > 0 && (
+                    <span className="text-muted-foreground"> · {group.duplicate_numbers} duplicate {group.duplicate_numbers === 1 ? 'number' : 'numbers'} skipped</span>
+                  )}
+                </span>
+              </div>
+              <Progress
+                className="h-1"
+                value={group.unique_contacts ? group.called_contacts / group.unique_contacts * 100 : 0}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {campaign.status === 'completed' && campaign.summary && (
+        <CampaignSummaryPanel summary={campaign.summary} />
+      )}
+
       <div className="space-y-3">
         <div className="flex justify-between items-center">
           <span className="text-sm text-muted-foreground">Live calls:</span>
@@ -165,6 +288,54 @@ const CampaignCard = ({
 
       </div>
 
+      {campaign.spend && (
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground">Spend today:</span>
+            <span className="font-medium">
+              {formatCredits(campaign.spend.today_cents)}
+              {campaign.settings?.spend_caps?.max_daily_cents != null && ` / ${formatCredits(campaign.settings.spend_caps.max_daily_cents)}`}
+            </span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground">Total spend:</span>
+            <span className="font-medium">
+              {formatCredits(campaign.spend.total_cents)}
+              {campaign.settings?.spend_caps?.max_total_cents != null && ` / ${formatCredits(campaign.settings.spend_caps.max_total_cents)}`}
+            </span>
+          </div>
+          {campaign.spend.cost_per_appointment_cents !== null && (
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Cost per appointment:</span>
+              <span className="font-medium">
+                {formatCredits(campaign.spend.cost_per_appointment_cents)} ({campaign.spend.appointments} booked)
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {campaign.rate_limit_usage && campaign.rate_limit_usage.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-sm text-muted-foreground">Dial rate usage:</span>
+          {groupRateLimitUsage(campaign.rate_limit_usage).map(rows => (
+            <div key={`${rows[0].scope}:${rows[0].scope_id}`} className="flex justify-between items-center text-xs">
+              <span className="text-muted-foreground">{rows[0].scope_label}</span>
+              <span className="flex gap-3">
+                {rows.map(row => (
+                  <span
+                    key={row.window_type}
+                    className={row.cap !== null && row.used >= row.cap ? 'text-destructive font-medium' : ''}
+                  >
+                    {row.used}/{row.cap ?? '∞'} per {RATE_LIMIT_WINDOW_LABELS[row.window_type]}
+                  </span>
+                ))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="text-sm text-muted-foreground space-y-1">
         <div className="flex items-center gap-2">
           <Users className="h-4 w-4" />
@@ -172,8 +343,14 @@ const CampaignCard = ({
         </div>
         <div className="flex items-center gap-2">
           <Calendar className="h-4 w-4" />
-          <span>{campaign.calling_hours?.start || '09:00'} - {campaign.calling_hours?.end || '17:00'}</span>
+          <span>{formatWeeklySchedule(resolveWeeklySchedule(campaign)) || 'No calling hours'}</span>
         </div>
+        {campaign.ends_at && (
+          <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            <span>Ends {new Date(campaign.ends_at).toLocaleString()}</span>
+          </div>
+        )}
       </div>
 
       <div className="flex gap-2">
@@ -214,7 +391,32 @@ export default function Campaigns() {
       .select('*')
       .eq('campaign_id', campaignId);
 
-    const total_contacts = campaignData?.contact_groups?.total_contacts || 0;
+    // Current usage against the durable dial rate limits
+    const { data: rateLimitUsage } = await supabase
+      .rpc('get_campaign_rate_limit_usage', { p_campaign_id: campaignId });
+
+    // Running spend from call_costs
+    const { data: spend } = await supabase
+      .rpc('get_campaign_spend', { p_campaign_id: campaignId });
+
+    // Contacts called per contact group (duplicate numbers across groups are only called once)
+    const { data: groupProgress } = await supabase
+      .rpc('get_campaign_group_progress', { p_campaign_id: campaignId });
+
+    // Timezones of the campaign's active contacts (called or not), for when a campaign paused outside
+    // calling hours resumes
+    let contact_timezones: string[] = [];
+    if (campaignData?.status === 'paused' && campaignData?.paused_reason === 'outside_calling_hours') {
+      const { data: timezones } = await supabase
+        .rpc('get_campaign_contact_timezones', { p_campaign_id: campaignId });
+      contact_timezones = (timezones || [])
+        .map((row: { timezone: string | null }) => row.timezone)
+        .filter((zone): zone is string => Boolean(zone));
+    }
+
+    const total_contacts = groupProgress?.length
+      ? groupProgress.reduce((sum, group) => sum + group.unique_contacts, 0)
+      : campaignData?.contact_groups?.total_contacts || 0;
     
     // Count actual calls made (those with retell_call_id)
     const actual_calls_made = attempts?.filter((a: any) => a.retell_call_id !== null).length || 0;
@@ -247,6 +449,10 @@ export default function Campaigns() {
       pickups,
       no_answers,
       failed_calls,
+      rate_limit_usage: (rateLimitUsage || []) as RateLimitUsage[],
+      spend: (spend?.[0] || null) as CampaignSpend | null,
+      group_progress: (groupProgress || []) as GroupProgress[],
+      contact_timezones,
       totalContacts: total_contacts,
       completedCalls: pickups,
       successRate: Math.round(success_rate)
@@ -499,71 +705,23 @@ export default function Campaigns() {
     }
   };
 
-  const getPausedReasonDisplay = (reason: string | null | undefined): string => {
-    if (!reason) return '';
-    
-    switch (reason) {
-      case 'user has no credits':
-      case 'insufficient_credits':
-        return 'Insufficient Credits';
-      case 'no eligible contacts':
-        return 'No contacts to call';
-      case 'outside_calling_hours':
-        return 'Outside calling hours';
-      default:
-        return reason;
-    }
-  };
+  const getPausedReasonDisplay = (reason: string | null | undefined): string =>
+    reason ? formatCampaignReason(reason) : '';
 
   const getNextCallingTime = (campaign: Campaign): string => {
-    if (!campaign.calling_hours || !campaign.active_days) return 'Unknown';
-    
     const timezone = campaign.timezone || 'America/New_York';
-    const now = new Date();
-    const currentTimeInTimezone = new Date(now.toLocaleString("en-US", {timeZone: timezone}));
-    const currentDay = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'][currentTimeInTimezone.getDay()];
-    
-    const [startHour, startMin] = campaign.calling_hours.start.split(':').map(Number);
-    
-    // If today is an active day and we haven't passed today's start time yet
-    if (campaign.active_days.includes(currentDay)) {
-      const currentTime = currentTimeInTimezone.getHours() * 60 + currentTimeInTimezone.getMinutes();
-      const startMinutes = startHour * 60 + startMin;
-      
-      if (currentTime < startMinutes) {
-        // Return today's start time
-        const nextStart = new Date(currentTimeInTimezone);
-        nextStart.setHours(startHour, startMin, 0, 0);
-        return nextStart.toLocaleString("en-US", {
-          timeZone: timezone,
-          weekday: 'short',
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true
-        });
-      }
-    }
-    
-    // Find next active day
-    const daysOfWeek = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-    let daysToAdd = 1;
-    let nextDay = (currentTimeInTimezone.getDay() + daysToAdd) % 7;
-    
-    while (!campaign.active_days.includes(daysOfWeek[nextDay]) && daysToAdd < 7) {
-      daysToAdd++;
-      nextDay = (currentTimeInTimezone.getDay() + daysToAdd) % 7;
-    }
-    
-    const nextStart = new Date(currentTimeInTimezone);
-    nextStart.setDate(nextStart.getDate() + daysToAdd);
-    nextStart.setHours(startHour, startMin, 0, 0);
-    
+    // Calling resumes as soon as any contact's timezone opens
+    const timezones = campaign.contact_timezones?.length ? campaign.contact_timezones : [timezone];
+    const nextStart = getEarliestWindowStart(resolveWeeklySchedule(campaign), timezones);
+    if (!nextStart) return 'Unknown';
+
     return nextStart.toLocaleString("en-US", {
       timeZone: timezone,
       weekday: 'short',
       hour: 'numeric',
       minute: '2-digit',
-      hour12: true
+      hour12: true,
+      timeZoneName: 'short'
     });
   };
 
@@ -604,6 +762,8 @@ export default function Campaigns() {
         </TabsList>
         
         <TabsContent value="active" className="space-y-6">
+          <UpcomingCallbacks />
+
           <div className="grid grid-cols-1 md:grid-cols-1 lg:grid-cols-2 gap-6">
             {campaigns
               .filter(c => ['active', 'paused', 'scheduled'].includes(c.status))
@@ -676,7 +836,8 @@ export default function Campaigns() {
           </div>
         </TabsContent>
 
-        <TabsContent value="results">
+        <TabsContent value="results" className="space-y-6">
+          <FollowUpRubricSettings />
           <ResultsView />
         </TabsContent>
       </Tabs>
@@ -9,6 +9,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { ContactImportModal } from "@/components/ContactImportModal";
 import { ContactGroupPanel } from "@/components/ContactGroupPanel";
+import { DoNotCallList } from "@/components/DoNotCallList";
+import { ContactCooldownSettings } from "@/components/ContactCooldownSettings";
 import type { ContactGroup } from "@/types/contacts";
 import { useConfirmDialog } from "@/components/ui/confirm-dialog";
 
@@ -220,6 +222,10 @@ export default function Contacts() {
         </div>
       )}
 
+      <DoNotCallList />
+
+      <ContactCooldownSettings />
+
       <ContactImportModal 
         open={importModalOpen}
         onOpenChange={setImportModalOpen}
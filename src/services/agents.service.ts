@@ -2,6 +2,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { authService } from './auth.service';
 import { baseService } from './base.service';
+import type { ExtractionField } from '@/lib/extraction-schema';
 
 interface Agent {
   id: string;
@@ -281,6 +282,39 @@ export const agentsService = {
       throw new Error(response.error.message || 'Failed to initiate test call');
     }
     
+    return response.data;
+  },
+
+  /**
+   * Fields the agent's post-call analysis extracts from each call
+   */
+  async getExtractionSchema(agentId: string): Promise<ExtractionField[]> {
+    const user = await authService.requireAuth();
+
+    const response = await supabase
+      .from('user_agents')
+      .select('extraction_schema')
+      .eq('id', agentId)
+      .eq('user_id', user.id)
+      .single();
+
+    return baseService.handleResponse(response)?.extraction_schema || [];
+  },
+
+  /**
+   * Save the extraction schema and push it to the agent's Retell post-call analysis
+   */
+  async saveExtractionSchema(agentId: string, schema: ExtractionField[]) {
+    await authService.requireAuth();
+
+    const response = await supabase.functions.invoke('update-retell-llm', {
+      body: { agentId, extractionSchema: schema }
+    });
+
+    if (response.error || response.data?.error) {
+      throw new Error(response.data?.error || response.error?.message || 'Failed to save extraction fields');
+    }
+
     return response.data;
   }
 };
\ No newline at end of file
@@ -3,6 +3,15 @@ import { supabase } from '@/integrations/supabase/client';
 import { authService } from './auth.service';
 import { baseService } from './base.service';
 import { validateCampaignTransition, type CampaignStatus } from '@/lib/campaign-state-machine';
+import type { WeeklySchedule } from '@/lib/calling-schedule';
+import { variantLabel, type AgentVariantEntry, type VariantStats } from '@/lib/ab-testing';
+import type { CampaignSummary } from '@/lib/campaign-summary';
+import type { CallOutcomeStats, SimulationResult } from '@/lib/campaign-forecast';
+import type { CampaignEvent } from '@/lib/campaign-events';
+import type { ScheduledCallback } from '@/lib/callbacks';
+import type { ComplianceSkip, StateCallingRule, StateCallingRuleInput, UsState } from '@/lib/state-calling-rules';
+import type { VoicemailStatsRow } from '@/lib/voicemail-drop';
+import type { FollowUpRescoreResult, FollowUpRubric } from '@/lib/follow-up-rubric';
 
 interface Campaign {
   id: string;
@@ -18,9 +27,16 @@ interface Campaign {
   max_retry_days: number;
   calling_hours: any;
   active_days: string[];
+  weekly_schedule?: WeeklySchedule | null;
   field_mappings: any;
   timezone?: string;
   paused_reason?: string | null;
+  settings?: Record<string, unknown>;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  blackout_dates?: string[];
+  holiday_calendar?: string | null;
+  summary?: CampaignSummary | null;
 }
 
 /**
@@ -72,8 +88,8 @@ export const campaignsService = {
   async create(campaignData: Partial<Campaign>) {
     const user = await authService.requireAuth();
     
-    // If creating campaign as 'active', validate required fields
-    if (campaignData.status === 'active') {
+    // If creating campaign as 'active' or 'scheduled', validate required fields
+    if (campaignData.status === 'active' || campaignData.status === 'scheduled') {
       if (!campaignData.agent_id) {
         throw new Error('Cannot create active campaign without an agent');
       }
@@ -150,6 +166,303 @@ export const campaignsService = {
     baseService.handleMutation(response);
   },
 
+  /**
+   * Replace the caller-ID pool of a campaign and apply each number's daily call cap
+   */
+  async setCallerIdPool(
+    campaignId: string,
+    pool: { phone_number_id: string; max_calls_per_day: number | null }[]
+  ) {
+    const user = await authService.requireAuth();
+
+    const deleteResponse = await supabase
+      .from('campaign_phone_numbers')
+      .delete()
+      .eq('campaign_id', campaignId);
+
+    baseService.handleMutation(deleteResponse);
+
+    if (pool.length === 0) return;
+
+    const insertResponse = await supabase
+      .from('campaign_phone_numbers')
+      .insert(pool.map(entry => ({
+        campaign_id: campaignId,
+        phone_number_id: entry.phone_number_id
+      })));
+
+    baseService.handleMutation(insertResponse);
+
+    // Daily caps belong to the phone number and apply across all campaigns using it
+    for (const entry of pool) {
+      const capResponse = await supabase
+        .from('phone_numbers')
+        .update({ max_calls_per_day: entry.max_calls_per_day })
+        .eq('id', entry.phone_number_id)
+        .eq('user_id', user.id);
+
+      baseService.handleMutation(capResponse);
+    }
+  },
+
+  /**
+   * Replace the A/B agent variants of a campaign (an empty list turns the split off)
+   */
+  async setAgentVariants(campaignId: string, variants: AgentVariantEntry[]) {
+    await authService.requireAuth();
+
+    const deleteResponse = await supabase
+      .from('campaign_agent_variants')
+      .delete()
+      .eq('campaign_id', campaignId);
+
+    baseService.handleMutation(deleteResponse);
+
+    if (variants.length === 0) return;
+
+    const insertResponse = await supabase
+      .from('campaign_agent_variants')
+      .insert(variants.map((variant, index) => ({
+        campaign_id: campaignId,
+        agent_id: variant.agent_id,
+        label: variantLabel(index),
+        weight: variant.weight
+      })));
+
+    baseService.handleMutation(insertResponse);
+  },
+
+  /**
+   * Get per-variant results of an A/B split campaign (empty when the campaign has no variants)
+   */
+  async getVariantStats(campaignId: string): Promise<VariantStats[]> {
+    await authService.requireAuth();
+
+    const response = await supabase.rpc('get_campaign_variant_stats', {
+      p_campaign_id: campaignId
+    });
+
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * Voicemails a campaign reached, by attempt number and whether a message was left
+   */
+  async getVoicemailStats(campaignId: string): Promise<VoicemailStatsRow[]> {
+    await authService.requireAuth();
+
+    const response = await supabase.rpc('get_campaign_voicemail_stats', {
+      p_campaign_id: campaignId
+    });
+
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * Activity timeline of a campaign, newest first
+   */
+  async getEvents(campaignId: string, limit = 200): Promise<CampaignEvent[]> {
+    await authService.requireAuth();
+
+    const response = await supabase
+      .from('campaign_events')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * Attempts of a campaign held back by a state calling rule, newest first
+   */
+  async getComplianceSkips(campaignId: string, limit = 500): Promise<ComplianceSkip[]> {
+    await authService.requireAuth();
+
+    const response = await supabase
+      .from('compliance_skips')
+      .select(`
+        id, contact_id, phone_number, state, rule, detail, local_date, created_at,
+        contacts ( first_name, last_name )
+      `)
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * US states with their default timezone, by name
+   */
+  async getUsStates(): Promise<UsState[]> {
+    await authService.requireAuth();
+
+    const response = await supabase
+      .from('us_states')
+      .select('code, name, timezone')
+      .order('name');
+
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * State calling-law rules enforced on top of campaign schedules
+   */
+  async getStateCallingRules(): Promise<StateCallingRule[]> {
+    await authService.requireAuth();
+
+    const response = await supabase
+      .from('state_calling_rules')
+      .select('*')
+      .order('state');
+
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * Create or replace the rule of a state (admins only, enforced by RLS)
+   */
+  async saveStateCallingRule(rule: StateCallingRuleInput) {
+    const user = await authService.requireAuth();
+
+    const response = await supabase
+      .from('state_calling_rules')
+      .upsert({ ...rule, updated_by: user.id, updated_at: new Date().toISOString() }, { onConflict: 'state' });
+
+    baseService.handleMutation(response);
+  },
+
+  /**
+   * Remove the rule of a state so only campaign schedules apply there (admins only)
+   */
+  async deleteStateCallingRule(state: string) {
+    await authService.requireAuth();
+
+    const response = await supabase
+      .from('state_calling_rules')
+      .delete()
+      .eq('state', state);
+
+    baseService.handleMutation(response);
+  },
+
+  /**
+   * Pending callbacks requested by leads across the current user's campaigns, soonest first
+   */
+  async getUpcomingCallbacks(limit = 100): Promise<ScheduledCallback[]> {
+    await authService.requireAuth();
+
+    const response = await supabase
+      .from('scheduled_callbacks')
+      .select(`
+        id, campaign_id, contact_id, phone_number, callback_at, timezone,
+        requested_text, note, source, time_resolved,
+        campaigns ( name ),
+        contacts ( first_name, last_name )
+      `)
+      .eq('status', 'pending')
+      .order('callback_at', { ascending: true })
+      .limit(limit);
+
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * Cancel a pending callback so the lead is not called back
+   */
+  async cancelCallback(callbackId: string) {
+    await authService.requireAuth();
+
+    const response = await supabase
+      .from('scheduled_callbacks')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', callbackId)
+      .eq('status', 'pending');
+
+    baseService.handleMutation(response);
+  },
+
+  /**
+   * The current user's follow-up scoring rubric, or null when they use the default
+   */
+  async getFollowUpRubric(): Promise<FollowUpRubric | null> {
+    const user = await authService.requireAuth();
+
+    const response = await supabase
+      .from('follow_up_rubrics')
+      .select('rubric')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    return (baseService.handleOptionalResponse(response)?.rubric as FollowUpRubric | undefined) || null;
+  },
+
+  /**
+   * Save the follow-up scoring rubric; past calls are queued for rescoring with it
+   */
+  async saveFollowUpRubric(rubric: FollowUpRubric): Promise<number> {
+    await authService.requireAuth();
+
+    const response = await supabase.rpc('save_follow_up_rubric', {
+      p_rubric: rubric
+    });
+
+    return baseService.handleResponse(response);
+  },
+
+  /**
+   * Score a batch of the current user's calls that are unscored or scored with an older rubric
+   */
+  async rescoreFollowUps(): Promise<FollowUpRescoreResult> {
+    await authService.requireAuth();
+
+    const response = await supabase.functions.invoke('score-follow-ups', { body: {} });
+
+    if (response.error || response.data?.error) {
+      throw new Error(response.data?.error || response.error?.message || 'Failed to score calls');
+    }
+
+    return response.data as FollowUpRescoreResult;
+  },
+
+  /**
+   * Call outcomes, durations and costs of the current user's calls over the last 90 days
+   */
+  async getAccountCallStats(): Promise<CallOutcomeStats[]> {
+    const user = await authService.requireAuth();
+
+    const response = await supabase.rpc('get_account_call_stats', {
+      p_user_id: user.id
+    });
+
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * Estimated dial plan of a campaign that is not launched yet: process-campaign models dialing the
+   * contact groups against a simulated telephony client and returns the day-by-day plan
+   */
+  async simulate(campaign: Record<string, unknown>, contactGroupIds: string[], days = 30): Promise<SimulationResult> {
+    await authService.requireAuth();
+
+    const response = await supabase.functions.invoke('process-campaign', {
+      body: {
+        mode: 'simulate',
+        campaign,
+        contact_group_ids: contactGroupIds,
+        days
+      }
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message || 'Failed to simulate campaign');
+    }
+
+    return response.data as SimulationResult;
+  },
+
   /**
    * Get campaign metrics
    */
@@ -2,6 +2,8 @@
 import { supabase } from '@/integrations/supabase/client';
 import { authService } from './auth.service';
 import { baseService } from './base.service';
+import { getPhoneMatchKey, type DoNotCallNumber } from '@/lib/do-not-call';
+import { DEFAULT_COOLDOWN_RULE, type ContactCooldownRule, type HeldNumber } from '@/lib/contact-cooldown';
 
 interface Contact {
   id: string;
@@ -447,5 +449,137 @@ export const contactsService = {
     }
     
     return stats;
+  },
+
+  /**
+   * Numbers on the account's do-not-call list, newest first, optionally matching some digits
+   */
+  async getDoNotCallNumbers(search = '', limit = 500): Promise<{ numbers: DoNotCallNumber[]; total: number }> {
+    const user = await authService.requireAuth();
+
+    let query = supabase
+      .from('do_not_call_numbers')
+      .select('id, phone_number, normalized_phone, source, reason, campaign_id, created_at, campaigns ( name )', { count: 'exact' })
+      .eq('user_id', user.id);
+
+    const digits = search.replace(/\D/g, '');
+    if (digits) {
+      query = query.like('normalized_phone', `%${digits.slice(-10)}%`);
+    }
+
+    const response = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    return {
+      numbers: baseService.handleOptionalResponse(response) || [],
+      total: response.count || 0
+    };
+  },
+
+  /**
+   * Match keys (last 10 digits) of the given numbers that are on the do-not-call list
+   */
+  async getSuppressedPhoneKeys(phoneNumbers: string[]): Promise<Set<string>> {
+    const user = await authService.requireAuth();
+    const keys = [...new Set(phoneNumbers.map(getPhoneMatchKey).filter(Boolean))];
+    if (keys.length === 0) return new Set();
+
+    const response = await supabase
+      .from('do_not_call_numbers')
+      .select('normalized_phone')
+      .eq('user_id', user.id)
+      .in('normalized_phone', keys);
+
+    const rows = baseService.handleOptionalResponse(response) || [];
+    return new Set(rows.map(row => row.normalized_phone));
+  },
+
+  /**
+   * Add numbers to the do-not-call list; numbers already on it are skipped.
+   * Returns how many numbers were added.
+   */
+  async addDoNotCallNumbers(phoneNumbers: string[], source: 'manual' | 'import', reason?: string): Promise<number> {
+    const user = await authService.requireAuth();
+    const unique = [...new Map(phoneNumbers.map(phone => [getPhoneMatchKey(phone), phone])).values()];
+    let added = 0;
+
+    // Large imports are written in chunks
+    for (let i = 0; i < unique.length; i += 500) {
+      const response = await supabase
+        .from('do_not_call_numbers')
+        .upsert(
+          unique.slice(i, i + 500).map(phone_number => ({
+            user_id: user.id,
+            phone_number,
+            source,
+            reason: reason || null
+          })),
+          { onConflict: 'user_id,normalized_phone', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      added += (baseService.handleOptionalResponse(response) || []).length;
+    }
+
+    return added;
+  },
+
+  /**
+   * Remove numbers from the do-not-call list, so campaigns may call them again
+   */
+  async removeDoNotCallNumbers(ids: string[]) {
+    if (ids.length === 0) return;
+    const user = await authService.requireAuth();
+
+    const response = await supabase
+      .from('do_not_call_numbers')
+      .delete()
+      .in('id', ids)
+      .eq('user_id', user.id);
+
+    baseService.handleMutation(response);
+  },
+
+  /**
+   * The account's cross-campaign cooldown rule (disabled when none was saved)
+   */
+  async getCooldownRule(): Promise<ContactCooldownRule> {
+    const user = await authService.requireAuth();
+
+    const response = await supabase
+      .from('contact_cooldown_rules')
+      .select('enabled, conversation_cooldown_days, max_dials_per_week')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    return baseService.handleOptionalResponse(response) || DEFAULT_COOLDOWN_RULE;
+  },
+
+  /**
+   * Save the account's cross-campaign cooldown rule
+   */
+  async saveCooldownRule(rule: ContactCooldownRule) {
+    const user = await authService.requireAuth();
+
+    const response = await supabase
+      .from('contact_cooldown_rules')
+      .upsert({ ...rule, user_id: user.id, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+    baseService.handleMutation(response);
+  },
+
+  /**
+   * Numbers among these that the cooldown holds right now, keyed like getPhoneMatchKey
+   */
+  async getHeldNumbers(phoneNumbers: string[]): Promise<Map<string, HeldNumber>> {
+    await authService.requireAuth();
+    const keys = [...new Set(phoneNumbers.map(getPhoneMatchKey).filter(Boolean))];
+    if (keys.length === 0) return new Map();
+
+    const response = await supabase.rpc('get_held_numbers', { p_phone_numbers: keys });
+
+    const rows: HeldNumber[] = baseService.handleOptionalResponse(response) || [];
+    return new Map(rows.map(row => [row.phone_key, row]));
   }
 };
\ No newline at end of file
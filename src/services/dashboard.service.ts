@@ -2,6 +2,8 @@
 import { supabase } from '@/integrations/supabase/client';
 import { authService } from './auth.service';
 import { baseService } from './base.service';
+import type { AccountSlotUsage } from '@/lib/call-slots';
+import { getDispositionLabel, isConnectedDisposition } from '@/lib/call-disposition';
 
 interface DashboardMetrics {
   creditsRemaining: number; // in cents
@@ -243,6 +245,25 @@ export const dashboardService = {
     };
   },
 
+  /**
+   * Live calls against the account-wide concurrency ceiling, per campaign
+   */
+  async getCallSlotUsage(): Promise<AccountSlotUsage> {
+    const user = await authService.requireAuth();
+
+    const [limitResponse, usageResponse] = await Promise.all([
+      supabase.rpc('get_account_concurrency_limit', { p_user_id: user.id }),
+      supabase.rpc('get_account_slot_usage', { p_user_id: user.id }),
+    ]);
+
+    const campaigns = baseService.handleOptionalResponse(usageResponse) || [];
+    return {
+      limit: baseService.handleOptionalResponse(limitResponse) ?? 0,
+      activeCalls: campaigns.reduce((sum, campaign) => sum + campaign.active_calls, 0),
+      campaigns,
+    };
+  },
+
   /**
    * Get active campaigns with progress
    */
@@ -284,7 +305,7 @@ export const dashboardService = {
       // Get campaign contact attempts for accurate progress tracking
       const { data: attempts } = await supabase
         .from('campaign_contact_attempts')
-        .select('retell_call_id, call_status, created_at')
+        .select('retell_call_id, call_status, disposition, created_at')
         .eq('campaign_id', campaign.id);
       
       // Count actual calls made (those with retell_call_id)
@@ -296,17 +317,17 @@ export const dashboardService = {
         new Date(a.created_at) > hourAgo
       ) || [];
       
-      // Count appointments - currently not tracked in call_status enum
-      // TODO: Implement appointment tracking
-      const appointments = [];
+      // Conversion: booked appointments out of the calls that reached the lead
+      const connectedCalls = attempts?.filter(a => isConnectedDisposition(a.disposition)).length || 0;
+      const appointments = attempts?.filter(a => a.disposition === 'appointment-booked') || [];
       
       const contactsReached = actualCallsMade;
       const percentComplete = totalContacts > 0 
         ? Math.round((contactsReached / totalContacts) * 100)
         : 0;
       
-      const conversionRate = contactsReached > 0
-        ? Math.round((appointments.length / contactsReached) * 100)
+      const conversionRate = connectedCalls > 0
+        ? Math.round((appointments.length / connectedCalls) * 100)
         : 0;
       
       // Estimate completion based on current rate
@@ -360,6 +381,7 @@ export const dashboardService = {
       .select(`
         id,
         call_status,
+        disposition,
         call_duration,
         created_at,
         ended_at,
@@ -416,13 +438,18 @@ export const dashboardService = {
         campaignName = 'Deleted Campaign';
       }
       
-      // Determine call type based on status
+      // Determine call type from the disposition, or the status for calls recorded before dispositions
       let type: LiveActivity['type'] = 'completed';
       let outcome = call.call_status;
       
       if (call.call_status === 'in-progress' && !call.ended_at) {
         type = 'calling';
         outcome = 'In Progress';
+      } else if (call.disposition) {
+        type = call.disposition === 'appointment-booked'
+          ? 'booked'
+          : isConnectedDisposition(call.disposition) ? 'completed' : 'failed';
+        outcome = getDispositionLabel(call.disposition);
       } else if (call.call_status === 'failed') {
         type = 'failed';
         outcome = 'Call Failed';
@@ -542,6 +569,7 @@ export const dashboardService = {
       .select(`
         id,
         call_status,
+        disposition,
         call_duration,
         created_at,
         campaign_id,
@@ -586,8 +614,10 @@ export const dashboardService = {
       .sort((a, b) => parseInt(a[0]) - parseInt(b[0]))
       .map(([hour, calls]) => ({ hour, calls }));
     
-    // Calculate average call duration from call_duration field (in seconds)
-    const validDurations = calls.filter(c => c.call_duration && c.call_duration > 0);
+    // Average duration of the calls that reached the lead (call_duration is in seconds)
+    const validDurations = calls.filter(c =>
+      c.call_duration && c.call_duration > 0 && (!c.disposition || isConnectedDisposition(c.disposition))
+    );
     const totalDuration = validDurations.reduce((sum, c) => sum + c.call_duration, 0);
     const avgDuration = validDurations.length > 0 ? totalDuration / validDurations.length : 0;
     const averageCallDuration = `${Math.floor(avgDuration / 60)}:${Math.round(avgDuration % 60).toString().padStart(2, '0')}`;
@@ -0,0 +1,53 @@
+import { supabase } from '@/integrations/supabase/client';
+import { authService } from './auth.service';
+import { baseService } from './base.service';
+import type { WebhookErrorRow, WebhookErrorStatus, WebhookReplayResult } from '@/lib/webhook-errors';
+
+/**
+ * Admin view of failed Retell and Stripe webhook deliveries
+ */
+export const webhooksService = {
+  /**
+   * Failed deliveries, newest first (admins only, through RLS)
+   */
+  async getWebhookErrors(status: WebhookErrorStatus | 'all' = 'all', limit = 200): Promise<WebhookErrorRow[]> {
+    await authService.requireAuth();
+
+    let query = supabase
+      .from('webhook_errors')
+      .select(`
+        id, webhook_type, event_type, event_id, error_message, retry_count, max_retries,
+        next_retry_at, last_retry_at, dead_lettered_at, resolved_at, created_at
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (status === 'resolved') {
+      query = query.not('resolved_at', 'is', null);
+    } else if (status === 'dead_letter') {
+      query = query.is('resolved_at', null).or('dead_lettered_at.not.is.null,next_retry_at.is.null');
+    } else if (status === 'retrying') {
+      query = query.is('resolved_at', null).is('dead_lettered_at', null).not('next_retry_at', 'is', null);
+    }
+
+    const response = await query;
+    return baseService.handleOptionalResponse(response) || [];
+  },
+
+  /**
+   * Run a failed event's stored payload through its handler again
+   */
+  async replayWebhookError(errorId: string): Promise<WebhookReplayResult> {
+    await authService.requireAuth();
+
+    const response = await supabase.functions.invoke('retry-webhook-errors', {
+      body: { error_id: errorId }
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message || 'Failed to replay webhook');
+    }
+
+    return response.data as WebhookReplayResult;
+  }
+};
@@ -15,6 +15,7 @@ export interface Contact {
   contact_group_id: string;
   data: Record<string, unknown>;
   phone_number: string;
+  phone_numbers?: string[] | null;
   status: 'active' | 'invalid' | 'do_not_call';
   created_at: string;
 }
@@ -0,0 +1,51 @@
+/**
+ * A/B agent variants
+ * Assigns each contact of a split-test campaign to one agent variant by traffic weight.
+ * The assignment is a hash of campaign and contact id, so every attempt for a contact
+ * (including retries on later days) goes to the same variant.
+ */
+
+export interface AgentVariant {
+  id: string;
+  label: string;
+  weight: number;
+  agent_id: string;
+  user_agents?: {
+    retell_agent_id: string | null;
+    name: string | null;
+  } | null;
+}
+
+// 32-bit FNV-1a: cheap, stable across runtimes and evenly spread for uuid input
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Variant a contact belongs to (null when the campaign has no variants).
+ * Variants are taken in label order so the result does not depend on query order.
+ */
+export function assignVariant(
+  variants: AgentVariant[] | null | undefined,
+  campaignId: string,
+  contactId: string
+): AgentVariant | null {
+  const eligible = (variants || [])
+    .filter(variant => variant.weight > 0)
+    .sort((a, b) => (a.label < b.label ? -1 : a.label > b.label ? 1 : 0));
+  if (eligible.length === 0) return null;
+
+  const totalWeight = eligible.reduce((sum, variant) => sum + variant.weight, 0);
+  let bucket = hashString(`${campaignId}:${contactId}`) % totalWeight;
+
+  for (const variant of eligible) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+  return eligible[eligible.length - 1];
+}
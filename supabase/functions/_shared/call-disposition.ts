@@ -0,0 +1,141 @@
+/**
+ * Call dispositions
+ * What happened on a campaign call, derived from Retell's disconnection_reason, the call duration and
+ * the post-call analysis. The disposition decides the attempt's call_status and retry_outcome, so the
+ * retry engine (get_next_contacts_to_call) retries calls that never reached the lead and leaves alone
+ * the leads who booked, were transferred or asked not to be called again.
+ */
+
+import type { RetryOutcome } from './retry-policy.ts';
+
+export type CallDisposition =
+  | 'connected'
+  | 'no-answer'
+  | 'busy'
+  | 'voicemail'
+  | 'failed-to-connect'
+  | 'invalid-number'
+  | 'early-hangup'
+  | 'do-not-call-request'
+  | 'transferred'
+  | 'appointment-booked';
+
+// What the conversation produced, read from the transcript and analysis by call-results.ts
+export interface CallDispositionSignals {
+  appointmentBooked?: boolean;
+  doNotCallRequested?: boolean;
+}
+
+// Calls the lead hung up on within this time are early hangups rather than conversations
+export const EARLY_HANGUP_THRESHOLD_MS = 30000;
+
+const NO_ANSWER_REASONS = ['dial_no_answer', 'user_not_answered', 'user_declined'];
+const VOICEMAIL_REASONS = ['voicemail_reached', 'machine_detected'];
+const INVALID_NUMBER_REASONS = ['invalid_destination'];
+const FAILED_TO_CONNECT_REASONS = [
+  'dial_failed',
+  'telephony_provider_permission_denied',
+  'telephony_provider_unavailable',
+  'sip_routing_error',
+  'concurrency_limit_reached',
+  'no_valid_payment',
+  'marked_as_spam',
+  'registered_call_timeout'
+];
+const TRANSFER_REASONS = ['call_transfer', 'transfer_bridged'];
+
+const CONNECTED_DISPOSITIONS: CallDisposition[] = [
+  'connected',
+  'early-hangup',
+  'do-not-call-request',
+  'transferred',
+  'appointment-booked'
+];
+
+/**
+ * Disposition of a Retell call. Calls that never reached the lead are classified from the
+ * disconnection reason; for the others what the lead asked for (no more calls, an appointment)
+ * outweighs how the call ended.
+ */
+export function classifyCallDisposition(
+  call: {
+    disconnection_reason?: string;
+    in_voicemail?: boolean;
+    duration_ms?: number;
+    call_analysis?: { in_voicemail?: boolean } | null;
+  },
+  signals: CallDispositionSignals = {}
+): CallDisposition {
+  const reason = call.disconnection_reason || '';
+
+  if (INVALID_NUMBER_REASONS.includes(reason)) {
+    return 'invalid-number';
+  }
+  // Retell errors before any audio are failed dials; after that the call did connect
+  if (FAILED_TO_CONNECT_REASONS.includes(reason) || (reason.startsWith('error_') && !call.duration_ms)) {
+    return 'failed-to-connect';
+  }
+  if (NO_ANSWER_REASONS.includes(reason)) {
+    return 'no-answer';
+  }
+  if (reason === 'dial_busy') {
+    return 'busy';
+  }
+  if (call.in_voicemail || call.call_analysis?.in_voicemail || VOICEMAIL_REASONS.includes(reason)) {
+    return 'voicemail';
+  }
+
+  if (signals.doNotCallRequested) {
+    return 'do-not-call-request';
+  }
+  if (signals.appointmentBooked) {
+    return 'appointment-booked';
+  }
+  if (TRANSFER_REASONS.includes(reason)) {
+    return 'transferred';
+  }
+  if (reason === 'user_hangup' && (call.duration_ms || 0) < EARLY_HANGUP_THRESHOLD_MS) {
+    return 'early-hangup';
+  }
+
+  return 'connected';
+}
+
+export function isConnectedDisposition(disposition: CallDisposition): boolean {
+  return CONNECTED_DISPOSITIONS.includes(disposition);
+}
+
+/**
+ * Retry outcome for the retry policy rules, null when the contact must not be retried
+ */
+export function getDispositionRetryOutcome(disposition: CallDisposition): RetryOutcome | null {
+  switch (disposition) {
+    case 'no-answer':
+    case 'busy':
+    case 'voicemail':
+      return disposition;
+    case 'failed-to-connect':
+      return 'failed-to-initiate';
+    case 'early-hangup':
+      return 'quick-hangup';
+    default:
+      return null;
+  }
+}
+
+/**
+ * call_status of an attempt with this disposition: every call that reached the lead is completed
+ */
+export function getDispositionCallStatus(disposition: CallDisposition): string {
+  switch (disposition) {
+    case 'no-answer':
+    case 'busy':
+    case 'voicemail':
+      return disposition;
+    case 'failed-to-connect':
+    case 'invalid-number':
+      return 'failed';
+    default:
+      return 'completed';
+  }
+}
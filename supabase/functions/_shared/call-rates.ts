@@ -0,0 +1,80 @@
+/**
+ * Expected call outcomes, durations and costs of an account
+ * Built from get_account_call_stats for the campaign simulation; mirrored in src/lib/campaign-forecast.ts
+ * for the wizard's launch forecast.
+ */
+
+// Markup retell-webhook applies to the Retell cost before atomic_deduct_call_cost charges the user
+export const CALL_COST_MARKUP = 1.667;
+
+// Below this many finished calls the account history is too thin and default rates are used
+export const MIN_HISTORY_CALLS = 50;
+
+// Retell list price per minute before markup, for outcomes without recorded costs
+const DEFAULT_RETELL_CENTS_PER_MINUTE = 7;
+
+export interface CallOutcomeStats {
+  outcome: string;
+  calls: number;
+  avg_duration_seconds: number | null;
+  avg_retell_cost_cents: number | null;
+  appointments: number;
+}
+
+export interface OutcomeRate {
+  outcome: string;
+  probability: number;
+  duration_seconds: number;
+  user_cost_cents: number;
+}
+
+export interface CallRates {
+  source: 'history' | 'defaults';
+  sample_size: number;
+  outcomes: OutcomeRate[];
+  appointment_rate: number; // per connected call
+}
+
+const DEFAULT_OUTCOMES: CallOutcomeStats[] = [
+  { outcome: 'connected', calls: 30, avg_duration_seconds: 120, avg_retell_cost_cents: null, appointments: 2 },
+  { outcome: 'no-answer', calls: 40, avg_duration_seconds: 25, avg_retell_cost_cents: null, appointments: 0 },
+  { outcome: 'voicemail', calls: 20, avg_duration_seconds: 35, avg_retell_cost_cents: null, appointments: 0 },
+  { outcome: 'busy', calls: 5, avg_duration_seconds: 5, avg_retell_cost_cents: null, appointments: 0 },
+  { outcome: 'quick-hangup', calls: 5, avg_duration_seconds: 12, avg_retell_cost_cents: null, appointments: 0 },
+];
+
+export const calculateUserCost = (retellCostCents: number) => Math.ceil(retellCostCents * CALL_COST_MARKUP);
+
+/**
+ * Outcome probabilities and per-call costs from an account's call history (defaults when too thin)
+ */
+export function resolveCallRates(stats: CallOutcomeStats[]): CallRates {
+  const sampleSize = stats.reduce((sum, row) => sum + row.calls, 0);
+  const useHistory = sampleSize >= MIN_HISTORY_CALLS;
+  const rows = useHistory ? stats : DEFAULT_OUTCOMES;
+  const total = rows.reduce((sum, row) => sum + row.calls, 0);
+
+  const outcomes = rows.map(row => {
+    const durationSeconds = Math.max(0, Number(row.avg_duration_seconds) || 0);
+    const retellCostCents = row.avg_retell_cost_cents !== null && row.avg_retell_cost_cents !== undefined
+      ? Number(row.avg_retell_cost_cents)
+      : (durationSeconds / 60) * DEFAULT_RETELL_CENTS_PER_MINUTE;
+
+    return {
+      outcome: row.outcome,
+      probability: row.calls / total,
+      duration_seconds: Math.round(durationSeconds),
+      user_cost_cents: calculateUserCost(retellCostCents)
+    };
+  });
+
+  const connected = rows.find(row => row.outcome === 'connected')?.calls || 0;
+  const appointments = rows.reduce((sum, row) => sum + row.appointments, 0);
+
+  return {
+    source: useHistory ? 'history' : 'defaults',
+    sample_size: sampleSize,
+    outcomes,
+    appointment_rate: connected > 0 ? appointments / connected : 0
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Stuck-call reconciliation
+ * A campaign call stays 'in-progress' until retell-webhook reports it ended. When that webhook is
+ * late or lost, process-campaign looks the call up with Retell's get-call API: ended calls get their
+ * real outcome, cost and transcript through the webhook's code (call-results.ts), calls still ongoing
+ * keep holding their concurrency slot.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getRetellApiKeyForFunction } from './retell-api-key.ts';
+import { createRetellTelephonyClient, type RetellTelephonyClient } from './telephony.ts';
+import { classifyCallDisposition, isConnectedDisposition } from './call-disposition.ts';
+import { applyCallAnalysis, applyCallEnded, type RetellCall } from './call-results.ts';
+
+// A call is looked up once it has been in progress this long, and again after the same delay
+export const STALE_CALL_AFTER_MS = 2 * 60 * 1000;
+
+// Calls Retell cannot report on are failed after this long, as no call lasts that long
+const UNVERIFIED_CALL_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+const RECONCILE_BATCH_SIZE = 50;
+
+// Retell lookups run this many at a time, so a full batch does not hold up process-campaign
+const RECONCILE_CONCURRENCY = 5;
+
+// Retell call_status values of calls that are over
+const FINISHED_CALL_STATUSES = ['ended', 'error', 'not_connected'];
+
+interface StaleAttempt {
+  id: string;
+  campaign_id: string;
+  contact_id: string;
+  retell_call_id: string | null;
+  created_at: string;
+  campaigns: { user_id: string } | null;
+}
+
+export interface ReconciliationResult {
+  checked: number;
+  applied: number; // ended calls applied from Retell
+  failed: number;  // never placed, unknown to Retell or unverified for too long
+  ongoing: number; // still in progress (or could not be looked up yet)
+}
+
+async function markAttemptFailed(
+  supabase: ReturnType<typeof createClient>,
+  attemptId: string,
+  update: Record<string, unknown>
+) {
+  const { error } = await supabase
+    .from('campaign_contact_attempts')
+    .update({ call_status: 'failed', reconciled_at: new Date().toISOString(), ...update })
+    .eq('id', attemptId)
+    .eq('call_status', 'in-progress');
+
+  if (error) {
+    console.error(`Error failing stuck attempt ${attemptId}:`, error);
+  }
+}
+
+async function markAttemptChecked(supabase: ReturnType<typeof createClient>, attemptId: string) {
+  const { error } = await supabase
+    .from('campaign_contact_attempts')
+    .update({ reconciled_at: new Date().toISOString() })
+    .eq('id', attemptId);
+
+  if (error) {
+    console.error(`Error marking attempt ${attemptId} reconciled:`, error);
+  }
+}
+
+// Outcome of one stale attempt, counted in ReconciliationResult
+async function reconcileAttempt(
+  supabase: ReturnType<typeof createClient>,
+  attempt: StaleAttempt,
+  client: RetellTelephonyClient | null,
+  now: Date
+): Promise<'applied' | 'failed' | 'ongoing'> {
+  const unverifiedTooLong = now.getTime() - new Date(attempt.created_at).getTime() > UNVERIFIED_CALL_TIMEOUT_MS;
+
+  if (!attempt.retell_call_id) {
+    console.log(`Attempt ${attempt.id} has no Retell call - marking failed`);
+    await markAttemptFailed(supabase, attempt.id, { retry_outcome: 'failed-to-initiate', disposition: 'failed-to-connect' });
+    return 'failed';
+  }
+
+  const lookup = client ? await client.getPhoneCall(attempt.retell_call_id).catch((lookupError) => {
+    console.error(`Error looking up Retell call ${attempt.retell_call_id}:`, lookupError);
+    return null;
+  }) : null;
+
+  if (lookup && lookup.status === 404) {
+    console.log(`Retell has no call ${attempt.retell_call_id} for attempt ${attempt.id} - marking failed`);
+    await markAttemptFailed(supabase, attempt.id, { retry_outcome: 'failed-to-initiate', disposition: 'failed-to-connect' });
+    return 'failed';
+  }
+
+  if (!lookup?.ok) {
+    if (unverifiedTooLong) {
+      console.log(`Attempt ${attempt.id} could not be verified with Retell for 2 hours - marking failed`);
+      await markAttemptFailed(supabase, attempt.id, {});
+      return 'failed';
+    }
+    await markAttemptChecked(supabase, attempt.id);
+    return 'ongoing';
+  }
+
+  const call = lookup.data as RetellCall;
+  if (!FINISHED_CALL_STATUSES.includes(call.call_status || '')) {
+    await markAttemptChecked(supabase, attempt.id);
+    return 'ongoing';
+  }
+
+  // Retell's metadata carries the attempt; fill it in for calls placed without it
+  call.metadata = {
+    ...call.metadata,
+    attempt_id: attempt.id,
+    campaign_id: attempt.campaign_id,
+    contact_id: attempt.contact_id
+  };
+  // A call that never connected is a failed dial, whatever the disconnection reason says
+  if (call.call_status !== 'ended' && isConnectedDisposition(classifyCallDisposition(call))) {
+    call.disconnection_reason = 'dial_failed';
+  }
+
+  console.log(`Reconciling attempt ${attempt.id} from Retell call ${call.call_id} (${call.call_status}, ${call.disconnection_reason})`);
+  await applyCallEnded(supabase, call);
+  if (call.call_analysis) {
+    await applyCallAnalysis(supabase, call);
+  }
+  await markAttemptChecked(supabase, attempt.id);
+  return 'applied';
+}
+
+/**
+ * Look up in-progress attempts older than STALE_CALL_AFTER_MS with Retell (RECONCILE_CONCURRENCY at a
+ * time) and apply the calls that ended. Attempts without a Retell call never reached Retell and are
+ * failed.
+ */
+export async function reconcileStaleAttempts(
+  supabase: ReturnType<typeof createClient>,
+  now: Date = new Date()
+): Promise<ReconciliationResult> {
+  const result: ReconciliationResult = { checked: 0, applied: 0, failed: 0, ongoing: 0 };
+  const staleBefore = new Date(now.getTime() - STALE_CALL_AFTER_MS).toISOString();
+
+  const { data: attempts, error } = await supabase
+    .from('campaign_contact_attempts')
+    .select('id, campaign_id, contact_id, retell_call_id, created_at, campaigns ( user_id )')
+    .eq('call_status', 'in-progress')
+    .lt('created_at', staleBefore)
+    .or(`reconciled_at.is.null,reconciled_at.lt.${staleBefore}`)
+    .order('created_at', { ascending: true })
+    .limit(RECONCILE_BATCH_SIZE);
+
+  if (error) {
+    console.error('Error loading stale attempts:', error);
+    return result;
+  }
+
+  // One Retell client per account (user or global API key); null when no key is available
+  const clients = new Map<string, Promise<RetellTelephonyClient | null>>();
+  const getClient = (userId: string) => {
+    if (!clients.has(userId)) {
+      clients.set(userId, getRetellApiKeyForFunction(userId)
+        .then(apiKey => createRetellTelephonyClient(apiKey))
+        .catch(() => null));
+    }
+    return clients.get(userId)!;
+  };
+
+  const queue = [...(attempts || [])] as StaleAttempt[];
+  const worker = async () => {
+    for (let attempt = queue.shift(); attempt; attempt = queue.shift()) {
+      const client = attempt.campaigns ? await getClient(attempt.campaigns.user_id) : null;
+      result.checked++;
+      result[await reconcileAttempt(supabase, attempt, client, now)]++;
+    }
+  };
+  await Promise.all(Array.from({ length: RECONCILE_CONCURRENCY }, worker));
+
+  return result;
+}
@@ -0,0 +1,407 @@
+/**
+ * Campaign call results
+ * Applies the outcome, cost, transcript and analysis of a Retell call to its campaign attempt, and the
+ * lead's requests to be called back or never called again.
+ * Used by retell-webhook for call_ended / call_analyzed and by the stuck-call reconciliation
+ * (call-reconciliation.ts) with the same call object read from Retell's get-call API.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  classifyCallDisposition,
+  getDispositionCallStatus,
+  getDispositionRetryOutcome,
+  type CallDisposition
+} from './call-disposition.ts';
+import { CALL_COST_MARKUP, calculateUserCost } from './call-rates.ts';
+import { extractCallbackRequest, resolveCallbackTime } from './callback-time.ts';
+import { extractDoNotCallRequest } from './do-not-call.ts';
+import { recordExtractedFields } from './post-call-extraction.ts';
+
+type JsonObject = Record<string, unknown>;
+
+export interface RetellCall {
+  call_id: string;
+  call_status?: string;
+  metadata?: JsonObject | null;
+  to_number?: string;
+  disconnection_reason?: string;
+  in_voicemail?: boolean;
+  duration_ms?: number;
+  end_timestamp?: number;
+  transcript?: string;
+  transcript_with_tool_calls?: JsonObject[] | null;
+  recording_url?: string;
+  call_cost?: { combined_cost?: number; total_duration_seconds?: number } & JsonObject;
+  call_analysis?: {
+    call_summary?: string;
+    call_successful?: boolean;
+    in_voicemail?: boolean;
+    custom_analysis_data?: JsonObject | null;
+  } & JsonObject;
+  [key: string]: unknown;
+}
+
+export interface AppointmentData {
+  booked: true;
+  time_text: string | null;
+  name: string | null;
+  email: string | null;
+  tool_call_id: string | null;
+  execution_message: string | null;
+  source: 'retell_tool_call';
+}
+
+function parseToolArguments(args: unknown): JsonObject | null {
+  if (typeof args === 'string') {
+    try {
+      return JSON.parse(args);
+    } catch (e) {
+      console.warn('Failed to parse tool call arguments:', e);
+      return null;
+    }
+  }
+  return (args && typeof args === 'object') ? args as JsonObject : null;
+}
+
+function toAppointment(item: JsonObject): AppointmentData {
+  const args = parseToolArguments(item.arguments);
+  const timeText = args?.time || args?.datetime || args?.date || null;
+  return {
+    booked: true,
+    time_text: (timeText as string) || null,
+    name: (args?.name as string) || null,
+    email: (args?.email as string) || null,
+    tool_call_id: (item.tool_call_id as string) || null,
+    execution_message: (item.execution_message as string) || (args?.execution_message as string) || null,
+    source: 'retell_tool_call'
+  };
+}
+
+/**
+ * Appointment booked through a book_appointment tool call anywhere in a Retell payload
+ */
+export function extractAppointment(payload: unknown): AppointmentData | null {
+  try {
+    const queue: unknown[] = [payload];
+    while (queue.length) {
+      const item = queue.shift();
+      if (item && typeof item === 'object') {
+        const entry = item as JsonObject;
+        const name = (entry.name || '').toString();
+        if (name && /book_appointment/i.test(name)) {
+          return toAppointment(entry);
+        }
+        if (Array.isArray(item)) {
+          queue.push(...item);
+        } else {
+          Object.values(entry).forEach((v) => queue.push(v));
+        }
+      }
+    }
+  } catch (e) {
+    console.warn('Appointment extraction failed:', e);
+  }
+  return null;
+}
+
+// Store the callback the lead asked for, due at the requested time in the contact's timezone
+async function scheduleRequestedCallback(
+  supabase: ReturnType<typeof createClient>,
+  attemptId: string,
+  call: RetellCall
+) {
+  const request = extractCallbackRequest(call);
+  if (!request) return;
+
+  const { data: attempt, error: attemptError } = await supabase
+    .from('campaign_contact_attempts')
+    .select('contacts ( timezone ), campaigns ( timezone )')
+    .eq('id', attemptId)
+    .single();
+
+  if (attemptError || !attempt) {
+    console.error('Error loading attempt for callback:', attemptError);
+    return;
+  }
+
+  const timezone = attempt.contacts?.timezone || attempt.campaigns?.timezone || 'America/New_York';
+  // Relative requests ("in 2 hours") count from the end of the call
+  const spokenAt = call.end_timestamp ? new Date(call.end_timestamp) : new Date();
+  const { callback_at, resolved } = resolveCallbackTime(request.requested_text, timezone, spokenAt);
+
+  const { error } = await supabase.rpc('schedule_callback', {
+    p_attempt_id: attemptId,
+    p_callback_at: callback_at.toISOString(),
+    p_timezone: timezone,
+    p_requested_text: request.requested_text,
+    p_note: request.note,
+    p_source: request.source,
+    p_time_resolved: resolved
+  });
+
+  if (error) {
+    console.error('Error scheduling callback:', error);
+  } else {
+    console.log(`📅 Callback scheduled for attempt ${attemptId} at ${callback_at.toISOString()} (${timezone}, "${request.requested_text || 'no time given'}" via ${request.source})`);
+  }
+}
+
+// Add the number called to the account's do-not-call list when the lead asked not to be called again
+async function suppressRequestedNumber(
+  supabase: ReturnType<typeof createClient>,
+  attemptId: string,
+  call: RetellCall
+): Promise<boolean> {
+  const request = extractDoNotCallRequest(call);
+  if (!request) return false;
+
+  const { error } = await supabase.rpc('suppress_attempt_number', {
+    p_attempt_id: attemptId,
+    p_source: request.source,
+    p_reason: request.reason
+  });
+
+  if (error) {
+    console.error('Error adding number to do-not-call list:', error);
+  } else {
+    console.log(`🚫 Number of attempt ${attemptId} added to the do-not-call list (via ${request.source})`);
+  }
+  return true;
+}
+
+/**
+ * Disposition of a Retell call, with the appointment and do-not-call request found in its payload
+ */
+export function getCallDisposition(call: RetellCall): CallDisposition {
+  return classifyCallDisposition(call, {
+    appointmentBooked: extractAppointment(call) !== null,
+    doNotCallRequested: extractDoNotCallRequest(call) !== null
+  });
+}
+
+// Outcome columns of an attempt: the disposition and the call_status and retry_outcome it implies
+function dispositionUpdate(disposition: CallDisposition): JsonObject {
+  return {
+    disposition,
+    call_status: getDispositionCallStatus(disposition),
+    retry_outcome: getDispositionRetryOutcome(disposition)
+  };
+}
+
+/**
+ * Ended call: charge its cost, store the outcome, transcript and recording on the attempt, record a
+ * booked appointment, suppress the number when the lead asked not to be called again and otherwise
+ * schedule the callback the lead asked for. The cost is charged once per attempt
+ * (atomic_deduct_call_cost), so a webhook arriving after the reconciliation applied the call does not
+ * charge it twice. When the analysis was already stored (call_analyzed arrived first) the analyzed
+ * call data is kept. onUpdateError is called when the attempt could not be updated.
+ */
+export async function applyCallEnded(
+  supabase: ReturnType<typeof createClient>,
+  call: RetellCall,
+  onUpdateError?: (error: Error) => Promise<void>
+): Promise<void> {
+  const metadata = call.metadata || {};
+
+  // Get attempt and campaign info first
+  const { data: attemptData } = await supabase
+    .from('campaign_contact_attempts')
+    .select('campaign_id, contact_id, call_analyzed_at')
+    .eq('id', metadata.attempt_id)
+    .single();
+
+  let campaignData = null;
+  if (attemptData) {
+    // Get campaign owner
+    const { data: campaign } = await supabase
+      .from('campaigns')
+      .select('user_id, timezone, name')
+      .eq('id', attemptData.campaign_id)
+      .single();
+    campaignData = campaign;
+  }
+
+  // Handle call cost calculation and deduction (separate from analysis storage)
+  if (call.call_cost?.combined_cost && call.call_cost.combined_cost > 0 && campaignData) {
+    // Retell returns cost in cents as decimal, ensure we convert to integer cents
+    const retellCostCents = Math.round(call.call_cost.combined_cost);
+    const userCostCents = calculateUserCost(retellCostCents);
+
+    console.log(`Call cost - Retell: $${(retellCostCents / 100).toFixed(2)}, User charged: $${(userCostCents / 100).toFixed(2)}`);
+    console.log(`Cost calculation: Retell=${retellCostCents} cents, User=${userCostCents} cents`);
+
+    const { data: result } = await supabase.rpc('atomic_deduct_call_cost', {
+      p_user_id: campaignData.user_id,
+      p_cost_cents: userCostCents,
+      p_attempt_id: metadata.attempt_id,
+      p_call_metadata: {
+        call_id: call.call_id,
+        campaign_id: attemptData.campaign_id,
+        attempt_id: metadata.attempt_id,
+        duration_seconds: Math.ceil((call.duration_ms || 0) / 1000),
+        retell_cost_cents: retellCostCents,
+        markup_multiplier: CALL_COST_MARKUP,
+        cost_breakdown: call.call_cost,
+        description: `Call to ${call.to_number} (${Math.ceil((call.duration_ms || 0) / 1000)}s)`
+      }
+    });
+
+    if (result?.already_charged) {
+      console.log(`ℹ️ Attempt ${metadata.attempt_id} was already charged - skipping deduction`);
+    } else if (result?.success) {
+      console.log(`✅ Atomically deducted $${(userCostCents / 100).toFixed(2)} from user ${campaignData.user_id}`);
+      console.log(`💰 Balance: $${(result.previous_balance / 100).toFixed(2)} → $${(result.new_balance / 100).toFixed(2)}`);
+      console.log(`🧾 Transaction ID: ${result.transaction_id}`);
+    } else {
+      console.error(`❌ Atomic credit deduction failed: ${result?.error}`);
+      console.error(`🔍 Error detail: ${result?.error_detail}`);
+    }
+  } else if (call.call_cost?.combined_cost === 0) {
+    console.log('ℹ️ Zero cost call - no credit deduction needed');
+  }
+
+  // Determine the disposition from how the call ended and what the lead asked for
+  const disposition = getCallDisposition(call);
+  const finalStatus = getDispositionCallStatus(disposition);
+
+  // Update the attempt record with basic call data (no analysis yet)
+  if (metadata.attempt_id) {
+    const updateData: JsonObject = {
+      call_duration: call.call_cost?.total_duration_seconds || (call.duration_ms ? Math.round(call.duration_ms / 1000) : null)
+    };
+
+    // call_analyzed can arrive first; its call data already holds everything call_ended has, plus the
+    // analysis, and its disposition was classified from the analysis too
+    if (!attemptData?.call_analyzed_at) {
+      updateData.retell_call_data = call;
+      Object.assign(updateData, dispositionUpdate(disposition));
+    }
+
+    // Add additional fields if available
+    if (call.transcript) updateData.transcript = call.transcript;
+    if (call.recording_url) updateData.recording_url = call.recording_url;
+    if (call.end_timestamp) updateData.ended_at = new Date(call.end_timestamp).toISOString();
+
+    const { error } = await supabase
+      .from('campaign_contact_attempts')
+      .update(updateData)
+      .eq('id', metadata.attempt_id);
+
+    if (error) {
+      console.error('Error updating attempt:', error);
+      await onUpdateError?.(error);
+    } else {
+      console.log(`Updated attempt ${metadata.attempt_id} to ${finalStatus} (${disposition})`);
+    }
+
+    // Try to extract appointment info from payload and save it
+    const appt = extractAppointment(call);
+    if (appt) {
+      const { error: apptErr } = await supabase
+        .from('campaign_contact_attempts')
+        .update({ appointment_data: appt })
+        .eq('id', metadata.attempt_id);
+      if (apptErr) {
+        console.error('Error updating appointment_data:', apptErr);
+      } else {
+        console.log('✅ Appointment data saved for attempt', metadata.attempt_id, appt);
+      }
+    }
+
+    // "Take me off your list" through the agent's tool - suppress the number right away
+    const suppressed = await suppressRequestedNumber(supabase, metadata.attempt_id as string, call);
+
+    // A callback asked for through the agent's tool is scheduled now, so it does not wait for the
+    // analysis (call_analyzed updates it, schedule_callback keeps one callback per attempt)
+    if (!suppressed) {
+      await scheduleRequestedCallback(supabase, metadata.attempt_id as string, call);
+    }
+
+    // If this was a successful call, mark other pending attempts for same contact as completed
+    if (finalStatus === 'completed') {
+      await supabase
+        .from('campaign_contact_attempts')
+        .update({ call_status: 'completed' })
+        .eq('campaign_id', metadata.campaign_id)
+        .eq('contact_id', metadata.contact_id)
+        .eq('call_status', 'pending');
+    }
+  } else {
+    console.log('No attempt_id in metadata, skipping update');
+  }
+}
+
+/**
+ * Analyzed call: store the summary and custom analysis on the attempt with the disposition classified
+ * again from the analysis, then the agent's extracted fields, the appointment, the lead's
+ * do-not-call or callback request; the call is queued for follow-up scoring.
+ * onUpdateError is called when the analysis or the extracted fields could not be stored.
+ */
+export async function applyCallAnalysis(
+  supabase: ReturnType<typeof createClient>,
+  call: RetellCall,
+  onUpdateError?: (error: Error) => Promise<void>
+): Promise<void> {
+  const metadata = call.metadata || {};
+
+  if (metadata.attempt_id && call.call_analysis) {
+    const attemptId = metadata.attempt_id as string;
+
+    // Update with analysis data
+    const analysisUpdate = {
+      call_summary: call.call_analysis.call_summary || null,
+      call_successful: call.call_analysis.call_successful || null,
+      custom_analysis: call.call_analysis.custom_analysis_data || null,
+      retell_call_data: call, // Update with full data including analysis
+      call_analyzed_at: new Date().toISOString(),
+      // Queued for follow-up scoring (score-follow-ups), which runs off the webhook path
+      follow_up_scored_at: null,
+      ...dispositionUpdate(getCallDisposition(call))
+    };
+
+    console.log('📊 Analysis update data:', JSON.stringify(analysisUpdate, null, 2));
+
+    const { error } = await supabase
+      .from('campaign_contact_attempts')
+      .update(analysisUpdate)
+      .eq('id', attemptId);
+
+    if (error) {
+      console.error('Error updating analysis:', error);
+      await onUpdateError?.(error);
+    } else {
+      console.log(`✅ Updated analysis for attempt ${attemptId}`);
+      if (call.call_analysis.call_summary) {
+        console.log(`📝 Call summary: ${call.call_analysis.call_summary}`);
+      }
+
+      // Typed values of the agent's extraction schema, onto the attempt and the contact
+      await recordExtractedFields(supabase, attemptId, call.call_analysis.custom_analysis_data, onUpdateError);
+
+      // Extract appointment info from analyzed payload too (more reliable)
+      const appt = extractAppointment(call);
+      if (appt) {
+        const { error: apptErr } = await supabase
+          .from('campaign_contact_attempts')
+          .update({ appointment_data: appt })
+          .eq('id', attemptId);
+        if (apptErr) {
+          console.error('Error updating appointment_data (analyzed):', apptErr);
+        } else {
+          console.log('✅ Appointment data saved from analyzed payload for attempt', attemptId, appt);
+        }
+      }
+
+      // A lead who asked not to be called again gets no callback
+      const suppressed = await suppressRequestedNumber(supabase, attemptId, call);
+
+      // "Call me back Thursday after 5" - schedule the callback the lead asked for
+      if (!suppressed) {
+        await scheduleRequestedCallback(supabase, attemptId, call);
+      }
+    }
+  } else {
+    console.log('No attempt_id or call_analysis in analyzed webhook, skipping update');
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Callbacks requested by leads during a call ("call me back Thursday after 5")
+ * A request comes from the agent's schedule_callback tool or from the callback_requested /
+ * callback_time fields of the post-call analysis. The requested time is read in the contact's
+ * timezone; process-campaign dials the contact once it is due (see public.scheduled_callbacks).
+ */
+
+import { getLocalDateTime, zonedTimeToUtc } from './calling-schedule.ts';
+
+export type CallbackSource = 'tool_call' | 'analysis';
+
+export interface CallbackRequest {
+  requested_text: string | null;
+  note: string | null;
+  source: CallbackSource;
+}
+
+export interface ResolvedCallbackTime {
+  callback_at: Date;
+  resolved: boolean; // false when the requested time could not be read and the default was used
+}
+
+// Without a readable time the lead is called back a day later
+const DEFAULT_CALLBACK_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Time used when only a day was given, and for parts of the day
+const DEFAULT_CALLBACK_MINUTES = 10 * 60;
+const PART_OF_DAY_MINUTES: Record<string, number> = {
+  morning: 9 * 60,
+  noon: 12 * 60,
+  lunch: 12 * 60,
+  afternoon: 14 * 60,
+  evening: 18 * 60,
+  tonight: 18 * 60,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Full month names and their usual abbreviations, so "maybe 5" is not read as May 5
+const MONTH_NAMES = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  couple: 2, few: 3,
+};
+
+const RELATIVE_UNIT_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
+const CALLBACK_TOOL_NAME = /callback|call_back/i;
+const TRUE_VALUES = ['true', 'yes', '1'];
+
+function parseArguments(args: unknown): Record<string, unknown> {
+  if (typeof args === 'string') {
+    try {
+      return JSON.parse(args);
+    } catch (e) {
+      console.warn('Failed to parse callback tool arguments:', e);
+      return {};
+    }
+  }
+  return (args && typeof args === 'object') ? args as Record<string, unknown> : {};
+}
+
+const asText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+/**
+ * Callback request in a Retell call payload: a schedule_callback tool call (latest wins) or the
+ * post-call analysis flagging callback_requested. Null when the lead did not ask for a callback.
+ */
+export function extractCallbackRequest(call: {
+  transcript_with_tool_calls?: Array<Record<string, unknown>> | null;
+  call_analysis?: { custom_analysis_data?: Record<string, unknown> | null } | null;
+}): CallbackRequest | null {
+  const toolCalls = (call.transcript_with_tool_calls || [])
+    .filter(item => item.role === 'tool_call_invocation' && CALLBACK_TOOL_NAME.test(String(item.name || '')));
+
+  if (toolCalls.length > 0) {
+    const args = parseArguments(toolCalls[toolCalls.length - 1].arguments);
+    return {
+      requested_text: asText(args.callback_time) || asText(args.datetime) || asText(args.time) || asText(args.date) || asText(args.when),
+      note: asText(args.note) || asText(args.reason),
+      source: 'tool_call'
+    };
+  }
+
+  const analysis = call.call_analysis?.custom_analysis_data;
+  if (analysis && TRUE_VALUES.includes(String(analysis.callback_requested).toLowerCase())) {
+    return {
+      requested_text: asText(analysis.callback_time) || asText(analysis.callback_datetime),
+      note: asText(analysis.callback_note),
+      source: 'analysis'
+    };
+  }
+
+  return null;
+}
+
+// Hour of day (0-23) for "5", "5pm", "17": bare 1-7 are afternoon hours, as leads say "after 5"
+function toHour(hour: number, meridiem: string | undefined): number {
+  if (meridiem?.startsWith('p')) return hour % 12 + 12;
+  if (meridiem?.startsWith('a')) return hour % 12;
+  if (hour >= 1 && hour <= 7) return hour + 12;
+  return hour;
+}
+
+function parseTimeOfDay(input: string): number | null {
+  // A number is a time with a lead-in word ("after 5"), minutes ("5:30") or am/pm ("5pm")
+  for (const match of input.matchAll(/\b(at|after|around|about|by|before|from)?\s*(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?(?=\W|$)/g)) {
+    const hour = Number(match[2]);
+    const minutes = Number(match[3] || 0);
+    if (!(match[1] || match[3] || match[4]) || hour > 23 || minutes > 59) continue;
+
+    const time = toHour(hour, match[4]?.replace(/\./g, '')) * 60 + minutes;
+    // "before 5" means some time before, call an hour earlier
+    return match[1] === 'before' ? Math.max(time - 60, 0) : time;
+  }
+
+  for (const [part, minutes] of Object.entries(PART_OF_DAY_MINUTES)) {
+    if (new RegExp(`\\b${part}\\b`).test(input)) return minutes;
+  }
+
+  return null;
+}
+
+/**
+ * When to call back for the lead's words, in the contact's timezone. Understands ISO timestamps,
+ * "today"/"tomorrow", weekday names, "Nov 20" or "11/20", "in 2 hours" and times like "after 5",
+ * "at 5:30pm" or "morning". Anything else falls back to the same time the next day.
+ */
+export function resolveCallbackTime(text: string | null, timezone: string, now: Date = new Date()): ResolvedCallbackTime {
+  const fallback = { callback_at: new Date(now.getTime() + DEFAULT_CALLBACK_DELAY_MS), resolved: false };
+  const input = text?.trim().toLowerCase();
+  if (!input) return fallback;
+
+  // Full timestamp with an offset, as agent tools usually send
+  if (/^\d{4}-\d{2}-\d{2}t\d{2}:\d{2}(:\d{2}(\.\d+)?)?(z|[+-]\d{2}:?\d{2})$/.test(input)) {
+    const timestamp = new Date(text!.trim());
+    return !isNaN(timestamp.getTime()) && timestamp > now ? { callback_at: timestamp, resolved: true } : fallback;
+  }
+
+  // "in 2 hours", "in 30 minutes"
+  const relative = input.match(/\bin\s+(?:a\s+)?(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|couple|few)\s+(?:of\s+)?(minute|hour)s?\b/);
+  if (relative) {
+    const amount = NUMBER_WORDS[relative[1]] ?? Number(relative[1]);
+    return { callback_at: new Date(now.getTime() + amount * RELATIVE_UNIT_MS[relative[2]]), resolved: true };
+  }
+
+  const local = getLocalDateTime(now, timezone);
+  const today = { year: local.year, month: local.month, day: local.day };
+  const addDays = (days: number) => {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + days));
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  };
+
+  let date: { year: number; month: number; day: number } | null = null;
+  // Day used instead when the time asked for on `date` has already passed
+  let laterDate: { year: number; month: number; day: number } | null = null;
+  let remaining = input;
+
+  const isoDate = remaining.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  const monthDay = remaining.match(new RegExp(`\\b(${MONTH_NAMES})\\b\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`));
+  const numericDate = remaining.match(/\b(\d{1,2})\/(\d{1,2})\b/);
+  const dayOfMonth = remaining.match(/\b(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)\b/);
+  const weekday = remaining.match(new RegExp(`\\b(${Object.keys(WEEKDAYS).join('|')})\\b`));
+  const inDays = remaining.match(/\bin\s+(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|couple|few)\s+(?:of\s+)?(day|week)s?\b/);
+
+  if (isoDate) {
+    date = { year: Number(isoDate[1]), month: Number(isoDate[2]), day: Number(isoDate[3]) };
+    remaining = remaining.replace(isoDate[0], ' ');
+  } else if (monthDay || numericDate) {
+    const month = monthDay ? MONTHS.indexOf(monthDay[1].slice(0, 3)) + 1 : Number(numericDate![1]);
+    const day = Number(monthDay ? monthDay[2] : numericDate![2]);
+    // A date earlier in the year than today means next year
+    const year = month < today.month || (month === today.month && day < today.day) ? today.year + 1 : today.year;
+    date = { year, month, day };
+    remaining = remaining.replace((monthDay || numericDate)![0], ' ');
+  } else if (dayOfMonth) {
+    // "the 20th": this month, or next month once the day (or on the day, the time) has passed
+    const day = Number(dayOfMonth[1]);
+    const nextMonth = { year: today.month === 12 ? today.year + 1 : today.year, month: today.month % 12 + 1, day };
+    date = day < today.day ? nextMonth : { ...today, day };
+    if (day === today.day) laterDate = nextMonth;
+    remaining = remaining.replace(dayOfMonth[0], ' ');
+  } else if (/\bday after tomorrow\b/.test(remaining)) {
+    date = addDays(2);
+  } else if (/\btomorrow\b/.test(remaining)) {
+    date = addDays(1);
+  } else if (/\b(today|tonight|this (morning|afternoon|evening))\b/.test(remaining)) {
+    date = today;
+  } else if (weekday) {
+    // Today's weekday means today while the time is still ahead, otherwise next week
+    const localWeekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+    const days = (WEEKDAYS[weekday[1]] - localWeekday + 7) % 7;
+    date = addDays(days);
+    if (days === 0) laterDate = addDays(7);
+  } else if (inDays) {
+    const amount = NUMBER_WORDS[inDays[1]] ?? Number(inDays[1]);
+    date = addDays(amount * (inDays[2] === 'week' ? 7 : 1));
+    remaining = remaining.replace(inDays[0], ' ');
+  } else if (/\bnext week\b/.test(remaining)) {
+    date = addDays(7);
+  }
+
+  const minutes = parseTimeOfDay(remaining);
+  if (!date && minutes === null) return fallback;
+
+  const day = date || today;
+  let callbackAt = zonedTimeToUtc(day.year, day.month, day.day, minutes ?? DEFAULT_CALLBACK_MINUTES, timezone);
+
+  // A time alone ("after 5") that already passed today means tomorrow
+  if (!date && callbackAt <= now) {
+    const tomorrow = addDays(1);
+    callbackAt = zonedTimeToUtc(tomorrow.year, tomorrow.month, tomorrow.day, minutes!, timezone);
+  } else if (laterDate && callbackAt <= now) {
+    callbackAt = zonedTimeToUtc(laterDate.year, laterDate.month, laterDate.day, minutes ?? DEFAULT_CALLBACK_MINUTES, timezone);
+  }
+
+  return callbackAt > now ? { callback_at: callbackAt, resolved: true } : fallback;
+}
@@ -0,0 +1,188 @@
+/**
+ * Weekly calling schedule
+ * Several calling windows per weekday, e.g. Mon–Fri 10:00–12:00 and 16:00–19:00, Sat 11:00–14:00.
+ * All wall-clock calculations go through Intl so they stay correct across DST changes.
+ */
+
+export type DayKey = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export interface CallingWindow {
+  start: string; // HH:MM
+  end: string;   // HH:MM
+}
+
+export type WeeklySchedule = Record<DayKey, CallingWindow[]>;
+
+export interface ScheduledCampaign {
+  weekly_schedule?: Partial<WeeklySchedule> | null;
+  calling_hours?: CallingWindow | null;
+  active_days?: string[] | null;
+  timezone?: string | null;
+}
+
+export const DAY_KEYS: DayKey[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  dayKey: DayKey;
+  minutes: number; // minutes past midnight
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Weekly schedule of a campaign; campaigns without one use calling_hours on every active day
+ */
+export function resolveWeeklySchedule(campaign: ScheduledCampaign): WeeklySchedule {
+  const schedule = {} as WeeklySchedule;
+
+  for (const day of DAY_KEYS) {
+    if (campaign.weekly_schedule) {
+      schedule[day] = [...(campaign.weekly_schedule[day] || [])]
+        .sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+    } else if (campaign.calling_hours && campaign.active_days?.includes(day)) {
+      schedule[day] = [campaign.calling_hours];
+    } else {
+      schedule[day] = [];
+    }
+  }
+
+  return schedule;
+}
+
+// Building an Intl.DateTimeFormat is far slower than using one, so keep one per timezone
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getDateTimeFormat(timezone: string): Intl.DateTimeFormat {
+  let format = dateTimeFormats.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    dateTimeFormats.set(timezone, format);
+  }
+  return format;
+}
+
+/**
+ * Wall-clock date and time of a moment in the given timezone
+ */
+export function getLocalDateTime(date: Date, timezone: string): LocalDateTime {
+  const parts = getDateTimeFormat(timezone).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    dayKey: get('weekday').slice(0, 3).toLowerCase() as DayKey,
+    minutes: Number(get('hour')) * 60 + Number(get('minute'))
+  };
+}
+
+/**
+ * UTC instant of a wall-clock time in the given timezone.
+ * The offset is re-checked at the result so times on DST transition days resolve correctly.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timezone: string): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+
+  const offsetAt = (instant: number) => {
+    const local = getLocalDateTime(new Date(instant), timezone);
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, Math.floor(local.minutes / 60), local.minutes % 60);
+    return localAsUtc - Math.floor(instant / 60000) * 60000;
+  };
+
+  const firstGuess = wallClockAsUtc - offsetAt(wallClockAsUtc);
+  return new Date(wallClockAsUtc - offsetAt(firstGuess));
+}
+
+/**
+ * Whether a moment falls inside any calling window of its local weekday
+ */
+export function isWithinSchedule(schedule: WeeklySchedule, timezone: string, now: Date = new Date()): boolean {
+  const local = getLocalDateTime(now, timezone);
+
+  return schedule[local.dayKey].some(window =>
+    local.minutes >= timeToMinutes(window.start) && local.minutes <= timeToMinutes(window.end)
+  );
+}
+
+/**
+ * Start of the next calling window after a moment (null if the schedule has no windows)
+ */
+export function getNextWindowStart(schedule: WeeklySchedule, timezone: string, now: Date = new Date()): Date | null {
+  const local = getLocalDateTime(now, timezone);
+
+  for (let daysAhead = 0; daysAhead <= 7; daysAhead++) {
+    // Calendar arithmetic on a UTC date avoids any dependence on the runtime timezone
+    const calendarDay = new Date(Date.UTC(local.year, local.month - 1, local.day + daysAhead));
+    const dayKey = DAY_KEYS[calendarDay.getUTCDay()];
+
+    for (const window of schedule[dayKey]) {
+      const startMinutes = timeToMinutes(window.start);
+      if (daysAhead === 0 && startMinutes <= local.minutes) continue;
+
+      return zonedTimeToUtc(
+        calendarDay.getUTCFullYear(),
+        calendarDay.getUTCMonth() + 1,
+        calendarDay.getUTCDate(),
+        startMinutes,
+        timezone
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Earliest next window start across several timezones (e.g. the zones of a campaign's contacts)
+ */
+export function getEarliestWindowStart(schedule: WeeklySchedule, timezones: string[], now: Date = new Date()): Date | null {
+  let earliest: Date | null = null;
+  for (const timezone of timezones) {
+    const start = getNextWindowStart(schedule, timezone, now);
+    if (start && (!earliest || start < earliest)) {
+      earliest = start;
+    }
+  }
+  return earliest;
+}
+
+/**
+ * Which third of the day's scheduled calling time (0 = early, 1 = middle, 2 = late) a moment falls in.
+ * With several windows the thirds are taken over their combined length. Null outside all windows.
+ */
+export function getScheduleSegment(schedule: WeeklySchedule, timezone: string, date: Date): number | null {
+  const local = getLocalDateTime(date, timezone);
+  const windows = schedule[local.dayKey]
+    .map(window => ({ start: timeToMinutes(window.start), end: timeToMinutes(window.end) }))
+    .filter(window => window.end > window.start);
+
+  const total = windows.reduce((sum, window) => sum + (window.end - window.start), 0);
+  let elapsed = 0;
+
+  for (const window of windows) {
+    if (local.minutes >= window.start && local.minutes <= window.end) {
+      elapsed += local.minutes - window.start;
+      return Math.min(2, Math.floor(elapsed / (total / 3)));
+    }
+    elapsed += window.end - window.start;
+  }
+
+  return null;
+}
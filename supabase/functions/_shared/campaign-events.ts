@@ -0,0 +1,32 @@
+/**
+ * Campaign activity timeline (public.campaign_events)
+ * Status and settings changes are logged by a trigger on campaigns; edge functions log what the
+ * database cannot see, such as dial rate limit hits and Retell errors.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type LoggedCampaignEventType = 'cap_reached' | 'error';
+
+/**
+ * Record an event on the campaign timeline. Repeats within 10 minutes are dropped by
+ * public.log_campaign_event. Never throws: a failed log must not stop dialing.
+ */
+export async function logCampaignEvent(
+  supabase: ReturnType<typeof createClient>,
+  campaignId: string,
+  eventType: LoggedCampaignEventType,
+  reason: string,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabase.rpc('log_campaign_event', {
+    p_campaign_id: campaignId,
+    p_event_type: eventType,
+    p_reason: reason,
+    p_details: details
+  });
+
+  if (error) {
+    console.error(`Error logging ${eventType} event for campaign ${campaignId}:`, error);
+  }
+}
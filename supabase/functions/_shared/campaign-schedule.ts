@@ -0,0 +1,66 @@
+/**
+ * Campaign scheduling helpers
+ * Start/end timestamps, user-defined blackout dates and holiday calendars.
+ */
+
+import { getUSFederalHolidays, type HolidayCalendar } from './holidays.ts';
+
+export interface CampaignSchedule {
+  starts_at?: string | null;
+  ends_at?: string | null;
+  blackout_dates?: string[] | null;
+  holiday_calendar?: HolidayCalendar | null;
+  timezone?: string | null;
+}
+
+// One formatter per timezone; building them is far slower than formatting
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar date (YYYY-MM-DD) of a moment in the given timezone
+ */
+export function getLocalDateString(date: Date, timezone: string): string {
+  let format = dateFormats.get(timezone);
+  if (!format) {
+    // en-CA formats dates as YYYY-MM-DD
+    format = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    });
+    dateFormats.set(timezone, format);
+  }
+  return format.format(date);
+}
+
+/**
+ * Why a campaign must not dial on the current local date, or null if it may
+ */
+export function getBlackoutReason(campaign: CampaignSchedule, now: Date = new Date()): string | null {
+  const localDate = getLocalDateString(now, campaign.timezone || 'America/New_York');
+
+  if (campaign.blackout_dates?.includes(localDate)) {
+    return `blackout date ${localDate}`;
+  }
+
+  if (campaign.holiday_calendar === 'us_federal') {
+    // New Year's Day can be observed on December 31 of the previous year
+    const year = Number(localDate.slice(0, 4));
+    const holiday = [...getUSFederalHolidays(year), ...getUSFederalHolidays(year + 1)]
+      .find(h => h.date === localDate);
+    if (holiday) {
+      return holiday.name;
+    }
+  }
+
+  return null;
+}
+
+export function hasScheduleStarted(campaign: CampaignSchedule, now: Date = new Date()): boolean {
+  return !campaign.starts_at || new Date(campaign.starts_at) <= now;
+}
+
+export function hasScheduleEnded(campaign: CampaignSchedule, now: Date = new Date()): boolean {
+  return !!campaign.ends_at && new Date(campaign.ends_at) <= now;
+}
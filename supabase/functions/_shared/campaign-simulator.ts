@@ -0,0 +1,448 @@
+/**
+ * Campaign dial plan estimate
+ * A model of process-campaign on a virtual clock, not its contact selection: it applies the same
+ * calling windows per contact timezone, blackout dates, spend caps, concurrency slots, retry policy and
+ * campaign rate limits through the shared helpers, with calls placed through a simulated telephony
+ * client. Nothing changes between events (a call ending, a retry coming due, a calling window opening,
+ * a rate window resetting, local midnight), so the clock jumps from one to the next and the work grows
+ * with the dials rather than the minutes simulated.
+ * Numbers are dialed in list order (group, then import order); queue ordering strategies, caller-ID
+ * caps and account-wide limits are not modeled, so a live campaign can dial in another order and pace.
+ */
+
+import { getBlackoutReason, getLocalDateString, type CampaignSchedule } from './campaign-schedule.ts';
+import {
+  getLocalDateTime,
+  getNextWindowStart,
+  isWithinSchedule,
+  resolveWeeklySchedule,
+  zonedTimeToUtc,
+  type ScheduledCampaign
+} from './calling-schedule.ts';
+import { isRetryAllowed, resolveRetryPolicy, type RetryOutcome, type RetryPolicy } from './retry-policy.ts';
+import {
+  DEFAULT_CAMPAIGN_RATE_LIMITS,
+  ESTIMATED_CALL_COST_CENTS,
+  getAvailableSlots
+} from './dial-pacing.ts';
+import type { SimulatedCall, SimulatedTelephonyClient } from './telephony.ts';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Retries held back by time-of-day rotation are checked again after this long
+const RETRY_RECHECK_MS = 15 * MINUTE_MS;
+
+export const MAX_SIMULATION_DAYS = 60;
+export const MAX_SIMULATED_DIALS = 20000;
+
+type SpendCapKey = 'max_daily_cents' | 'max_total_cents' | 'max_cost_per_appointment_cents';
+
+export interface SimulationCampaign extends ScheduledCampaign, CampaignSchedule {
+  concurrent_calls: number;
+  max_retry_days: number;
+  settings?: {
+    retry_policy?: Partial<RetryPolicy>;
+    rate_limits?: Partial<Record<'per_minute' | 'per_hour' | 'per_day', number | null>>;
+    spend_caps?: Partial<Record<SpendCapKey, number | null>>;
+  } | null;
+}
+
+export interface SimulationPhone {
+  contact_id: string;
+  phone_number: string;
+  phone_index: number;
+  timezone: string | null;
+}
+
+export type SimulationStopReason =
+  | 'all_contacts_processed'
+  | 'end_date_reached'
+  | 'spend_cap_reached'
+  | 'horizon_reached'
+  | 'dial_limit_reached';
+
+export interface SimulatedDay {
+  date: string; // YYYY-MM-DD in the campaign timezone
+  dials: number;
+  first_attempts: number;
+  retries: number;
+  connected: number;
+  appointments: number;
+  cost_cents: number;
+  outcomes: Record<string, number>;
+}
+
+export interface SimulationResult {
+  started_at: string;
+  ended_at: string;
+  stop_reason: SimulationStopReason;
+  phones: number;
+  days: SimulatedDay[];
+  totals: {
+    dials: number;
+    connected: number;
+    appointments: number;
+    cost_cents: number;
+    contacts_reached: number;
+  };
+}
+
+interface PhoneState {
+  phone: SimulationPhone;
+  order: number;
+  timezone: string;
+  attempts: number;
+  last_outcome: RetryOutcome | null;
+  last_attempt_at: number | null;
+  check_after: number;
+  in_progress: boolean;
+}
+
+interface ContactState {
+  attempts: number;
+  first_attempt_at: number | null;
+  in_progress: number;
+}
+
+interface ActiveCall {
+  state: PhoneState;
+  started_at: number;
+  ends_at: number;
+  call: SimulatedCall;
+}
+
+/**
+ * Simulate a campaign from its start (or now) until every number is done, a cap or the end date
+ * stops it, or the horizon is reached
+ */
+export async function simulateCampaign(
+  campaign: SimulationCampaign,
+  phones: SimulationPhone[],
+  telephony: SimulatedTelephonyClient,
+  options: { start?: Date; days?: number } = {}
+): Promise<SimulationResult> {
+  const timezone = campaign.timezone || 'America/New_York';
+  const schedule = resolveWeeklySchedule(campaign);
+  const policy = resolveRetryPolicy(campaign.settings);
+  // An explicit null means no cap, a missing key keeps the default (like get_dial_rate_caps)
+  const rateLimits = { ...DEFAULT_CAMPAIGN_RATE_LIMITS, ...campaign.settings?.rate_limits };
+  const spendCaps = campaign.settings?.spend_caps || {};
+
+  // process-campaign runs on the minute
+  const requestedStart = Math.max(
+    options.start?.getTime() ?? Date.now(),
+    campaign.starts_at ? new Date(campaign.starts_at).getTime() : 0
+  );
+  const startMs = Math.ceil(requestedStart / MINUTE_MS) * MINUTE_MS;
+  const horizonMs = startMs + Math.min(options.days ?? 30, MAX_SIMULATION_DAYS) * DAY_MS;
+  const endMs = campaign.ends_at ? new Date(campaign.ends_at).getTime() : Infinity;
+
+  const states: PhoneState[] = phones.map((phone, order) => ({
+    phone,
+    order,
+    timezone: phone.timezone || timezone,
+    attempts: 0,
+    last_outcome: null,
+    last_attempt_at: null,
+    check_after: 0,
+    in_progress: false
+  }));
+  const contacts = new Map<string, ContactState>();
+  for (const phone of phones) {
+    contacts.set(phone.contact_id, { attempts: 0, first_attempt_at: null, in_progress: 0 });
+  }
+  const timezones = [...new Set(states.map(state => state.timezone))];
+
+  // Numbers never dialed, per timezone in list order, so closed timezones are skipped without a scan
+  const freshQueues = new Map<string, { states: PhoneState[]; next: number }>();
+  for (const state of states) {
+    const queue = freshQueues.get(state.timezone) ?? { states: [], next: 0 };
+    queue.states.push(state);
+    freshQueues.set(state.timezone, queue);
+  }
+
+  let undialed = states.length;
+  let retryQueue: PhoneState[] = [];
+  let activeCalls: ActiveCall[] = [];
+  const days = new Map<string, SimulatedDay>();
+  const dialCounts = new Map<string, number>();
+  const dailySpent = new Map<string, number>();
+  const reachedContacts = new Set<string>();
+  let totalSpent = 0;
+  let appointments = 0;
+  let dials = 0;
+  let stopReason: SimulationStopReason = 'horizon_reached';
+  let now = startMs;
+
+  const localDate = (ms: number) => getLocalDateString(new Date(ms), timezone);
+
+  const nextLocalMidnight = (ms: number) => {
+    const local = getLocalDateTime(new Date(ms), timezone);
+    return zonedTimeToUtc(local.year, local.month, local.day + 1, 0, timezone).getTime();
+  };
+
+  const getDay = (ms: number): SimulatedDay => {
+    const date = localDate(ms);
+    let day = days.get(date);
+    if (!day) {
+      day = { date, dials: 0, first_attempts: 0, retries: 0, connected: 0, appointments: 0, cost_cents: 0, outcomes: {} };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  // Same conditions as campaign_has_remaining_contacts: retries enabled, within max_retry_days, caps not reached
+  const isRetryExhausted = (state: PhoneState, ms: number) => {
+    const rule = state.last_outcome ? policy.rules[state.last_outcome] : null;
+    if (!rule?.enabled) return true;
+
+    const contact = contacts.get(state.phone.contact_id)!;
+    return (ms - (contact.first_attempt_at ?? ms)) / DAY_MS >= campaign.max_retry_days
+      || (rule.max_attempts_per_phone !== null && state.attempts >= rule.max_attempts_per_phone)
+      || (rule.max_attempts_per_contact !== null && contact.attempts >= rule.max_attempts_per_contact);
+  };
+
+  // Calls end through retell-webhook: the outcome and the cost are recorded when the call ends
+  const finishCalls = (ms: number) => {
+    const ended = activeCalls.filter(active => active.ends_at <= ms);
+    if (ended.length === 0) return;
+    activeCalls = activeCalls.filter(active => active.ends_at > ms);
+
+    for (const { state, ends_at, call } of ended) {
+      const contact = contacts.get(state.phone.contact_id)!;
+      state.in_progress = false;
+      state.last_outcome = call.retry_outcome;
+      contact.in_progress--;
+
+      totalSpent += call.cost_cents;
+      dailySpent.set(localDate(ends_at), (dailySpent.get(localDate(ends_at)) || 0) + call.cost_cents);
+      if (call.appointment) appointments++;
+      if (call.outcome === 'connected') reachedContacts.add(state.phone.contact_id);
+
+      if (call.retry_outcome && !isRetryExhausted(state, ms)) {
+        state.check_after = state.last_attempt_at! + policy.rules[call.retry_outcome].min_spacing_hours * HOUR_MS;
+        retryQueue.push(state);
+      }
+    }
+    retryQueue.sort((a, b) => a.order - b.order);
+  };
+
+  // Mirrors check_campaign_spend_caps, counting calls in progress at the estimated cost
+  const checkSpendCaps = (ms: number) => {
+    const budgets: [string, number | null | undefined, number, number][] = [
+      ['daily_budget_reached', spendCaps.max_daily_cents, spendCaps.max_daily_cents ?? 0, dailySpent.get(localDate(ms)) || 0],
+      ['spend_cap_reached', spendCaps.max_total_cents, spendCaps.max_total_cents ?? 0, totalSpent],
+      ['appointment_cost_cap_reached', spendCaps.max_cost_per_appointment_cents,
+        (spendCaps.max_cost_per_appointment_cents ?? 0) * Math.max(appointments, 1), totalSpent]
+    ];
+    let remaining: number | null = null;
+
+    for (const [reason, cap, budget, spent] of budgets) {
+      if (cap === null || cap === undefined) continue;
+      if (spent >= budget) return { pause_reason: reason, remaining: 0 };
+
+      const calls = Math.max(0, Math.floor((budget - spent - activeCalls.length * ESTIMATED_CALL_COST_CENTS) / ESTIMATED_CALL_COST_CENTS));
+      remaining = remaining === null ? calls : Math.min(remaining, calls);
+    }
+    return { pause_reason: null, remaining };
+  };
+
+  // Campaign caps are counted in UTC minute, hour and day buckets like date_trunc in try_acquire_dial_slot,
+  // each with the time its bucket resets
+  const rateBuckets = (ms: number): [string, number | null, number][] => [
+    [`minute:${Math.floor(ms / MINUTE_MS)}`, rateLimits.per_minute, (Math.floor(ms / MINUTE_MS) + 1) * MINUTE_MS],
+    [`hour:${Math.floor(ms / HOUR_MS)}`, rateLimits.per_hour, (Math.floor(ms / HOUR_MS) + 1) * HOUR_MS],
+    [`day:${Math.floor(ms / DAY_MS)}`, rateLimits.per_day, (Math.floor(ms / DAY_MS) + 1) * DAY_MS]
+  ];
+
+  // The next numbers never dialed, in list order across the open timezones
+  const takeFresh = (open: Set<string>, count: number): PhoneState[] => {
+    const cursors = [...open]
+      .map(tz => freshQueues.get(tz))
+      .filter((queue): queue is { states: PhoneState[]; next: number } => queue !== undefined)
+      .map(queue => ({ queue, next: queue.next }));
+    const picked: PhoneState[] = [];
+
+    while (picked.length < count) {
+      let best: (typeof cursors)[number] | null = null;
+      for (const cursor of cursors) {
+        const head = cursor.queue.states[cursor.next];
+        if (head && (!best || head.order < best.queue.states[best.next].order)) best = cursor;
+      }
+      if (!best) break;
+      picked.push(best.queue.states[best.next++]);
+    }
+    return picked;
+  };
+
+  // When each closed timezone's calling window opens next, kept until that time passes
+  const windowOpens = new Map<string, number>();
+
+  // The first time after now at which something can change: a call ending, a retry coming due, a calling
+  // window opening, a rate window resetting, local midnight (daily budget, blackout dates) or the end
+  const nextEventAt = (ms: number, openTimezones: Set<string>, rateLimitedUntil: number) => {
+    let next = Math.min(horizonMs, endMs, nextLocalMidnight(ms), rateLimitedUntil);
+    for (const active of activeCalls) next = Math.min(next, active.ends_at);
+    for (const state of retryQueue) {
+      if (state.check_after > ms) next = Math.min(next, state.check_after);
+    }
+    for (const tz of timezones) {
+      if (openTimezones.has(tz)) continue;
+      let opensAt = windowOpens.get(tz);
+      if (opensAt === undefined || opensAt <= ms) {
+        opensAt = getNextWindowStart(schedule, tz, new Date(ms))?.getTime() ?? Infinity;
+        windowOpens.set(tz, opensAt);
+      }
+      next = Math.min(next, opensAt);
+    }
+    // process-campaign runs on the minute
+    return Math.max(Math.ceil(next / MINUTE_MS) * MINUTE_MS, ms + MINUTE_MS);
+  };
+
+  while (now < horizonMs) {
+    finishCalls(now);
+
+    if (now >= endMs) {
+      stopReason = 'end_date_reached';
+      break;
+    }
+
+    retryQueue = retryQueue.filter(state => !isRetryExhausted(state, now));
+    if (activeCalls.length === 0 && undialed === 0 && retryQueue.length === 0) {
+      stopReason = 'all_contacts_processed';
+      break;
+    }
+    if (dials >= MAX_SIMULATED_DIALS) {
+      stopReason = 'dial_limit_reached';
+      break;
+    }
+
+    // Blackout dates and holidays pause the campaign for the whole local day
+    if (getBlackoutReason(campaign, new Date(now))) {
+      now = nextLocalMidnight(now);
+      continue;
+    }
+
+    const spendCheck = checkSpendCaps(now);
+    if (spendCheck.pause_reason === 'daily_budget_reached') {
+      now = nextLocalMidnight(now);
+      continue;
+    }
+    if (spendCheck.pause_reason) {
+      stopReason = 'spend_cap_reached';
+      break;
+    }
+
+    // Outside calling hours in every contact timezone: skip ahead to the next window
+    const openTimezones = new Set(timezones.filter(tz => isWithinSchedule(schedule, tz, new Date(now))));
+    if (openTimezones.size === 0) {
+      const nextStarts = timezones
+        .map(tz => getNextWindowStart(schedule, tz, new Date(now))?.getTime())
+        .filter((ms): ms is number => ms !== undefined);
+      if (nextStarts.length === 0) break;
+      now = Math.max(Math.min(...nextStarts), now + MINUTE_MS);
+      continue;
+    }
+
+    // Calls hold their slot until they end, as in process-campaign
+    let slots = spendCheck.remaining === 0 ? 0 : getAvailableSlots(campaign.concurrent_calls, activeCalls.length, spendCheck.remaining);
+
+    // Retries of earlier numbers come before numbers never dialed, as in the dial queue order
+    const candidates = retryQueue.filter(state => now >= state.check_after && openTimezones.has(state.timezone));
+    candidates.push(...takeFresh(openTimezones, slots));
+    let rateLimitedUntil = Infinity;
+
+    for (const state of candidates) {
+      if (slots <= 0 || dials >= MAX_SIMULATED_DIALS) break;
+
+      const contact = contacts.get(state.phone.contact_id)!;
+      const isRetry = state.last_attempt_at !== null;
+
+      if (isRetry) {
+        if (contact.in_progress > 0) continue;
+
+        const retryCheck = isRetryAllowed(
+          policy,
+          {
+            last_outcome: state.last_outcome,
+            last_attempt_at: new Date(state.last_attempt_at!).toISOString(),
+            phone_attempts: state.attempts,
+            contact_attempts: contact.attempts
+          },
+          schedule,
+          state.timezone,
+          new Date(now)
+        );
+        if (!retryCheck.allowed) {
+          state.check_after = now + RETRY_RECHECK_MS;
+          continue;
+        }
+      }
+
+      const buckets = rateBuckets(now);
+      const fullBuckets = buckets.filter(([key, cap]) => cap !== null && (dialCounts.get(key) || 0) >= cap);
+      if (fullBuckets.length > 0) {
+        rateLimitedUntil = Math.max(...fullBuckets.map(([, , resetsAt]) => resetsAt));
+        break;
+      }
+
+      const response = await telephony.createPhoneCall({
+        from_number: 'simulated',
+        to_number: state.phone.phone_number,
+        override_agent_id: 'simulated',
+        metadata: { contact_id: state.phone.contact_id }
+      });
+      const call = response.call_id ? telephony.getCall(response.call_id) : undefined;
+      if (!call) continue;
+
+      for (const [key] of buckets) dialCounts.set(key, (dialCounts.get(key) || 0) + 1);
+
+      state.attempts++;
+      state.last_attempt_at = now;
+      state.last_outcome = null;
+      state.in_progress = true;
+      if (!isRetry) undialed--;
+      contact.attempts++;
+      contact.first_attempt_at ??= now;
+      contact.in_progress++;
+      activeCalls.push({ state, started_at: now, ends_at: now + Math.max(1000, call.duration_seconds * 1000), call });
+
+      const day = getDay(now);
+      day.dials++;
+      if (isRetry) day.retries++;
+      else day.first_attempts++;
+      day.outcomes[call.outcome] = (day.outcomes[call.outcome] || 0) + 1;
+      if (call.outcome === 'connected') day.connected++;
+      if (call.appointment) day.appointments++;
+      day.cost_cents += call.cost_cents;
+
+      dials++;
+      slots--;
+    }
+
+    retryQueue = retryQueue.filter(state => !state.in_progress);
+    for (const queue of freshQueues.values()) {
+      while (queue.next < queue.states.length && queue.states[queue.next].attempts > 0) queue.next++;
+    }
+
+    now = nextEventAt(now, openTimezones, rateLimitedUntil);
+  }
+
+  const dayList = [...days.values()];
+  return {
+    started_at: new Date(startMs).toISOString(),
+    ended_at: new Date(Math.min(now, horizonMs)).toISOString(),
+    stop_reason: stopReason,
+    phones: phones.length,
+    days: dayList,
+    totals: {
+      dials,
+      connected: dayList.reduce((sum, day) => sum + day.connected, 0),
+      appointments: dayList.reduce((sum, day) => sum + day.appointments, 0),
+      cost_cents: dayList.reduce((sum, day) => sum + day.cost_cents, 0),
+      contacts_reached: reachedContacts.size
+    }
+  };
+}
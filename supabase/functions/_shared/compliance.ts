@@ -0,0 +1,64 @@
+/**
+ * State calling-law compliance (public.state_calling_rules, public.compliance_skips)
+ * get_next_contacts_to_call returns contacts a state rule blocks after the contacts to dial, with
+ * compliance_rule set; process-campaign logs them here instead of dialing them.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ComplianceRule = 'calling_hours' | 'saturday' | 'sunday' | 'daily_attempts';
+
+export interface ComplianceCandidate {
+  contact_id: string;
+  phone_number: string;
+  phone_index: number | null;
+  timezone: string | null;
+  contact_state: string | null;
+  compliance_rule: ComplianceRule | null;
+  compliance_detail: string | null;
+}
+
+// Calendar date in a timezone, as YYYY-MM-DD (the skip log keeps one row per contact, rule and local day)
+function localDate(timezone: string, at: Date): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(at);
+}
+
+/**
+ * Log contacts held back by a state rule. Repeats on the same local day are ignored.
+ * Never throws: a failed log must not stop dialing.
+ */
+export async function recordComplianceSkips(
+  supabase: ReturnType<typeof createClient>,
+  campaignId: string,
+  blocked: ComplianceCandidate[],
+  now: Date = new Date()
+): Promise<void> {
+  const rows = blocked
+    .filter(contact => contact.compliance_rule && contact.contact_state)
+    .map(contact => ({
+      campaign_id: campaignId,
+      contact_id: contact.contact_id,
+      phone_index: contact.phone_index || 0,
+      phone_number: contact.phone_number,
+      state: contact.contact_state,
+      rule: contact.compliance_rule,
+      detail: contact.compliance_detail,
+      local_date: localDate(contact.timezone || 'America/New_York', now),
+    }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('compliance_skips')
+    .upsert(rows, { onConflict: 'campaign_id,contact_id,phone_index,rule,local_date', ignoreDuplicates: true });
+
+  if (error) {
+    console.error(`Error logging compliance skips for campaign ${campaignId}:`, error);
+  } else {
+    console.log(`Campaign ${campaignId}: ${rows.length} contacts held back by state calling rules`);
+  }
+}
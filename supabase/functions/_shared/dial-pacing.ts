@@ -0,0 +1,54 @@
+/**
+ * Dial pacing shared by process-campaign and the campaign simulation
+ * process-campaign runs once a minute and starts at most as many calls as the campaign has free slots.
+ */
+
+// Estimated cost of one call, used for credit reservation and spend cap headroom
+export const ESTIMATED_CALL_COST_CENTS = 100;
+
+// Default campaign caps when settings.rate_limits has no value (see public.get_dial_rate_caps)
+export const DEFAULT_CAMPAIGN_RATE_LIMITS = { per_minute: 10, per_hour: 300, per_day: null };
+
+/**
+ * Calls a campaign may start in this run: free concurrency slots, never more than the remaining
+ * spend budget covers (null remaining calls = no spend cap)
+ */
+export function getAvailableSlots(
+  concurrentCalls: number,
+  activeCalls: number,
+  remainingCalls: number | null | undefined
+): number {
+  return Math.min(concurrentCalls - activeCalls, remainingCalls ?? Infinity);
+}
+
+/**
+ * Share an account's free concurrency slots between its campaigns, max-min fair: every campaign
+ * gets an equal share, capped at what it can use, and what a campaign cannot use goes to the others.
+ * Slots that do not divide evenly go to the first campaigns (process-campaign rotates the order
+ * every run, so they go round-robin).
+ * demands[i] is how many calls campaign i could start; the result has the slots for each.
+ */
+export function shareAccountSlots(freeSlots: number, demands: number[]): number[] {
+  const shares = demands.map(() => 0);
+  let remaining = Math.max(0, freeSlots);
+  let open = demands.map((demand, index) => index).filter(index => demands[index] > 0);
+
+  while (remaining > 0 && open.length > 0) {
+    const perCampaign = Math.floor(remaining / open.length);
+    if (perCampaign === 0) {
+      for (const index of open.slice(0, remaining)) {
+        shares[index]++;
+      }
+      break;
+    }
+
+    for (const index of open) {
+      const granted = Math.min(perCampaign, demands[index] - shares[index]);
+      shares[index] += granted;
+      remaining -= granted;
+    }
+    open = open.filter(index => shares[index] < demands[index]);
+  }
+
+  return shares;
+}
@@ -0,0 +1,55 @@
+/**
+ * Do-not-call requests made by leads during a call ("please take me off your list")
+ * A request comes from the agent's do_not_call tool or from the do_not_call / opt_out fields of the
+ * post-call analysis. The number called is then added to the account's do-not-call list
+ * (public.do_not_call_numbers), which every campaign skips.
+ */
+
+export type DoNotCallSource = 'tool_call' | 'analysis';
+
+export interface DoNotCallRequest {
+  reason: string | null;
+  source: DoNotCallSource;
+}
+
+const DO_NOT_CALL_TOOL_NAME = /do_not_call|dnc|opt_out|unsubscribe|remove_from_list/i;
+const DO_NOT_CALL_FIELDS = ['do_not_call', 'do_not_call_requested', 'dnc_requested', 'opt_out', 'opted_out'];
+const TRUE_VALUES = ['true', 'yes', '1'];
+
+function parseArguments(args: unknown): Record<string, unknown> {
+  if (typeof args === 'string') {
+    try {
+      return JSON.parse(args);
+    } catch (e) {
+      console.warn('Failed to parse do-not-call tool arguments:', e);
+      return {};
+    }
+  }
+  return (args && typeof args === 'object') ? args as Record<string, unknown> : {};
+}
+
+const asText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+/**
+ * Do-not-call request in a Retell call payload: a do_not_call tool call or the post-call analysis
+ * flagging do_not_call / opt_out. Null when the lead did not ask to stop being called.
+ */
+export function extractDoNotCallRequest(call: {
+  transcript_with_tool_calls?: Array<Record<string, unknown>> | null;
+  call_analysis?: { custom_analysis_data?: Record<string, unknown> | null } | null;
+}): DoNotCallRequest | null {
+  const toolCall = (call.transcript_with_tool_calls || [])
+    .find(item => item.role === 'tool_call_invocation' && DO_NOT_CALL_TOOL_NAME.test(String(item.name || '')));
+
+  if (toolCall) {
+    const args = parseArguments(toolCall.arguments);
+    return { reason: asText(args.reason) || asText(args.note), source: 'tool_call' };
+  }
+
+  const analysis = call.call_analysis?.custom_analysis_data;
+  if (analysis && DO_NOT_CALL_FIELDS.some(field => TRUE_VALUES.includes(String(analysis[field]).toLowerCase()))) {
+    return { reason: asText(analysis.do_not_call_reason) || asText(analysis.opt_out_reason), source: 'analysis' };
+  }
+
+  return null;
+}
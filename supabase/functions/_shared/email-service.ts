@@ -389,3 +389,103 @@ export async function sendPhoneDeleted({
     html,
   });
 }
+
+/**
+ * End-of-campaign results, as stored in campaigns.summary
+ */
+export interface CampaignSummary {
+  completion_reason: "all_contacts_processed" | "end_date_reached";
+  contacts: number;
+  contacts_called: number;
+  calls: number;
+  outcomes: Record<string, number>;
+  appointments: number;
+  high_follow_up: number;
+  medium_follow_up: number;
+  avg_duration_seconds: number | null;
+  spend_cents: number;
+  cost_per_appointment_cents: number | null;
+  best_hours: { hour: number; dialed: number; connected: number; connect_rate: number }[];
+}
+
+/**
+ * Send campaign completed notification with the end-of-campaign summary
+ */
+export async function sendCampaignCompleted({
+  user_email,
+  campaign_id,
+  campaign_name,
+  summary,
+}: {
+  user_email: string;
+  campaign_id: string;
+  campaign_name: string;
+  summary: CampaignSummary;
+}): Promise<boolean> {
+  // Campaign names are user input
+  const campaignName = campaign_name
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+  const spendDollars = `$${(summary.spend_cents / 100).toFixed(2)}`;
+  const reasonText = summary.completion_reason === "end_date_reached"
+    ? "The campaign reached its end date."
+    : "Every contact has been called or is out of retries.";
+  const formatHour = (hour: number) => `${hour % 12 || 12}${hour < 12 ? "am" : "pm"}`;
+  const bestHours = summary.best_hours
+    .map((slot) => `${formatHour(slot.hour)}–${formatHour((slot.hour + 1) % 24)} (${slot.connect_rate}% connected)`)
+    .join(", ") || "Not enough calls yet";
+
+  const rows: [string, string][] = [
+    ["Contacts called", `${summary.contacts_called} of ${summary.contacts}`],
+    ["Calls placed", `${summary.calls}`],
+    ["Connected", `${summary.outcomes["completed"] || 0}`],
+    ["Appointments booked", `${summary.appointments}`],
+    ["High-potential follow-ups", `${summary.high_follow_up}`],
+    ["Total spend", spendDollars],
+    ["Best hours", bestHours],
+  ];
+
+  const tableRows = rows
+    .map(([label, value]) => `
+              <tr>
+                <td style="padding: 8px 0; font-weight: 600;">${label}:</td>
+                <td style="padding: 8px 0; text-align: right;">${value}</td>
+              </tr>`)
+    .join("");
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 24px;">🏁 Campaign Completed</h1>
+        </div>
+
+        <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 12px 12px; border: 1px solid #e9ecef;">
+          <p style="font-size: 16px; margin-top: 0;">Your campaign <strong>${campaignName}</strong> has finished. ${reasonText}</p>
+
+          <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #10b981; margin: 20px 0;">
+            <table style="width: 100%; border-collapse: collapse;">${tableRows}
+            </table>
+          </div>
+
+          <div style="text-align: center; margin-top: 30px;">
+            <a href="https://rezora.io/campaigns/${campaign_id}/results" style="display: inline-block; background: #667eea; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; margin: 0 8px;">View Results</a>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: user_email,
+    subject: `🏁 Campaign Completed - ${campaign_name}`,
+    html,
+  });
+}
@@ -0,0 +1,295 @@
+/**
+ * Follow-up potential scoring
+ * Each analyzed call that reached the lead is scored high / medium / low with a one-line reason, from
+ * its transcript, summary and extracted fields and the account's rubric (follow_up_rubrics). Bedrock
+ * scores the call when it is configured; FOLLOW_UP_SCORER=stub, or a missing Bedrock configuration,
+ * uses the rule-based scorer below so local runs need no LLM.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isConnectedDisposition, type CallDisposition } from './call-disposition.ts';
+
+export type FollowUpPotential = 'high' | 'medium' | 'low';
+export type FollowUpScorer = 'bedrock' | 'stub';
+
+export interface FollowUpRubric {
+  // What makes a lead worth following up at each level, in the account's words
+  high: string;
+  medium: string;
+  low: string;
+  // Phrases the rule-based scorer counts as buying or rejection signals
+  high_phrases: string[];
+  low_phrases: string[];
+}
+
+export interface FollowUpScore {
+  potential: FollowUpPotential;
+  reason: string;
+}
+
+export interface FollowUpCall {
+  disposition: CallDisposition | null;
+  transcript: string | null;
+  summary: string | null;
+  extractedFields: Record<string, unknown> | null;
+}
+
+export const DEFAULT_FOLLOW_UP_RUBRIC: FollowUpRubric = {
+  high: 'The lead wants to sell soon, asked for an offer or a callback, or booked an appointment',
+  medium: 'The lead is open to selling later or wants more information, without a timeline',
+  low: 'The lead is not interested, asked not to be called, or the call ended before any real conversation',
+  high_phrases: ['make me an offer', 'call me back', 'how much', 'send me', 'interested', 'as soon as possible', 'asap'],
+  low_phrases: ['not interested', 'not selling', 'stop calling', 'wrong number', 'remove me', "don't call"]
+};
+
+const POTENTIALS: FollowUpPotential[] = ['high', 'medium', 'low'];
+const MAX_TRANSCRIPT_CHARS = 12000;
+const MAX_REASON_CHARS = 300;
+
+/**
+ * Error message for an invalid rubric, or null when it can be saved
+ */
+export function validateFollowUpRubric(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Rubric must be an object';
+  }
+  const rubric = value as Partial<FollowUpRubric>;
+  for (const level of POTENTIALS) {
+    if (typeof rubric[level] !== 'string' || !rubric[level]!.trim()) {
+      return `Describe what makes a ${level} follow-up potential`;
+    }
+  }
+  for (const list of ['high_phrases', 'low_phrases'] as const) {
+    if (!Array.isArray(rubric[list]) || rubric[list]!.some(phrase => typeof phrase !== 'string')) {
+      return `${list} must be a list of phrases`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Rubric stored for an account, or the default when none is saved or it does not validate
+ */
+export function parseFollowUpRubric(value: unknown): FollowUpRubric {
+  return validateFollowUpRubric(value) === null ? value as FollowUpRubric : DEFAULT_FOLLOW_UP_RUBRIC;
+}
+
+// A negation up to two words before a phrase ("not really interested")
+const NEGATION = /\b(not|no|never|don't|dont|doesn't|isn't|aren't|wasn't|won't|can't)\s+([\w']+\s+){0,2}$/;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * What the lead said: the "User:" turns of a Retell transcript (lines without a speaker belong to the
+ * turn above them). A transcript without speaker labels is used whole.
+ */
+function getLeadTurns(transcript: string): string {
+  let speaker: string | null = null;
+  let labeled = false;
+  const turns: string[] = [];
+
+  for (const line of transcript.split('\n')) {
+    const label = /^\s*(agent|user)\s*:/i.exec(line);
+    if (label) {
+      speaker = label[1].toLowerCase();
+      labeled = true;
+    }
+    if (speaker === 'user') {
+      turns.push(label ? line.slice(label[0].length) : line);
+    }
+  }
+  return labeled ? turns.join('\n') : transcript;
+}
+
+/**
+ * The rubric's phrases found in the text, on word boundaries. Longer phrases are matched first and
+ * use up their text, so "not interested" is not counted as "interested" too; a buying phrase right
+ * after a negation is a rejection signal.
+ */
+function findSignalPhrases(text: string, rubric: FollowUpRubric): { high: string[]; low: string[] } {
+  const phrases = [
+    ...rubric.high_phrases.map(phrase => ({ phrase: phrase.trim().toLowerCase(), level: 'high' as const })),
+    ...rubric.low_phrases.map(phrase => ({ phrase: phrase.trim().toLowerCase(), level: 'low' as const }))
+  ]
+    .filter(({ phrase }) => phrase)
+    .sort((a, b) => b.phrase.length - a.phrase.length);
+
+  const signals = { high: [] as string[], low: [] as string[] };
+  let remaining = text.toLowerCase();
+
+  for (const { phrase, level } of phrases) {
+    const pattern = new RegExp(`(^|[^a-z0-9'])${escapeRegExp(phrase)}(?=$|[^a-z0-9'])`, 'g');
+    let found = false;
+    let negated = false;
+
+    const before = remaining;
+    remaining = before.replace(pattern, (_match, lead: string, offset: number) => {
+      if (level === 'high' && NEGATION.test(before.slice(Math.max(0, offset - 40), offset + lead.length))) {
+        negated = true;
+      } else {
+        found = true;
+      }
+      return `${lead} | `;
+    });
+
+    if (found) signals[level].push(phrase);
+    if (negated) signals.low.push(`not ${phrase}`);
+  }
+  return signals;
+}
+
+/**
+ * Rule-based score: the disposition decides booked appointments and do-not-call requests, then the
+ * rubric's phrases in what the lead said (not the agent's script), the summary and extracted values
+ */
+export function scoreFollowUpWithRules(call: FollowUpCall, rubric: FollowUpRubric): FollowUpScore {
+  if (call.disposition === 'appointment-booked') {
+    return { potential: 'high', reason: 'Appointment booked on the call' };
+  }
+  if (call.disposition === 'do-not-call-request') {
+    return { potential: 'low', reason: 'Lead asked not to be called again' };
+  }
+
+  const text = [
+    getLeadTurns(call.transcript || ''),
+    call.summary || '',
+    ...Object.values(call.extractedFields || {}).map(value => String(value))
+  ].join('\n');
+  const { high, low } = findSignalPhrases(text, rubric);
+
+  if (call.disposition === 'early-hangup' && high.length === 0) {
+    return { potential: 'low', reason: 'Lead hung up before any real conversation' };
+  }
+  if (high.length > low.length) {
+    return { potential: 'high', reason: `Buying signals: ${high.slice(0, 3).join(', ')}` };
+  }
+  if (low.length > high.length) {
+    return { potential: 'low', reason: `Rejection signals: ${low.slice(0, 3).join(', ')}` };
+  }
+  return { potential: 'medium', reason: 'No clear buying or rejection signal' };
+}
+
+/**
+ * LLM score against the rubric; null when the model's answer is not a valid score
+ */
+async function scoreFollowUpWithLLM(call: FollowUpCall, rubric: FollowUpRubric): Promise<FollowUpScore | null> {
+  const { LLM } = await import("./llm.ts");
+
+  const transcript = (call.transcript || '').slice(-MAX_TRANSCRIPT_CHARS);
+  const prompt = `You score outbound real estate sales calls by how worth following up the lead is.
+
+Rubric:
+- high: ${rubric.high}
+- medium: ${rubric.medium}
+- low: ${rubric.low}
+
+Call outcome: ${call.disposition || 'unknown'}
+Summary: ${call.summary || 'none'}
+Extracted lead details: ${JSON.stringify(call.extractedFields || {})}
+
+Transcript:
+${transcript || 'none'}
+
+Respond with JSON only: {"potential": "high" | "medium" | "low", "reason": "one sentence citing what the lead said"}`;
+
+  const result = await LLM.generateJSON(prompt, { maxTokens: 300, temperature: 0 }) as Partial<FollowUpScore> | null;
+  const potential = typeof result?.potential === 'string' ? result.potential.toLowerCase() as FollowUpPotential : null;
+  if (!potential || !POTENTIALS.includes(potential) || typeof result?.reason !== 'string' || !result.reason.trim()) {
+    return null;
+  }
+  return { potential, reason: result.reason.trim().slice(0, MAX_REASON_CHARS) };
+}
+
+/**
+ * Scorer in use: FOLLOW_UP_SCORER=stub forces the rule-based scorer, which is also used when Bedrock
+ * is not configured
+ */
+async function getFollowUpScorer(): Promise<FollowUpScorer> {
+  if (Deno.env.get('FOLLOW_UP_SCORER') === 'stub') return 'stub';
+  const { getLLMConfigurationError } = await import("./llm.ts");
+  return getLLMConfigurationError() ? 'stub' : 'bedrock';
+}
+
+/**
+ * Score a call, falling back to the rule-based scorer when the LLM fails or answers off-rubric
+ */
+export async function scoreFollowUp(
+  call: FollowUpCall,
+  rubric: FollowUpRubric
+): Promise<FollowUpScore & { scorer: FollowUpScorer }> {
+  if (await getFollowUpScorer() === 'bedrock') {
+    try {
+      const score = await scoreFollowUpWithLLM(call, rubric);
+      if (score) return { ...score, scorer: 'bedrock' };
+      console.warn('LLM follow-up score did not match the rubric, using rule-based score');
+    } catch (error) {
+      console.error('LLM follow-up scoring failed, using rule-based score:', error);
+    }
+  }
+  return { ...scoreFollowUpWithRules(call, rubric), scorer: 'stub' };
+}
+
+/**
+ * Score an analyzed attempt with its account's rubric and store the potential, reason and rubric
+ * version on it. Calls that never reached the lead are left unscored. Returns whether it was scored.
+ */
+export async function scoreAttemptFollowUp(
+  supabase: ReturnType<typeof createClient>,
+  attemptId: string
+): Promise<boolean> {
+  try {
+    const { data: attempt, error } = await supabase
+      .from('campaign_contact_attempts')
+      .select('disposition, transcript, call_summary, extracted_fields, campaigns ( user_id )')
+      .eq('id', attemptId)
+      .single();
+
+    if (error || !attempt) {
+      console.error('Error loading attempt for follow-up scoring:', error);
+      return false;
+    }
+
+    const disposition = attempt.disposition as CallDisposition | null;
+    if (!disposition || !isConnectedDisposition(disposition)) {
+      return false;
+    }
+
+    // Attempts carry no user_id: the rubric is the campaign owner's
+    const { data: stored } = await supabase
+      .from('follow_up_rubrics')
+      .select('rubric, version')
+      .eq('user_id', attempt.campaigns?.user_id)
+      .maybeSingle();
+
+    const score = await scoreFollowUp({
+      disposition,
+      transcript: attempt.transcript,
+      summary: typeof attempt.call_summary === 'string' ? attempt.call_summary : null,
+      extractedFields: attempt.extracted_fields
+    }, parseFollowUpRubric(stored?.rubric));
+
+    const { error: updateError } = await supabase
+      .from('campaign_contact_attempts')
+      .update({
+        follow_up_potential: score.potential,
+        follow_up_reason: score.reason,
+        follow_up_scored_at: new Date().toISOString(),
+        follow_up_rubric_version: stored?.version ?? 0,
+        follow_up_scorer: score.scorer
+      })
+      .eq('id', attemptId);
+
+    if (updateError) {
+      console.error('Error saving follow-up score:', updateError);
+      return false;
+    }
+
+    console.log(`🎯 Follow-up potential ${score.potential} (${score.scorer}) for attempt ${attemptId}: ${score.reason}`);
+    return true;
+  } catch (error) {
+    console.error('Error scoring follow-up potential:', error);
+    return false;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Holiday calendars for campaign scheduling
+ * Shared by process-campaign (campaign-schedule.ts skips holidays) and the dashboard
+ * (src/lib/holidays.ts), so both see the same dates.
+ */
+
+export type HolidayCalendar = 'us_federal';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export const HOLIDAY_CALENDARS: { value: HolidayCalendar; label: string }[] = [
+  { value: 'us_federal', label: 'US federal holidays' },
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateString = (year: number, month: number, day: number) => `${year}-${pad(month + 1)}-${pad(day)}`;
+
+// nth weekday of a month (n = -1 for the last one); month is 0-based, weekday 0 = Sunday
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+  if (n > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  }
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const lastWeekday = new Date(Date.UTC(year, month, lastDay)).getUTCDay();
+  return lastDay - ((lastWeekday - weekday + 7) % 7);
+}
+
+// Fixed-date holidays falling on a weekend are observed on the nearest weekday
+function observed(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month, day));
+  const weekday = date.getUTCDay();
+  if (weekday === 6) date.setUTCDate(day - 1);
+  if (weekday === 0) date.setUTCDate(day + 1);
+  return toDateString(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Observed US federal holidays for a year
+ */
+export function getUSFederalHolidays(year: number): Holiday[] {
+  return [
+    { date: observed(year, 0, 1), name: "New Year's Day" },
+    { date: toDateString(year, 0, nthWeekday(year, 0, 1, 3)), name: 'Martin Luther King Jr. Day' },
+    { date: toDateString(year, 1, nthWeekday(year, 1, 1, 3)), name: "Washington's Birthday" },
+    { date: toDateString(year, 4, nthWeekday(year, 4, 1, -1)), name: 'Memorial Day' },
+    { date: observed(year, 5, 19), name: 'Juneteenth' },
+    { date: observed(year, 6, 4), name: 'Independence Day' },
+    { date: toDateString(year, 8, nthWeekday(year, 8, 1, 1)), name: 'Labor Day' },
+    { date: toDateString(year, 9, nthWeekday(year, 9, 1, 2)), name: 'Columbus Day' },
+    { date: observed(year, 10, 11), name: 'Veterans Day' },
+    { date: toDateString(year, 10, nthWeekday(year, 10, 4, 4)), name: 'Thanksgiving Day' },
+    { date: observed(year, 11, 25), name: 'Christmas Day' },
+  ];
+}
+
+/**
+ * Holidays of a calendar falling on or after a date (YYYY-MM-DD)
+ */
+export function getUpcomingHolidays(calendar: HolidayCalendar, fromDate: string, count = 5): Holiday[] {
+  const year = Number(fromDate.slice(0, 4));
+  const holidays = calendar === 'us_federal'
+    ? [...getUSFederalHolidays(year), ...getUSFederalHolidays(year + 1)]
+    : [];
+
+  return holidays
+    .filter(holiday => holiday.date >= fromDate)
+    .slice(0, count);
+}
@@ -0,0 +1,214 @@
+/**
+ * Structured post-call extraction
+ * Each agent defines the fields to extract from its calls (user_agents.extraction_schema). They are
+ * sent to Retell as post-call analysis fields, and the values Retell returns in custom_analysis_data
+ * are converted to the field types and stored on the attempt and the contact (record_extracted_fields).
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ExtractionFieldType = 'text' | 'number' | 'boolean' | 'choice';
+
+export interface ExtractionField {
+  key: string;
+  label: string;
+  type: ExtractionFieldType;
+  description: string;
+  options?: string[];
+}
+
+export type ExtractedValue = string | number | boolean;
+
+// Retell post-call analysis item (post_call_analysis_data)
+export interface PostCallAnalysisItem {
+  type: 'string' | 'number' | 'boolean' | 'enum';
+  name: string;
+  description: string;
+  choices?: string[];
+}
+
+export const MAX_EXTRACTION_FIELDS = 20;
+
+const FIELD_TYPES: ExtractionFieldType[] = ['text', 'number', 'boolean', 'choice'];
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const RETELL_TYPES: Record<ExtractionFieldType, PostCallAnalysisItem['type']> = {
+  text: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  choice: 'enum'
+};
+
+// Answers the analysis gives when the lead did not say
+const EMPTY_ANSWERS = ['', 'n/a', 'na', 'none', 'null', 'unknown', 'not mentioned', 'not specified'];
+const TRUE_ANSWERS = ['true', 'yes', 'y'];
+const FALSE_ANSWERS = ['false', 'no', 'n'];
+
+/**
+ * Error message for an invalid extraction schema, or null when it can be saved
+ */
+export function validateExtractionSchema(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return 'Extraction schema must be a list of fields';
+  }
+  if (value.length > MAX_EXTRACTION_FIELDS) {
+    return `At most ${MAX_EXTRACTION_FIELDS} extraction fields are allowed`;
+  }
+
+  const keys = new Set<string>();
+  for (const field of value as Partial<ExtractionField>[]) {
+    if (!field || typeof field.key !== 'string' || !FIELD_KEY_PATTERN.test(field.key)) {
+      return `Invalid field key "${field?.key ?? ''}": use lowercase letters, digits and underscores`;
+    }
+    if (keys.has(field.key)) {
+      return `Field "${field.key}" is defined twice`;
+    }
+    keys.add(field.key);
+    if (typeof field.label !== 'string' || !field.label.trim()) {
+      return `Field "${field.key}" needs a label`;
+    }
+    if (!FIELD_TYPES.includes(field.type as ExtractionFieldType)) {
+      return `Field "${field.key}" has an unknown type`;
+    }
+    if (field.type === 'choice' && (!Array.isArray(field.options) || field.options.filter(o => typeof o === 'string' && o.trim()).length < 2)) {
+      return `Choice field "${field.key}" needs at least two options`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extraction schema stored on an agent; fields that do not validate are left out
+ */
+export function parseExtractionSchema(value: unknown): ExtractionField[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(field => validateExtractionSchema([field]) === null) as ExtractionField[];
+}
+
+/**
+ * Retell post-call analysis items for the schema, followed by the agent's free-form analysis fields
+ * (customizations.postCallAnalysis) whose names the schema does not use
+ */
+export function buildPostCallAnalysisData(
+  schema: ExtractionField[],
+  freeformFields: Array<{ name?: string; description?: string }> = []
+): PostCallAnalysisItem[] {
+  const items: PostCallAnalysisItem[] = schema.map(field => ({
+    type: RETELL_TYPES[field.type],
+    name: field.key,
+    description: field.description?.trim() || field.label,
+    ...(field.type === 'choice' && { choices: field.options })
+  }));
+
+  const keys = new Set(schema.map(field => field.key));
+  for (const field of freeformFields) {
+    if (field.name && !keys.has(field.name)) {
+      items.push({ type: 'string', name: field.name, description: field.description || '' });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Value of a field converted to its type: "$350k" → 350000, "Yes" → true, a choice matched to its
+ * option. Null when the lead did not say or the answer does not fit the type.
+ */
+export function coerceExtractedValue(field: ExtractionField, raw: unknown): ExtractedValue | null {
+  if (raw === null || raw === undefined) return null;
+  const text = String(raw).trim();
+  if (EMPTY_ANSWERS.includes(text.toLowerCase())) return null;
+
+  switch (field.type) {
+    case 'number': {
+      if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+      const match = text.replace(/[$,\s]/g, '').match(/^(-?\d+(?:\.\d+)?)([km])?$/i);
+      if (!match) return null;
+      const multiplier = { k: 1_000, m: 1_000_000 }[match[2]?.toLowerCase() as 'k' | 'm'] ?? 1;
+      return Number(match[1]) * multiplier;
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const answer = text.toLowerCase();
+      if (TRUE_ANSWERS.includes(answer)) return true;
+      if (FALSE_ANSWERS.includes(answer)) return false;
+      return null;
+    }
+    case 'choice':
+      return field.options?.find(option => option.toLowerCase() === text.toLowerCase()) ?? null;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Typed values of the schema fields found in a call's custom analysis data
+ */
+export function extractFields(
+  schema: ExtractionField[],
+  customAnalysis: Record<string, unknown> | null | undefined
+): Record<string, ExtractedValue> {
+  const values: Record<string, ExtractedValue> = {};
+  if (!customAnalysis) return values;
+
+  for (const field of schema) {
+    const value = coerceExtractedValue(field, customAnalysis[field.key]);
+    if (value !== null) {
+      values[field.key] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Store the extracted values of an analyzed call on its attempt and contact, using the extraction
+ * schema of the agent that placed the call. onError is called when they could not be stored.
+ */
+export async function recordExtractedFields(
+  supabase: ReturnType<typeof createClient>,
+  attemptId: string,
+  customAnalysis: Record<string, unknown> | null | undefined,
+  onError?: (error: Error) => Promise<void>
+): Promise<void> {
+  const { data: attempt, error: attemptError } = await supabase
+    .from('campaign_contact_attempts')
+    .select('agent_id')
+    .eq('id', attemptId)
+    .single();
+
+  if (attemptError || !attempt?.agent_id) {
+    if (attemptError) {
+      console.error('Error loading attempt for extraction:', attemptError);
+      await onError?.(attemptError);
+    }
+    return;
+  }
+
+  const { data: agent, error: agentError } = await supabase
+    .from('user_agents')
+    .select('extraction_schema')
+    .eq('id', attempt.agent_id)
+    .single();
+
+  if (agentError) {
+    console.error('Error loading extraction schema:', agentError);
+    await onError?.(agentError);
+    return;
+  }
+
+  const schema = parseExtractionSchema(agent?.extraction_schema);
+  if (schema.length === 0) return;
+
+  const fields = extractFields(schema, customAnalysis);
+  const { error } = await supabase.rpc('record_extracted_fields', {
+    p_attempt_id: attemptId,
+    p_fields: fields
+  });
+
+  if (error) {
+    console.error('Error recording extracted fields:', error);
+    await onError?.(error);
+  } else {
+    console.log(`🧾 Extracted ${Object.keys(fields).length}/${schema.length} fields for attempt ${attemptId}`);
+  }
+}
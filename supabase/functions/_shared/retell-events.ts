@@ -0,0 +1,219 @@
+/**
+ * Retell webhook events
+ * Applies call_started, call_ended and call_analyzed to campaign attempts and web call sessions.
+ * Used by retell-webhook for live deliveries and by retry-webhook-errors to replay a stored payload.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CALL_COST_MARKUP, calculateUserCost } from './call-rates.ts';
+import { applyCallAnalysis, applyCallEnded, extractAppointment, type RetellCall } from './call-results.ts';
+
+export interface RetellWebhookPayload {
+  event: string;
+  call: RetellCall;
+}
+
+// Called with the failures worth retrying (the caller logs them or fails the replay)
+export type RetellEventErrorHandler = (eventType: string, error: Error) => Promise<void>;
+
+/**
+ * Apply one Retell webhook event
+ */
+export async function handleRetellEvent(
+  supabase: ReturnType<typeof createClient>,
+  payload: RetellWebhookPayload,
+  onError: RetellEventErrorHandler
+): Promise<void> {
+  switch (payload.event) {
+    case 'call_started': {
+      const call = payload.call;
+      const metadata = call?.metadata || {};
+      console.log('Call started:', call?.call_id);
+
+      // New: handle web-call session start
+      if (metadata.web_call_session_id) {
+        console.log('Updating web_call_sessions for call_started:', metadata.web_call_session_id);
+        const updateData: Record<string, unknown> = {
+          status: 'in-progress',
+          retell_call_id: call?.call_id || null,
+        };
+        if (call?.start_timestamp) {
+          updateData.started_at = new Date(call.start_timestamp as number).toISOString();
+        }
+        const { error: wcsErr } = await supabase
+          .from('web_call_sessions')
+          .update(updateData)
+          .eq('id', metadata.web_call_session_id as string);
+
+        if (wcsErr) {
+          console.error('Error updating web_call_sessions (started):', wcsErr);
+          await onError('call_started', wcsErr);
+        } else {
+          console.log(`✅ Web call session ${metadata.web_call_session_id} marked in-progress`);
+        }
+      }
+      break;
+    }
+      
+    case 'call_ended': {
+      const call = payload.call;
+      const metadata = call.metadata || {};
+      
+      console.log('Call ended:', call.call_id, 'Reason:', call.disconnection_reason);
+      
+      // Campaign call: cost, outcome, transcript and appointment (shared with the stuck-call reconciliation)
+      await applyCallEnded(supabase, call, (error) => onError('call_ended', error));
+
+      // New flow: web calls (voice tests)
+      if (metadata.web_call_session_id) {
+        const sessionId = metadata.web_call_session_id as string;
+
+        // Determine final status based on call outcome
+        let finalStatus = 'completed';
+        if (call.disconnection_reason === 'user_not_answered') {
+          finalStatus = 'no-answer';
+        } else if (call.in_voicemail) {
+          finalStatus = 'voicemail';
+        } else if (call.disconnection_reason === 'user_hangup' && (call.duration_ms || 0) < 30000) {
+          finalStatus = 'no-answer';
+        }
+
+        // Fetch session (to get user_id)
+        const { data: session, error: sessErr } = await supabase
+          .from('web_call_sessions')
+          .select('user_id, agent_id')
+          .eq('id', sessionId)
+          .single();
+
+        if (sessErr || !session) {
+          console.error('Failed to load web_call_session for billing:', sessErr);
+        }
+
+        // Compute duration and costs
+        const durationSeconds = call.call_cost?.total_duration_seconds || (call.duration_ms ? Math.round(call.duration_ms / 1000) : null);
+        const retellCostCents = call.call_cost?.combined_cost ? Math.round(call.call_cost.combined_cost) : 0;
+        const userCostCents = retellCostCents > 0 ? calculateUserCost(retellCostCents) : 0;
+
+        // Update session base fields
+        const sessionUpdate: Record<string, unknown> = {
+          status: finalStatus,
+          duration_seconds: durationSeconds,
+          retell_call_id: call.call_id,
+        };
+        if (call.recording_url) sessionUpdate.recording_url = call.recording_url;
+        if (call.transcript) sessionUpdate.transcript = call.transcript;
+        if (call.end_timestamp) sessionUpdate.ended_at = new Date(call.end_timestamp).toISOString();
+
+        const { error: updErr } = await supabase
+          .from('web_call_sessions')
+          .update(sessionUpdate)
+          .eq('id', sessionId);
+
+        if (updErr) {
+          console.error('Error updating web_call_sessions (ended):', updErr);
+        } else {
+          console.log(`✅ Updated web_call_session ${sessionId} to ${finalStatus}`);
+        }
+
+        // Deduct credits if any
+        if (retellCostCents > 0 && session?.user_id) {
+          console.log(`Web call cost - Retell: $${(retellCostCents / 100).toFixed(2)}, User charged: $${(userCostCents / 100).toFixed(2)}`);
+          const { data: rpcResult } = await supabase.rpc('atomic_deduct_web_call_cost', {
+            p_user_id: session.user_id,
+            p_cost_cents: userCostCents,
+            p_web_call_id: sessionId,
+            p_call_metadata: {
+              call_id: call.call_id,
+              agent_id: session.agent_id,
+              web_call_session_id: sessionId,
+              duration_seconds: durationSeconds,
+              retell_cost_cents: retellCostCents,
+              markup_multiplier: CALL_COST_MARKUP,
+              cost_breakdown: call.call_cost,
+              description: `Web call (${durationSeconds || 0}s)`
+            }
+          });
+
+          if (rpcResult?.success) {
+            console.log(`💳 Deducted $${(userCostCents / 100).toFixed(2)} from user ${session.user_id}`);
+            console.log(`🧾 Transaction ID: ${rpcResult.transaction_id}`);
+          } else {
+            console.error(`❌ Credit deduction failed for web call: ${rpcResult?.error}`);
+          }
+        } else if (retellCostCents === 0) {
+          console.log('ℹ️ Zero cost web call - no credit deduction needed');
+        }
+
+        // Extract appointment info (if any) and save it
+        const appt = extractAppointment(call);
+        if (appt) {
+          const { error: apptErr } = await supabase
+            .from('web_call_sessions')
+            .update({ appointment_data: appt })
+            .eq('id', sessionId);
+          if (apptErr) {
+            console.error('Error updating appointment_data for web_call_session:', apptErr);
+          } else {
+            console.log('✅ Appointment data saved for web_call_session', sessionId, appt);
+          }
+        }
+      }
+
+      break;
+    }
+      
+    case 'call_analyzed': {
+      const analyzedCall = payload.call;
+      const analyzedMetadata = analyzedCall.metadata || {};
+      
+      console.log('Call analyzed:', analyzedCall.call_id);
+      console.log('Call analysis data:', analyzedCall.call_analysis);
+
+      // Campaign call: summary, custom analysis, appointment and requested callback
+      await applyCallAnalysis(supabase, analyzedCall, (error) => onError('call_analyzed', error));
+
+      // New flow: web calls analysis
+      if (analyzedMetadata.web_call_session_id && analyzedCall.call_analysis) {
+        const sessionId = analyzedMetadata.web_call_session_id as string;
+        const analysisUpdate: Record<string, unknown> = {
+          call_summary: analyzedCall.call_analysis.call_summary || null,
+          call_successful: analyzedCall.call_analysis.call_successful || null,
+          custom_analysis: analyzedCall.call_analysis.custom_analysis_data || null,
+        };
+        if (analyzedCall.transcript) analysisUpdate.transcript = analyzedCall.transcript;
+
+        console.log('📊 Web call analysis update data:', JSON.stringify(analysisUpdate, null, 2));
+
+        const { error: wcsAnalysisErr } = await supabase
+          .from('web_call_sessions')
+          .update(analysisUpdate)
+          .eq('id', sessionId);
+
+        if (wcsAnalysisErr) {
+          console.error('Error updating web_call_sessions analysis:', wcsAnalysisErr);
+        } else {
+          console.log(`✅ Updated analysis for web_call_session ${sessionId}`);
+        }
+
+        // Extract appointment info here as well
+        const appt = extractAppointment(analyzedCall);
+        if (appt) {
+          const { error: apptErr } = await supabase
+            .from('web_call_sessions')
+            .update({ appointment_data: appt })
+            .eq('id', sessionId);
+          if (apptErr) {
+            console.error('Error updating appointment_data (web call analyzed):', apptErr);
+          } else {
+            console.log('✅ Appointment data saved from analyzed payload for web_call_session', sessionId, appt);
+          }
+        }
+      }
+
+      break;
+    }
+      
+    default:
+      console.log('Unhandled webhook event:', payload.event);
+  }
+}
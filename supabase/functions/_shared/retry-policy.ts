@@ -0,0 +1,123 @@
+/**
+ * Campaign retry policy
+ * Mirrors the rules enforced by get_next_contacts_to_call so process-campaign can
+ * double-check candidates. Call outcomes come from the call disposition (call-disposition.ts).
+ */
+
+import { getScheduleSegment, type WeeklySchedule } from './calling-schedule.ts';
+
+export type RetryOutcome = 'no-answer' | 'voicemail' | 'busy' | 'quick-hangup' | 'failed-to-initiate';
+
+export interface RetryRule {
+  enabled: boolean;
+  min_spacing_hours: number;
+  max_attempts_per_phone: number | null;
+  max_attempts_per_contact: number | null;
+  rotate_time_of_day: boolean;
+}
+
+export interface RetryPolicy {
+  rules: Record<RetryOutcome, RetryRule>;
+}
+
+export interface RetryCandidate {
+  last_outcome: RetryOutcome | null;
+  last_attempt_at: string | null;
+  phone_attempts: number;
+  contact_attempts: number;
+}
+
+const DISABLED_RULE: RetryRule = {
+  enabled: false,
+  min_spacing_hours: 0,
+  max_attempts_per_phone: null,
+  max_attempts_per_contact: null,
+  rotate_time_of_day: false
+};
+
+// Matches the defaults in public.get_retry_rule for campaigns created before retry policies existed
+const LEGACY_RETRY_RULE: RetryRule = {
+  enabled: true,
+  min_spacing_hours: 20,
+  max_attempts_per_phone: null,
+  max_attempts_per_contact: null,
+  rotate_time_of_day: true
+};
+
+/**
+ * Read the retry policy from campaign settings, falling back to the legacy behaviour
+ */
+export function resolveRetryPolicy(settings: { retry_policy?: Partial<RetryPolicy> } | null | undefined): RetryPolicy {
+  const rules = settings?.retry_policy?.rules;
+
+  if (!rules) {
+    return {
+      rules: {
+        'no-answer': LEGACY_RETRY_RULE,
+        'quick-hangup': LEGACY_RETRY_RULE,
+        'voicemail': DISABLED_RULE,
+        'busy': DISABLED_RULE,
+        'failed-to-initiate': DISABLED_RULE
+      }
+    };
+  }
+
+  return {
+    rules: {
+      'no-answer': { ...DISABLED_RULE, ...rules['no-answer'] },
+      'voicemail': { ...DISABLED_RULE, ...rules['voicemail'] },
+      'busy': { ...DISABLED_RULE, ...rules['busy'] },
+      'quick-hangup': { ...DISABLED_RULE, ...rules['quick-hangup'] },
+      'failed-to-initiate': { ...DISABLED_RULE, ...rules['failed-to-initiate'] }
+    }
+  };
+}
+
+/**
+ * Check whether a candidate returned by get_next_contacts_to_call may be dialed now.
+ * First attempts on a phone are always allowed.
+ */
+export function isRetryAllowed(
+  policy: RetryPolicy,
+  candidate: RetryCandidate,
+  schedule: WeeklySchedule,
+  timezone: string,
+  now: Date = new Date()
+): { allowed: boolean; reason?: string } {
+  if (!candidate.last_attempt_at) {
+    return { allowed: true };
+  }
+
+  if (!candidate.last_outcome) {
+    return { allowed: false, reason: 'last attempt is not retryable' };
+  }
+
+  const rule = policy.rules[candidate.last_outcome];
+  if (!rule?.enabled) {
+    return { allowed: false, reason: `retries disabled for ${candidate.last_outcome}` };
+  }
+
+  const lastAttempt = new Date(candidate.last_attempt_at);
+  const hoursSinceLast = (now.getTime() - lastAttempt.getTime()) / (60 * 60 * 1000);
+  if (hoursSinceLast < rule.min_spacing_hours) {
+    return { allowed: false, reason: `minimum spacing of ${rule.min_spacing_hours}h not reached` };
+  }
+
+  if (rule.max_attempts_per_phone !== null && candidate.phone_attempts >= rule.max_attempts_per_phone) {
+    return { allowed: false, reason: `max ${rule.max_attempts_per_phone} attempts per phone reached` };
+  }
+
+  if (rule.max_attempts_per_contact !== null && candidate.contact_attempts >= rule.max_attempts_per_contact) {
+    return { allowed: false, reason: `max ${rule.max_attempts_per_contact} attempts per contact reached` };
+  }
+
+  if (rule.rotate_time_of_day) {
+    const currentSegment = getScheduleSegment(schedule, timezone, now);
+    const lastSegment = getScheduleSegment(schedule, timezone, lastAttempt);
+    if (currentSegment !== null && currentSegment === lastSegment) {
+      return { allowed: false, reason: 'waiting for a different time of day' };
+    }
+  }
+
+  return { allowed: true };
+}
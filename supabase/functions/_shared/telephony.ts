@@ -0,0 +1,124 @@
+/**
+ * Telephony clients for process-campaign
+ * The Retell client places real calls and looks them up for the stuck-call reconciliation; the simulated
+ * client answers instantly with an outcome drawn from the account's call rates, so the campaign
+ * simulation runs the same dialing code without calls.
+ */
+
+import type { CallRates } from './call-rates.ts';
+import type { RetryOutcome } from './retry-policy.ts';
+import type { VoicemailOption } from './voicemail-drop.ts';
+
+export interface PhoneCallRequest {
+  from_number: string;
+  to_number: string;
+  override_agent_id: string;
+  retell_llm_dynamic_variables?: Record<string, string>;
+  // Per-call agent settings, used for the campaign's voicemail drop
+  agent_override?: { agent: { voicemail_option: VoicemailOption } };
+  webhook_url?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PhoneCallResponse {
+  ok: boolean;
+  call_id: string | null;
+  data: Record<string, unknown>;
+}
+
+export interface TelephonyClient {
+  createPhoneCall(request: PhoneCallRequest): Promise<PhoneCallResponse>;
+}
+
+export interface PhoneCallLookup {
+  ok: boolean;
+  status: number;
+  data: Record<string, unknown>;
+}
+
+export interface RetellTelephonyClient extends TelephonyClient {
+  // Current state of a call (Retell get-call): call_status, outcome, cost, transcript and analysis
+  getPhoneCall(callId: string): Promise<PhoneCallLookup>;
+}
+
+export interface SimulatedCall {
+  outcome: string;
+  retry_outcome: RetryOutcome | null;
+  duration_seconds: number;
+  cost_cents: number;
+  appointment: boolean;
+}
+
+export interface SimulatedTelephonyClient extends TelephonyClient {
+  getCall(callId: string): SimulatedCall | undefined;
+}
+
+const RETRY_OUTCOMES: string[] = ['no-answer', 'voicemail', 'busy', 'quick-hangup', 'failed-to-initiate'];
+
+export function createRetellTelephonyClient(apiKey: string): RetellTelephonyClient {
+  return {
+    async createPhoneCall(request) {
+      const response = await fetch('https://api.retellai.com/v2/create-phone-call', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(request)
+      });
+
+      const data: Record<string, unknown> = await response.json();
+      const callId = typeof data.call_id === 'string' ? data.call_id : null;
+      return { ok: response.ok && !!callId, call_id: callId, data };
+    },
+
+    async getPhoneCall(callId) {
+      const response = await fetch(`https://api.retellai.com/v2/get-call/${encodeURIComponent(callId)}`, {
+        headers: { 'Authorization': `Bearer ${apiKey}` }
+      });
+
+      const data: Record<string, unknown> = await response.json().catch(() => ({}));
+      return { ok: response.ok, status: response.status, data };
+    }
+  };
+}
+
+// mulberry32: small seeded PRNG so a simulation gives the same plan for the same inputs
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createSimulatedTelephonyClient(rates: CallRates, seed = 1): SimulatedTelephonyClient {
+  const random = seededRandom(seed);
+  const calls = new Map<string, SimulatedCall>();
+
+  return {
+    async createPhoneCall() {
+      let draw = random();
+      const rate = rates.outcomes.find(candidate => (draw -= candidate.probability) < 0)
+        || rates.outcomes[rates.outcomes.length - 1];
+
+      const callId = `simulated-${calls.size + 1}`;
+      calls.set(callId, {
+        outcome: rate.outcome,
+        retry_outcome: RETRY_OUTCOMES.includes(rate.outcome) ? rate.outcome as RetryOutcome : null,
+        duration_seconds: rate.duration_seconds,
+        cost_cents: rate.user_cost_cents,
+        appointment: rate.outcome === 'connected' && random() < rates.appointment_rate
+      });
+
+      return { ok: true, call_id: callId, data: { call_id: callId } };
+    },
+
+    getCall(callId) {
+      return calls.get(callId);
+    }
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Voicemail drop
+ * Decides per call what happens when it reaches voicemail: leave the campaign's script (with the
+ * contact's data filled in) or hang up. Campaigns that never set a rule keep the agent's own
+ * voicemail setting.
+ */
+
+import type { RetryPolicy } from './retry-policy.ts';
+
+export type VoicemailDropMode = 'agent' | 'never' | 'every_attempt' | 'final_attempt' | 'selected_attempts';
+
+export type VoicemailAction = 'leave_message' | 'hangup';
+
+export interface VoicemailDropPolicy {
+  mode: VoicemailDropMode;
+  // Attempt numbers of the contact (1 = first call) that leave a message in selected_attempts mode
+  attempts: number[];
+  script: string;
+}
+
+export interface VoicemailDropCandidate {
+  attempt_number?: number | null;
+  attempt_day?: number | null;
+  phone_attempts: number;
+  contact_attempts: number;
+}
+
+export interface VoicemailDecision {
+  action: VoicemailAction;
+  message: string | null;
+}
+
+// Retell voicemail_option of an agent, overridden per call
+export type VoicemailOption =
+  | { action: { type: 'hangup' } }
+  | { action: { type: 'static_text'; text: string } };
+
+const AGENT_DEFAULT: VoicemailDropPolicy = { mode: 'agent', attempts: [], script: '' };
+
+/**
+ * Read the voicemail rule from campaign settings (retry_policy.voicemail_drop)
+ */
+export function resolveVoicemailDrop(
+  settings: { retry_policy?: { voicemail_drop?: Partial<VoicemailDropPolicy> } } | null | undefined
+): VoicemailDropPolicy {
+  const saved = settings?.retry_policy?.voicemail_drop;
+  if (!saved?.mode) {
+    return AGENT_DEFAULT;
+  }
+
+  return {
+    mode: saved.mode,
+    attempts: Array.isArray(saved.attempts) ? saved.attempts.filter(attempt => Number.isInteger(attempt) && attempt > 0) : [],
+    script: typeof saved.script === 'string' ? saved.script : ''
+  };
+}
+
+/**
+ * Whether this call is the last one the retry policy allows if it reaches voicemail again:
+ * voicemail retries are off, an attempt limit is reached, or the next retry falls after the retry days
+ */
+export function isFinalVoicemailAttempt(
+  retryPolicy: RetryPolicy,
+  candidate: VoicemailDropCandidate,
+  maxRetryDays: number
+): boolean {
+  const rule = retryPolicy.rules['voicemail'];
+  if (!rule.enabled) {
+    return true;
+  }
+
+  if (rule.max_attempts_per_phone !== null && candidate.phone_attempts + 1 >= rule.max_attempts_per_phone) {
+    return true;
+  }
+
+  if (rule.max_attempts_per_contact !== null && candidate.contact_attempts + 1 >= rule.max_attempts_per_contact) {
+    return true;
+  }
+
+  const nextRetryDay = (candidate.attempt_day || 0) + Math.floor(rule.min_spacing_hours / 24);
+  return nextRetryDay >= maxRetryDays;
+}
+
+/**
+ * Fill {{placeholders}} of a script from the call's dynamic variables (unknown ones become empty)
+ */
+export function renderVoicemailScript(script: string, variables: Record<string, string>): string {
+  return script
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => variables[key.toLowerCase()] ?? '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/ +([,.!?])/g, '$1')
+    .trim();
+}
+
+/**
+ * Voicemail behaviour of one call, or null to keep the agent's own setting
+ */
+export function decideVoicemailAction(
+  policy: VoicemailDropPolicy,
+  retryPolicy: RetryPolicy,
+  candidate: VoicemailDropCandidate,
+  maxRetryDays: number,
+  variables: Record<string, string>
+): VoicemailDecision | null {
+  let leaveMessage: boolean;
+
+  switch (policy.mode) {
+    case 'never':
+      leaveMessage = false;
+      break;
+    case 'every_attempt':
+      leaveMessage = true;
+      break;
+    case 'final_attempt':
+      leaveMessage = isFinalVoicemailAttempt(retryPolicy, candidate, maxRetryDays);
+      break;
+    case 'selected_attempts':
+      leaveMessage = policy.attempts.includes(candidate.attempt_number || candidate.contact_attempts + 1);
+      break;
+    default:
+      return null;
+  }
+
+  if (!leaveMessage) {
+    return { action: 'hangup', message: null };
+  }
+
+  const message = renderVoicemailScript(policy.script, variables);
+  // Without a script there is nothing to leave, so the agent's own setting applies
+  return message ? { action: 'leave_message', message } : null;
+}
+
+/**
+ * Retell voicemail_option for a decision
+ */
+export function buildVoicemailOption(decision: VoicemailDecision): VoicemailOption {
+  return decision.action === 'leave_message' && decision.message
+    ? { action: { type: 'static_text', text: decision.message } }
+    : { action: { type: 'hangup' } };
+}
@@ -17,6 +17,15 @@ export interface WebhookError {
   next_retry_at?: string;
   created_at: string;
   resolved_at?: string;
+  dead_lettered_at?: string | null;
+  last_retry_at?: string;
+}
+
+// Backoff of the retry worker (retry-webhook-errors): 5, 10, 20... minutes after each failed retry
+export const WEBHOOK_RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+export function getWebhookRetryDelayMs(retryCount: number): number {
+  return WEBHOOK_RETRY_BASE_DELAY_MS * Math.pow(2, retryCount);
 }
 
 export class WebhookErrorHandler {
@@ -29,7 +38,9 @@ export class WebhookErrorHandler {
   }
   
   /**
-   * Log webhook error to database for monitoring and retry
+   * Log webhook error to database for monitoring and retry.
+   * A later failure of the same event replaces its row; errors that are not retryable are
+   * dead-lettered right away and only replayed by an admin.
    */
   async logError(
     webhookType: string,
@@ -49,7 +60,8 @@ export class WebhookErrorHandler {
         error_stack: error.stack,
         retry_count: 0,
         max_retries: retryable ? this.maxRetries : 0,
-        created_at: new Date().toISOString()
+        created_at: new Date().toISOString(),
+        dead_lettered_at: retryable ? null : new Date().toISOString()
       };
       
       if (retryable) {
@@ -60,7 +72,7 @@ export class WebhookErrorHandler {
       
       const { error: insertError } = await this.supabase
         .from('webhook_errors')
-        .insert(errorRecord);
+        .upsert({ ...errorRecord, resolved_at: null, next_retry_at: errorRecord.next_retry_at ?? null }, { onConflict: 'event_id' });
       
       if (insertError) {
         console.error('Failed to log webhook error:', insertError);
@@ -146,9 +158,9 @@ export class WebhookErrorHandler {
   }
   
   /**
-   * Mark an error as resolved
+   * Mark an error as resolved, e.g. when a later delivery of the same event applied it
    */
-  private async markErrorResolved(eventId: string): Promise<void> {
+  async markErrorResolved(eventId: string): Promise<void> {
     const { error } = await this.supabase
       .from('webhook_errors')
       .update({
@@ -0,0 +1,66 @@
+/**
+ * Webhook event log
+ * Records each webhook event in webhook_events before it is processed, so a redelivered event is
+ * acknowledged without running it twice. Retell events are keyed by call ID and event type.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// new: first delivery, retry: an earlier delivery failed or stalled, duplicate: do not process
+export type WebhookEventClaim = 'new' | 'retry' | 'duplicate';
+
+export function retellEventId(callId: string, eventType: string): string {
+  return `retell:${callId}:${eventType}`;
+}
+
+/**
+ * Claim an event for processing. When the log cannot be read the event is processed anyway:
+ * the handlers are safe to repeat, a lost event is not.
+ */
+export async function claimWebhookEvent(
+  supabase: ReturnType<typeof createClient>,
+  eventId: string,
+  source: string,
+  eventType: string,
+  callId: string | null,
+  payload: unknown
+): Promise<WebhookEventClaim> {
+  const { data, error } = await supabase.rpc('claim_webhook_event', {
+    p_event_id: eventId,
+    p_source: source,
+    p_event_type: eventType,
+    p_call_id: callId,
+    p_payload: payload
+  });
+
+  if (error) {
+    console.error(`Error claiming webhook event ${eventId}:`, error);
+    return 'new';
+  }
+
+  return data as WebhookEventClaim;
+}
+
+/**
+ * Mark a claimed event processed, or failed so the next delivery runs it again
+ */
+export async function finishWebhookEvent(
+  supabase: ReturnType<typeof createClient>,
+  eventId: string,
+  errorMessage: string | null = null
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('webhook_events')
+    .update({
+      status: errorMessage ? 'failed' : 'processed',
+      last_error: errorMessage,
+      processed_at: errorMessage ? null : now,
+      updated_at: now
+    })
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error(`Error finishing webhook event ${eventId}:`, error);
+  }
+}
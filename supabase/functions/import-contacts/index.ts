@@ -12,6 +12,7 @@ const STANDARD_VARIABLES = [
   { key: 'phone_number', label: 'Phone Number', category: 'Contact Information', required: true },
   { key: 'email', label: 'Email', category: 'Contact Information' },
   { key: 'company', label: 'Company', category: 'Contact Information' },
+  { key: 'timezone', label: 'Time Zone', category: 'Contact Information' },
   { key: 'property_address', label: 'Property Address', category: 'Property Details' },
   { key: 'city', label: 'City', category: 'Property Details' },
   { key: 'state', label: 'State', category: 'Property Details' },
@@ -51,6 +52,7 @@ function findVariableMatch(csvHeader: string): string | null {
     'phone': 'phone_number',
     'mobile': 'phone_number',
     'cell': 'phone_number',
+    'tz': 'timezone',
     'address': 'property_address',
     'propertyaddr': 'property_address',
     'listprice': 'listing_price',
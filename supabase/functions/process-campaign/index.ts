@@ -1,6 +1,25 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getRetellApiKeyForFunction } from '../_shared/retell-api-key.ts';
+import { resolveRetryPolicy, isRetryAllowed } from '../_shared/retry-policy.ts';
+import { getBlackoutReason } from '../_shared/campaign-schedule.ts';
+import {
+  getEarliestWindowStart,
+  isWithinSchedule,
+  resolveWeeklySchedule,
+  type ScheduledCampaign
+} from '../_shared/calling-schedule.ts';
+import { assignVariant } from '../_shared/agent-variants.ts';
+import { sendCampaignCompleted, type CampaignSummary } from '../_shared/email-service.ts';
+import { verifyAuth, verifyContactGroupAccess } from '../_shared/authorization.ts';
+import { ESTIMATED_CALL_COST_CENTS, getAvailableSlots, shareAccountSlots } from '../_shared/dial-pacing.ts';
+import { createRetellTelephonyClient, createSimulatedTelephonyClient } from '../_shared/telephony.ts';
+import { resolveCallRates, type CallOutcomeStats } from '../_shared/call-rates.ts';
+import { simulateCampaign, type SimulationCampaign, type SimulationPhone } from '../_shared/campaign-simulator.ts';
+import { logCampaignEvent } from '../_shared/campaign-events.ts';
+import { reconcileStaleAttempts } from '../_shared/call-reconciliation.ts';
+import { recordComplianceSkips } from '../_shared/compliance.ts';
+import { resolveVoicemailDrop, decideVoicemailAction, buildVoicemailOption } from '../_shared/voicemail-drop.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,136 +30,195 @@ const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 // API key will be retrieved per user
 
-interface RateLimiter {
-  campaignId: string;
-  windowStart: Date;
-  callsInWindow: number;
-  maxCallsPerMinute: number;
-  maxCallsPerHour: number;
+interface DialSlotResult {
+  allowed: boolean;
+  scope?: 'campaign' | 'account' | 'phone_number';
+  window?: 'minute' | 'hour' | 'day';
+  cap?: number;
+  used?: number;
 }
 
-const rateLimiters = new Map<string, RateLimiter>();
-
 // Helper function to check if within calling hours
-function isWithinCallingHours(campaign: any): boolean {
-  const now = new Date();
-  
+// An explicit timezone (e.g. a contact's local zone) overrides the campaign timezone
+function isWithinCallingHours(campaign: ScheduledCampaign, timezone?: string): boolean {
   // Get campaign timezone (default to EST for existing campaigns)
-  const campaignTimezone = campaign.timezone || 'America/New_York';
-  
-  // Convert current UTC time to campaign timezone
-  const currentTimeInTimezone = new Date(now.toLocaleString("en-US", {timeZone: campaignTimezone}));
-  const currentDay = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'][currentTimeInTimezone.getDay()];
-  
-  if (!campaign.active_days.includes(currentDay)) {
-    return false;
-  }
-
-  const currentTime = currentTimeInTimezone.getHours() * 60 + currentTimeInTimezone.getMinutes();
-  const [startHour, startMin] = campaign.calling_hours.start.split(':').map(Number);
-  const [endHour, endMin] = campaign.calling_hours.end.split(':').map(Number);
-  const startMinutes = startHour * 60 + startMin;
-  const endMinutes = endHour * 60 + endMin;
-
-  return currentTime >= startMinutes && currentTime <= endMinutes;
+  const campaignTimezone = timezone || campaign.timezone || 'America/New_York';
+  return isWithinSchedule(resolveWeeklySchedule(campaign), campaignTimezone);
 }
 
-// Helper function to get next calling time
-function getNextCallingTime(campaign: any): string {
+// Next calling time: the earliest window opening in any of the contacts' timezones,
+// shown in the campaign timezone
+function getNextCallingTime(campaign: ScheduledCampaign, timezones: string[]): string {
   const campaignTimezone = campaign.timezone || 'America/New_York';
-  const now = new Date();
-  const currentTimeInTimezone = new Date(now.toLocaleString("en-US", {timeZone: campaignTimezone}));
-  const currentDay = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'][currentTimeInTimezone.getDay()];
-  
-  const [startHour, startMin] = campaign.calling_hours.start.split(':').map(Number);
-  
-  // If today is an active day and we haven't passed today's start time yet
-  if (campaign.active_days.includes(currentDay)) {
-    const currentTime = currentTimeInTimezone.getHours() * 60 + currentTimeInTimezone.getMinutes();
-    const startMinutes = startHour * 60 + startMin;
-    
-    if (currentTime < startMinutes) {
-      // Return today's start time
-      const nextStart = new Date(currentTimeInTimezone);
-      nextStart.setHours(startHour, startMin, 0, 0);
-      return nextStart.toLocaleString("en-US", {
-        timeZone: campaignTimezone,
-        weekday: 'short',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      });
-    }
-  }
-  
-  // Find next active day
-  const daysOfWeek = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-  let daysToAdd = 1;
-  let nextDay = (currentTimeInTimezone.getDay() + daysToAdd) % 7;
-  
-  while (!campaign.active_days.includes(daysOfWeek[nextDay]) && daysToAdd < 7) {
-    daysToAdd++;
-    nextDay = (currentTimeInTimezone.getDay() + daysToAdd) % 7;
+  const nextStart = getEarliestWindowStart(resolveWeeklySchedule(campaign), timezones);
+
+  if (!nextStart) {
+    return 'No calling windows configured';
   }
-  
-  const nextStart = new Date(currentTimeInTimezone);
-  nextStart.setDate(nextStart.getDate() + daysToAdd);
-  nextStart.setHours(startHour, startMin, 0, 0);
-  
+
   return nextStart.toLocaleString("en-US", {
     timeZone: campaignTimezone,
     weekday: 'short',
     hour: 'numeric',
     minute: '2-digit',
-    hour12: true
+    hour12: true,
+    timeZoneName: 'short'
   });
 }
 
-// Smart retry time calculation
-function getSmartRetryTime(attemptDay: number, callingHours: any): string {
-  const [startHour, startMin] = callingHours.start.split(':').map(Number);
-  const [endHour, endMin] = callingHours.end.split(':').map(Number);
-  
-  const windowDuration = (endHour * 60 + endMin) - (startHour * 60 + startMin);
-  const segments = 3; // Morning, afternoon, evening
-  const segment = attemptDay % segments;
-  
-  const segmentDuration = windowDuration / segments;
-  const segmentStart = (startHour * 60 + startMin) + (segment * segmentDuration);
-  
-  // Add randomness within segment
-  const randomOffset = Math.random() * segmentDuration;
-  const targetMinutes = segmentStart + randomOffset;
-  
-  const hours = Math.floor(targetMinutes / 60);
-  const minutes = Math.floor(targetMinutes % 60);
-  
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+// Complete a campaign, store its summary and email the owner.
+// complete_campaign only returns a summary for the invocation that made the transition, so the
+// owner is notified once even if two runs overlap.
+async function completeCampaign(
+  supabase: ReturnType<typeof createClient>,
+  campaign: { id: string; name: string; user_id: string },
+  reason: CampaignSummary['completion_reason']
+): Promise<void> {
+  const { data: summary, error } = await supabase.rpc('complete_campaign', {
+    p_campaign_id: campaign.id,
+    p_completion_reason: reason
+  });
+
+  if (error) {
+    console.error(`Error completing campaign ${campaign.id}:`, error);
+    await logCampaignEvent(supabase, campaign.id, 'error', 'completion_failed', { message: error.message });
+    return;
+  }
+  if (!summary) return;
+
+  console.log(`Completed campaign ${campaign.id} - ${reason === 'end_date_reached' ? 'end date reached' : 'all contacts processed'}`);
+
+  const { data: userData } = await supabase.auth.admin.getUserById(campaign.user_id);
+  if (userData?.user?.email) {
+    await sendCampaignCompleted({
+      user_email: userData.user.email,
+      campaign_id: campaign.id,
+      campaign_name: campaign.name,
+      summary: summary as CampaignSummary
+    });
+  } else {
+    console.warn(`User ${campaign.user_id} has no email, skipping campaign completed notification`);
+  }
 }
 
-// Rate limiting check
-function checkRateLimit(campaignId: string): boolean {
-  const now = new Date();
-  let limiter = rateLimiters.get(campaignId);
-  
-  if (!limiter || (now.getTime() - limiter.windowStart.getTime()) > 60000) {
-    // New window or expired
-    limiter = {
-      campaignId,
-      windowStart: now,
-      callsInWindow: 0,
-      maxCallsPerMinute: 10,
-      maxCallsPerHour: 300
-    };
-    rateLimiters.set(campaignId, limiter);
+// Whether a campaign still has contacts to call now or later, or calls in progress
+async function hasRemainingContacts(
+  supabase: ReturnType<typeof createClient>,
+  campaignId: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('campaign_has_remaining_contacts', {
+    p_campaign_id: campaignId
+  });
+
+  // Never complete a campaign on a failed check
+  if (error) {
+    console.error('Error calling campaign_has_remaining_contacts:', error);
+    return true;
   }
-  
-  if (limiter.callsInWindow >= limiter.maxCallsPerMinute) {
-    return false;
+
+  return data !== false;
+}
+
+// Distinct local timezones of the campaign's contacts (falls back to the campaign timezone)
+async function getCampaignContactTimezones(
+  supabase: ReturnType<typeof createClient>,
+  campaign: { id: string; timezone?: string | null }
+): Promise<string[]> {
+  const { data, error } = await supabase.rpc('get_campaign_contact_timezones', {
+    p_campaign_id: campaign.id
+  });
+
+  if (error) {
+    console.error('Error calling get_campaign_contact_timezones:', error);
   }
-  
-  limiter.callsInWindow++;
-  return true;
+
+  const timezones = ((data || []) as { timezone: string | null }[])
+    .map(row => row.timezone)
+    .filter((timezone): timezone is string => Boolean(timezone));
+  return timezones.length > 0 ? timezones : [campaign.timezone || 'America/New_York'];
+}
+
+// A campaign stays within calling hours as long as any of its contacts' timezones is open
+function isAnyTimezoneWithinCallingHours(campaign: Parameters<typeof isWithinCallingHours>[0], timezones: string[]): boolean {
+  return timezones.some(timezone => isWithinCallingHours(campaign, timezone));
+}
+
+// Durable rate limiting - counters are shared across invocations in the database.
+// Checks the campaign, account and outbound phone number caps and counts the dial if all have room.
+async function acquireDialSlot(
+  supabase: ReturnType<typeof createClient>,
+  campaignId: string,
+  phoneNumberId: string | null
+): Promise<DialSlotResult> {
+  const { data, error } = await supabase.rpc('try_acquire_dial_slot', {
+    p_campaign_id: campaignId,
+    p_phone_number_id: phoneNumberId
+  });
+
+  if (error) {
+    // Fail closed so an unavailable limiter never results in unthrottled dialing
+    console.error(`Error acquiring dial slot for campaign ${campaignId}:`, error);
+    return { allowed: false };
+  }
+
+  return data as DialSlotResult;
+}
+
+interface SpendCapCheck {
+  allowed: boolean;
+  pause_reason: 'daily_budget_reached' | 'spend_cap_reached' | 'appointment_cost_cap_reached' | null;
+  cap_cents?: number | null;
+  spent_cents?: number | null;
+  remaining_calls?: number | null;
+}
+
+// Campaign spend caps (daily budget, total spend, cost per booked appointment)
+async function checkSpendCaps(
+  supabase: ReturnType<typeof createClient>,
+  campaignId: string
+): Promise<SpendCapCheck> {
+  const { data, error } = await supabase.rpc('check_campaign_spend_caps', {
+    p_campaign_id: campaignId,
+    p_estimated_call_cents: ESTIMATED_CALL_COST_CENTS
+  });
+
+  if (error) {
+    // Fail closed so a failed check never lets a campaign overspend
+    console.error(`Error checking spend caps for campaign ${campaignId}:`, error);
+    return { allowed: false, pause_reason: null };
+  }
+
+  return data as SpendCapCheck;
+}
+
+const formatCents = (cents: number | null | undefined) => `$${((cents || 0) / 100).toFixed(2)}`;
+
+interface CallerId {
+  phone_number_id: string;
+  phone_number: string;
+  match_type: 'area_code' | 'state' | 'none';
+}
+
+// Local presence - pick the campaign pool number that best matches the contact
+// (falls back to the agent's phone number when the campaign has no pool)
+async function selectCallerId(
+  supabase: ReturnType<typeof createClient>,
+  campaignId: string,
+  contactId: string,
+  toNumber: string
+): Promise<CallerId | null> {
+  const { data, error } = await supabase.rpc('select_caller_id', {
+    p_campaign_id: campaignId,
+    p_contact_id: contactId,
+    p_to_number: toNumber
+  });
+
+  if (error) {
+    console.error(`Error selecting caller ID for campaign ${campaignId}:`, error);
+    return null;
+  }
+
+  return (data as CallerId[] | null)?.[0] || null;
 }
 
 // Build dynamic variables from contact data and field mappings
@@ -225,6 +303,126 @@ async function getNextContactsToCall(
   }
 }
 
+// Account-wide concurrency of a user: ceiling, live calls, and the slots each campaign still to be
+// processed in this run could use
+interface AccountSlots {
+  limit: number;
+  used: number;
+  pending: Map<string, number>;
+}
+
+async function loadAccountSlots(
+  supabase: ReturnType<typeof createClient>,
+  userIds: string[]
+): Promise<Map<string, AccountSlots>> {
+  const accounts = new Map<string, AccountSlots>();
+
+  for (const userId of userIds) {
+    const [{ data: limit, error: limitError }, { data: usage, error: usageError }] = await Promise.all([
+      supabase.rpc('get_account_concurrency_limit', { p_user_id: userId }),
+      supabase.rpc('get_account_slot_usage', { p_user_id: userId })
+    ]);
+
+    if (limitError || usageError) {
+      console.error(`Error loading concurrency of account ${userId}:`, limitError || usageError);
+      continue;
+    }
+
+    const campaigns = (usage || []) as { campaign_id: string; status: string; concurrent_calls: number; active_calls: number }[];
+    accounts.set(userId, {
+      limit: limit as number,
+      used: campaigns.reduce((sum, campaign) => sum + campaign.active_calls, 0),
+      pending: new Map(
+        campaigns
+          .filter(campaign => campaign.status === 'active')
+          .map(campaign => [campaign.campaign_id, Math.max(0, campaign.concurrent_calls - campaign.active_calls)])
+      )
+    });
+  }
+
+  return accounts;
+}
+
+// A due callback is made once Retell accepts the call: whatever the outcome, later calls follow the
+// retry policy. A call that fails to start leaves the callback pending for the next run
+async function markCallbackDialed(
+  supabase: ReturnType<typeof createClient>,
+  callbackId: string,
+  attemptId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('scheduled_callbacks')
+    .update({ status: 'dialed', dialed_attempt_id: attemptId, updated_at: new Date().toISOString() })
+    .eq('id', callbackId)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error(`Error marking callback ${callbackId} as dialed:`, error);
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// Phone numbers of contact groups in dial order (paged, PostgREST caps a response at 1000 rows)
+async function getContactGroupPhones(
+  supabase: ReturnType<typeof createClient>,
+  contactGroupIds: string[]
+): Promise<(SimulationPhone & { is_duplicate: boolean })[]> {
+  const pageSize = 1000;
+  const phones: (SimulationPhone & { is_duplicate: boolean })[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .rpc('get_contact_group_phones', { p_contact_group_ids: contactGroupIds })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+    phones.push(...(data || []));
+    if (!data || data.length < pageSize) return phones;
+  }
+}
+
+// Dial plan estimate for the campaign wizard (see _shared/campaign-simulator.ts): the campaign settings and contact groups come from the request,
+// calls go to a simulated telephony client and nothing is written
+async function handleSimulation(
+  req: Request,
+  supabase: ReturnType<typeof createClient>,
+  body: { campaign?: SimulationCampaign; contact_group_ids?: string[]; days?: number }
+): Promise<Response> {
+  const { user, error: authError } = await verifyAuth(req);
+  if (authError || !user) return authError || jsonResponse({ error: 'Unauthorized' }, 401);
+
+  const contactGroupIds = Array.isArray(body.contact_group_ids) ? body.contact_group_ids : [];
+  if (!body.campaign || contactGroupIds.length === 0) {
+    return jsonResponse({ error: 'campaign and contact_group_ids are required' }, 400);
+  }
+
+  for (const groupId of contactGroupIds) {
+    if (!(await verifyContactGroupAccess(supabase, user.id, groupId))) {
+      return jsonResponse({ error: 'Contact group not found' }, 403);
+    }
+  }
+
+  const phones = await getContactGroupPhones(supabase, contactGroupIds);
+
+  const { data: stats, error: statsError } = await supabase.rpc('get_account_call_stats', {
+    p_user_id: user.id
+  });
+  if (statsError) throw statsError;
+
+  const rates = resolveCallRates((stats || []) as CallOutcomeStats[]);
+  const result = await simulateCampaign(
+    body.campaign,
+    phones.filter(phone => !phone.is_duplicate),
+    createSimulatedTelephonyClient(rates),
+    { days: body.days }
+  );
+
+  console.log(`Simulated campaign for user ${user.id}: ${result.totals.dials} dials over ${result.days.length} days (${result.stop_reason})`);
+  return jsonResponse({ ...result, rates });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -232,8 +430,48 @@ serve(async (req) => {
 
   try {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => ({}));
+    if (body?.mode === 'simulate') {
+      return await handleSimulation(req, supabase, body);
+    }
     
-    // First, check for campaigns paused due to calling hours and resume if now within hours
+    const nowIso = new Date().toISOString();
+
+    // Look up calls still in progress with Retell, so lost webhooks free their slots with the real outcome
+    const reconciliation = await reconcileStaleAttempts(supabase);
+    if (reconciliation.checked > 0) {
+      console.log(`Reconciled ${reconciliation.checked} stale calls: ${reconciliation.applied} ended, ${reconciliation.failed} failed, ${reconciliation.ongoing} still in progress`);
+    }
+
+    // Complete campaigns whose end date has passed
+    const { data: endedCampaigns } = await supabase
+      .from('campaigns')
+      .select('id, name, user_id')
+      .in('status', ['scheduled', 'active', 'paused'])
+      .lte('ends_at', nowIso);
+
+    for (const campaign of endedCampaigns || []) {
+      await completeCampaign(supabase, campaign, 'end_date_reached');
+    }
+
+    // Activate scheduled campaigns whose start date has arrived
+    const { data: startedCampaigns } = await supabase
+      .from('campaigns')
+      .update({
+        status: 'active',
+        started_at: nowIso,
+        updated_at: nowIso
+      })
+      .eq('status', 'scheduled')
+      .lte('starts_at', nowIso)
+      .select('id');
+
+    for (const campaign of startedCampaigns || []) {
+      console.log(`Activated scheduled campaign ${campaign.id} - start date reached`);
+    }
+
+    // Next, check for campaigns paused due to calling hours, a blackout date or the daily budget and resume when allowed
     const { data: pausedCampaigns } = await supabase
       .from('campaigns')
       .select(`
@@ -245,11 +483,24 @@ serve(async (req) => {
         )
       `)
       .eq('status', 'paused')
-      .eq('paused_reason', 'outside_calling_hours');
+      .in('paused_reason', ['outside_calling_hours', 'blackout_date', 'daily_budget_reached']);
 
     for (const campaign of pausedCampaigns || []) {
-      if (isWithinCallingHours(campaign)) {
-        console.log(`Resuming campaign ${campaign.id} - now within calling hours`);
+      if (getBlackoutReason(campaign)) {
+        continue;
+      }
+
+      // The daily budget resets at midnight in the campaign timezone
+      if (campaign.paused_reason === 'daily_budget_reached') {
+        const spendCheck = await checkSpendCaps(supabase, campaign.id);
+        if (spendCheck.pause_reason) {
+          continue;
+        }
+      }
+
+      const contactTimezones = await getCampaignContactTimezones(supabase, campaign);
+      if (isAnyTimezoneWithinCallingHours(campaign, contactTimezones)) {
+        console.log(`Resuming campaign ${campaign.id} - now within calling hours, not a blackout date and within budget`);
         await supabase
           .from('campaigns')
           .update({ 
@@ -281,6 +532,16 @@ serve(async (req) => {
           contact_group_id,
           selected_fields,
           field_mappings
+        ),
+        campaign_agent_variants (
+          id,
+          label,
+          weight,
+          agent_id,
+          user_agents (
+            retell_agent_id,
+            name
+          )
         )
       `)
       .eq('status', 'active');
@@ -289,12 +550,57 @@ serve(async (req) => {
 
     console.log(`Processing ${campaigns?.length || 0} active campaigns`);
 
+    // Account-wide concurrency ceilings. The campaign order rotates every run, so slots that do not
+    // divide evenly between an account's campaigns go to each of them in turn.
+    const accountSlots = await loadAccountSlots(supabase, [...new Set((campaigns || []).map(campaign => campaign.user_id))]);
+    const sortedCampaigns = [...(campaigns || [])].sort((a, b) => a.id.localeCompare(b.id));
+    const rotation = sortedCampaigns.length > 0 ? Math.floor(Date.now() / 60000) % sortedCampaigns.length : 0;
+    const orderedCampaigns = [...sortedCampaigns.slice(rotation), ...sortedCampaigns.slice(0, rotation)];
+
     // Process each campaign
-    for (const campaign of campaigns || []) {
+    for (const campaign of orderedCampaigns) {
+      // From here on this campaign no longer waits for a share of the account's slots
+      const account = accountSlots.get(campaign.user_id);
+      account?.pending.delete(campaign.id);
+
+      // Skip blackout dates and holidays (in the campaign timezone)
+      const blackoutReason = getBlackoutReason(campaign);
+      if (blackoutReason) {
+        console.log(`Campaign ${campaign.id} not dialing today (${blackoutReason}) - pausing campaign`);
+        await supabase
+          .from('campaigns')
+          .update({
+            status: 'paused',
+            paused_reason: 'blackout_date',
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', campaign.id);
+        continue;
+      }
+
+      // 💰 Campaign spend caps - pause once a cap is reached, hold while in-flight calls use up the budget
+      const spendCheck = await checkSpendCaps(supabase, campaign.id);
+      if (spendCheck.pause_reason) {
+        console.log(`Campaign ${campaign.id} ${spendCheck.pause_reason} (${formatCents(spendCheck.spent_cents)} spent, cap ${formatCents(spendCheck.cap_cents)}) - pausing campaign`);
+        await supabase
+          .from('campaigns')
+          .update({
+            status: 'paused',
+            paused_reason: spendCheck.pause_reason,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', campaign.id);
+        continue;
+      }
+      if (!spendCheck.allowed) {
+        console.log(`Campaign ${campaign.id} holding - calls in progress may use the remaining budget`);
+        continue;
+      }
+
       // 🔒 ATOMIC CREDIT CHECK - Prevents concurrent race conditions
       const { data: creditCheck } = await supabase.rpc('check_and_reserve_credits', {
         p_user_id: campaign.user_id,
-        p_estimated_cost_cents: 100 // Estimate $1 per call maximum
+        p_estimated_cost_cents: ESTIMATED_CALL_COST_CENTS // Estimate $1 per call maximum
       });
 
       if (!creditCheck?.success || !creditCheck?.can_proceed) {
@@ -322,9 +628,10 @@ serve(async (req) => {
                            creditCheck.warning_level === 'warning' ? '⚡' : '✅';
       
       console.log(`Campaign ${campaign.id} - ${warningEmoji} ${creditCheck.message} (Balance: ${balanceFormatted})`);
-      if (!isWithinCallingHours(campaign)) {
-        console.log(`Campaign ${campaign.id} outside calling hours - pausing campaign`);
-        const nextCallingTime = getNextCallingTime(campaign);
+      const contactTimezones = await getCampaignContactTimezones(supabase, campaign);
+      if (!isAnyTimezoneWithinCallingHours(campaign, contactTimezones)) {
+        const nextCallingTime = getNextCallingTime(campaign, contactTimezones);
+        console.log(`Campaign ${campaign.id} outside calling hours in all contact timezones (${contactTimezones.join(', ')}) - pausing campaign until ${nextCallingTime}`);
         await supabase
           .from('campaigns')
           .update({ 
@@ -336,56 +643,69 @@ serve(async (req) => {
         continue;
       }
 
-      if (!checkRateLimit(campaign.id)) {
-        console.log(`Campaign ${campaign.id} rate limited`);
-        continue;
-      }
-
-      // Clean up old stuck calls first (older than 10 minutes)
-      await supabase
-        .from('campaign_contact_attempts')
-        .update({ call_status: 'failed' })
-        .eq('campaign_id', campaign.id)
-        .eq('call_status', 'in-progress')
-        .lt('created_at', new Date(Date.now() - 10 * 60 * 1000).toISOString());
-
-      // Get current active calls count (only truly active calls from last 60 seconds)
+      // Get current active calls count - every call in progress, stuck ones were reconciled with Retell above
       const { count: activeCallsCount } = await supabase
         .from('campaign_contact_attempts')
         .select('*', { count: 'exact', head: true })
         .eq('campaign_id', campaign.id)
-        .eq('call_status', 'in-progress')
-        .gte('created_at', new Date(Date.now() - 60 * 1000).toISOString());
+        .eq('call_status', 'in-progress');
 
       const currentlyActive = activeCallsCount || 0;
-      const availableSlots = campaign.concurrent_calls - currentlyActive;
+      // Never start more calls than the remaining spend budget covers
+      const campaignSlots = getAvailableSlots(campaign.concurrent_calls, currentlyActive, spendCheck.remaining_calls);
+      // Nor more than this campaign's fair share of the account's free slots
+      const availableSlots = account && campaignSlots > 0
+        ? shareAccountSlots(account.limit - account.used, [campaignSlots, ...account.pending.values()])[0]
+        : campaignSlots;
+
+      if (campaignSlots > 0 && availableSlots <= 0) {
+        console.log(`Campaign ${campaign.id} waiting for account slots: ${account?.used}/${account?.limit} in use across campaigns`);
+        await logCampaignEvent(supabase, campaign.id, 'cap_reached', 'account_concurrency', {
+          scope: 'account',
+          cap: account?.limit,
+          used: account?.used
+        });
+        continue;
+      }
 
       if (availableSlots <= 0) {
         console.log(`Campaign ${campaign.id} at concurrent limit: ${currentlyActive}/${campaign.concurrent_calls}`);
         continue;
       }
 
-      // Get campaign contacts and field mappings
-      const campaignContact = campaign.campaign_contacts?.[0];
-      if (!campaignContact?.contact_group_id) {
+      // Contact groups of the campaign, each with its own field mappings
+      const campaignGroups = (campaign.campaign_contacts || []).filter(group => group.contact_group_id);
+      if (campaignGroups.length === 0) {
         console.log(`Campaign ${campaign.id} has no contact group configured`);
         continue;
       }
+      const fieldMappingsByGroup = new Map(campaignGroups.map(group => [group.contact_group_id, group.field_mappings]));
 
       // Get next contacts to call using improved logic
-      const contactsToProcess = await getNextContactsToCall(
+      const candidates = await getNextContactsToCall(
         supabase,
         campaign.id,
         availableSlots,
         campaign.max_retry_days || 0
       );
 
+      // Contacts a state calling rule blocks right now are logged, not dialed
+      const contactsToProcess = candidates.filter(contact => !contact.compliance_rule);
+      await recordComplianceSkips(supabase, campaign.id, candidates.filter(contact => contact.compliance_rule));
+
       if (contactsToProcess.length === 0) {
+        // Nothing left to dial now or on a later retry, and no call still running
+        if (!(await hasRemainingContacts(supabase, campaign.id))) {
+          await completeCampaign(supabase, campaign, 'all_contacts_processed');
+          continue;
+        }
         console.log(`Campaign ${campaign.id} has no contacts to process`);
         continue;
       }
 
-      const fieldMappings = campaignContact.field_mappings;
+      const retryPolicy = resolveRetryPolicy(campaign.settings);
+      const voicemailDrop = resolveVoicemailDrop(campaign.settings);
+      const weeklySchedule = resolveWeeklySchedule(campaign);
       console.log(`Campaign ${campaign.id}: Processing ${contactsToProcess.length} contacts (${currentlyActive + contactsToProcess.length}/${campaign.concurrent_calls} total active)`);
 
       // Process contacts respecting concurrency
@@ -399,6 +719,8 @@ serve(async (req) => {
         }
 
         // Get phone number and metadata from the function result
+        // (get_next_contacts_to_call only returns contacts inside their own local calling window
+        // and, for states with calling-law rules, inside the state's hours and daily attempt limit)
         const phoneNumber = contact.phone_number;
         const phoneIndex = contact.phone_index || 0;
         const totalPhones = contact.total_phones || 1;
@@ -408,6 +730,55 @@ serve(async (req) => {
           continue;
         }
 
+        // Enforce the campaign retry policy before dialing a retry (callbacks the lead asked for are exempt)
+        const retryCheck = contact.callback_id ? { allowed: true } : isRetryAllowed(
+          retryPolicy,
+          contact,
+          weeklySchedule,
+          contact.timezone || campaign.timezone || 'America/New_York'
+        );
+        if (!retryCheck.allowed) {
+          console.log(`Skipping retry for contact ${contact.contact_id} (${phoneNumber}): ${retryCheck.reason}`);
+          continue;
+        }
+
+        // Caller ID for this contact (local presence from the campaign pool)
+        const callerId = await selectCallerId(supabase, campaign.id, contact.contact_id, phoneNumber);
+        if (!callerId) {
+          console.log(`Campaign ${campaign.id}: No caller ID available (no numbers configured or all at their caps)`);
+          break;
+        }
+
+        // Durable per-minute/hour/day limits for the campaign, account and caller ID
+        const dialSlot = await acquireDialSlot(supabase, campaign.id, callerId.phone_number_id);
+        if (!dialSlot.allowed) {
+          console.log(`Campaign ${campaign.id} rate limited${dialSlot.scope ? ` by ${dialSlot.scope} ${dialSlot.window} cap (${dialSlot.used}/${dialSlot.cap})` : ''}`);
+          if (dialSlot.scope) {
+            await logCampaignEvent(supabase, campaign.id, 'cap_reached', `${dialSlot.scope}_per_${dialSlot.window}`, {
+              scope: dialSlot.scope,
+              window: dialSlot.window,
+              cap: dialSlot.cap,
+              used: dialSlot.used
+            });
+          }
+          break;
+        }
+
+        // A/B split campaigns call each contact with the agent of its variant
+        const variant = assignVariant(campaign.campaign_agent_variants, campaign.id, contact.contact_id);
+        const agentId = variant ? variant.user_agents?.retell_agent_id : campaign.user_agents?.retell_agent_id;
+
+        // Build dynamic variables from contact data and the field mappings of the contact's group
+        const dynamicVariables = buildDynamicVariables(contact, fieldMappingsByGroup.get(contact.contact_group_id));
+
+        // Leave the campaign's voicemail script or hang up, depending on the attempt (null = agent setting)
+        const voicemail = decideVoicemailAction(
+          voicemailDrop,
+          retryPolicy,
+          contact,
+          campaign.max_retry_days || 0,
+          dynamicVariables
+        );
 
         // Create attempt record first
         const { data: attempt, error: attemptError } = await supabase
@@ -418,8 +789,14 @@ serve(async (req) => {
             phone_number: phoneNumber,
             phone_index: phoneIndex,
             total_phones: totalPhones,
-            attempt_number: 1,
-            attempt_day: 0,
+            attempt_number: contact.attempt_number || 1,
+            attempt_day: contact.attempt_day || 0,
+            from_phone_number_id: callerId.phone_number_id,
+            from_phone_number: callerId.phone_number,
+            variant_id: variant?.id ?? null,
+            agent_id: variant ? variant.agent_id : campaign.agent_id,
+            voicemail_action: voicemail?.action ?? null,
+            voicemail_message: voicemail?.message ?? null,
             call_status: 'in-progress'
           })
           .select()
@@ -427,26 +804,24 @@ serve(async (req) => {
 
         if (attemptError) {
           console.error('Error creating attempt:', attemptError);
+          await logCampaignEvent(supabase, campaign.id, 'error', 'attempt_not_created', { message: attemptError.message });
           continue;
         }
 
-        // Build dynamic variables from contact data and field mappings
-        const dynamicVariables = buildDynamicVariables(contact, fieldMappings);
-
-        // Get phone number and agent info
-        const fromPhoneNumber = campaign.user_agents?.phone_numbers?.phone_number;
-        const agentId = campaign.user_agents?.retell_agent_id;
+        // Get phone number
+        const fromPhoneNumber = callerId.phone_number;
 
         if (!fromPhoneNumber || !agentId) {
           console.error(`Campaign ${campaign.id} missing phone number or agent ID`);
           await supabase
             .from('campaign_contact_attempts')
-            .update({ call_status: 'failed', retell_call_data: { error: 'Missing phone number or agent ID' } })
+            .update({ call_status: 'failed', retry_outcome: 'failed-to-initiate', disposition: 'failed-to-connect', retell_call_data: { error: 'Missing phone number or agent ID' } })
             .eq('id', attempt.id);
+          await logCampaignEvent(supabase, campaign.id, 'error', 'missing_phone_or_agent', { variant_id: variant?.id ?? null });
           continue;
         }
 
-        console.log(`Calling ${phoneNumber} from ${fromPhoneNumber} with agent ${agentId}`);
+        console.log(`Calling ${phoneNumber} from ${fromPhoneNumber} (${callerId.match_type} match) with agent ${agentId}${variant ? ` (variant ${variant.label})` : ''}`);
         console.log(`Dynamic variables:`, dynamicVariables);
 
         // Get user-specific or global Retell API key for this campaign
@@ -455,46 +830,45 @@ serve(async (req) => {
           console.error(`No Retell API key available for user ${campaign.user_id}, campaign ${campaign.id}`);
           await supabase
             .from('campaign_contact_attempts')
-            .update({ call_status: 'failed', retell_call_data: { error: 'Retell API key not configured' } })
+            .update({ call_status: 'failed', retry_outcome: 'failed-to-initiate', disposition: 'failed-to-connect', retell_call_data: { error: 'Retell API key not configured' } })
             .eq('id', attempt.id);
+          await logCampaignEvent(supabase, campaign.id, 'error', 'retell_api_key_missing');
           continue;
         }
 
         // Make Retell API call
         try {
-          const retellResponse = await fetch('https://api.retellai.com/v2/create-phone-call', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${retellApiKey}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              from_number: fromPhoneNumber,
-              to_number: phoneNumber,
-              override_agent_id: agentId,
-              retell_llm_dynamic_variables: dynamicVariables,
-              webhook_url: `${supabaseUrl}/functions/v1/retell-webhook`,
-              metadata: {
-                campaign_id: campaign.id,
-                contact_id: contact.contact_id,
-                attempt_id: attempt.id
-              }
-            })
+          const telephony = createRetellTelephonyClient(retellApiKey);
+          const { ok, call_id: retellCallId, data: retellData } = await telephony.createPhoneCall({
+            from_number: fromPhoneNumber,
+            to_number: phoneNumber,
+            override_agent_id: agentId,
+            retell_llm_dynamic_variables: dynamicVariables,
+            ...(voicemail && { agent_override: { agent: { voicemail_option: buildVoicemailOption(voicemail) } } }),
+            webhook_url: `${supabaseUrl}/functions/v1/retell-webhook`,
+            metadata: {
+              campaign_id: campaign.id,
+              contact_id: contact.contact_id,
+              attempt_id: attempt.id,
+              variant_id: variant?.id ?? null
+            }
           });
 
-          const retellData = await retellResponse.json();
-
-          if (retellResponse.ok && retellData.call_id) {
+          if (ok) {
             // Update attempt with call ID
             await supabase
               .from('campaign_contact_attempts')
               .update({
-                retell_call_id: retellData.call_id,
+                retell_call_id: retellCallId,
                 actual_time: new Date().toTimeString().split(' ')[0],
                 retell_call_data: retellData
               })
               .eq('id', attempt.id);
 
+            if (contact.callback_id) {
+              await markCallbackDialed(supabase, contact.callback_id, attempt.id);
+            }
+
             // INCREMENT THE COUNTER - THIS IS THE KEY FIX
             callsInitiated++;
             console.log(`Call initiated successfully for contact ${contact.contact_id} - ${phoneNumber} (${callsInitiated}/${availableSlots})`);
@@ -504,11 +878,17 @@ serve(async (req) => {
               .from('campaign_contact_attempts')
               .update({
                 call_status: 'failed',
+                retry_outcome: 'failed-to-initiate',
+                disposition: 'failed-to-connect',
                 retell_call_data: retellData
               })
               .eq('id', attempt.id);
 
             console.error('Retell API error:', retellData);
+            await logCampaignEvent(supabase, campaign.id, 'error', 'retell_call_rejected', {
+              attempt_id: attempt.id,
+              response: retellData
+            });
           }
         } catch (error) {
           console.error('Error calling Retell API:', error);
@@ -517,11 +897,21 @@ serve(async (req) => {
             .from('campaign_contact_attempts')
             .update({
               call_status: 'failed',
+              retry_outcome: 'failed-to-initiate',
+              disposition: 'failed-to-connect',
               retell_call_data: { error: error.message }
             })
             .eq('id', attempt.id);
+          await logCampaignEvent(supabase, campaign.id, 'error', 'retell_request_failed', {
+            attempt_id: attempt.id,
+            message: error.message
+          });
         }
       }
+
+      if (account) {
+        account.used += callsInitiated;
+      }
     }
 
     return new Response(
@@ -0,0 +1,249 @@
+/**
+ * Retry failed webhook deliveries
+ *
+ * Scheduled (pg_cron, service role key): re-runs the stored payload of each due webhook_errors row
+ * through the Retell or Stripe handler. A row is resolved when the event applies, or was already
+ * applied by a later delivery; a failed retry is rescheduled with exponential backoff and the row is
+ * dead-lettered once max_retries retries failed.
+ * Each run also sweeps Retell events left processing by a delivery that died mid-event (no later
+ * delivery claimed them again) and runs them, logging a failure to webhook_errors like retell-webhook.
+ * Admins replay a single row, dead-lettered or not, with { error_id }.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireAdmin } from "../_shared/authorization.ts";
+import {
+  getWebhookRetryDelayMs,
+  isRetryableError,
+  WebhookErrorHandler,
+  type WebhookError
+} from "../_shared/webhook-error-handler.ts";
+import { claimWebhookEvent, finishWebhookEvent, retellEventId } from "../_shared/webhook-events.ts";
+import { handleRetellEvent, type RetellWebhookPayload } from "../_shared/retell-events.ts";
+import { handleStripeEvent } from "../_shared/stripe-events.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Rows retried per scheduled run
+const BATCH_SIZE = 20;
+
+// Same as the p_stale_after default of claim_webhook_event
+const STALLED_EVENT_MS = 5 * 60 * 1000;
+
+type ReplayOutcome = { ok: true; note: string } | { ok: false; error: string };
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Retell: the event log decides whether the event still needs applying
+async function replayRetellEvent(
+  supabase: ReturnType<typeof createClient>,
+  payload: RetellWebhookPayload
+): Promise<ReplayOutcome> {
+  const callId = payload?.call?.call_id;
+  if (!callId || !payload.event) {
+    return { ok: false, error: 'Stored payload has no call or event' };
+  }
+
+  const eventId = retellEventId(callId, payload.event);
+  const claim = await claimWebhookEvent(supabase, eventId, 'retell', payload.event, callId, payload);
+  if (claim === 'duplicate') {
+    return { ok: true, note: 'already processed' };
+  }
+
+  let failure: string | null = null;
+  await handleRetellEvent(supabase, payload, async (_eventType, error) => {
+    failure = error.message;
+  });
+  await finishWebhookEvent(supabase, eventId, failure);
+
+  return failure ? { ok: false, error: failure } : { ok: true, note: 'applied' };
+}
+
+async function replayStripeEvent(
+  supabase: ReturnType<typeof createClient>,
+  row: WebhookError
+): Promise<ReplayOutcome> {
+  const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+    apiVersion: '2023-10-16',
+  });
+
+  const result = await handleStripeEvent(stripe, supabase, row.payload as Stripe.Event);
+  if (result === 'missing_metadata') {
+    return { ok: false, error: 'Checkout session is missing its metadata' };
+  }
+  return { ok: true, note: result === 'duplicate' ? 'already processed' : 'applied' };
+}
+
+async function replay(supabase: ReturnType<typeof createClient>, row: WebhookError): Promise<ReplayOutcome> {
+  try {
+    switch (row.webhook_type) {
+      case 'retell':
+        return await replayRetellEvent(supabase, row.payload as RetellWebhookPayload);
+      case 'stripe':
+        return await replayStripeEvent(supabase, row);
+      default:
+        return { ok: false, error: `No handler for ${row.webhook_type} webhooks` };
+    }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Resolve the row, or count the failed retry and reschedule or dead-letter it
+async function recordOutcome(
+  supabase: ReturnType<typeof createClient>,
+  row: WebhookError,
+  outcome: ReplayOutcome
+): Promise<'resolved' | 'rescheduled' | 'dead_lettered'> {
+  const now = new Date();
+  const retryCount = row.retry_count + 1;
+
+  if (outcome.ok) {
+    await supabase
+      .from('webhook_errors')
+      .update({
+        retry_count: retryCount,
+        last_retry_at: now.toISOString(),
+        resolved_at: now.toISOString(),
+        next_retry_at: null,
+        dead_lettered_at: null
+      })
+      .eq('id', row.id);
+    return 'resolved';
+  }
+
+  const exhausted = retryCount >= row.max_retries;
+  await supabase
+    .from('webhook_errors')
+    .update({
+      retry_count: retryCount,
+      last_retry_at: now.toISOString(),
+      error_message: outcome.error,
+      next_retry_at: exhausted ? null : new Date(now.getTime() + getWebhookRetryDelayMs(retryCount - 1)).toISOString(),
+      dead_lettered_at: exhausted ? (row.dead_lettered_at || now.toISOString()) : null
+    })
+    .eq('id', row.id);
+  return exhausted ? 'dead_lettered' : 'rescheduled';
+}
+
+// Retell events still processing long after their claim; a failed run goes to webhook_errors
+async function sweepStalledEvents(supabase: ReturnType<typeof createClient>): Promise<number> {
+  const { data: events, error } = await supabase
+    .from('webhook_events')
+    .select('event_id, event_type, payload')
+    .eq('source', 'retell')
+    .eq('status', 'processing')
+    .lt('updated_at', new Date(Date.now() - STALLED_EVENT_MS).toISOString())
+    .order('updated_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  const errorHandler = new WebhookErrorHandler(supabaseUrl, supabaseServiceKey);
+  for (const event of events || []) {
+    let outcome: ReplayOutcome;
+    try {
+      outcome = await replayRetellEvent(supabase, event.payload as RetellWebhookPayload);
+    } catch (replayError) {
+      outcome = { ok: false, error: replayError instanceof Error ? replayError.message : String(replayError) };
+    }
+
+    if (!outcome.ok) {
+      const failure = new Error(outcome.error);
+      await errorHandler.logError('retell', event.event_type, event.event_id, event.payload, failure, isRetryableError(failure));
+    }
+    console.log(`Stalled webhook retell ${event.event_type} (${event.event_id}): ${outcome.ok ? outcome.note : outcome.error}`);
+  }
+
+  return events?.length || 0;
+}
+
+async function processDueErrors(supabase: ReturnType<typeof createClient>): Promise<Response> {
+  const { data: rows, error } = await supabase
+    .from('webhook_errors')
+    .select('*')
+    .is('resolved_at', null)
+    .is('dead_lettered_at', null)
+    .lte('next_retry_at', new Date().toISOString())
+    .order('next_retry_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  const counts = { resolved: 0, rescheduled: 0, dead_lettered: 0 };
+  for (const row of (rows || []) as WebhookError[]) {
+    const outcome = await replay(supabase, row);
+    const result = await recordOutcome(supabase, row, outcome);
+    counts[result]++;
+    console.log(`Webhook ${row.webhook_type} ${row.event_type} (${row.event_id}): ${result}${outcome.ok ? ` - ${outcome.note}` : ` - ${outcome.error}`}`);
+  }
+
+  const stalled = await sweepStalledEvents(supabase);
+
+  return jsonResponse({ success: true, retried: rows?.length || 0, ...counts, stalled });
+}
+
+const replayForAdmin = requireAdmin(async (req, user) => {
+  const body = await req.json().catch(() => ({}));
+  if (typeof body.error_id !== 'string') {
+    return jsonResponse({ error: 'error_id is required' }, 400);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const { data: row, error } = await supabase
+    .from('webhook_errors')
+    .select('*')
+    .eq('id', body.error_id)
+    .single();
+
+  if (error || !row) {
+    return jsonResponse({ error: 'Webhook error not found' }, 404);
+  }
+  if (row.resolved_at) {
+    return jsonResponse({ error: 'This event is already resolved' }, 409);
+  }
+
+  const outcome = await replay(supabase, row as WebhookError);
+  const result = await recordOutcome(supabase, row as WebhookError, outcome);
+  console.log(`Admin ${user.id} replayed webhook ${row.event_id}: ${result}`);
+
+  return jsonResponse(outcome.ok
+    ? { success: true, result, note: outcome.note }
+    : { success: false, result, error: outcome.error });
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.clone().json().catch(() => ({}));
+    if (body.error_id) {
+      return await replayForAdmin(req);
+    }
+
+    // The scheduled run authenticates with the service role key
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    return await processDueErrors(createClient(supabaseUrl, supabaseServiceKey));
+  } catch (error) {
+    console.error('Error in retry-webhook-errors function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
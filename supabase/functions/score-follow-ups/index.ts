@@ -0,0 +1,84 @@
+/**
+ * Score follow-up potential of past calls
+ *
+ * Scheduled (pg_cron, service role key): scores a batch of analyzed calls, across accounts, that were
+ * never scored (retell-webhook queues each call once its analysis is stored) or were scored with an
+ * older rubric (get_follow_up_scoring_queue).
+ * A signed-in user runs the same for their own calls after changing their rubric; the response says
+ * whether calls are left so the dashboard can call again.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireAuth } from "../_shared/authorization.ts";
+import { scoreAttemptFollowUp } from "../_shared/follow-up-scoring.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Calls scored per request
+const BATCH_SIZE = 20;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+async function scoreQueuedCalls(
+  supabase: ReturnType<typeof createClient>,
+  userId: string | null
+): Promise<Response> {
+  const { data: queue, error } = await supabase.rpc('get_follow_up_scoring_queue', {
+    p_limit: BATCH_SIZE,
+    p_user_id: userId
+  });
+
+  if (error) throw error;
+
+  const rows = (queue || []) as { attempt_id: string }[];
+  let scored = 0;
+  for (const row of rows) {
+    if (await scoreAttemptFollowUp(supabase, row.attempt_id)) {
+      scored++;
+    }
+  }
+
+  console.log(`Scored follow-up potential of ${scored}/${rows.length} calls${userId ? ` for user ${userId}` : ''}`);
+
+  // Calls that failed to score stay queued, so only a full batch of successes means more are waiting
+  return jsonResponse({
+    success: true,
+    scored,
+    failed: rows.length - scored,
+    more: rows.length === BATCH_SIZE && scored > 0
+  });
+}
+
+const scoreForUser = requireAuth(async (_req, user) => {
+  return await scoreQueuedCalls(createClient(supabaseUrl, supabaseServiceKey), user.id);
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The scheduled run authenticates with the service role key
+    if (req.headers.get('Authorization') === `Bearer ${supabaseServiceKey}`) {
+      return await scoreQueuedCalls(createClient(supabaseUrl, supabaseServiceKey), null);
+    }
+
+    return await scoreForUser(req);
+  } catch (error) {
+    console.error('Error in score-follow-ups function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -19,6 +19,7 @@ import {
   formatValidationErrors
 } from '../_shared/placeholder-validator.ts'
 import type { PlaceholderSchema } from '../_shared/placeholder-types.ts'
+import { buildPostCallAnalysisData, parseExtractionSchema } from '../_shared/post-call-extraction.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -253,15 +254,15 @@ serve(async (req) => {
       llmUpdateData.begin_message = configuration.advanced.beginMessage
     }
     
+    // Post-call analysis fields: the agent's extraction schema followed by the free-form fields
+    const extractionSchema = parseExtractionSchema(agent.extraction_schema)
+    const postCallAnalysisData = Array.isArray(configuration.postCallAnalysis)
+      ? buildPostCallAnalysisData(extractionSchema, configuration.postCallAnalysis)
+      : null
+
     // Add post-call analysis to LLM as well (some Retell configs require it here)
-    if (configuration.postCallAnalysis !== undefined && Array.isArray(configuration.postCallAnalysis)) {
-      if (configuration.postCallAnalysis.length > 0) {
-        llmUpdateData.post_call_analysis_data = configuration.postCallAnalysis.map((item: any) => ({
-          type: 'string',
-          name: item.name || '',
-          description: item.description || ''
-        }))
-      }
+    if (postCallAnalysisData && postCallAnalysisData.length > 0) {
+      llmUpdateData.post_call_analysis_data = postCallAnalysisData
     }
 
     // Include states and starting_state from template if they exist
@@ -458,18 +459,9 @@ serve(async (req) => {
       // Legacy voicemail support removed - now handled by callSettings.voicemailDetection logic above
     }
 
-    // Add post-call analysis if provided (including empty arrays to clear existing data)
-    if (configuration.postCallAnalysis !== undefined && Array.isArray(configuration.postCallAnalysis)) {
-      // If array is empty, explicitly set to empty array to clear existing data
-      if (configuration.postCallAnalysis.length === 0) {
-        agentUpdateData.post_call_analysis_data = []
-      } else {
-        agentUpdateData.post_call_analysis_data = configuration.postCallAnalysis.map((item: any) => ({
-          type: 'string',
-          name: item.name || '',
-          description: item.description || ''
-        }))
-      }
+    // Add post-call analysis if provided (an empty list clears existing data)
+    if (postCallAnalysisData) {
+      agentUpdateData.post_call_analysis_data = postCallAnalysisData
     }
 
     console.log('Payload being sent to Retell:', JSON.stringify(agentUpdateData, null, 2));
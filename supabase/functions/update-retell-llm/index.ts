@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { getRetellApiKeyForFunction } from '../_shared/retell-api-key.ts';
 import { parseRetellError, validateCalComCredentials, isCalComError } from '../_shared/retell-error-parser.ts';
+import { buildPostCallAnalysisData, validateExtractionSchema, type ExtractionField } from '../_shared/post-call-extraction.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -119,10 +120,18 @@ serve(async (req) => {
       throw new Error('Authentication failed');
     }
 
-    const { agentId, dynamicPrompt, integrations } = await req.json();
+    const { agentId, dynamicPrompt, integrations, extractionSchema } = await req.json();
 
-    if (!agentId || !dynamicPrompt) {
-      return new Response(JSON.stringify({ error: 'Agent ID and dynamic prompt are required' }), {
+    if (!agentId || (!dynamicPrompt && typeof extractionSchema === 'undefined')) {
+      return new Response(JSON.stringify({ error: 'Agent ID and a dynamic prompt or extraction schema are required' }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const schemaError = typeof extractionSchema === 'undefined' ? null : validateExtractionSchema(extractionSchema);
+    if (schemaError) {
+      return new Response(JSON.stringify({ error: schemaError }), {
         status: 200,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -160,9 +169,18 @@ serve(async (req) => {
     }
 
     // Build request body for Retell LLM update
-    const requestBody: any = {
-      general_prompt: dynamicPrompt
-    };
+    const requestBody: any = {};
+    if (dynamicPrompt) {
+      requestBody.general_prompt = dynamicPrompt;
+    }
+
+    // Extraction schema fields, with the agent's free-form post-call analysis fields kept after them
+    const postCallAnalysisData = typeof extractionSchema === 'undefined'
+      ? null
+      : buildPostCallAnalysisData(extractionSchema as ExtractionField[], agent.customizations?.postCallAnalysis || []);
+    if (postCallAnalysisData) {
+      requestBody.post_call_analysis_data = postCallAnalysisData;
+    }
 
     // Only send tools if integrations were explicitly provided (to avoid overwriting existing tools)  
     if (typeof integrations !== 'undefined' && integrations !== null) {
@@ -216,16 +234,53 @@ serve(async (req) => {
     const llmData = await llmResponse.json();
     console.log(`Successfully updated Retell LLM for agent ${agentId}`);
 
-    // Update agent status to track LLM update
+    // Retell reads the post-call analysis fields from the agent
+    if (postCallAnalysisData && agent.retell_agent_id) {
+      const agentResponse = await fetch(`https://api.retellai.com/update-agent/${agent.retell_agent_id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${retellApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ post_call_analysis_data: postCallAnalysisData })
+      });
+
+      if (!agentResponse.ok) {
+        const errorText = await agentResponse.text();
+        console.error('Failed to update Retell agent post-call analysis:', errorText);
+        return new Response(JSON.stringify({
+          error: parseRetellError(errorText, 'agent update')
+        }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      console.log(`Pushed ${postCallAnalysisData.length} post-call analysis fields for agent ${agentId}`);
+    }
+
+    // Update agent status to track LLM update, and store the extraction schema Retell now uses
+    const agentUpdate: Record<string, unknown> = {};
+    if (dynamicPrompt) {
+      agentUpdate.prompt_updated_at = new Date().toISOString();
+    }
+    if (typeof extractionSchema !== 'undefined') {
+      agentUpdate.extraction_schema = extractionSchema;
+    }
+
     const { error: updateError } = await supabase
       .from('user_agents')
-      .update({
-        prompt_updated_at: new Date().toISOString()
-      })
+      .update(agentUpdate)
       .eq('id', agentId);
 
     if (updateError) {
-      console.warn('Failed to update agent prompt timestamp:', updateError);
+      console.warn('Failed to update agent prompt timestamp or extraction schema:', updateError);
+      // Without the stored schema the extracted values would never reach the contacts
+      if (typeof extractionSchema !== 'undefined') {
+        return new Response(JSON.stringify({ error: 'Failed to save the extraction schema' }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
     }
 
     return new Response(JSON.stringify({
@@ -0,0 +1,480 @@
+-- Per-contact local-time calling windows
+-- Resolves each contact's timezone (explicit column > zip code > phone area code)
+-- and makes get_next_contacts_to_call respect the contact's own local time.
+
+-- 1. Reference data: US states, zip prefixes and area codes
+
+CREATE TABLE IF NOT EXISTS public.us_states (
+  code TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  timezone TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.zip_prefix_states (
+  prefix_start INTEGER NOT NULL,
+  prefix_end INTEGER NOT NULL,
+  state TEXT NOT NULL REFERENCES public.us_states(code),
+  PRIMARY KEY (prefix_start, prefix_end)
+);
+
+CREATE TABLE IF NOT EXISTS public.area_codes (
+  area_code TEXT PRIMARY KEY,
+  state TEXT NOT NULL REFERENCES public.us_states(code),
+  timezone TEXT NOT NULL
+);
+
+ALTER TABLE public.us_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.zip_prefix_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.area_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read US states" ON public.us_states
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Anyone can read zip prefixes" ON public.zip_prefix_states
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Anyone can read area codes" ON public.area_codes
+  FOR SELECT TO authenticated USING (true);
+
+-- State default timezones (multi-zone states use the zone covering most of the population)
+INSERT INTO public.us_states (code, name, timezone) VALUES
+  ('AL', 'Alabama', 'America/Chicago'),
+  ('AK', 'Alaska', 'America/Anchorage'),
+  ('AZ', 'Arizona', 'America/Phoenix'),
+  ('AR', 'Arkansas', 'America/Chicago'),
+  ('CA', 'California', 'America/Los_Angeles'),
+  ('CO', 'Colorado', 'America/Denver'),
+  ('CT', 'Connecticut', 'America/New_York'),
+  ('DE', 'Delaware', 'America/New_York'),
+  ('DC', 'District of Columbia', 'America/New_York'),
+  ('FL', 'Florida', 'America/New_York'),
+  ('GA', 'Georgia', 'America/New_York'),
+  ('HI', 'Hawaii', 'Pacific/Honolulu'),
+  ('ID', 'Idaho', 'America/Boise'),
+  ('IL', 'Illinois', 'America/Chicago'),
+  ('IN', 'Indiana', 'America/Indiana/Indianapolis'),
+  ('IA', 'Iowa', 'America/Chicago'),
+  ('KS', 'Kansas', 'America/Chicago'),
+  ('KY', 'Kentucky', 'America/New_York'),
+  ('LA', 'Louisiana', 'America/Chicago'),
+  ('ME', 'Maine', 'America/New_York'),
+  ('MD', 'Maryland', 'America/New_York'),
+  ('MA', 'Massachusetts', 'America/New_York'),
+  ('MI', 'Michigan', 'America/Detroit'),
+  ('MN', 'Minnesota', 'America/Chicago'),
+  ('MS', 'Mississippi', 'America/Chicago'),
+  ('MO', 'Missouri', 'America/Chicago'),
+  ('MT', 'Montana', 'America/Denver'),
+  ('NE', 'Nebraska', 'America/Chicago'),
+  ('NV', 'Nevada', 'America/Los_Angeles'),
+  ('NH', 'New Hampshire', 'America/New_York'),
+  ('NJ', 'New Jersey', 'America/New_York'),
+  ('NM', 'New Mexico', 'America/Denver'),
+  ('NY', 'New York', 'America/New_York'),
+  ('NC', 'North Carolina', 'America/New_York'),
+  ('ND', 'North Dakota', 'America/Chicago'),
+  ('OH', 'Ohio', 'America/New_York'),
+  ('OK', 'Oklahoma', 'America/Chicago'),
+  ('OR', 'Oregon', 'America/Los_Angeles'),
+  ('PA', 'Pennsylvania', 'America/New_York'),
+  ('RI', 'Rhode Island', 'America/New_York'),
+  ('SC', 'South Carolina', 'America/New_York'),
+  ('SD', 'South Dakota', 'America/Chicago'),
+  ('TN', 'Tennessee', 'America/Chicago'),
+  ('TX', 'Texas', 'America/Chicago'),
+  ('UT', 'Utah', 'America/Denver'),
+  ('VT', 'Vermont', 'America/New_York'),
+  ('VA', 'Virginia', 'America/New_York'),
+  ('WA', 'Washington', 'America/Los_Angeles'),
+  ('WV', 'West Virginia', 'America/New_York'),
+  ('WI', 'Wisconsin', 'America/Chicago'),
+  ('WY', 'Wyoming', 'America/Denver'),
+  ('PR', 'Puerto Rico', 'America/Puerto_Rico')
+ON CONFLICT (code) DO NOTHING;
+
+-- First three digits of a ZIP code -> state
+INSERT INTO public.zip_prefix_states (prefix_start, prefix_end, state) VALUES
+  (6, 9, 'PR'),
+  (10, 27, 'MA'), (28, 29, 'RI'), (30, 38, 'NH'), (39, 49, 'ME'),
+  (50, 54, 'VT'), (55, 55, 'MA'), (56, 59, 'VT'), (60, 69, 'CT'),
+  (70, 89, 'NJ'), (100, 149, 'NY'), (150, 196, 'PA'), (197, 199, 'DE'),
+  (200, 205, 'DC'), (206, 219, 'MD'), (220, 246, 'VA'), (247, 268, 'WV'),
+  (270, 289, 'NC'), (290, 299, 'SC'), (300, 319, 'GA'), (320, 349, 'FL'),
+  (350, 369, 'AL'), (370, 385, 'TN'), (386, 397, 'MS'), (398, 399, 'GA'),
+  (400, 427, 'KY'), (430, 459, 'OH'), (460, 479, 'IN'), (480, 499, 'MI'),
+  (500, 528, 'IA'), (530, 549, 'WI'), (550, 567, 'MN'), (570, 577, 'SD'),
+  (580, 588, 'ND'), (590, 599, 'MT'), (600, 629, 'IL'), (630, 658, 'MO'),
+  (660, 679, 'KS'), (680, 693, 'NE'), (700, 715, 'LA'), (716, 729, 'AR'),
+  (730, 749, 'OK'), (750, 799, 'TX'), (800, 816, 'CO'), (820, 831, 'WY'),
+  (832, 838, 'ID'), (840, 847, 'UT'), (850, 865, 'AZ'), (870, 884, 'NM'),
+  (885, 885, 'TX'), (889, 898, 'NV'), (900, 961, 'CA'), (967, 968, 'HI'),
+  (970, 979, 'OR'), (980, 994, 'WA'), (995, 999, 'AK')
+ON CONFLICT DO NOTHING;
+
+-- Area codes -> state, using the state default timezone
+INSERT INTO public.area_codes (area_code, state, timezone)
+SELECT u.area_code, v.state, s.timezone
+FROM (VALUES
+  ('AL', ARRAY['205','251','256','334','659','938']),
+  ('AK', ARRAY['907']),
+  ('AZ', ARRAY['480','520','602','623','928']),
+  ('AR', ARRAY['327','479','501','870']),
+  ('CA', ARRAY['209','213','279','310','323','341','350','369','408','415','424','442','510','530','559','562','619','626','628','650','657','661','669','707','714','747','760','805','818','820','831','840','858','909','916','925','949','951']),
+  ('CO', ARRAY['303','719','720','970','983']),
+  ('CT', ARRAY['203','475','860','959']),
+  ('DE', ARRAY['302']),
+  ('DC', ARRAY['202','771']),
+  ('FL', ARRAY['239','305','321','352','386','407','448','561','656','689','727','754','772','786','813','850','863','904','941','954']),
+  ('GA', ARRAY['229','404','470','478','678','706','762','770','912','943']),
+  ('HI', ARRAY['808']),
+  ('ID', ARRAY['208','986']),
+  ('IL', ARRAY['217','224','309','312','331','447','464','618','630','708','730','773','779','815','847','861','872']),
+  ('IN', ARRAY['219','260','317','463','574','765','812','930']),
+  ('IA', ARRAY['319','515','563','641','712']),
+  ('KS', ARRAY['316','620','785','913']),
+  ('KY', ARRAY['270','364','502','606','859']),
+  ('LA', ARRAY['225','318','337','504','985']),
+  ('ME', ARRAY['207']),
+  ('MD', ARRAY['227','240','301','410','443','667']),
+  ('MA', ARRAY['339','351','413','508','617','774','781','857','978']),
+  ('MI', ARRAY['231','248','269','313','517','586','616','679','734','810','906','947','989']),
+  ('MN', ARRAY['218','320','507','612','651','763','952']),
+  ('MS', ARRAY['228','601','662','769']),
+  ('MO', ARRAY['314','417','557','573','636','660','816','975']),
+  ('MT', ARRAY['406']),
+  ('NE', ARRAY['308','402','531']),
+  ('NV', ARRAY['702','725','775']),
+  ('NH', ARRAY['603']),
+  ('NJ', ARRAY['201','551','609','640','732','848','856','862','908','973']),
+  ('NM', ARRAY['505','575']),
+  ('NY', ARRAY['212','315','332','347','363','516','518','585','607','631','646','680','716','718','838','845','914','917','929','934']),
+  ('NC', ARRAY['252','336','472','704','743','828','910','919','980','984']),
+  ('ND', ARRAY['701']),
+  ('OH', ARRAY['216','220','234','283','326','330','380','419','436','440','513','567','614','740','937']),
+  ('OK', ARRAY['405','539','572','580','918']),
+  ('OR', ARRAY['458','503','541','971']),
+  ('PA', ARRAY['215','223','267','272','412','445','484','570','582','610','717','724','814','835','878']),
+  ('RI', ARRAY['401']),
+  ('SC', ARRAY['803','821','839','843','854','864']),
+  ('SD', ARRAY['605']),
+  ('TN', ARRAY['423','615','629','731','865','901','931']),
+  ('TX', ARRAY['210','214','254','281','325','346','361','409','430','432','469','512','682','713','726','737','806','817','830','832','903','915','936','940','945','956','972','979']),
+  ('UT', ARRAY['385','435','801']),
+  ('VT', ARRAY['802']),
+  ('VA', ARRAY['276','434','540','571','703','757','804','826','948']),
+  ('WA', ARRAY['206','253','360','425','509','564']),
+  ('WV', ARRAY['304','681']),
+  ('WI', ARRAY['262','274','353','414','534','608','715','920']),
+  ('WY', ARRAY['307']),
+  ('PR', ARRAY['787','939'])
+) AS v(state, area_code_list)
+CROSS JOIN LATERAL unnest(v.area_code_list) AS u(area_code)
+JOIN public.us_states s ON s.code = v.state
+ON CONFLICT (area_code) DO NOTHING;
+
+-- Area codes that sit in a different zone than their state default
+UPDATE public.area_codes SET timezone = 'America/Chicago' WHERE area_code IN ('219', '270', '364');
+UPDATE public.area_codes SET timezone = 'America/New_York' WHERE area_code IN ('423', '865');
+UPDATE public.area_codes SET timezone = 'America/Denver' WHERE area_code = '915';
+
+-- 2. Contact timezone columns
+
+ALTER TABLE public.contacts
+ADD COLUMN IF NOT EXISTS timezone TEXT,
+ADD COLUMN IF NOT EXISTS timezone_source TEXT
+  CHECK (timezone_source IN ('explicit', 'zip', 'area_code'));
+
+COMMENT ON COLUMN public.contacts.timezone IS
+'IANA timezone of the contact. NULL means unresolved - the campaign timezone is used instead.';
+
+CREATE INDEX IF NOT EXISTS idx_contacts_group_timezone ON public.contacts(contact_group_id, timezone);
+
+-- 3. Resolution helpers
+
+-- Normalizes a user-supplied timezone (IANA name or common US abbreviation)
+CREATE OR REPLACE FUNCTION public.normalize_timezone(p_value TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_value TEXT := btrim(COALESCE(p_value, ''));
+BEGIN
+  IF v_value = '' THEN
+    RETURN NULL;
+  END IF;
+
+  CASE upper(regexp_replace(v_value, '[^A-Za-z]', '', 'g'))
+    WHEN 'EST', 'EDT', 'ET', 'EASTERN' THEN RETURN 'America/New_York';
+    WHEN 'CST', 'CDT', 'CT', 'CENTRAL' THEN RETURN 'America/Chicago';
+    WHEN 'MST', 'MDT', 'MT', 'MOUNTAIN' THEN RETURN 'America/Denver';
+    WHEN 'PST', 'PDT', 'PT', 'PACIFIC' THEN RETURN 'America/Los_Angeles';
+    WHEN 'AKST', 'AKDT', 'ALASKA' THEN RETURN 'America/Anchorage';
+    WHEN 'HST', 'HAWAII' THEN RETURN 'Pacific/Honolulu';
+    ELSE NULL;
+  END CASE;
+
+  IF EXISTS (SELECT 1 FROM pg_catalog.pg_timezone_names WHERE name = v_value) THEN
+    RETURN v_value;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- Resolves a contact's timezone: explicit column, then zip code, then phone area code
+CREATE OR REPLACE FUNCTION public.resolve_contact_timezone(
+  p_phone_number TEXT,
+  p_address TEXT,
+  p_data JSONB,
+  p_custom_fields JSONB
+)
+RETURNS TABLE(timezone TEXT, source TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_explicit TEXT;
+  v_zip TEXT;
+  v_digits TEXT;
+  v_tz TEXT;
+BEGIN
+  -- Explicit timezone column from the imported CSV
+  v_explicit := public.normalize_timezone(COALESCE(
+    p_data->>'timezone', p_data->>'time_zone',
+    p_custom_fields->>'timezone', p_custom_fields->>'time_zone', p_custom_fields->>'Timezone', p_custom_fields->>'Time Zone'
+  ));
+  IF v_explicit IS NOT NULL THEN
+    RETURN QUERY SELECT v_explicit, 'explicit'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Zip code from mapped data, falling back to a trailing 5-digit zip in the address
+  v_zip := COALESCE(
+    substring(COALESCE(p_data->>'zip_code', p_data->>'zip', p_data->>'zipcode', p_data->>'postal_code') FROM '(\d{5})'),
+    substring(COALESCE(p_address, '') FROM '(\d{5})(?:-\d{4})?\s*$')
+  );
+  IF v_zip IS NOT NULL THEN
+    SELECT s.timezone INTO v_tz
+    FROM public.zip_prefix_states z
+    JOIN public.us_states s ON s.code = z.state
+    WHERE left(v_zip, 3)::INTEGER BETWEEN z.prefix_start AND z.prefix_end
+    LIMIT 1;
+
+    IF v_tz IS NOT NULL THEN
+      RETURN QUERY SELECT v_tz, 'zip'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- NANP area code of the phone number
+  v_digits := regexp_replace(COALESCE(p_phone_number, ''), '[^0-9]', '', 'g');
+  IF length(v_digits) = 11 AND left(v_digits, 1) = '1' THEN
+    v_digits := substring(v_digits FROM 2);
+  END IF;
+  IF length(v_digits) = 10 THEN
+    SELECT ac.timezone INTO v_tz
+    FROM public.area_codes ac
+    WHERE ac.area_code = left(v_digits, 3);
+
+    IF v_tz IS NOT NULL THEN
+      RETURN QUERY SELECT v_tz, 'area_code'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT NULL::TEXT, NULL::TEXT;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.set_contact_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_resolved RECORD;
+BEGIN
+  SELECT * INTO v_resolved
+  FROM public.resolve_contact_timezone(NEW.phone_number, NEW.address, NEW.data, NEW.custom_fields);
+
+  NEW.timezone := v_resolved.timezone;
+  NEW.timezone_source := v_resolved.source;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS set_contact_timezone_trigger ON public.contacts;
+CREATE TRIGGER set_contact_timezone_trigger
+  BEFORE INSERT OR UPDATE OF phone_number, address, data, custom_fields
+  ON public.contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_contact_timezone();
+
+-- Backfill existing contacts
+UPDATE public.contacts c
+SET (timezone, timezone_source) = (
+  SELECT r.timezone, r.source
+  FROM public.resolve_contact_timezone(c.phone_number, c.address, c.data, c.custom_fields) r
+);
+
+-- 4. Calling window check in a given timezone (inclusive of the end minute, like process-campaign)
+CREATE OR REPLACE FUNCTION public.is_within_calling_hours(
+  p_calling_hours JSONB,
+  p_active_days TEXT[],
+  p_timezone TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_local TIMESTAMP;
+  v_time TIME;
+BEGIN
+  IF p_calling_hours IS NULL OR p_active_days IS NULL THEN
+    RETURN false;
+  END IF;
+
+  v_local := p_at AT TIME ZONE COALESCE(p_timezone, 'America/New_York');
+
+  IF NOT (to_char(v_local, 'dy') = ANY(p_active_days)) THEN
+    RETURN false;
+  END IF;
+
+  v_time := date_trunc('minute', v_local)::TIME;
+  RETURN v_time BETWEEN (p_calling_hours->>'start')::TIME AND (p_calling_hours->>'end')::TIME;
+END;
+$function$;
+
+-- 5. Distinct contact timezones for a campaign (unresolved contacts use the campaign timezone)
+CREATE OR REPLACE FUNCTION public.get_campaign_contact_timezones(p_campaign_id UUID)
+RETURNS TABLE(timezone TEXT, contact_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  SELECT COALESCE(c.timezone, camp.timezone, 'America/New_York') AS timezone, count(*) AS contact_count
+  FROM public.campaigns camp
+  JOIN public.campaign_contacts cc ON cc.campaign_id = camp.id
+  JOIN public.contacts c ON c.contact_group_id = cc.contact_group_id
+  WHERE camp.id = p_campaign_id
+    AND c.status = 'active'
+  GROUP BY 1;
+$function$;
+
+-- 6. Contact selection limited to contacts whose own local time is inside the calling window
+DROP FUNCTION IF EXISTS public.get_next_contacts_to_call(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_next_contacts_to_call(p_campaign_id uuid, p_max_retry_days integer, p_limit integer)
+ RETURNS TABLE(contact_id uuid, phone_number text, phone_index integer, total_phones integer, contact_data jsonb, timezone text)
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_calling_hours JSONB;
+  v_active_days TEXT[];
+  v_campaign_timezone TEXT;
+BEGIN
+  SELECT camp.calling_hours, camp.active_days, COALESCE(camp.timezone, 'America/New_York')
+  INTO v_calling_hours, v_active_days, v_campaign_timezone
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  RETURN QUERY
+  WITH contact_phones AS (
+    -- Expand contacts to have one row per phone number
+    SELECT
+      c.id as contact_id,
+      -- Build proper contact_data with all relevant fields
+      jsonb_build_object(
+        'first_name', c.first_name,
+        'last_name', c.last_name,
+        'email', c.email,
+        'address', c.address,
+        'phone_number', regexp_replace(phone_num, '[^0-9]', '', 'g'),
+        'custom_fields', c.custom_fields
+      ) as data,
+      c.contact_group_id,
+      c.created_at as contact_created_at,
+      COALESCE(c.timezone, v_campaign_timezone) as contact_timezone,
+      phone_num,
+      array_position(c.phone_numbers, phone_num) - 1 as phone_index,
+      array_length(c.phone_numbers, 1) as total_phones
+    FROM public.contacts c
+    CROSS JOIN unnest(c.phone_numbers) AS phone_num
+    WHERE c.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.campaign_contacts cc
+        WHERE cc.contact_group_id = c.contact_group_id
+          AND cc.campaign_id = p_campaign_id
+      )
+      -- Only contacts whose own local time is inside the campaign calling window
+      AND public.is_within_calling_hours(v_calling_hours, v_active_days, COALESCE(c.timezone, v_campaign_timezone))
+  ),
+  call_history AS (
+    -- Get the latest call attempt for each contact/phone combination
+    SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+      cca.contact_id,
+      cca.phone_index,
+      cca.call_status as last_status,
+      cca.created_at as last_attempt,
+      date_trunc('day', cca.created_at) as last_attempt_day
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+  ),
+  eligible_contacts AS (
+    SELECT
+      cp.*,
+      ch.last_status,
+      ch.last_attempt,
+      ch.last_attempt_day,
+      CASE
+        -- Never called before
+        WHEN ch.contact_id IS NULL THEN 0
+        -- Calculate days since first attempt for this contact
+        ELSE (
+          SELECT extract(day FROM now() - MIN(cca.created_at))::int
+          FROM public.campaign_contact_attempts cca
+          WHERE cca.campaign_id = p_campaign_id AND cca.contact_id = cp.contact_id
+        )
+      END as days_since_first_attempt
+    FROM contact_phones cp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = cp.contact_id
+      AND ch.phone_index = cp.phone_index
+    WHERE
+      -- Include if never called
+      ch.contact_id IS NULL
+      -- Or if last status was no-answer and within retry window
+      OR (
+        ch.last_status = 'no-answer'
+        AND ch.last_attempt_day != date_trunc('day', now())  -- Not already tried today
+        AND (
+          SELECT extract(day FROM now() - MIN(cca.created_at))::int
+          FROM public.campaign_contact_attempts cca
+          WHERE cca.campaign_id = p_campaign_id AND cca.contact_id = cp.contact_id
+        ) < p_max_retry_days  -- Within retry days
+      )
+  )
+  SELECT
+    ec.contact_id,
+    ec.phone_num as phone_number,
+    ec.phone_index,
+    ec.total_phones,
+    ec.data as contact_data,
+    ec.contact_timezone as timezone
+  FROM eligible_contacts ec
+  ORDER BY
+    ec.contact_created_at ASC,  -- Process oldest contacts first
+    ec.contact_id ASC,  -- Then by contact ID
+    ec.phone_index ASC  -- Then by phone number order
+  LIMIT p_limit;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_contact_timezones(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.is_within_calling_hours(JSONB, TEXT[], TEXT, TIMESTAMPTZ) TO authenticated, service_role;
@@ -0,0 +1,241 @@
+-- Outcome-aware retry policy for campaigns
+-- The policy lives in campaigns.settings->'retry_policy' and holds one rule per retry outcome:
+--   { "rules": { "no-answer": { "enabled": true, "min_spacing_hours": 20, "max_attempts_per_phone": 4,
+--                               "max_attempts_per_contact": 6, "rotate_time_of_day": true }, ... } }
+-- Campaigns without a policy keep the legacy behaviour (no-answer and quick hangups retried once a day).
+
+-- Voicemail is written by retell-webhook but was missing from the enum
+ALTER TYPE public.call_status ADD VALUE IF NOT EXISTS 'voicemail';
+
+-- 1. Retry outcome recorded on each attempt
+ALTER TABLE public.campaign_contact_attempts
+ADD COLUMN IF NOT EXISTS retry_outcome TEXT
+  CHECK (retry_outcome IN ('no-answer', 'voicemail', 'busy', 'quick-hangup', 'failed-to-initiate'));
+
+COMMENT ON COLUMN public.campaign_contact_attempts.retry_outcome IS
+'Outcome used by the campaign retry policy. NULL means the attempt is not retryable (e.g. connected).';
+
+-- Backfill from the existing call statuses
+UPDATE public.campaign_contact_attempts
+SET retry_outcome = CASE
+  WHEN call_status::text = 'no-answer' THEN 'no-answer'
+  WHEN call_status::text = 'busy' THEN 'busy'
+  WHEN call_status::text = 'voicemail' THEN 'voicemail'
+  WHEN call_status::text = 'failed' AND retell_call_id IS NULL THEN 'failed-to-initiate'
+END
+WHERE retry_outcome IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_attempts_contact_history
+  ON public.campaign_contact_attempts(campaign_id, contact_id, phone_index, created_at DESC);
+
+-- 2. Rule lookup with legacy defaults
+CREATE OR REPLACE FUNCTION public.get_retry_rule(p_settings JSONB, p_outcome TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO ''
+AS $function$
+BEGIN
+  IF p_outcome IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_settings ? 'retry_policy' THEN
+    RETURN p_settings->'retry_policy'->'rules'->p_outcome;
+  END IF;
+
+  -- Legacy behaviour: unanswered calls and quick hangups are retried at most once a day
+  IF p_outcome IN ('no-answer', 'quick-hangup') THEN
+    RETURN jsonb_build_object(
+      'enabled', true,
+      'min_spacing_hours', 20,
+      'max_attempts_per_phone', NULL,
+      'max_attempts_per_contact', NULL,
+      'rotate_time_of_day', true
+    );
+  END IF;
+
+  RETURN jsonb_build_object('enabled', false);
+END;
+$function$;
+
+-- 3. Which third of the calling window (0 = early, 1 = middle, 2 = late) a moment falls in
+CREATE OR REPLACE FUNCTION public.calling_window_segment(
+  p_calling_hours JSONB,
+  p_timezone TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_minutes NUMERIC;
+  v_start NUMERIC;
+  v_end NUMERIC;
+BEGIN
+  IF p_calling_hours IS NULL OR p_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_minutes := extract(epoch FROM (p_at AT TIME ZONE COALESCE(p_timezone, 'America/New_York'))::TIME) / 60;
+  v_start := extract(epoch FROM (p_calling_hours->>'start')::TIME) / 60;
+  v_end := extract(epoch FROM (p_calling_hours->>'end')::TIME) / 60;
+
+  IF v_end <= v_start OR v_minutes < v_start OR v_minutes > v_end THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN LEAST(2, floor((v_minutes - v_start) / ((v_end - v_start) / 3.0))::INTEGER);
+END;
+$function$;
+
+-- 4. Contact selection driven by the retry policy
+DROP FUNCTION IF EXISTS public.get_next_contacts_to_call(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_next_contacts_to_call(p_campaign_id uuid, p_max_retry_days integer, p_limit integer)
+ RETURNS TABLE(
+   contact_id uuid,
+   phone_number text,
+   phone_index integer,
+   total_phones integer,
+   contact_data jsonb,
+   timezone text,
+   attempt_number integer,
+   attempt_day integer,
+   phone_attempts integer,
+   contact_attempts integer,
+   last_outcome text,
+   last_attempt_at timestamptz
+ )
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_calling_hours JSONB;
+  v_active_days TEXT[];
+  v_campaign_timezone TEXT;
+  v_settings JSONB;
+BEGIN
+  SELECT camp.calling_hours, camp.active_days, COALESCE(camp.timezone, 'America/New_York'), COALESCE(camp.settings, '{}'::jsonb)
+  INTO v_calling_hours, v_active_days, v_campaign_timezone, v_settings
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  RETURN QUERY
+  WITH contact_phones AS (
+    -- Expand contacts to have one row per phone number
+    SELECT
+      c.id as contact_id,
+      -- Build proper contact_data with all relevant fields
+      jsonb_build_object(
+        'first_name', c.first_name,
+        'last_name', c.last_name,
+        'email', c.email,
+        'address', c.address,
+        'phone_number', regexp_replace(phone_num, '[^0-9]', '', 'g'),
+        'custom_fields', c.custom_fields
+      ) as data,
+      c.contact_group_id,
+      c.created_at as contact_created_at,
+      COALESCE(c.timezone, v_campaign_timezone) as contact_timezone,
+      phone_num,
+      array_position(c.phone_numbers, phone_num) - 1 as phone_index,
+      array_length(c.phone_numbers, 1) as total_phones
+    FROM public.contacts c
+    CROSS JOIN unnest(c.phone_numbers) AS phone_num
+    WHERE c.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.campaign_contacts cc
+        WHERE cc.contact_group_id = c.contact_group_id
+          AND cc.campaign_id = p_campaign_id
+      )
+      -- Only contacts whose own local time is inside the campaign calling window
+      AND public.is_within_calling_hours(v_calling_hours, v_active_days, COALESCE(c.timezone, v_campaign_timezone))
+  ),
+  call_history AS (
+    -- Latest attempt and attempt count for each contact/phone combination
+    SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+      cca.contact_id,
+      cca.phone_index,
+      cca.call_status as last_status,
+      cca.retry_outcome as last_outcome,
+      cca.created_at as last_attempt,
+      count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) as phone_attempts
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+  ),
+  contact_history AS (
+    -- Attempts across all of a contact's phone numbers
+    SELECT
+      cca.contact_id,
+      count(*) as contact_attempts,
+      MIN(cca.created_at) as first_attempt,
+      bool_or(cca.call_status = 'in-progress') as has_in_progress
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    GROUP BY cca.contact_id
+  ),
+  eligible_contacts AS (
+    SELECT
+      cp.*,
+      ch.last_outcome,
+      ch.last_attempt,
+      COALESCE(ch.phone_attempts, 0) as phone_attempts,
+      COALESCE(hist.contact_attempts, 0) as contact_attempts,
+      COALESCE(extract(day FROM now() - hist.first_attempt)::int, 0) as days_since_first_attempt
+    FROM contact_phones cp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = cp.contact_id
+      AND ch.phone_index = cp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = cp.contact_id
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    WHERE
+      -- Include if this phone was never called
+      ch.contact_id IS NULL
+      -- Or if the last outcome is retryable under the campaign retry policy
+      OR (
+        ch.last_outcome IS NOT NULL
+        AND COALESCE((r.rule->>'enabled')::boolean, false)
+        AND NOT COALESCE(hist.has_in_progress, false)
+        -- Within retry days
+        AND extract(day FROM now() - hist.first_attempt)::int < p_max_retry_days
+        -- Minimum spacing since the last attempt on this phone
+        AND now() - ch.last_attempt >= COALESCE((r.rule->>'min_spacing_hours')::numeric, 0) * interval '1 hour'
+        -- Attempt caps per phone and per contact
+        AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+        AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        -- Time-of-day rotation: retry in a different part of the calling window
+        AND (
+          NOT COALESCE((r.rule->>'rotate_time_of_day')::boolean, false)
+          OR public.calling_window_segment(v_calling_hours, cp.contact_timezone, now())
+             IS DISTINCT FROM public.calling_window_segment(v_calling_hours, cp.contact_timezone, ch.last_attempt)
+        )
+      )
+  )
+  SELECT
+    ec.contact_id,
+    ec.phone_num as phone_number,
+    ec.phone_index,
+    ec.total_phones,
+    ec.data as contact_data,
+    ec.contact_timezone as timezone,
+    (ec.contact_attempts + 1)::integer as attempt_number,
+    ec.days_since_first_attempt as attempt_day,
+    ec.phone_attempts::integer,
+    ec.contact_attempts::integer,
+    ec.last_outcome,
+    ec.last_attempt as last_attempt_at
+  FROM eligible_contacts ec
+  ORDER BY
+    ec.contact_created_at ASC,  -- Process oldest contacts first
+    ec.contact_id ASC,  -- Then by contact ID
+    ec.phone_index ASC  -- Then by phone number order
+  LIMIT p_limit;
+END;
+$function$;
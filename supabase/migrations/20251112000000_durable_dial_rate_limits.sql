@@ -0,0 +1,230 @@
+-- Durable rate limiting for outbound dialing
+-- Replaces the in-memory limiter in process-campaign. Limits apply per campaign, per user account
+-- and per outbound phone number, each with per-minute, per-hour and per-day caps.
+-- Counters use fixed windows and are incremented atomically so concurrent invocations share them.
+
+-- 1. Caps
+-- Campaign caps live in campaigns.settings->'rate_limits' as { "per_minute", "per_hour", "per_day" }
+
+CREATE TABLE IF NOT EXISTS public.account_dialing_limits (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_calls_per_minute INTEGER,
+  max_calls_per_hour INTEGER,
+  max_calls_per_day INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.account_dialing_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dialing limits"
+  ON public.account_dialing_limits
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage dialing limits"
+  ON public.account_dialing_limits
+  FOR ALL
+  TO authenticated
+  USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin')
+  WITH CHECK ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+ALTER TABLE public.phone_numbers
+ADD COLUMN IF NOT EXISTS max_calls_per_minute INTEGER,
+ADD COLUMN IF NOT EXISTS max_calls_per_hour INTEGER,
+ADD COLUMN IF NOT EXISTS max_calls_per_day INTEGER;
+
+-- 2. Counters
+CREATE TABLE IF NOT EXISTS public.dial_rate_counters (
+  scope TEXT NOT NULL CHECK (scope IN ('campaign', 'account', 'phone_number')),
+  scope_id UUID NOT NULL,
+  window_type TEXT NOT NULL CHECK (window_type IN ('minute', 'hour', 'day')),
+  window_start TIMESTAMPTZ NOT NULL,
+  call_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (scope, scope_id, window_type, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dial_rate_counters_window_start
+  ON public.dial_rate_counters(window_start);
+
+ALTER TABLE public.dial_rate_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage dial rate counters"
+  ON public.dial_rate_counters
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- 3. Effective caps for every scope of a dial (NULL cap = unlimited)
+CREATE OR REPLACE FUNCTION public.get_dial_rate_caps(
+  p_campaign_id UUID,
+  p_phone_number_id UUID DEFAULT NULL
+)
+RETURNS TABLE(scope TEXT, scope_id UUID, window_type TEXT, cap INTEGER)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_user_id UUID;
+  v_limits JSONB;
+  v_account public.account_dialing_limits%ROWTYPE;
+  v_phone public.phone_numbers%ROWTYPE;
+BEGIN
+  SELECT camp.user_id, COALESCE(camp.settings->'rate_limits', '{}'::jsonb)
+  INTO v_user_id, v_limits
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Campaign caps; an explicit null means no cap, a missing key keeps the previous in-memory defaults
+  RETURN QUERY VALUES
+    ('campaign', p_campaign_id, 'minute', CASE WHEN v_limits ? 'per_minute' THEN (v_limits->>'per_minute')::INTEGER ELSE 10 END),
+    ('campaign', p_campaign_id, 'hour', CASE WHEN v_limits ? 'per_hour' THEN (v_limits->>'per_hour')::INTEGER ELSE 300 END),
+    ('campaign', p_campaign_id, 'day', (v_limits->>'per_day')::INTEGER);
+
+  -- Account caps
+  SELECT * INTO v_account FROM public.account_dialing_limits WHERE user_id = v_user_id;
+  RETURN QUERY VALUES
+    ('account', v_user_id, 'minute', COALESCE(v_account.max_calls_per_minute, 30)),
+    ('account', v_user_id, 'hour', COALESCE(v_account.max_calls_per_hour, 1000)),
+    ('account', v_user_id, 'day', v_account.max_calls_per_day);
+
+  -- Outbound phone number caps
+  IF p_phone_number_id IS NOT NULL THEN
+    SELECT * INTO v_phone FROM public.phone_numbers WHERE id = p_phone_number_id;
+    RETURN QUERY VALUES
+      ('phone_number', p_phone_number_id, 'minute', COALESCE(v_phone.max_calls_per_minute, 10)),
+      ('phone_number', p_phone_number_id, 'hour', COALESCE(v_phone.max_calls_per_hour, 300)),
+      ('phone_number', p_phone_number_id, 'day', v_phone.max_calls_per_day);
+  END IF;
+END;
+$function$;
+
+-- 4. Atomically check every cap and, if all have room, count the dial against each of them
+CREATE OR REPLACE FUNCTION public.try_acquire_dial_slot(
+  p_campaign_id UUID,
+  p_phone_number_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_cap RECORD;
+  v_count INTEGER;
+  v_now TIMESTAMPTZ := now();
+BEGIN
+  -- Serialize dials that share a scope; locks are taken in a fixed order to avoid deadlocks
+  FOR v_cap IN
+    SELECT DISTINCT c.scope, c.scope_id
+    FROM public.get_dial_rate_caps(p_campaign_id, p_phone_number_id) c
+    ORDER BY c.scope, c.scope_id
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('dial_rate:' || v_cap.scope || ':' || v_cap.scope_id::TEXT));
+  END LOOP;
+
+  FOR v_cap IN
+    SELECT * FROM public.get_dial_rate_caps(p_campaign_id, p_phone_number_id)
+  LOOP
+    IF v_cap.cap IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    SELECT COALESCE(SUM(drc.call_count), 0) INTO v_count
+    FROM public.dial_rate_counters drc
+    WHERE drc.scope = v_cap.scope
+      AND drc.scope_id = v_cap.scope_id
+      AND drc.window_type = v_cap.window_type
+      AND drc.window_start = date_trunc(v_cap.window_type, v_now);
+
+    IF v_count >= v_cap.cap THEN
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'scope', v_cap.scope,
+        'scope_id', v_cap.scope_id,
+        'window', v_cap.window_type,
+        'cap', v_cap.cap,
+        'used', v_count
+      );
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.dial_rate_counters (scope, scope_id, window_type, window_start, call_count)
+  SELECT c.scope, c.scope_id, c.window_type, date_trunc(c.window_type, v_now), 1
+  FROM public.get_dial_rate_caps(p_campaign_id, p_phone_number_id) c
+  ON CONFLICT (scope, scope_id, window_type, window_start)
+  DO UPDATE SET call_count = public.dial_rate_counters.call_count + 1;
+
+  RETURN jsonb_build_object('allowed', true);
+END;
+$function$;
+
+-- 5. Current usage against each cap, for the campaign detail card
+CREATE OR REPLACE FUNCTION public.get_campaign_rate_limit_usage(p_campaign_id UUID)
+RETURNS TABLE(scope TEXT, scope_id UUID, scope_label TEXT, window_type TEXT, used INTEGER, cap INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_user_id UUID;
+  v_phone_number_id UUID;
+BEGIN
+  SELECT camp.user_id, ua.phone_number_id
+  INTO v_user_id, v_phone_number_id
+  FROM public.campaigns camp
+  LEFT JOIN public.user_agents ua ON ua.id = camp.agent_id
+  WHERE camp.id = p_campaign_id;
+
+  IF v_user_id IS NULL OR (auth.uid() IS DISTINCT FROM v_user_id AND COALESCE(auth.jwt()->>'role', '') <> 'service_role') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.scope,
+    c.scope_id,
+    CASE c.scope
+      WHEN 'campaign' THEN 'Campaign'
+      WHEN 'account' THEN 'Account'
+      ELSE COALESCE((SELECT pn.phone_number FROM public.phone_numbers pn WHERE pn.id = c.scope_id), 'Phone number')
+    END,
+    c.window_type,
+    COALESCE((
+      SELECT drc.call_count
+      FROM public.dial_rate_counters drc
+      WHERE drc.scope = c.scope
+        AND drc.scope_id = c.scope_id
+        AND drc.window_type = c.window_type
+        AND drc.window_start = date_trunc(c.window_type, now())
+    ), 0),
+    c.cap
+  FROM public.get_dial_rate_caps(p_campaign_id, v_phone_number_id) c;
+END;
+$function$;
+
+-- 6. Housekeeping for expired windows
+CREATE OR REPLACE FUNCTION public.cleanup_dial_rate_counters()
+RETURNS void
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+BEGIN
+  DELETE FROM public.dial_rate_counters
+  WHERE window_start < now() - INTERVAL '2 days';
+END;
+$function$;
+
+-- Schedule via pg_cron in the Supabase dashboard:
+-- SELECT cron.schedule('cleanup-dial-rate-counters', '30 3 * * *', 'SELECT public.cleanup_dial_rate_counters();');
+
+REVOKE EXECUTE ON FUNCTION public.try_acquire_dial_slot(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.try_acquire_dial_slot(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_campaign_rate_limit_usage(UUID) TO authenticated, service_role;
@@ -0,0 +1,282 @@
+-- Caller-ID pool with local-presence number selection
+-- A campaign can dial from a pool of the user's phone numbers. Each call uses the pool number that
+-- best matches the contact (same area code, then same state), round-robin within a match, skipping
+-- numbers that have reached their caps (phone_numbers.max_calls_per_day etc.).
+-- Campaigns without a pool keep dialing from their agent's phone number.
+
+-- 1. Pool membership
+CREATE TABLE IF NOT EXISTS public.campaign_phone_numbers (
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  phone_number_id UUID NOT NULL REFERENCES public.phone_numbers(id) ON DELETE CASCADE,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (campaign_id, phone_number_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_phone_numbers_phone_number_id
+  ON public.campaign_phone_numbers(phone_number_id);
+
+ALTER TABLE public.campaign_phone_numbers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own campaign phone numbers"
+  ON public.campaign_phone_numbers FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.campaigns
+      WHERE campaigns.id = campaign_phone_numbers.campaign_id
+      AND campaigns.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.campaigns
+      WHERE campaigns.id = campaign_phone_numbers.campaign_id
+      AND campaigns.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.phone_numbers
+      WHERE phone_numbers.id = campaign_phone_numbers.phone_number_id
+      AND phone_numbers.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role has full access to campaign_phone_numbers"
+  ON public.campaign_phone_numbers FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role')
+  WITH CHECK (auth.jwt()->>'role' = 'service_role');
+
+-- 2. Caller ID recorded on each attempt
+ALTER TABLE public.campaign_contact_attempts
+ADD COLUMN IF NOT EXISTS from_phone_number_id UUID REFERENCES public.phone_numbers(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS from_phone_number TEXT;
+
+COMMENT ON COLUMN public.campaign_contact_attempts.from_phone_number IS
+'Caller ID the attempt was dialed from.';
+
+-- 3. NANP area code of a phone number, or NULL
+CREATE OR REPLACE FUNCTION public.phone_area_code(p_phone_number TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_digits TEXT;
+BEGIN
+  v_digits := regexp_replace(COALESCE(p_phone_number, ''), '[^0-9]', '', 'g');
+  IF length(v_digits) = 11 AND left(v_digits, 1) = '1' THEN
+    v_digits := substring(v_digits FROM 2);
+  END IF;
+  IF length(v_digits) = 10 THEN
+    RETURN left(v_digits, 3);
+  END IF;
+  RETURN NULL;
+END;
+$function$;
+
+-- A contact's state: zip code first, then the area code of the dialed number
+CREATE OR REPLACE FUNCTION public.resolve_contact_state(
+  p_phone_number TEXT,
+  p_address TEXT,
+  p_data JSONB
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_zip TEXT;
+  v_state TEXT;
+BEGIN
+  v_zip := COALESCE(
+    substring(COALESCE(p_data->>'zip_code', p_data->>'zip', p_data->>'zipcode', p_data->>'postal_code') FROM '(\d{5})'),
+    substring(COALESCE(p_address, '') FROM '(\d{5})(?:-\d{4})?\s*$')
+  );
+  IF v_zip IS NOT NULL THEN
+    SELECT z.state INTO v_state
+    FROM public.zip_prefix_states z
+    WHERE left(v_zip, 3)::INTEGER BETWEEN z.prefix_start AND z.prefix_end
+    LIMIT 1;
+
+    IF v_state IS NOT NULL THEN
+      RETURN v_state;
+    END IF;
+  END IF;
+
+  SELECT ac.state INTO v_state
+  FROM public.area_codes ac
+  WHERE ac.area_code = public.phone_area_code(p_phone_number);
+
+  RETURN v_state;
+END;
+$function$;
+
+-- 4. Pick the caller ID for a call
+CREATE OR REPLACE FUNCTION public.select_caller_id(
+  p_campaign_id UUID,
+  p_contact_id UUID,
+  p_to_number TEXT
+)
+RETURNS TABLE(phone_number_id UUID, phone_number TEXT, match_type TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_contact_area_code TEXT;
+  v_contact_state TEXT;
+  v_has_pool BOOLEAN;
+  v_selected RECORD;
+BEGIN
+  -- Serialize selection per campaign so concurrent invocations rotate through the pool
+  PERFORM pg_advisory_xact_lock(hashtext('caller_id:' || p_campaign_id::TEXT));
+
+  v_contact_area_code := public.phone_area_code(p_to_number);
+
+  SELECT public.resolve_contact_state(p_to_number, c.address, c.data)
+  INTO v_contact_state
+  FROM public.contacts c
+  WHERE c.id = p_contact_id;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.campaign_phone_numbers cpn WHERE cpn.campaign_id = p_campaign_id
+  ) INTO v_has_pool;
+
+  WITH candidates AS (
+    SELECT pn.id, pn.phone_number, pn.area_code, cpn.last_used_at
+    FROM public.campaign_phone_numbers cpn
+    JOIN public.phone_numbers pn ON pn.id = cpn.phone_number_id
+    WHERE v_has_pool
+      AND cpn.campaign_id = p_campaign_id
+      AND pn.status = 'active'
+    UNION ALL
+    -- No pool: the agent's own number
+    SELECT pn.id, pn.phone_number, pn.area_code, NULL::TIMESTAMPTZ
+    FROM public.campaigns camp
+    JOIN public.user_agents ua ON ua.id = camp.agent_id
+    JOIN public.phone_numbers pn ON pn.id = ua.phone_number_id
+    WHERE NOT v_has_pool
+      AND camp.id = p_campaign_id
+  ),
+  available AS (
+    -- Skip numbers that have reached any of their own caps
+    SELECT cand.*
+    FROM candidates cand
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM public.get_dial_rate_caps(p_campaign_id, cand.id) cap
+      JOIN public.dial_rate_counters drc
+        ON drc.scope = cap.scope
+        AND drc.scope_id = cap.scope_id
+        AND drc.window_type = cap.window_type
+        AND drc.window_start = date_trunc(cap.window_type, now())
+      WHERE cap.scope = 'phone_number'
+        AND cap.cap IS NOT NULL
+        AND drc.call_count >= cap.cap
+    )
+  )
+  SELECT
+    a.id,
+    a.phone_number,
+    CASE
+      WHEN v_contact_area_code IS NOT NULL AND a.area_code = v_contact_area_code THEN 'area_code'
+      WHEN v_contact_state IS NOT NULL AND ac.state = v_contact_state THEN 'state'
+      ELSE 'none'
+    END AS match_type
+  INTO v_selected
+  FROM available a
+  LEFT JOIN public.area_codes ac ON ac.area_code = a.area_code
+  ORDER BY
+    CASE
+      WHEN v_contact_area_code IS NOT NULL AND a.area_code = v_contact_area_code THEN 0
+      WHEN v_contact_state IS NOT NULL AND ac.state = v_contact_state THEN 1
+      ELSE 2
+    END,
+    a.last_used_at ASC NULLS FIRST,  -- Round-robin within the best match
+    a.id
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    -- Every number is at its cap
+    RETURN;
+  END IF;
+
+  UPDATE public.campaign_phone_numbers
+  SET last_used_at = now()
+  WHERE campaign_id = p_campaign_id
+    AND campaign_phone_numbers.phone_number_id = v_selected.id;
+
+  RETURN QUERY SELECT v_selected.id, v_selected.phone_number, v_selected.match_type;
+END;
+$function$;
+
+-- 5. Dial rate usage of a campaign with the caps of every number it dials from: each pool
+-- number, or the agent's number when the campaign has no pool
+CREATE OR REPLACE FUNCTION public.get_campaign_rate_limit_usage(p_campaign_id UUID)
+RETURNS TABLE(scope TEXT, scope_id UUID, scope_label TEXT, window_type TEXT, used INTEGER, cap INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT camp.user_id INTO v_user_id
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF v_user_id IS NULL OR (auth.uid() IS DISTINCT FROM v_user_id AND COALESCE(auth.jwt()->>'role', '') <> 'service_role') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH phones AS (
+    SELECT cpn.phone_number_id AS id
+    FROM public.campaign_phone_numbers cpn
+    WHERE cpn.campaign_id = p_campaign_id
+    UNION
+    SELECT ua.phone_number_id
+    FROM public.campaigns camp
+    JOIN public.user_agents ua ON ua.id = camp.agent_id
+    WHERE camp.id = p_campaign_id
+      AND ua.phone_number_id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.campaign_phone_numbers cpn WHERE cpn.campaign_id = p_campaign_id)
+  ),
+  caps AS (
+    SELECT c.*
+    FROM public.get_dial_rate_caps(p_campaign_id, NULL) c
+    UNION ALL
+    SELECT c.*
+    FROM phones p
+    CROSS JOIN LATERAL public.get_dial_rate_caps(p_campaign_id, p.id) c
+    WHERE c.scope = 'phone_number'
+  )
+  SELECT
+    c.scope,
+    c.scope_id,
+    CASE c.scope
+      WHEN 'campaign' THEN 'Campaign'
+      WHEN 'account' THEN 'Account'
+      ELSE COALESCE(pn.phone_number, 'Phone number')
+    END,
+    c.window_type,
+    COALESCE(drc.call_count, 0),
+    c.cap
+  FROM caps c
+  LEFT JOIN public.phone_numbers pn ON c.scope = 'phone_number' AND pn.id = c.scope_id
+  LEFT JOIN public.dial_rate_counters drc
+    ON drc.scope = c.scope
+    AND drc.scope_id = c.scope_id
+    AND drc.window_type = c.window_type
+    AND drc.window_start = date_trunc(c.window_type, now())
+  ORDER BY
+    CASE c.scope WHEN 'campaign' THEN 0 WHEN 'account' THEN 1 ELSE 2 END,
+    pn.phone_number,
+    CASE c.window_type WHEN 'minute' THEN 0 WHEN 'hour' THEN 1 ELSE 2 END;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.select_caller_id(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.select_caller_id(UUID, UUID, TEXT) TO service_role;
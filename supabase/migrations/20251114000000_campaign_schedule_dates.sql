@@ -0,0 +1,32 @@
+-- Scheduled campaigns with start/end timestamps and blackout dates
+-- process-campaign activates scheduled campaigns at starts_at, completes campaigns at ends_at
+-- and does not dial on blackout dates or on holidays of the selected holiday calendar
+-- (evaluated in the campaign timezone).
+
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS blackout_dates DATE[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS holiday_calendar TEXT
+  CHECK (holiday_calendar IN ('us_federal'));
+
+ALTER TABLE public.campaigns
+DROP CONSTRAINT IF EXISTS campaigns_schedule_range_check;
+
+ALTER TABLE public.campaigns
+ADD CONSTRAINT campaigns_schedule_range_check
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at);
+
+COMMENT ON COLUMN public.campaigns.blackout_dates IS
+'User-defined dates (in the campaign timezone) on which the campaign does not dial.';
+COMMENT ON COLUMN public.campaigns.holiday_calendar IS
+'Preset holiday calendar to skip in addition to blackout_dates. NULL means none.';
+
+-- Lookups for process-campaign's schedule pass
+CREATE INDEX IF NOT EXISTS idx_campaigns_scheduled_starts_at
+  ON public.campaigns(starts_at)
+  WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_ends_at
+  ON public.campaigns(ends_at)
+  WHERE ends_at IS NOT NULL;
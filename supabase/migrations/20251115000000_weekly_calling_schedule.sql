@@ -0,0 +1,277 @@
+-- Multi-window, per-weekday calling hours
+-- campaigns.weekly_schedule holds several calling windows per weekday:
+--   { "mon": [{ "start": "10:00", "end": "12:00" }, { "start": "16:00", "end": "19:00" }], "sat": [...], "sun": [] }
+-- Campaigns without a weekly schedule keep using calling_hours on every day in active_days.
+
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS weekly_schedule JSONB;
+
+COMMENT ON COLUMN public.campaigns.weekly_schedule IS
+'Calling windows per weekday (sun..sat). NULL means calling_hours on every day in active_days.';
+
+-- 1. Normalized weekly schedule (legacy calling_hours/active_days expanded per day)
+CREATE OR REPLACE FUNCTION public.campaign_weekly_schedule(
+  p_weekly_schedule JSONB,
+  p_calling_hours JSONB,
+  p_active_days TEXT[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO ''
+AS $function$
+BEGIN
+  IF p_weekly_schedule IS NOT NULL THEN
+    RETURN p_weekly_schedule;
+  END IF;
+
+  RETURN (
+    SELECT jsonb_object_agg(
+      d.day,
+      CASE
+        WHEN p_calling_hours IS NOT NULL AND d.day = ANY(COALESCE(p_active_days, '{}'))
+          THEN jsonb_build_array(jsonb_build_object('start', p_calling_hours->>'start', 'end', p_calling_hours->>'end'))
+        ELSE '[]'::jsonb
+      END
+    )
+    FROM unnest(ARRAY['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']) AS d(day)
+  );
+END;
+$function$;
+
+-- 2. Calling window check in a given timezone (inclusive of the end minute, like process-campaign)
+CREATE OR REPLACE FUNCTION public.is_within_weekly_schedule(
+  p_schedule JSONB,
+  p_timezone TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_local TIMESTAMP;
+  v_time TIME;
+BEGIN
+  IF p_schedule IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- AT TIME ZONE uses the zone rules in effect at p_at, so DST changes are handled by Postgres
+  v_local := p_at AT TIME ZONE COALESCE(p_timezone, 'America/New_York');
+  v_time := date_trunc('minute', v_local)::TIME;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_schedule->to_char(v_local, 'dy'), '[]'::jsonb)) w
+    WHERE v_time BETWEEN (w->>'start')::TIME AND (w->>'end')::TIME
+  );
+END;
+$function$;
+
+-- 3. Which third of the day's combined calling windows (0 = early, 1 = middle, 2 = late) a moment falls in
+CREATE OR REPLACE FUNCTION public.weekly_schedule_segment(
+  p_schedule JSONB,
+  p_timezone TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_local TIMESTAMP;
+  v_minutes NUMERIC;
+  v_segment INTEGER;
+BEGIN
+  IF p_schedule IS NULL OR p_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_local := p_at AT TIME ZONE COALESCE(p_timezone, 'America/New_York');
+  v_minutes := extract(epoch FROM date_trunc('minute', v_local)::TIME) / 60;
+
+  SELECT LEAST(2, floor((w.elapsed_before + v_minutes - w.start_minutes) / (w.total / 3.0))::INTEGER)
+  INTO v_segment
+  FROM (
+    SELECT
+      x.start_minutes,
+      x.end_minutes,
+      SUM(x.end_minutes - x.start_minutes) OVER () AS total,
+      COALESCE(SUM(x.end_minutes - x.start_minutes) OVER (
+        ORDER BY x.start_minutes ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0) AS elapsed_before
+    FROM (
+      SELECT
+        extract(epoch FROM (e->>'start')::TIME) / 60 AS start_minutes,
+        extract(epoch FROM (e->>'end')::TIME) / 60 AS end_minutes
+      FROM jsonb_array_elements(COALESCE(p_schedule->to_char(v_local, 'dy'), '[]'::jsonb)) e
+    ) x
+    WHERE x.end_minutes > x.start_minutes
+  ) w
+  WHERE v_minutes BETWEEN w.start_minutes AND w.end_minutes
+  ORDER BY w.start_minutes
+  LIMIT 1;
+
+  RETURN v_segment;
+END;
+$function$;
+
+-- 4. Backfill existing campaigns so the stored schedule matches what they dial today
+UPDATE public.campaigns
+SET weekly_schedule = public.campaign_weekly_schedule(NULL, calling_hours, active_days)
+WHERE weekly_schedule IS NULL
+  AND calling_hours IS NOT NULL;
+
+-- 5. Contact selection using the weekly schedule
+CREATE OR REPLACE FUNCTION public.get_next_contacts_to_call(p_campaign_id uuid, p_max_retry_days integer, p_limit integer)
+ RETURNS TABLE(
+   contact_id uuid,
+   phone_number text,
+   phone_index integer,
+   total_phones integer,
+   contact_data jsonb,
+   timezone text,
+   attempt_number integer,
+   attempt_day integer,
+   phone_attempts integer,
+   contact_attempts integer,
+   last_outcome text,
+   last_attempt_at timestamptz
+ )
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule JSONB;
+  v_campaign_timezone TEXT;
+  v_settings JSONB;
+BEGIN
+  SELECT
+    public.campaign_weekly_schedule(camp.weekly_schedule, camp.calling_hours, camp.active_days),
+    COALESCE(camp.timezone, 'America/New_York'),
+    COALESCE(camp.settings, '{}'::jsonb)
+  INTO v_schedule, v_campaign_timezone, v_settings
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  RETURN QUERY
+  WITH contact_phones AS (
+    -- Expand contacts to have one row per phone number
+    SELECT
+      c.id as contact_id,
+      -- Build proper contact_data with all relevant fields
+      jsonb_build_object(
+        'first_name', c.first_name,
+        'last_name', c.last_name,
+        'email', c.email,
+        'address', c.address,
+        'phone_number', regexp_replace(phone_num, '[^0-9]', '', 'g'),
+        'custom_fields', c.custom_fields
+      ) as data,
+      c.contact_group_id,
+      c.created_at as contact_created_at,
+      COALESCE(c.timezone, v_campaign_timezone) as contact_timezone,
+      phone_num,
+      array_position(c.phone_numbers, phone_num) - 1 as phone_index,
+      array_length(c.phone_numbers, 1) as total_phones
+    FROM public.contacts c
+    CROSS JOIN unnest(c.phone_numbers) AS phone_num
+    WHERE c.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.campaign_contacts cc
+        WHERE cc.contact_group_id = c.contact_group_id
+          AND cc.campaign_id = p_campaign_id
+      )
+      -- Only contacts whose own local time is inside one of the campaign's calling windows
+      AND public.is_within_weekly_schedule(v_schedule, COALESCE(c.timezone, v_campaign_timezone))
+  ),
+  call_history AS (
+    -- Latest attempt and attempt count for each contact/phone combination
+    SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+      cca.contact_id,
+      cca.phone_index,
+      cca.call_status as last_status,
+      cca.retry_outcome as last_outcome,
+      cca.created_at as last_attempt,
+      count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) as phone_attempts
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+  ),
+  contact_history AS (
+    -- Attempts across all of a contact's phone numbers
+    SELECT
+      cca.contact_id,
+      count(*) as contact_attempts,
+      MIN(cca.created_at) as first_attempt,
+      bool_or(cca.call_status = 'in-progress') as has_in_progress
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    GROUP BY cca.contact_id
+  ),
+  eligible_contacts AS (
+    SELECT
+      cp.*,
+      ch.last_outcome,
+      ch.last_attempt,
+      COALESCE(ch.phone_attempts, 0) as phone_attempts,
+      COALESCE(hist.contact_attempts, 0) as contact_attempts,
+      COALESCE(extract(day FROM now() - hist.first_attempt)::int, 0) as days_since_first_attempt
+    FROM contact_phones cp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = cp.contact_id
+      AND ch.phone_index = cp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = cp.contact_id
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    WHERE
+      -- Include if this phone was never called
+      ch.contact_id IS NULL
+      -- Or if the last outcome is retryable under the campaign retry policy
+      OR (
+        ch.last_outcome IS NOT NULL
+        AND COALESCE((r.rule->>'enabled')::boolean, false)
+        AND NOT COALESCE(hist.has_in_progress, false)
+        -- Within retry days
+        AND extract(day FROM now() - hist.first_attempt)::int < p_max_retry_days
+        -- Minimum spacing since the last attempt on this phone
+        AND now() - ch.last_attempt >= COALESCE((r.rule->>'min_spacing_hours')::numeric, 0) * interval '1 hour'
+        -- Attempt caps per phone and per contact
+        AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+        AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        -- Time-of-day rotation: retry in a different part of the day's calling windows
+        AND (
+          NOT COALESCE((r.rule->>'rotate_time_of_day')::boolean, false)
+          OR public.weekly_schedule_segment(v_schedule, cp.contact_timezone, now())
+             IS DISTINCT FROM public.weekly_schedule_segment(v_schedule, cp.contact_timezone, ch.last_attempt)
+        )
+      )
+  )
+  SELECT
+    ec.contact_id,
+    ec.phone_num as phone_number,
+    ec.phone_index,
+    ec.total_phones,
+    ec.data as contact_data,
+    ec.contact_timezone as timezone,
+    (ec.contact_attempts + 1)::integer as attempt_number,
+    ec.days_since_first_attempt as attempt_day,
+    ec.phone_attempts::integer,
+    ec.contact_attempts::integer,
+    ec.last_outcome,
+    ec.last_attempt as last_attempt_at
+  FROM eligible_contacts ec
+  ORDER BY
+    ec.contact_created_at ASC,  -- Process oldest contacts first
+    ec.contact_id ASC,  -- Then by contact ID
+    ec.phone_index ASC  -- Then by phone number order
+  LIMIT p_limit;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.is_within_weekly_schedule(JSONB, TEXT, TIMESTAMPTZ) TO authenticated, service_role;
@@ -0,0 +1,283 @@
+-- Dial queue ordering and lead scoring
+-- campaigns.settings.queue_order picks how get_next_contacts_to_call orders eligible contacts:
+--   { "strategy": "created_at" | "field" | "lead_score" | "priority_tiers",
+--     "field": "listing_price", "direction": "desc",
+--     "lead_score_factors": [{ "field": "listing_price", "weight": 2, "prefer": "high" }],
+--     "tier_field": "interest_level", "tiers": ["hot", "warm", "cold"],
+--     "boost_callbacks": true, "boost_positive": true }
+-- Contacts who asked for a callback, then contacts with a positive earlier call, are dialed first.
+-- Campaigns without queue_order keep the previous oldest-first order.
+
+-- 1. Sortable value of a contact field: plain or currency numbers, and dates as days since 1970
+CREATE OR REPLACE FUNCTION public.contact_sort_value(p_value TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_value TEXT := trim(p_value);
+  v_numeric TEXT;
+BEGIN
+  IF v_value IS NULL OR v_value = '' THEN
+    RETURN NULL;
+  END IF;
+
+  v_numeric := regexp_replace(v_value, '[$,[:space:]]', '', 'g');
+  IF v_numeric ~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+    RETURN v_numeric::NUMERIC;
+  END IF;
+
+  BEGIN
+    IF v_value ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}' THEN
+      RETURN make_date(
+        substring(v_value FROM 1 FOR 4)::INTEGER,
+        substring(v_value FROM 6 FOR 2)::INTEGER,
+        substring(v_value FROM 9 FOR 2)::INTEGER
+      ) - DATE '1970-01-01';
+    END IF;
+
+    IF v_value ~ '^[0-9]{1,2}/[0-9]{1,2}/[0-9]{4}$' THEN
+      RETURN make_date(
+        split_part(v_value, '/', 3)::INTEGER,
+        split_part(v_value, '/', 1)::INTEGER,
+        split_part(v_value, '/', 2)::INTEGER
+      ) - DATE '1970-01-01';
+    END IF;
+  EXCEPTION WHEN datetime_field_overflow OR invalid_datetime_format THEN
+    -- Impossible dates such as 2024-02-30
+    RETURN NULL;
+  END;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- 2. Contact selection ordered by the campaign's queue ordering
+CREATE OR REPLACE FUNCTION public.get_next_contacts_to_call(p_campaign_id uuid, p_max_retry_days integer, p_limit integer)
+ RETURNS TABLE(
+   contact_id uuid,
+   phone_number text,
+   phone_index integer,
+   total_phones integer,
+   contact_data jsonb,
+   timezone text,
+   attempt_number integer,
+   attempt_day integer,
+   phone_attempts integer,
+   contact_attempts integer,
+   last_outcome text,
+   last_attempt_at timestamptz
+ )
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule JSONB;
+  v_campaign_timezone TEXT;
+  v_settings JSONB;
+  v_order JSONB;
+  v_strategy TEXT;
+  v_direction TEXT;
+  v_tiers TEXT[];
+  v_total_weight NUMERIC;
+BEGIN
+  SELECT
+    public.campaign_weekly_schedule(camp.weekly_schedule, camp.calling_hours, camp.active_days),
+    COALESCE(camp.timezone, 'America/New_York'),
+    COALESCE(camp.settings, '{}'::jsonb)
+  INTO v_schedule, v_campaign_timezone, v_settings
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  v_order := COALESCE(v_settings->'queue_order', '{}'::jsonb);
+  v_strategy := COALESCE(v_order->>'strategy', 'created_at');
+  v_direction := COALESCE(v_order->>'direction', 'desc');
+  v_tiers := ARRAY(
+    SELECT lower(trim(t))
+    FROM jsonb_array_elements_text(COALESCE(v_order->'tiers', '[]'::jsonb)) AS t
+  );
+  SELECT SUM(GREATEST((f->>'weight')::numeric, 0))
+  INTO v_total_weight
+  FROM jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb)) AS f;
+
+  RETURN QUERY
+  WITH factor_values AS (
+    -- One row per contact and lead score factor
+    SELECT
+      c.id AS contact_id,
+      f.factor_index,
+      (f.factor->>'weight')::numeric AS weight,
+      COALESCE(f.factor->>'prefer', 'high') AS prefer,
+      public.contact_sort_value(c.data->>(f.factor->>'field')) AS value
+    FROM public.contacts c
+    CROSS JOIN jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb))
+      WITH ORDINALITY AS f(factor, factor_index)
+    WHERE v_strategy = 'lead_score'
+      AND c.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.campaign_contacts cc
+        WHERE cc.contact_group_id = c.contact_group_id
+          AND cc.campaign_id = p_campaign_id
+      )
+  ),
+  lead_scores AS (
+    -- Weighted percentile rank per factor across the campaign's contacts, scaled to 0-100
+    SELECT
+      ranked.contact_id,
+      round(100 * SUM(ranked.weight * ranked.score) / NULLIF(v_total_weight, 0), 1) AS lead_score
+    FROM (
+      SELECT
+        fv.contact_id,
+        fv.weight,
+        CASE
+          WHEN fv.prefer = 'low' THEN 1 - percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+          ELSE percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+        END AS score
+      FROM factor_values fv
+      WHERE fv.value IS NOT NULL
+        AND fv.weight > 0
+    ) ranked
+    GROUP BY ranked.contact_id
+  ),
+  contact_phones AS (
+    -- Expand contacts to have one row per phone number
+    SELECT
+      c.id as contact_id,
+      -- Build proper contact_data with all relevant fields
+      jsonb_build_object(
+        'first_name', c.first_name,
+        'last_name', c.last_name,
+        'email', c.email,
+        'address', c.address,
+        'phone_number', regexp_replace(phone_num, '[^0-9]', '', 'g'),
+        'custom_fields', c.custom_fields
+      ) as data,
+      c.contact_group_id,
+      c.created_at as contact_created_at,
+      COALESCE(c.timezone, v_campaign_timezone) as contact_timezone,
+      -- Queue priority under the campaign's ordering strategy (higher is called first)
+      CASE v_strategy
+        WHEN 'field' THEN
+          CASE WHEN v_direction = 'asc' THEN -1 ELSE 1 END
+            * public.contact_sort_value(c.data->>(v_order->>'field'))
+        WHEN 'lead_score' THEN
+          COALESCE(ls.lead_score, 0)
+        WHEN 'priority_tiers' THEN
+          (cardinality(v_tiers) + 1 - array_position(v_tiers, lower(trim(c.data->>(v_order->>'tier_field')))))::numeric
+      END as priority,
+      phone_num,
+      array_position(c.phone_numbers, phone_num) - 1 as phone_index,
+      array_length(c.phone_numbers, 1) as total_phones
+    FROM public.contacts c
+    CROSS JOIN unnest(c.phone_numbers) AS phone_num
+    LEFT JOIN lead_scores ls ON ls.contact_id = c.id
+    WHERE c.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.campaign_contacts cc
+        WHERE cc.contact_group_id = c.contact_group_id
+          AND cc.campaign_id = p_campaign_id
+      )
+      -- Only contacts whose own local time is inside one of the campaign's calling windows
+      AND public.is_within_weekly_schedule(v_schedule, COALESCE(c.timezone, v_campaign_timezone))
+  ),
+  call_history AS (
+    -- Latest attempt and attempt count for each contact/phone combination
+    SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+      cca.contact_id,
+      cca.phone_index,
+      cca.call_status as last_status,
+      cca.retry_outcome as last_outcome,
+      cca.created_at as last_attempt,
+      count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) as phone_attempts
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+  ),
+  contact_history AS (
+    -- Attempts across all of a contact's phone numbers
+    SELECT
+      cca.contact_id,
+      count(*) as contact_attempts,
+      MIN(cca.created_at) as first_attempt,
+      bool_or(cca.call_status = 'in-progress') as has_in_progress,
+      -- Queue jumpers: the lead asked to be called back, or an earlier call went well
+      COALESCE(bool_or(lower(cca.custom_analysis->>'callback_requested') IN ('true', 'yes')), false) as callback_requested,
+      COALESCE(bool_or(
+        cca.call_successful
+        OR cca.appointment_data->>'booked' = 'true'
+        OR cca.follow_up_potential = 'high'
+      ), false) as had_positive_attempt
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    GROUP BY cca.contact_id
+  ),
+  eligible_contacts AS (
+    SELECT
+      cp.*,
+      ch.last_outcome,
+      ch.last_attempt,
+      COALESCE(ch.phone_attempts, 0) as phone_attempts,
+      COALESCE(hist.contact_attempts, 0) as contact_attempts,
+      COALESCE(hist.callback_requested, false) as callback_requested,
+      COALESCE(hist.had_positive_attempt, false) as had_positive_attempt,
+      COALESCE(extract(day FROM now() - hist.first_attempt)::int, 0) as days_since_first_attempt
+    FROM contact_phones cp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = cp.contact_id
+      AND ch.phone_index = cp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = cp.contact_id
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    WHERE
+      -- Include if this phone was never called
+      ch.contact_id IS NULL
+      -- Or if the last outcome is retryable under the campaign retry policy
+      OR (
+        ch.last_outcome IS NOT NULL
+        AND COALESCE((r.rule->>'enabled')::boolean, false)
+        AND NOT COALESCE(hist.has_in_progress, false)
+        -- Within retry days
+        AND extract(day FROM now() - hist.first_attempt)::int < p_max_retry_days
+        -- Minimum spacing since the last attempt on this phone
+        AND now() - ch.last_attempt >= COALESCE((r.rule->>'min_spacing_hours')::numeric, 0) * interval '1 hour'
+        -- Attempt caps per phone and per contact
+        AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+        AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        -- Time-of-day rotation: retry in a different part of the day's calling windows
+        AND (
+          NOT COALESCE((r.rule->>'rotate_time_of_day')::boolean, false)
+          OR public.weekly_schedule_segment(v_schedule, cp.contact_timezone, now())
+             IS DISTINCT FROM public.weekly_schedule_segment(v_schedule, cp.contact_timezone, ch.last_attempt)
+        )
+      )
+  )
+  SELECT
+    ec.contact_id,
+    ec.phone_num as phone_number,
+    ec.phone_index,
+    ec.total_phones,
+    ec.data as contact_data,
+    ec.contact_timezone as timezone,
+    (ec.contact_attempts + 1)::integer as attempt_number,
+    ec.days_since_first_attempt as attempt_day,
+    ec.phone_attempts::integer,
+    ec.contact_attempts::integer,
+    ec.last_outcome,
+    ec.last_attempt as last_attempt_at
+  FROM eligible_contacts ec
+  ORDER BY
+    CASE
+      WHEN ec.callback_requested AND COALESCE((v_order->>'boost_callbacks')::boolean, false) THEN 2
+      WHEN ec.had_positive_attempt AND COALESCE((v_order->>'boost_positive')::boolean, false) THEN 1
+      ELSE 0
+    END DESC,
+    ec.priority DESC NULLS LAST,  -- Campaign ordering strategy
+    ec.contact_created_at ASC,  -- Then oldest contacts first
+    ec.contact_id ASC,  -- Then by contact ID
+    ec.phone_index ASC  -- Then by phone number order
+  LIMIT p_limit;
+END;
+$function$;
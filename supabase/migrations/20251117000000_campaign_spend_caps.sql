@@ -0,0 +1,156 @@
+-- Per-campaign spend caps and daily budgets
+-- campaigns.settings.spend_caps holds the caps in cents (a missing or null cap means no cap):
+--   { "max_daily_cents": 5000, "max_total_cents": 50000, "max_cost_per_appointment_cents": 2500 }
+-- Spend is the user cost of the campaign's calls, summed from call_costs through
+-- campaign_contact_attempts. The daily budget resets at midnight in the campaign timezone.
+
+CREATE INDEX IF NOT EXISTS idx_call_costs_created_at
+  ON public.call_costs(created_at);
+
+-- 1. Running spend of a campaign
+CREATE OR REPLACE FUNCTION public.get_campaign_spend(p_campaign_id UUID)
+RETURNS TABLE(
+  total_cents BIGINT,
+  today_cents BIGINT,
+  appointments INTEGER,
+  cost_per_appointment_cents INTEGER,
+  in_progress_calls INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_user_id UUID;
+  v_timezone TEXT;
+BEGIN
+  SELECT camp.user_id, COALESCE(camp.timezone, 'America/New_York')
+  INTO v_user_id, v_timezone
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF v_user_id IS NULL OR (auth.uid() IS DISTINCT FROM v_user_id AND COALESCE(auth.jwt()->>'role', '') <> 'service_role') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH costs AS (
+    SELECT
+      COALESCE(SUM(cc.user_cost_cents), 0)::BIGINT AS total_cents,
+      COALESCE(SUM(cc.user_cost_cents) FILTER (
+        WHERE (cc.created_at AT TIME ZONE v_timezone)::DATE = (now() AT TIME ZONE v_timezone)::DATE
+      ), 0)::BIGINT AS today_cents
+    FROM public.call_costs cc
+    JOIN public.campaign_contact_attempts cca ON cca.id = cc.campaign_contact_attempt_id
+    WHERE cca.campaign_id = p_campaign_id
+  ),
+  attempts AS (
+    SELECT
+      COUNT(*) FILTER (WHERE cca.appointment_data->>'booked' = 'true')::INTEGER AS appointments,
+      COUNT(*) FILTER (WHERE cca.call_status = 'in-progress')::INTEGER AS in_progress_calls
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+  )
+  SELECT
+    costs.total_cents,
+    costs.today_cents,
+    attempts.appointments,
+    CASE WHEN attempts.appointments > 0
+      THEN round(costs.total_cents::NUMERIC / attempts.appointments)::INTEGER
+    END,
+    attempts.in_progress_calls
+  FROM costs, attempts;
+END;
+$function$;
+
+-- 2. Spend cap check before dialing
+-- Each cap is a budget: the daily cap against today's spend, the total cap against all spend, and the
+-- per-appointment cap times the appointments booked so far (at least one) against all spend.
+-- Calls still in progress are counted at p_estimated_call_cents since their cost is not recorded yet.
+-- Returns { allowed, pause_reason, cap_cents, spent_cents, remaining_calls }: pause_reason is set once
+-- recorded spend has reached a cap; remaining_calls is how many more calls fit in the tightest budget
+-- (null without caps).
+CREATE OR REPLACE FUNCTION public.check_campaign_spend_caps(
+  p_campaign_id UUID,
+  p_estimated_call_cents INTEGER DEFAULT 100
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_caps JSONB;
+  v_spend RECORD;
+  v_budget RECORD;
+  v_remaining INTEGER;
+  v_min_remaining INTEGER;
+  v_tightest_cap BIGINT;
+  v_tightest_spent BIGINT;
+BEGIN
+  SELECT COALESCE(camp.settings->'spend_caps', '{}'::jsonb)
+  INTO v_caps
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('allowed', false, 'pause_reason', NULL);
+  END IF;
+
+  SELECT * INTO v_spend FROM public.get_campaign_spend(p_campaign_id);
+
+  FOR v_budget IN
+    SELECT b.reason, b.cap_cents, b.budget_cents, b.spent_cents
+    FROM (VALUES
+      ('daily_budget_reached',
+        (v_caps->>'max_daily_cents')::BIGINT,
+        (v_caps->>'max_daily_cents')::BIGINT,
+        v_spend.today_cents),
+      ('spend_cap_reached',
+        (v_caps->>'max_total_cents')::BIGINT,
+        (v_caps->>'max_total_cents')::BIGINT,
+        v_spend.total_cents),
+      ('appointment_cost_cap_reached',
+        (v_caps->>'max_cost_per_appointment_cents')::BIGINT,
+        (v_caps->>'max_cost_per_appointment_cents')::BIGINT * GREATEST(v_spend.appointments, 1),
+        v_spend.total_cents)
+    ) AS b(reason, cap_cents, budget_cents, spent_cents)
+    WHERE b.cap_cents IS NOT NULL
+  LOOP
+    IF v_budget.spent_cents >= v_budget.budget_cents THEN
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'pause_reason', v_budget.reason,
+        'cap_cents', v_budget.cap_cents,
+        'spent_cents', v_budget.spent_cents,
+        'remaining_calls', 0
+      );
+    END IF;
+
+    v_remaining := GREATEST(0, floor(
+      (v_budget.budget_cents - v_budget.spent_cents - v_spend.in_progress_calls::BIGINT * p_estimated_call_cents)
+        / GREATEST(p_estimated_call_cents, 1)::NUMERIC
+    )::INTEGER);
+
+    IF v_min_remaining IS NULL OR v_remaining < v_min_remaining THEN
+      v_min_remaining := v_remaining;
+      v_tightest_cap := v_budget.cap_cents;
+      v_tightest_spent := v_budget.spent_cents;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'allowed', v_min_remaining IS NULL OR v_min_remaining > 0,
+    'pause_reason', NULL,
+    'cap_cents', v_tightest_cap,
+    'spent_cents', v_tightest_spent,
+    'remaining_calls', v_min_remaining
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_spend(UUID) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.check_campaign_spend_caps(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_campaign_spend_caps(UUID, INTEGER) TO service_role;
@@ -0,0 +1,118 @@
+-- A/B split testing across agents
+-- A campaign can split its contacts between two or more agents (variants) by traffic weight.
+-- Each contact is assigned deterministically from a hash of campaign and contact id (see
+-- supabase/functions/_shared/agent-variants.ts), so retries reach the same agent. The variant and
+-- the agent that placed the call are recorded on every attempt.
+-- Campaigns without variants keep calling with campaigns.agent_id.
+
+CREATE TABLE IF NOT EXISTS public.campaign_agent_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.user_agents(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, agent_id),
+  UNIQUE (campaign_id, label)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_agent_variants_campaign
+  ON public.campaign_agent_variants(campaign_id);
+
+ALTER TABLE public.campaign_agent_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage variants of their campaigns"
+  ON public.campaign_agent_variants
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.campaigns
+      WHERE campaigns.id = campaign_agent_variants.campaign_id
+      AND campaigns.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.campaigns
+      WHERE campaigns.id = campaign_agent_variants.campaign_id
+      AND campaigns.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.user_agents
+      WHERE user_agents.id = campaign_agent_variants.agent_id
+      AND user_agents.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage campaign agent variants"
+  ON public.campaign_agent_variants
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- Variant and agent that placed each call
+ALTER TABLE public.campaign_contact_attempts
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.campaign_agent_variants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS agent_id UUID REFERENCES public.user_agents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_contact_attempts_variant
+  ON public.campaign_contact_attempts(campaign_id, variant_id);
+
+-- Per-variant results of a campaign
+-- Dialed calls are attempts that reached Retell; connected calls are the completed ones.
+-- Average duration is over connected calls, in seconds.
+CREATE OR REPLACE FUNCTION public.get_campaign_variant_stats(p_campaign_id UUID)
+RETURNS TABLE(
+  variant_id UUID,
+  label TEXT,
+  weight INTEGER,
+  agent_id UUID,
+  agent_name TEXT,
+  contacts INTEGER,
+  dialed INTEGER,
+  connected INTEGER,
+  avg_duration_seconds INTEGER,
+  high_follow_up INTEGER,
+  medium_follow_up INTEGER,
+  appointments INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT camp.user_id INTO v_user_id
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF v_user_id IS NULL OR (auth.uid() IS DISTINCT FROM v_user_id AND COALESCE(auth.jwt()->>'role', '') <> 'service_role') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.label,
+    v.weight,
+    v.agent_id,
+    ua.name,
+    COUNT(DISTINCT cca.contact_id)::INTEGER,
+    COUNT(cca.id) FILTER (WHERE cca.retell_call_id IS NOT NULL)::INTEGER,
+    COUNT(cca.id) FILTER (WHERE cca.call_status = 'completed')::INTEGER,
+    round(AVG(cca.call_duration) FILTER (WHERE cca.call_status = 'completed'))::INTEGER,
+    COUNT(cca.id) FILTER (WHERE cca.follow_up_potential = 'high')::INTEGER,
+    COUNT(cca.id) FILTER (WHERE cca.follow_up_potential = 'medium')::INTEGER,
+    COUNT(cca.id) FILTER (WHERE cca.appointment_data->>'booked' = 'true')::INTEGER
+  FROM public.campaign_agent_variants v
+  LEFT JOIN public.user_agents ua ON ua.id = v.agent_id
+  LEFT JOIN public.campaign_contact_attempts cca
+    ON cca.campaign_id = v.campaign_id AND cca.variant_id = v.id
+  WHERE v.campaign_id = p_campaign_id
+  GROUP BY v.id, v.label, v.weight, v.agent_id, ua.name
+  ORDER BY v.label;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_variant_stats(UUID) TO authenticated, service_role;
@@ -0,0 +1,218 @@
+-- Automatic campaign completion and end-of-campaign summary
+-- process-campaign completes an active campaign once no contact can be called any more (every
+-- number reached, out of retries or past max_retry_days) and no call is in progress, and when the
+-- campaign end date passes. campaigns.summary then holds a snapshot of the results:
+--   { "completion_reason": "all_contacts_processed" | "end_date_reached",
+--     "generated_at", "contacts", "contacts_called", "calls", "outcomes": { "completed": 12, ... },
+--     "appointments", "high_follow_up", "medium_follow_up", "avg_duration_seconds",
+--     "spend_cents", "cost_per_appointment_cents",
+--     "best_hours": [{ "hour": 10, "dialed": 40, "connected": 18, "connect_rate": 45.0 }] }
+
+ALTER TABLE public.campaigns
+  ADD COLUMN IF NOT EXISTS summary JSONB;
+
+-- 1. Whether a campaign still has work: calls in progress, numbers never dialed, or numbers
+-- whose last outcome can still be retried. Calling windows and retry spacing are ignored since
+-- they only delay a call.
+CREATE OR REPLACE FUNCTION public.campaign_has_remaining_contacts(p_campaign_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_settings JSONB;
+  v_max_retry_days INTEGER;
+BEGIN
+  SELECT COALESCE(camp.settings, '{}'::jsonb), COALESCE(camp.max_retry_days, 0)
+  INTO v_settings, v_max_retry_days
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+      AND cca.call_status = 'in-progress'
+  ) THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    WITH call_history AS (
+      SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+        cca.contact_id,
+        cca.phone_index,
+        cca.retry_outcome AS last_outcome,
+        count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) AS phone_attempts
+      FROM public.campaign_contact_attempts cca
+      WHERE cca.campaign_id = p_campaign_id
+      ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+    ),
+    contact_history AS (
+      SELECT
+        cca.contact_id,
+        count(*) AS contact_attempts,
+        MIN(cca.created_at) AS first_attempt
+      FROM public.campaign_contact_attempts cca
+      WHERE cca.campaign_id = p_campaign_id
+      GROUP BY cca.contact_id
+    )
+    SELECT 1
+    FROM public.get_campaign_contact_phones(p_campaign_id) ccp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = ccp.contact_id
+      AND ch.phone_index = ccp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = ccp.contact_id
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    WHERE NOT ccp.is_duplicate
+      AND (
+        ch.contact_id IS NULL
+        OR (
+          ch.last_outcome IS NOT NULL
+          AND COALESCE((r.rule->>'enabled')::boolean, false)
+          AND extract(day FROM now() - hist.first_attempt)::int < v_max_retry_days
+          AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+          AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        )
+      )
+  );
+END;
+$function$;
+
+-- 2. Results snapshot of a campaign
+-- Best hours are the contacts' local hours with the highest connect rate (at least 5 dialed calls).
+CREATE OR REPLACE FUNCTION public.build_campaign_summary(p_campaign_id UUID, p_completion_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_timezone TEXT;
+  v_totals JSONB;
+  v_outcomes JSONB;
+  v_best_hours JSONB;
+  v_contacts INTEGER;
+  v_spend RECORD;
+BEGIN
+  SELECT COALESCE(camp.timezone, 'America/New_York')
+  INTO v_timezone
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(gp.unique_contacts), 0)::INTEGER
+  INTO v_contacts
+  FROM public.get_campaign_group_progress(p_campaign_id) gp;
+
+  SELECT jsonb_build_object(
+    'contacts_called', COUNT(DISTINCT cca.contact_id) FILTER (WHERE cca.retell_call_id IS NOT NULL),
+    'calls', COUNT(*) FILTER (WHERE cca.retell_call_id IS NOT NULL),
+    'appointments', COUNT(*) FILTER (WHERE cca.appointment_data->>'booked' = 'true'),
+    'high_follow_up', COUNT(*) FILTER (WHERE cca.follow_up_potential = 'high'),
+    'medium_follow_up', COUNT(*) FILTER (WHERE cca.follow_up_potential = 'medium'),
+    'avg_duration_seconds', round(AVG(cca.call_duration) FILTER (WHERE cca.call_status = 'completed'))
+  )
+  INTO v_totals
+  FROM public.campaign_contact_attempts cca
+  WHERE cca.campaign_id = p_campaign_id;
+
+  -- Retry outcomes (voicemail, quick-hangup...) are more telling than the raw call status
+  SELECT COALESCE(jsonb_object_agg(outcomes.outcome, outcomes.calls), '{}'::jsonb)
+  INTO v_outcomes
+  FROM (
+    SELECT COALESCE(cca.retry_outcome, cca.call_status::TEXT, 'unknown') AS outcome, COUNT(*) AS calls
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    GROUP BY 1
+  ) outcomes;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(best) ORDER BY best.connect_rate DESC, best.dialed DESC), '[]'::jsonb)
+  INTO v_best_hours
+  FROM (
+    SELECT
+      hours.hour,
+      hours.dialed,
+      hours.connected,
+      round(100.0 * hours.connected / hours.dialed, 1) AS connect_rate
+    FROM (
+      SELECT
+        extract(hour FROM cca.created_at AT TIME ZONE COALESCE(c.timezone, v_timezone))::INTEGER AS hour,
+        COUNT(*) AS dialed,
+        COUNT(*) FILTER (WHERE cca.call_status = 'completed') AS connected
+      FROM public.campaign_contact_attempts cca
+      LEFT JOIN public.contacts c ON c.id = cca.contact_id
+      WHERE cca.campaign_id = p_campaign_id
+        AND cca.retell_call_id IS NOT NULL
+      GROUP BY 1
+    ) hours
+    WHERE hours.dialed >= 5
+    ORDER BY connect_rate DESC, hours.dialed DESC
+    LIMIT 3
+  ) best;
+
+  SELECT * INTO v_spend FROM public.get_campaign_spend(p_campaign_id);
+
+  RETURN v_totals || jsonb_build_object(
+    'completion_reason', p_completion_reason,
+    'generated_at', now(),
+    'contacts', v_contacts,
+    'outcomes', v_outcomes,
+    'spend_cents', COALESCE(v_spend.total_cents, 0),
+    'cost_per_appointment_cents', v_spend.cost_per_appointment_cents,
+    'best_hours', v_best_hours
+  );
+END;
+$function$;
+
+-- 3. Complete a campaign and store its summary
+-- Returns the summary, or null when the campaign was not running (already completed by another
+-- invocation), so the caller notifies the user exactly once.
+CREATE OR REPLACE FUNCTION public.complete_campaign(p_campaign_id UUID, p_completion_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_summary JSONB;
+BEGIN
+  UPDATE public.campaigns
+  SET
+    status = 'completed',
+    completed_at = now(),
+    paused_reason = NULL,
+    updated_at = now()
+  WHERE id = p_campaign_id
+    AND status IN ('scheduled', 'active', 'paused');
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_summary := public.build_campaign_summary(p_campaign_id, p_completion_reason);
+
+  UPDATE public.campaigns
+  SET summary = v_summary
+  WHERE id = p_campaign_id;
+
+  RETURN v_summary;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.campaign_has_remaining_contacts(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.build_campaign_summary(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_campaign(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.build_campaign_summary(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_campaign(UUID, TEXT) TO service_role;
@@ -0,0 +1,132 @@
+-- Campaign launch forecast and dry-run simulation
+-- The campaign wizard forecasts a contact list from the account's own call history, and
+-- process-campaign can simulate a campaign that does not exist yet from the wizard's settings
+-- and contact groups. Both need the outcome mix, durations and Retell cost of past calls.
+
+-- 1. Call history of an account over the last p_days, one row per outcome
+-- outcome is the retry outcome (no-answer, voicemail, busy, quick-hangup, failed-to-initiate),
+-- 'connected' for completed calls without one, or the call status for other failed calls.
+-- retell_cost_cents is the recorded Retell cost before markup, averaged over calls with a cost record.
+CREATE OR REPLACE FUNCTION public.get_account_call_stats(p_user_id UUID, p_days INTEGER DEFAULT 90)
+RETURNS TABLE(
+  outcome TEXT,
+  calls INTEGER,
+  avg_duration_seconds NUMERIC,
+  avg_retell_cost_cents NUMERIC,
+  appointments INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+BEGIN
+  IF p_user_id IS NULL OR (auth.uid() IS DISTINCT FROM p_user_id AND COALESCE(auth.jwt()->>'role', '') <> 'service_role') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    attempts.outcome,
+    COUNT(*)::INTEGER,
+    round(AVG(attempts.call_duration), 1),
+    round(AVG(cc.retell_cost_cents), 2),
+    COUNT(*) FILTER (WHERE attempts.appointment_data->>'booked' = 'true')::INTEGER
+  FROM (
+    SELECT
+      cca.id,
+      cca.call_duration,
+      cca.appointment_data,
+      COALESCE(
+        cca.retry_outcome,
+        CASE WHEN cca.call_status = 'completed' THEN 'connected' ELSE cca.call_status::TEXT END
+      ) AS outcome
+    FROM public.campaign_contact_attempts cca
+    JOIN public.campaigns camp ON camp.id = cca.campaign_id
+    WHERE camp.user_id = p_user_id
+      AND cca.call_status <> 'in-progress'
+      AND cca.created_at >= now() - make_interval(days => p_days)
+  ) attempts
+  LEFT JOIN public.call_costs cc ON cc.campaign_contact_attempt_id = attempts.id
+  GROUP BY attempts.outcome
+  ORDER BY COUNT(*) DESC;
+END;
+$function$;
+
+-- 2. Phone numbers of a list of contact groups, in group order, flagging duplicate numbers
+-- Same de-duplication as a campaign's groups; get_campaign_contact_phones now wraps it so the
+-- simulation and the real dial queue cannot drift apart.
+CREATE OR REPLACE FUNCTION public.get_contact_group_phones(p_contact_group_ids UUID[])
+RETURNS TABLE(
+  contact_id UUID,
+  contact_group_id UUID,
+  phone_number TEXT,
+  phone_index INTEGER,
+  total_phones INTEGER,
+  is_duplicate BOOLEAN,
+  timezone TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  SELECT
+    phones.contact_id,
+    phones.contact_group_id,
+    phones.phone_number,
+    phones.phone_index,
+    phones.total_phones,
+    row_number() OVER (
+      PARTITION BY phones.normalized_phone
+      ORDER BY phones.group_position, phones.contact_created_at, phones.contact_id, phones.phone_index
+    ) > 1 AS is_duplicate,
+    phones.timezone
+  FROM (
+    SELECT
+      c.id AS contact_id,
+      c.contact_group_id,
+      phone_num AS phone_number,
+      array_position(c.phone_numbers, phone_num) - 1 AS phone_index,
+      array_length(c.phone_numbers, 1) AS total_phones,
+      right(regexp_replace(phone_num, '[^0-9]', '', 'g'), 10) AS normalized_phone,
+      groups.group_position,
+      c.created_at AS contact_created_at,
+      c.timezone
+    FROM unnest(p_contact_group_ids) WITH ORDINALITY AS groups(contact_group_id, group_position)
+    JOIN public.contacts c ON c.contact_group_id = groups.contact_group_id
+    CROSS JOIN unnest(c.phone_numbers) AS phone_num
+    WHERE c.status = 'active'
+  ) phones
+  ORDER BY phones.group_position, phones.contact_created_at, phones.contact_id, phones.phone_index;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_campaign_contact_phones(p_campaign_id UUID)
+RETURNS TABLE(
+  contact_id UUID,
+  contact_group_id UUID,
+  phone_number TEXT,
+  phone_index INTEGER,
+  total_phones INTEGER,
+  is_duplicate BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  SELECT
+    gp.contact_id,
+    gp.contact_group_id,
+    gp.phone_number,
+    gp.phone_index,
+    gp.total_phones,
+    gp.is_duplicate
+  FROM public.get_contact_group_phones(ARRAY(
+    SELECT cc.contact_group_id
+    FROM public.campaign_contacts cc
+    WHERE cc.campaign_id = p_campaign_id
+    ORDER BY cc.position
+  )) gp;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_account_call_stats(UUID, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_contact_group_phones(UUID[]) TO service_role;
@@ -0,0 +1,190 @@
+-- Campaign activity timeline
+-- campaign_events records every status change, auto-pause and resume, cap hit, settings edit and
+-- dialing error of a campaign, with who did it and why.
+-- Status and settings changes are logged by a trigger on campaigns, so every writer (dashboard,
+-- process-campaign, SQL functions) is covered. Events the database cannot see, such as Retell errors
+-- and dial rate limit hits, are logged by the edge functions through log_campaign_event.
+--
+-- actor_type: 'user' (the campaign owner), 'admin' (another signed-in user) or 'system'
+-- (service role: process-campaign, webhooks, scheduled functions).
+
+CREATE TABLE IF NOT EXISTS public.campaign_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'created', 'status_changed', 'auto_paused', 'resumed', 'cap_reached', 'settings_changed', 'error'
+  )),
+  from_status TEXT,
+  to_status TEXT,
+  reason TEXT,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('user', 'admin', 'system')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_events_campaign
+  ON public.campaign_events(campaign_id, created_at DESC);
+
+ALTER TABLE public.campaign_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view events of their campaigns"
+  ON public.campaign_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.campaigns
+      WHERE campaigns.id = campaign_events.campaign_id
+      AND campaigns.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage campaign events"
+  ON public.campaign_events
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- Logs creation, status changes and edits of the dialing settings of a campaign.
+-- Pauses for a spend cap are 'cap_reached', other pauses by the system 'auto_paused' and
+-- paused -> active 'resumed' (details.previous_reason says what the campaign was paused for).
+-- Settings edits list each changed column (and settings key) with its old and new value.
+CREATE OR REPLACE FUNCTION public.log_campaign_changes()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_type TEXT;
+  v_event_type TEXT;
+  v_changes JSONB;
+BEGIN
+  v_actor_type := CASE
+    WHEN v_actor_id IS NULL THEN 'system'
+    WHEN v_actor_id = NEW.user_id THEN 'user'
+    ELSE 'admin'
+  END;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.campaign_events (campaign_id, event_type, to_status, actor_type, actor_id)
+    VALUES (NEW.id, 'created', NEW.status::TEXT, v_actor_type, v_actor_id);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.paused_reason IS DISTINCT FROM OLD.paused_reason THEN
+    v_event_type := CASE
+      WHEN NEW.status = 'paused'
+        AND NEW.paused_reason IN ('daily_budget_reached', 'spend_cap_reached', 'appointment_cost_cap_reached')
+        THEN 'cap_reached'
+      WHEN NEW.status = 'paused' AND v_actor_type = 'system' THEN 'auto_paused'
+      WHEN OLD.status = 'paused' AND NEW.status = 'active' THEN 'resumed'
+      ELSE 'status_changed'
+    END;
+
+    INSERT INTO public.campaign_events (
+      campaign_id, event_type, from_status, to_status, reason, actor_type, actor_id, details
+    )
+    VALUES (
+      NEW.id,
+      v_event_type,
+      OLD.status::TEXT,
+      NEW.status::TEXT,
+      CASE WHEN NEW.status = 'paused' THEN NEW.paused_reason END,
+      v_actor_type,
+      v_actor_id,
+      CASE
+        WHEN OLD.status = 'paused' AND OLD.paused_reason IS NOT NULL
+          THEN jsonb_build_object('previous_reason', OLD.paused_reason)
+        ELSE '{}'::jsonb
+      END
+    );
+  END IF;
+
+  -- complete_campaign stores the summary right after the status change; its completion reason
+  -- becomes the reason of the completion event
+  IF NEW.status = 'completed' AND OLD.summary IS NULL AND NEW.summary IS NOT NULL THEN
+    UPDATE public.campaign_events
+    SET reason = NEW.summary->>'completion_reason'
+    WHERE id = (
+      SELECT ce.id FROM public.campaign_events ce
+      WHERE ce.campaign_id = NEW.id AND ce.to_status = 'completed'
+      ORDER BY ce.created_at DESC
+      LIMIT 1
+    )
+    AND reason IS NULL;
+  END IF;
+
+  -- Dialing settings only; status, counters, summary and the legacy calling_hours/active_days
+  -- columns (derived from weekly_schedule) are not settings edits
+  SELECT jsonb_object_agg(changed.key, jsonb_build_object('from', changed.old_value, 'to', changed.new_value))
+  INTO v_changes
+  FROM (
+    SELECT new_row.key, to_jsonb(OLD)->new_row.key AS old_value, new_row.value AS new_value
+    FROM jsonb_each(to_jsonb(NEW)) AS new_row
+    WHERE new_row.key IN (
+      'name', 'description', 'agent_id', 'concurrent_calls', 'max_retry_days', 'weekly_schedule',
+      'timezone', 'field_mappings', 'starts_at', 'ends_at', 'blackout_dates', 'holiday_calendar'
+    )
+    AND new_row.value IS DISTINCT FROM to_jsonb(OLD)->new_row.key
+    UNION ALL
+    SELECT 'settings.' || setting_keys.key, OLD.settings->setting_keys.key, NEW.settings->setting_keys.key
+    FROM (
+      SELECT jsonb_object_keys(COALESCE(NEW.settings, '{}'::jsonb)) AS key
+      UNION
+      SELECT jsonb_object_keys(COALESCE(OLD.settings, '{}'::jsonb))
+    ) AS setting_keys
+    WHERE NEW.settings->setting_keys.key IS DISTINCT FROM OLD.settings->setting_keys.key
+  ) AS changed;
+
+  IF v_changes IS NOT NULL THEN
+    INSERT INTO public.campaign_events (campaign_id, event_type, actor_type, actor_id, details)
+    VALUES (NEW.id, 'settings_changed', v_actor_type, v_actor_id, jsonb_build_object('changes', v_changes));
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS log_campaign_changes ON public.campaigns;
+CREATE TRIGGER log_campaign_changes
+  AFTER INSERT OR UPDATE ON public.campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_campaign_changes();
+
+-- Events logged by the edge functions ('cap_reached' for dial rate limits, 'error').
+-- A repeat of the same event and reason within 10 minutes is dropped, so a rate limit hit every
+-- minute or a provider outage does not flood the timeline.
+CREATE OR REPLACE FUNCTION public.log_campaign_event(
+  p_campaign_id UUID,
+  p_event_type TEXT,
+  p_reason TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.campaign_events ce
+    WHERE ce.campaign_id = p_campaign_id
+      AND ce.event_type = p_event_type
+      AND ce.reason IS NOT DISTINCT FROM p_reason
+      AND ce.created_at > now() - interval '10 minutes'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.campaign_events (campaign_id, event_type, reason, actor_type, details)
+  VALUES (p_campaign_id, p_event_type, p_reason, 'system', COALESCE(p_details, '{}'::jsonb));
+END;
+$function$;
+
+GRANT SELECT ON public.campaign_events TO authenticated;
+GRANT ALL ON public.campaign_events TO service_role;
+REVOKE EXECUTE ON FUNCTION public.log_campaign_event(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.log_campaign_event(UUID, TEXT, TEXT, JSONB) TO service_role;
+
+COMMENT ON TABLE public.campaign_events IS 'Activity timeline of a campaign: status changes, pauses and resumes, cap hits, settings edits and errors';
@@ -0,0 +1,501 @@
+-- Lead-requested callbacks
+-- When a lead asks to be called back ("call me back Thursday after 5"), retell-webhook stores a
+-- scheduled callback with the requested time resolved in the contact's timezone (see
+-- supabase/functions/_shared/callback-time.ts). The request comes from the agent's schedule_callback
+-- tool or the callback_requested / callback_time fields of the post-call analysis.
+-- get_next_contacts_to_call returns the contact once the callback is due, ahead of other contacts and
+-- regardless of the retry policy; the campaign's calling windows still apply, so a callback asked
+-- for outside them is made when the next window opens.
+--
+-- status: 'pending' until process-campaign dials it ('dialed'), 'cancelled' by the user, by a newer
+-- request of the same lead or when the campaign completes.
+
+CREATE TABLE IF NOT EXISTS public.scheduled_callbacks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  source_attempt_id UUID NOT NULL UNIQUE REFERENCES public.campaign_contact_attempts(id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL,
+  phone_index INTEGER NOT NULL DEFAULT 0,
+  callback_at TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL,
+  requested_text TEXT,
+  note TEXT,
+  source TEXT NOT NULL CHECK (source IN ('tool_call', 'analysis')),
+  time_resolved BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dialed', 'cancelled')),
+  dialed_attempt_id UUID REFERENCES public.campaign_contact_attempts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One pending callback per lead and campaign
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_callbacks_pending_contact
+  ON public.scheduled_callbacks(campaign_id, contact_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_callbacks_due
+  ON public.scheduled_callbacks(campaign_id, callback_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.scheduled_callbacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view callbacks of their campaigns"
+  ON public.scheduled_callbacks
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.campaigns
+      WHERE campaigns.id = scheduled_callbacks.campaign_id
+      AND campaigns.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update callbacks of their campaigns"
+  ON public.scheduled_callbacks
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.campaigns
+      WHERE campaigns.id = scheduled_callbacks.campaign_id
+      AND campaigns.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage scheduled callbacks"
+  ON public.scheduled_callbacks
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- Store the callback requested on an attempt. A newer request of the same lead replaces the pending
+-- one; a repeated webhook for the same attempt updates its callback instead of adding another.
+CREATE OR REPLACE FUNCTION public.schedule_callback(
+  p_attempt_id UUID,
+  p_callback_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_requested_text TEXT,
+  p_note TEXT,
+  p_source TEXT,
+  p_time_resolved BOOLEAN
+)
+ RETURNS UUID
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_attempt RECORD;
+  v_callback_id UUID;
+BEGIN
+  SELECT cca.campaign_id, cca.contact_id, cca.phone_number, COALESCE(cca.phone_index, 0) AS phone_index
+  INTO v_attempt
+  FROM public.campaign_contact_attempts cca
+  WHERE cca.id = p_attempt_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Repeated webhook for the same attempt: update its callback while it is still pending
+  SELECT sc.id INTO v_callback_id
+  FROM public.scheduled_callbacks sc
+  WHERE sc.source_attempt_id = p_attempt_id;
+
+  IF FOUND THEN
+    UPDATE public.scheduled_callbacks
+    SET
+      callback_at = p_callback_at,
+      timezone = p_timezone,
+      requested_text = p_requested_text,
+      note = p_note,
+      source = p_source,
+      time_resolved = p_time_resolved,
+      updated_at = now()
+    WHERE id = v_callback_id
+      AND status = 'pending';
+    RETURN v_callback_id;
+  END IF;
+
+  UPDATE public.scheduled_callbacks
+  SET status = 'cancelled', updated_at = now()
+  WHERE campaign_id = v_attempt.campaign_id
+    AND contact_id = v_attempt.contact_id
+    AND status = 'pending';
+
+  INSERT INTO public.scheduled_callbacks (
+    campaign_id, contact_id, source_attempt_id, phone_number, phone_index,
+    callback_at, timezone, requested_text, note, source, time_resolved
+  )
+  VALUES (
+    v_attempt.campaign_id, v_attempt.contact_id, p_attempt_id, v_attempt.phone_number, v_attempt.phone_index,
+    p_callback_at, p_timezone, p_requested_text, p_note, p_source, p_time_resolved
+  )
+  RETURNING id INTO v_callback_id;
+
+  RETURN v_callback_id;
+END;
+$function$;
+
+-- Pending callbacks are dropped when their campaign completes
+CREATE OR REPLACE FUNCTION public.cancel_callbacks_of_completed_campaign()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+BEGIN
+  UPDATE public.scheduled_callbacks
+  SET status = 'cancelled', updated_at = now()
+  WHERE campaign_id = NEW.id
+    AND status = 'pending';
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS cancel_callbacks_of_completed_campaign ON public.campaigns;
+CREATE TRIGGER cancel_callbacks_of_completed_campaign
+  AFTER UPDATE OF status ON public.campaigns
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION public.cancel_callbacks_of_completed_campaign();
+
+-- Due callbacks come first (callback_id says which callback a row is for)
+DROP FUNCTION IF EXISTS public.get_next_contacts_to_call(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_next_contacts_to_call(p_campaign_id uuid, p_max_retry_days integer, p_limit integer)
+ RETURNS TABLE(
+   contact_id uuid,
+   phone_number text,
+   phone_index integer,
+   total_phones integer,
+   contact_data jsonb,
+   timezone text,
+   attempt_number integer,
+   attempt_day integer,
+   phone_attempts integer,
+   contact_attempts integer,
+   last_outcome text,
+   last_attempt_at timestamptz,
+   contact_group_id uuid,
+   callback_id uuid
+ )
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule JSONB;
+  v_campaign_timezone TEXT;
+  v_settings JSONB;
+  v_order JSONB;
+  v_strategy TEXT;
+  v_direction TEXT;
+  v_tiers TEXT[];
+  v_total_weight NUMERIC;
+BEGIN
+  SELECT
+    public.campaign_weekly_schedule(camp.weekly_schedule, camp.calling_hours, camp.active_days),
+    COALESCE(camp.timezone, 'America/New_York'),
+    COALESCE(camp.settings, '{}'::jsonb)
+  INTO v_schedule, v_campaign_timezone, v_settings
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  v_order := COALESCE(v_settings->'queue_order', '{}'::jsonb);
+  v_strategy := COALESCE(v_order->>'strategy', 'created_at');
+  v_direction := COALESCE(v_order->>'direction', 'desc');
+  v_tiers := ARRAY(
+    SELECT lower(trim(t))
+    FROM jsonb_array_elements_text(COALESCE(v_order->'tiers', '[]'::jsonb)) AS t
+  );
+  SELECT SUM(GREATEST((f->>'weight')::numeric, 0))
+  INTO v_total_weight
+  FROM jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb)) AS f;
+
+  RETURN QUERY
+  WITH factor_values AS (
+    -- One row per contact and lead score factor
+    SELECT
+      c.id AS contact_id,
+      f.factor_index,
+      (f.factor->>'weight')::numeric AS weight,
+      COALESCE(f.factor->>'prefer', 'high') AS prefer,
+      public.contact_sort_value(c.data->>(f.factor->>'field')) AS value
+    FROM public.contacts c
+    CROSS JOIN jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb))
+      WITH ORDINALITY AS f(factor, factor_index)
+    WHERE v_strategy = 'lead_score'
+      AND c.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.campaign_contacts cc
+        WHERE cc.contact_group_id = c.contact_group_id
+          AND cc.campaign_id = p_campaign_id
+      )
+  ),
+  lead_scores AS (
+    -- Weighted percentile rank per factor across the campaign's contacts, scaled to 0-100
+    SELECT
+      ranked.contact_id,
+      round(100 * SUM(ranked.weight * ranked.score) / NULLIF(v_total_weight, 0), 1) AS lead_score
+    FROM (
+      SELECT
+        fv.contact_id,
+        fv.weight,
+        CASE
+          WHEN fv.prefer = 'low' THEN 1 - percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+          ELSE percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+        END AS score
+      FROM factor_values fv
+      WHERE fv.value IS NOT NULL
+        AND fv.weight > 0
+    ) ranked
+    GROUP BY ranked.contact_id
+  ),
+  contact_phones AS (
+    -- Expand contacts to have one row per phone number
+    SELECT
+      c.id as contact_id,
+      -- Build proper contact_data with all relevant fields
+      jsonb_build_object(
+        'first_name', c.first_name,
+        'last_name', c.last_name,
+        'email', c.email,
+        'address', c.address,
+        'phone_number', regexp_replace(ccp.phone_number, '[^0-9]', '', 'g'),
+        'custom_fields', c.custom_fields
+      ) as data,
+      c.contact_group_id,
+      c.created_at as contact_created_at,
+      COALESCE(c.timezone, v_campaign_timezone) as contact_timezone,
+      -- Queue priority under the campaign's ordering strategy (higher is called first)
+      CASE v_strategy
+        WHEN 'field' THEN
+          CASE WHEN v_direction = 'asc' THEN -1 ELSE 1 END
+            * public.contact_sort_value(c.data->>(v_order->>'field'))
+        WHEN 'lead_score' THEN
+          COALESCE(ls.lead_score, 0)
+        WHEN 'priority_tiers' THEN
+          (cardinality(v_tiers) + 1 - array_position(v_tiers, lower(trim(c.data->>(v_order->>'tier_field')))))::numeric
+      END as priority,
+      ccp.phone_number as phone_num,
+      ccp.phone_index,
+      ccp.total_phones
+    FROM public.get_campaign_contact_phones(p_campaign_id) ccp
+    JOIN public.contacts c ON c.id = ccp.contact_id
+    LEFT JOIN lead_scores ls ON ls.contact_id = c.id
+    -- Numbers shared with another contact of the campaign are only dialed for the first of them
+    WHERE NOT ccp.is_duplicate
+      -- Only contacts whose own local time is inside one of the campaign's calling windows
+      AND public.is_within_weekly_schedule(v_schedule, COALESCE(c.timezone, v_campaign_timezone))
+  ),
+  call_history AS (
+    -- Latest attempt and attempt count for each contact/phone combination
+    SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+      cca.contact_id,
+      cca.phone_index,
+      cca.call_status as last_status,
+      cca.retry_outcome as last_outcome,
+      cca.created_at as last_attempt,
+      count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) as phone_attempts
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+  ),
+  contact_history AS (
+    -- Attempts across all of a contact's phone numbers
+    SELECT
+      cca.contact_id,
+      count(*) as contact_attempts,
+      MIN(cca.created_at) as first_attempt,
+      bool_or(cca.call_status = 'in-progress') as has_in_progress,
+      -- Queue jumpers: the lead asked to be called back, or an earlier call went well
+      COALESCE(bool_or(lower(cca.custom_analysis->>'callback_requested') IN ('true', 'yes')), false) as callback_requested,
+      COALESCE(bool_or(
+        cca.call_successful
+        OR cca.appointment_data->>'booked' = 'true'
+        OR cca.follow_up_potential = 'high'
+      ), false) as had_positive_attempt
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    GROUP BY cca.contact_id
+  ),
+  due_callbacks AS (
+    -- Callbacks the lead asked for that are due now
+    SELECT sc.id, sc.contact_id, sc.phone_index, sc.callback_at
+    FROM public.scheduled_callbacks sc
+    WHERE sc.campaign_id = p_campaign_id
+      AND sc.status = 'pending'
+      AND sc.callback_at <= now()
+  ),
+  eligible_contacts AS (
+    SELECT
+      cp.*,
+      cb.id as callback_id,
+      cb.callback_at,
+      ch.last_outcome,
+      ch.last_attempt,
+      COALESCE(ch.phone_attempts, 0) as phone_attempts,
+      COALESCE(hist.contact_attempts, 0) as contact_attempts,
+      COALESCE(hist.callback_requested, false) as callback_requested,
+      COALESCE(hist.had_positive_attempt, false) as had_positive_attempt,
+      COALESCE(extract(day FROM now() - hist.first_attempt)::int, 0) as days_since_first_attempt
+    FROM contact_phones cp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = cp.contact_id
+      AND ch.phone_index = cp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = cp.contact_id
+    LEFT JOIN due_callbacks cb
+      ON cb.contact_id = cp.contact_id
+      AND cb.phone_index = cp.phone_index
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    WHERE
+      -- Include a due callback on the number the lead asked on, whatever the retry policy says
+      (cb.id IS NOT NULL AND NOT COALESCE(hist.has_in_progress, false))
+      -- Or if this phone was never called
+      OR ch.contact_id IS NULL
+      -- Or if the last outcome is retryable under the campaign retry policy
+      OR (
+        ch.last_outcome IS NOT NULL
+        AND COALESCE((r.rule->>'enabled')::boolean, false)
+        AND NOT COALESCE(hist.has_in_progress, false)
+        -- Within retry days
+        AND extract(day FROM now() - hist.first_attempt)::int < p_max_retry_days
+        -- Minimum spacing since the last attempt on this phone
+        AND now() - ch.last_attempt >= COALESCE((r.rule->>'min_spacing_hours')::numeric, 0) * interval '1 hour'
+        -- Attempt caps per phone and per contact
+        AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+        AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        -- Time-of-day rotation: retry in a different part of the day's calling windows
+        AND (
+          NOT COALESCE((r.rule->>'rotate_time_of_day')::boolean, false)
+          OR public.weekly_schedule_segment(v_schedule, cp.contact_timezone, now())
+             IS DISTINCT FROM public.weekly_schedule_segment(v_schedule, cp.contact_timezone, ch.last_attempt)
+        )
+      )
+  )
+  SELECT
+    ec.contact_id,
+    ec.phone_num as phone_number,
+    ec.phone_index,
+    ec.total_phones,
+    ec.data as contact_data,
+    ec.contact_timezone as timezone,
+    (ec.contact_attempts + 1)::integer as attempt_number,
+    ec.days_since_first_attempt as attempt_day,
+    ec.phone_attempts::integer,
+    ec.contact_attempts::integer,
+    ec.last_outcome,
+    ec.last_attempt as last_attempt_at,
+    ec.contact_group_id,
+    ec.callback_id
+  FROM eligible_contacts ec
+  ORDER BY
+    CASE
+      WHEN ec.callback_id IS NOT NULL THEN 3
+      WHEN ec.callback_requested AND COALESCE((v_order->>'boost_callbacks')::boolean, false) THEN 2
+      WHEN ec.had_positive_attempt AND COALESCE((v_order->>'boost_positive')::boolean, false) THEN 1
+      ELSE 0
+    END DESC,
+    ec.callback_at ASC NULLS LAST,  -- Earliest due callback first
+    ec.priority DESC NULLS LAST,  -- Campaign ordering strategy
+    ec.contact_created_at ASC,  -- Then oldest contacts first
+    ec.contact_id ASC,  -- Then by contact ID
+    ec.phone_index ASC  -- Then by phone number order
+  LIMIT p_limit;
+END;
+$function$;
+
+-- Pending callbacks keep a campaign open
+CREATE OR REPLACE FUNCTION public.campaign_has_remaining_contacts(p_campaign_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_settings JSONB;
+  v_max_retry_days INTEGER;
+BEGIN
+  SELECT COALESCE(camp.settings, '{}'::jsonb), COALESCE(camp.max_retry_days, 0)
+  INTO v_settings, v_max_retry_days
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+      AND cca.call_status = 'in-progress'
+  ) THEN
+    RETURN true;
+  END IF;
+
+  -- A callback still to be made on one of the campaign's numbers
+  IF EXISTS (
+    SELECT 1
+    FROM public.scheduled_callbacks sc
+    JOIN public.get_campaign_contact_phones(p_campaign_id) ccp
+      ON ccp.contact_id = sc.contact_id
+      AND ccp.phone_index = sc.phone_index
+    WHERE sc.campaign_id = p_campaign_id
+      AND sc.status = 'pending'
+      AND NOT ccp.is_duplicate
+  ) THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    WITH call_history AS (
+      SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+        cca.contact_id,
+        cca.phone_index,
+        cca.retry_outcome AS last_outcome,
+        count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) AS phone_attempts
+      FROM public.campaign_contact_attempts cca
+      WHERE cca.campaign_id = p_campaign_id
+      ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+    ),
+    contact_history AS (
+      SELECT
+        cca.contact_id,
+        count(*) AS contact_attempts,
+        MIN(cca.created_at) AS first_attempt
+      FROM public.campaign_contact_attempts cca
+      WHERE cca.campaign_id = p_campaign_id
+      GROUP BY cca.contact_id
+    )
+    SELECT 1
+    FROM public.get_campaign_contact_phones(p_campaign_id) ccp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = ccp.contact_id
+      AND ch.phone_index = ccp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = ccp.contact_id
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    WHERE NOT ccp.is_duplicate
+      AND (
+        ch.contact_id IS NULL
+        OR (
+          ch.last_outcome IS NOT NULL
+          AND COALESCE((r.rule->>'enabled')::boolean, false)
+          AND extract(day FROM now() - hist.first_attempt)::int < v_max_retry_days
+          AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+          AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        )
+      )
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_callback(UUID, TIMESTAMPTZ, TEXT, TEXT, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_callback(UUID, TIMESTAMPTZ, TEXT, TEXT, TEXT, TEXT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION public.campaign_has_remaining_contacts(UUID) TO service_role;
+
+COMMENT ON TABLE public.scheduled_callbacks IS 'Callbacks requested by leads during a call, dialed by process-campaign once due';
@@ -0,0 +1,112 @@
+-- Stuck-call reconciliation
+-- Attempts still 'in-progress' a few minutes after dialing are looked up with Retell's get-call API
+-- by process-campaign (see supabase/functions/_shared/call-reconciliation.ts). Ended calls get their
+-- real outcome, cost and transcript through the same code as retell-webhook; calls still ongoing
+-- keep their concurrency slot. reconciled_at is when the attempt was last looked up.
+--
+-- The webhook can still arrive after the reconciliation applied a call, so atomic_deduct_call_cost
+-- now charges each attempt once.
+
+ALTER TABLE public.campaign_contact_attempts
+  ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.campaign_contact_attempts.reconciled_at IS
+  'When the stuck-call reconciliation last looked up this in-progress call with Retell';
+
+CREATE INDEX IF NOT EXISTS idx_campaign_contact_attempts_in_progress
+  ON public.campaign_contact_attempts (created_at)
+  WHERE call_status = 'in-progress';
+
+CREATE OR REPLACE FUNCTION public.atomic_deduct_call_cost(
+  p_user_id UUID,
+  p_cost_cents INTEGER,
+  p_attempt_id UUID,
+  p_call_metadata JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  current_balance INTEGER;
+  new_balance INTEGER;
+  transaction_id UUID;
+BEGIN
+  -- Lock the user credits row for update (prevents concurrent modifications)
+  SELECT balance_cents INTO current_balance
+  FROM public.user_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- The webhook and the reconciliation may both apply the same call: charge it once
+  IF p_attempt_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.call_costs WHERE campaign_contact_attempt_id = p_attempt_id
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_charged', true,
+      'new_balance', current_balance
+    );
+  END IF;
+
+  -- If no credits record exists, create one
+  IF current_balance IS NULL THEN
+    INSERT INTO public.user_credits (user_id, balance_cents)
+    VALUES (p_user_id, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+    current_balance := 0;
+  END IF;
+
+  -- Calculate new balance (allow negative balance)
+  new_balance := current_balance - p_cost_cents;
+
+  -- Update user credits atomically
+  UPDATE public.user_credits SET
+    balance_cents = new_balance,
+    total_spent_cents = total_spent_cents + p_cost_cents,
+    updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  -- Insert transaction record
+  INSERT INTO public.credit_transactions (
+    user_id, type, amount_cents, balance_after_cents,
+    description, metadata
+  ) VALUES (
+    p_user_id, 'usage', -p_cost_cents, new_balance,
+    p_call_metadata->>'description', p_call_metadata
+  ) RETURNING id INTO transaction_id;
+
+  -- Insert call cost record
+  INSERT INTO public.call_costs (
+    campaign_contact_attempt_id,
+    retell_cost_cents,
+    user_cost_cents,
+    call_duration_seconds,
+    cost_breakdown
+  ) VALUES (
+    p_attempt_id,
+    (p_call_metadata->>'retell_cost_cents')::INTEGER,
+    p_cost_cents,
+    (p_call_metadata->>'duration_seconds')::INTEGER,
+    p_call_metadata->'cost_breakdown'
+  );
+
+  -- Return success with new balance
+  RETURN jsonb_build_object(
+    'success', true,
+    'previous_balance', current_balance,
+    'new_balance', new_balance,
+    'transaction_id', transaction_id,
+    'cost_deducted', p_cost_cents
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Automatic rollback on any error
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'error_detail', SQLSTATE
+    );
+END;
+$function$;
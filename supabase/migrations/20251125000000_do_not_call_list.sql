@@ -0,0 +1,474 @@
+-- Account-wide do-not-call list
+-- Phone numbers an account must never call, in any campaign. Numbers are added by hand, from a CSV
+-- import, or automatically when a lead asks not to be called again: the agent's do_not_call tool or
+-- the do_not_call / opt_out fields of the post-call analysis (see
+-- supabase/functions/_shared/do-not-call.ts).
+-- Numbers match on their last 10 digits, like the de-duplication of campaign phones, so
+-- "+1 (555) 010-2030" and "5550102030" are the same number.
+--
+-- source: 'manual' | 'import' | 'tool_call' | 'analysis'
+
+CREATE TABLE IF NOT EXISTS public.do_not_call_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL,
+  normalized_phone TEXT GENERATED ALWAYS AS (right(regexp_replace(phone_number, '[^0-9]', '', 'g'), 10)) STORED,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import', 'tool_call', 'analysis')),
+  reason TEXT,
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  attempt_id UUID REFERENCES public.campaign_contact_attempts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT do_not_call_numbers_user_phone_key UNIQUE (user_id, normalized_phone),
+  CONSTRAINT do_not_call_numbers_phone_check CHECK (length(regexp_replace(phone_number, '[^0-9]', '', 'g')) >= 10)
+);
+
+ALTER TABLE public.do_not_call_numbers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their do-not-call numbers"
+  ON public.do_not_call_numbers
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their do-not-call numbers"
+  ON public.do_not_call_numbers
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their do-not-call numbers"
+  ON public.do_not_call_numbers
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage do-not-call numbers"
+  ON public.do_not_call_numbers
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- Whether a number is on the account's do-not-call list
+CREATE OR REPLACE FUNCTION public.is_number_suppressed(p_user_id UUID, p_phone_number TEXT)
+ RETURNS BOOLEAN
+ LANGUAGE sql
+ STABLE
+ SET search_path TO ''
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.do_not_call_numbers dnc
+    WHERE dnc.user_id = p_user_id
+      AND dnc.normalized_phone = right(regexp_replace(p_phone_number, '[^0-9]', '', 'g'), 10)
+  );
+$function$;
+
+-- Pending callbacks to a number are dropped once it is suppressed
+CREATE OR REPLACE FUNCTION public.cancel_callbacks_of_suppressed_number()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+BEGIN
+  UPDATE public.scheduled_callbacks sc
+  SET status = 'cancelled', updated_at = now()
+  FROM public.campaigns camp
+  WHERE camp.id = sc.campaign_id
+    AND camp.user_id = NEW.user_id
+    AND sc.status = 'pending'
+    AND right(regexp_replace(sc.phone_number, '[^0-9]', '', 'g'), 10) = NEW.normalized_phone;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS cancel_callbacks_of_suppressed_number ON public.do_not_call_numbers;
+CREATE TRIGGER cancel_callbacks_of_suppressed_number
+  AFTER INSERT ON public.do_not_call_numbers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cancel_callbacks_of_suppressed_number();
+
+-- Suppress the number called on an attempt, for a lead who asked not to be called again.
+-- Returns the list entry, also when the number was already suppressed.
+CREATE OR REPLACE FUNCTION public.suppress_attempt_number(
+  p_attempt_id UUID,
+  p_source TEXT,
+  p_reason TEXT
+)
+ RETURNS UUID
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_attempt RECORD;
+  v_entry_id UUID;
+BEGIN
+  SELECT cca.campaign_id, cca.phone_number, camp.user_id
+  INTO v_attempt
+  FROM public.campaign_contact_attempts cca
+  JOIN public.campaigns camp ON camp.id = cca.campaign_id
+  WHERE cca.id = p_attempt_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.do_not_call_numbers (user_id, phone_number, source, reason, campaign_id, attempt_id)
+  VALUES (v_attempt.user_id, v_attempt.phone_number, p_source, p_reason, v_attempt.campaign_id, p_attempt_id)
+  ON CONFLICT (user_id, normalized_phone) DO NOTHING
+  RETURNING id INTO v_entry_id;
+
+  IF v_entry_id IS NULL THEN
+    SELECT dnc.id INTO v_entry_id
+    FROM public.do_not_call_numbers dnc
+    WHERE dnc.user_id = v_attempt.user_id
+      AND dnc.normalized_phone = right(regexp_replace(v_attempt.phone_number, '[^0-9]', '', 'g'), 10);
+  END IF;
+
+  RETURN v_entry_id;
+END;
+$function$;
+
+-- Suppressed numbers are skipped in every campaign of the account
+CREATE OR REPLACE FUNCTION public.get_next_contacts_to_call(p_campaign_id uuid, p_max_retry_days integer, p_limit integer)
+ RETURNS TABLE(
+   contact_id uuid,
+   phone_number text,
+   phone_index integer,
+   total_phones integer,
+   contact_data jsonb,
+   timezone text,
+   attempt_number integer,
+   attempt_day integer,
+   phone_attempts integer,
+   contact_attempts integer,
+   last_outcome text,
+   last_attempt_at timestamptz,
+   contact_group_id uuid,
+   callback_id uuid
+ )
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule JSONB;
+  v_campaign_timezone TEXT;
+  v_settings JSONB;
+  v_order JSONB;
+  v_strategy TEXT;
+  v_direction TEXT;
+  v_tiers TEXT[];
+  v_total_weight NUMERIC;
+  v_user_id UUID;
+BEGIN
+  SELECT
+    public.campaign_weekly_schedule(camp.weekly_schedule, camp.calling_hours, camp.active_days),
+    COALESCE(camp.timezone, 'America/New_York'),
+    COALESCE(camp.settings, '{}'::jsonb),
+    camp.user_id
+  INTO v_schedule, v_campaign_timezone, v_settings, v_user_id
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  v_order := COALESCE(v_settings->'queue_order', '{}'::jsonb);
+  v_strategy := COALESCE(v_order->>'strategy', 'created_at');
+  v_direction := COALESCE(v_order->>'direction', 'desc');
+  v_tiers := ARRAY(
+    SELECT lower(trim(t))
+    FROM jsonb_array_elements_text(COALESCE(v_order->'tiers', '[]'::jsonb)) AS t
+  );
+  SELECT SUM(GREATEST((f->>'weight')::numeric, 0))
+  INTO v_total_weight
+  FROM jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb)) AS f;
+
+  RETURN QUERY
+  WITH factor_values AS (
+    -- One row per contact and lead score factor
+    SELECT
+      c.id AS contact_id,
+      f.factor_index,
+      (f.factor->>'weight')::numeric AS weight,
+      COALESCE(f.factor->>'prefer', 'high') AS prefer,
+      public.contact_sort_value(c.data->>(f.factor->>'field')) AS value
+    FROM public.contacts c
+    CROSS JOIN jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb))
+      WITH ORDINALITY AS f(factor, factor_index)
+    WHERE v_strategy = 'lead_score'
+      AND c.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.campaign_contacts cc
+        WHERE cc.contact_group_id = c.contact_group_id
+          AND cc.campaign_id = p_campaign_id
+      )
+  ),
+  lead_scores AS (
+    -- Weighted percentile rank per factor across the campaign's contacts, scaled to 0-100
+    SELECT
+      ranked.contact_id,
+      round(100 * SUM(ranked.weight * ranked.score) / NULLIF(v_total_weight, 0), 1) AS lead_score
+    FROM (
+      SELECT
+        fv.contact_id,
+        fv.weight,
+        CASE
+          WHEN fv.prefer = 'low' THEN 1 - percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+          ELSE percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+        END AS score
+      FROM factor_values fv
+      WHERE fv.value IS NOT NULL
+        AND fv.weight > 0
+    ) ranked
+    GROUP BY ranked.contact_id
+  ),
+  contact_phones AS (
+    -- Expand contacts to have one row per phone number
+    SELECT
+      c.id as contact_id,
+      -- Build proper contact_data with all relevant fields
+      jsonb_build_object(
+        'first_name', c.first_name,
+        'last_name', c.last_name,
+        'email', c.email,
+        'address', c.address,
+        'phone_number', regexp_replace(ccp.phone_number, '[^0-9]', '', 'g'),
+        'custom_fields', c.custom_fields
+      ) as data,
+      c.contact_group_id,
+      c.created_at as contact_created_at,
+      COALESCE(c.timezone, v_campaign_timezone) as contact_timezone,
+      -- Queue priority under the campaign's ordering strategy (higher is called first)
+      CASE v_strategy
+        WHEN 'field' THEN
+          CASE WHEN v_direction = 'asc' THEN -1 ELSE 1 END
+            * public.contact_sort_value(c.data->>(v_order->>'field'))
+        WHEN 'lead_score' THEN
+          COALESCE(ls.lead_score, 0)
+        WHEN 'priority_tiers' THEN
+          (cardinality(v_tiers) + 1 - array_position(v_tiers, lower(trim(c.data->>(v_order->>'tier_field')))))::numeric
+      END as priority,
+      ccp.phone_number as phone_num,
+      ccp.phone_index,
+      ccp.total_phones
+    FROM public.get_campaign_contact_phones(p_campaign_id) ccp
+    JOIN public.contacts c ON c.id = ccp.contact_id
+    LEFT JOIN lead_scores ls ON ls.contact_id = c.id
+    -- Numbers shared with another contact of the campaign are only dialed for the first of them
+    WHERE NOT ccp.is_duplicate
+      -- Only contacts whose own local time is inside one of the campaign's calling windows
+      AND public.is_within_weekly_schedule(v_schedule, COALESCE(c.timezone, v_campaign_timezone))
+      -- Never numbers on the account's do-not-call list
+      AND NOT public.is_number_suppressed(v_user_id, ccp.phone_number)
+  ),
+  call_history AS (
+    -- Latest attempt and attempt count for each contact/phone combination
+    SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+      cca.contact_id,
+      cca.phone_index,
+      cca.call_status as last_status,
+      cca.retry_outcome as last_outcome,
+      cca.created_at as last_attempt,
+      count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) as phone_attempts
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+  ),
+  contact_history AS (
+    -- Attempts across all of a contact's phone numbers
+    SELECT
+      cca.contact_id,
+      count(*) as contact_attempts,
+      MIN(cca.created_at) as first_attempt,
+      bool_or(cca.call_status = 'in-progress') as has_in_progress,
+      -- Queue jumpers: the lead asked to be called back, or an earlier call went well
+      COALESCE(bool_or(lower(cca.custom_analysis->>'callback_requested') IN ('true', 'yes')), false) as callback_requested,
+      COALESCE(bool_or(
+        cca.call_successful
+        OR cca.appointment_data->>'booked' = 'true'
+        OR cca.follow_up_potential = 'high'
+      ), false) as had_positive_attempt
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    GROUP BY cca.contact_id
+  ),
+  due_callbacks AS (
+    -- Callbacks the lead asked for that are due now
+    SELECT sc.id, sc.contact_id, sc.phone_index, sc.callback_at
+    FROM public.scheduled_callbacks sc
+    WHERE sc.campaign_id = p_campaign_id
+      AND sc.status = 'pending'
+      AND sc.callback_at <= now()
+  ),
+  eligible_contacts AS (
+    SELECT
+      cp.*,
+      cb.id as callback_id,
+      cb.callback_at,
+      ch.last_outcome,
+      ch.last_attempt,
+      COALESCE(ch.phone_attempts, 0) as phone_attempts,
+      COALESCE(hist.contact_attempts, 0) as contact_attempts,
+      COALESCE(hist.callback_requested, false) as callback_requested,
+      COALESCE(hist.had_positive_attempt, false) as had_positive_attempt,
+      COALESCE(extract(day FROM now() - hist.first_attempt)::int, 0) as days_since_first_attempt
+    FROM contact_phones cp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = cp.contact_id
+      AND ch.phone_index = cp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = cp.contact_id
+    LEFT JOIN due_callbacks cb
+      ON cb.contact_id = cp.contact_id
+      AND cb.phone_index = cp.phone_index
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    WHERE
+      -- Include a due callback on the number the lead asked on, whatever the retry policy says
+      (cb.id IS NOT NULL AND NOT COALESCE(hist.has_in_progress, false))
+      -- Or if this phone was never called
+      OR ch.contact_id IS NULL
+      -- Or if the last outcome is retryable under the campaign retry policy
+      OR (
+        ch.last_outcome IS NOT NULL
+        AND COALESCE((r.rule->>'enabled')::boolean, false)
+        AND NOT COALESCE(hist.has_in_progress, false)
+        -- Within retry days
+        AND extract(day FROM now() - hist.first_attempt)::int < p_max_retry_days
+        -- Minimum spacing since the last attempt on this phone
+        AND now() - ch.last_attempt >= COALESCE((r.rule->>'min_spacing_hours')::numeric, 0) * interval '1 hour'
+        -- Attempt caps per phone and per contact
+        AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+        AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        -- Time-of-day rotation: retry in a different part of the day's calling windows
+        AND (
+          NOT COALESCE((r.rule->>'rotate_time_of_day')::boolean, false)
+          OR public.weekly_schedule_segment(v_schedule, cp.contact_timezone, now())
+             IS DISTINCT FROM public.weekly_schedule_segment(v_schedule, cp.contact_timezone, ch.last_attempt)
+        )
+      )
+  )
+  SELECT
+    ec.contact_id,
+    ec.phone_num as phone_number,
+    ec.phone_index,
+    ec.total_phones,
+    ec.data as contact_data,
+    ec.contact_timezone as timezone,
+    (ec.contact_attempts + 1)::integer as attempt_number,
+    ec.days_since_first_attempt as attempt_day,
+    ec.phone_attempts::integer,
+    ec.contact_attempts::integer,
+    ec.last_outcome,
+    ec.last_attempt as last_attempt_at,
+    ec.contact_group_id,
+    ec.callback_id
+  FROM eligible_contacts ec
+  ORDER BY
+    CASE
+      WHEN ec.callback_id IS NOT NULL THEN 3
+      WHEN ec.callback_requested AND COALESCE((v_order->>'boost_callbacks')::boolean, false) THEN 2
+      WHEN ec.had_positive_attempt AND COALESCE((v_order->>'boost_positive')::boolean, false) THEN 1
+      ELSE 0
+    END DESC,
+    ec.callback_at ASC NULLS LAST,  -- Earliest due callback first
+    ec.priority DESC NULLS LAST,  -- Campaign ordering strategy
+    ec.contact_created_at ASC,  -- Then oldest contacts first
+    ec.contact_id ASC,  -- Then by contact ID
+    ec.phone_index ASC  -- Then by phone number order
+  LIMIT p_limit;
+END;
+$function$;
+
+-- Suppressed numbers do not keep a campaign open
+CREATE OR REPLACE FUNCTION public.campaign_has_remaining_contacts(p_campaign_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_settings JSONB;
+  v_max_retry_days INTEGER;
+  v_user_id UUID;
+BEGIN
+  SELECT COALESCE(camp.settings, '{}'::jsonb), COALESCE(camp.max_retry_days, 0), camp.user_id
+  INTO v_settings, v_max_retry_days, v_user_id
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+      AND cca.call_status = 'in-progress'
+  ) THEN
+    RETURN true;
+  END IF;
+
+  -- A callback still to be made on one of the campaign's numbers
+  IF EXISTS (
+    SELECT 1
+    FROM public.scheduled_callbacks sc
+    JOIN public.get_campaign_contact_phones(p_campaign_id) ccp
+      ON ccp.contact_id = sc.contact_id
+      AND ccp.phone_index = sc.phone_index
+    WHERE sc.campaign_id = p_campaign_id
+      AND sc.status = 'pending'
+      AND NOT ccp.is_duplicate
+      AND NOT public.is_number_suppressed(v_user_id, ccp.phone_number)
+  ) THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    WITH call_history AS (
+      SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+        cca.contact_id,
+        cca.phone_index,
+        cca.retry_outcome AS last_outcome,
+        count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) AS phone_attempts
+      FROM public.campaign_contact_attempts cca
+      WHERE cca.campaign_id = p_campaign_id
+      ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+    ),
+    contact_history AS (
+      SELECT
+        cca.contact_id,
+        count(*) AS contact_attempts,
+        MIN(cca.created_at) AS first_attempt
+      FROM public.campaign_contact_attempts cca
+      WHERE cca.campaign_id = p_campaign_id
+      GROUP BY cca.contact_id
+    )
+    SELECT 1
+    FROM public.get_campaign_contact_phones(p_campaign_id) ccp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = ccp.contact_id
+      AND ch.phone_index = ccp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = ccp.contact_id
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    WHERE NOT ccp.is_duplicate
+      AND NOT public.is_number_suppressed(v_user_id, ccp.phone_number)
+      AND (
+        ch.contact_id IS NULL
+        OR (
+          ch.last_outcome IS NOT NULL
+          AND COALESCE((r.rule->>'enabled')::boolean, false)
+          AND extract(day FROM now() - hist.first_attempt)::int < v_max_retry_days
+          AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+          AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        )
+      )
+  );
+END;
+$function$;
+
+
+GRANT EXECUTE ON FUNCTION public.is_number_suppressed(UUID, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.suppress_attempt_number(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.suppress_attempt_number(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.campaign_has_remaining_contacts(UUID) TO service_role;
+
+COMMENT ON TABLE public.do_not_call_numbers IS 'Account-wide do-not-call list, never dialed by any campaign';
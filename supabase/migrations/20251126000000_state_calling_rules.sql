@@ -0,0 +1,494 @@
+-- State calling-law rules
+-- Some states restrict telemarketing calls beyond what a campaign schedule allows: narrower calling
+-- hours, no calls on Sundays (or Saturdays), or a cap on calls to the same person per 24 hours.
+-- state_calling_rules holds one rule per state, editable by admins. get_next_contacts_to_call
+-- resolves each contact's state (zip code, then area code, see resolve_contact_state) and holds
+-- back contacts a rule blocks right now; process-campaign logs them to compliance_skips with the
+-- rule that blocked them.
+--
+-- Calling hours are local to the contact; the end time is exclusive (20:00 means the last call
+-- starts before 8 PM). A NULL Saturday or Sunday window means no calls that day. States without a
+-- rule (or with a disabled one) only follow the campaign schedule.
+--
+-- compliance_skips.rule: 'calling_hours' | 'saturday' | 'sunday' | 'daily_attempts'
+
+-- 1. Rule set
+
+CREATE TABLE IF NOT EXISTS public.state_calling_rules (
+  state TEXT PRIMARY KEY REFERENCES public.us_states(code),
+  weekday_start TIME NOT NULL DEFAULT '08:00',
+  weekday_end TIME NOT NULL DEFAULT '21:00',
+  saturday_start TIME,
+  saturday_end TIME,
+  sunday_start TIME,
+  sunday_end TIME,
+  max_attempts_per_day INTEGER CHECK (max_attempts_per_day IS NULL OR max_attempts_per_day > 0),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  citation TEXT,
+  notes TEXT,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (weekday_start < weekday_end),
+  CHECK ((saturday_start IS NULL) = (saturday_end IS NULL) AND (saturday_start IS NULL OR saturday_start < saturday_end)),
+  CHECK ((sunday_start IS NULL) = (sunday_end IS NULL) AND (sunday_start IS NULL OR sunday_start < sunday_end))
+);
+
+ALTER TABLE public.state_calling_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read state calling rules" ON public.state_calling_rules
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can insert state calling rules" ON public.state_calling_rules
+  FOR INSERT
+  WITH CHECK ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+CREATE POLICY "Admins can update state calling rules" ON public.state_calling_rules
+  FOR UPDATE
+  USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin')
+  WITH CHECK ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+CREATE POLICY "Admins can delete state calling rules" ON public.state_calling_rules
+  FOR DELETE
+  USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+CREATE POLICY "Service role can manage state calling rules" ON public.state_calling_rules
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- Built-in rules (state telemarketing statutes as of 2025; review them with counsel before relying on them)
+INSERT INTO public.state_calling_rules
+  (state, weekday_start, weekday_end, saturday_start, saturday_end, sunday_start, sunday_end, max_attempts_per_day, citation)
+VALUES
+  ('AL', '08:00', '20:00', '08:00', '20:00', NULL, NULL, NULL, 'Ala. Code § 8-19A-4'),
+  ('CT', '09:00', '20:00', '09:00', '20:00', '09:00', '20:00', NULL, 'Conn. Gen. Stat. § 42-288a'),
+  ('FL', '08:00', '20:00', '08:00', '20:00', '08:00', '20:00', 3, 'Fla. Stat. § 501.616'),
+  ('LA', '08:00', '20:00', '08:00', '20:00', NULL, NULL, NULL, 'La. R.S. 45:844.17'),
+  ('MA', '08:00', '20:00', '08:00', '20:00', '08:00', '20:00', NULL, '201 CMR 12.02'),
+  ('MD', '08:00', '20:00', '08:00', '20:00', '08:00', '20:00', 3, 'Md. Code, Com. Law § 14-4503'),
+  ('MS', '08:00', '20:00', '08:00', '20:00', NULL, NULL, NULL, 'Miss. Code § 77-3-725'),
+  ('OK', '08:00', '20:00', '08:00', '20:00', '08:00', '20:00', 3, 'Okla. Stat. tit. 15 § 775C.4'),
+  ('RI', '09:00', '18:00', '10:00', '17:00', NULL, NULL, NULL, 'R.I. Gen. Laws § 5-61-3.5'),
+  ('TX', '09:00', '21:00', '09:00', '21:00', '12:00', '21:00', NULL, 'Tex. Bus. & Com. Code § 301.051'),
+  ('UT', '08:00', '21:00', '08:00', '21:00', NULL, NULL, NULL, 'Utah Code § 13-25a-103'),
+  ('WA', '08:00', '20:00', '08:00', '20:00', '08:00', '20:00', NULL, 'RCW 80.36.390')
+ON CONFLICT (state) DO NOTHING;
+
+-- 2. Log of attempts a rule held back (one row per contact phone, rule and local day)
+
+CREATE TABLE IF NOT EXISTS public.compliance_skips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  phone_index INTEGER NOT NULL DEFAULT 0,
+  phone_number TEXT NOT NULL,
+  state TEXT NOT NULL,
+  rule TEXT NOT NULL CHECK (rule IN ('calling_hours', 'saturday', 'sunday', 'daily_attempts')),
+  detail TEXT,
+  local_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, contact_id, phone_index, rule, local_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_skips_campaign
+  ON public.compliance_skips(campaign_id, created_at DESC);
+
+ALTER TABLE public.compliance_skips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view compliance skips of their campaigns" ON public.compliance_skips
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.campaigns c
+      WHERE c.id = compliance_skips.campaign_id
+        AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage compliance skips" ON public.compliance_skips
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- 3. The rule (if any) that blocks a call to a contact of a state right now
+CREATE OR REPLACE FUNCTION public.state_calling_rule_block(
+  p_state TEXT,
+  p_timezone TEXT,
+  p_attempts_last_day INTEGER,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE(rule TEXT, detail TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_rule public.state_calling_rules%ROWTYPE;
+  v_local TIMESTAMP;
+  v_day TEXT;
+  v_start TIME;
+  v_end TIME;
+BEGIN
+  IF p_state IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_rule
+  FROM public.state_calling_rules r
+  WHERE r.state = p_state
+    AND r.enabled;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_local := p_at AT TIME ZONE COALESCE(p_timezone, 'America/New_York');
+  v_day := to_char(v_local, 'dy');
+
+  IF v_day = 'sun' THEN
+    IF v_rule.sunday_start IS NULL THEN
+      RETURN QUERY SELECT 'sunday'::TEXT, format('%s: no calls on Sundays', p_state);
+      RETURN;
+    END IF;
+    v_start := v_rule.sunday_start;
+    v_end := v_rule.sunday_end;
+  ELSIF v_day = 'sat' THEN
+    IF v_rule.saturday_start IS NULL THEN
+      RETURN QUERY SELECT 'saturday'::TEXT, format('%s: no calls on Saturdays', p_state);
+      RETURN;
+    END IF;
+    v_start := v_rule.saturday_start;
+    v_end := v_rule.saturday_end;
+  ELSE
+    v_start := v_rule.weekday_start;
+    v_end := v_rule.weekday_end;
+  END IF;
+
+  IF v_local::TIME < v_start OR v_local::TIME >= v_end THEN
+    RETURN QUERY SELECT 'calling_hours'::TEXT, format(
+      '%s: calls only between %s and %s local time',
+      p_state, to_char(v_start, 'HH24:MI'), to_char(v_end, 'HH24:MI')
+    );
+    RETURN;
+  END IF;
+
+  IF v_rule.max_attempts_per_day IS NOT NULL AND COALESCE(p_attempts_last_day, 0) >= v_rule.max_attempts_per_day THEN
+    RETURN QUERY SELECT 'daily_attempts'::TEXT, format(
+      '%s: at most %s calls to a contact per 24 hours',
+      p_state, v_rule.max_attempts_per_day
+    );
+  END IF;
+END;
+$function$;
+
+-- 4. Contact selection holds back contacts a state rule blocks. They are returned after the
+-- contacts to dial, with compliance_rule set, unless already logged for that rule today.
+DROP FUNCTION IF EXISTS public.get_next_contacts_to_call(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_next_contacts_to_call(p_campaign_id uuid, p_max_retry_days integer, p_limit integer)
+ RETURNS TABLE(
+   contact_id uuid,
+   phone_number text,
+   phone_index integer,
+   total_phones integer,
+   contact_data jsonb,
+   timezone text,
+   attempt_number integer,
+   attempt_day integer,
+   phone_attempts integer,
+   contact_attempts integer,
+   last_outcome text,
+   last_attempt_at timestamptz,
+   contact_group_id uuid,
+   callback_id uuid,
+   contact_state text,
+   compliance_rule text,
+   compliance_detail text
+ )
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule JSONB;
+  v_campaign_timezone TEXT;
+  v_settings JSONB;
+  v_order JSONB;
+  v_strategy TEXT;
+  v_direction TEXT;
+  v_tiers TEXT[];
+  v_total_weight NUMERIC;
+  v_user_id UUID;
+BEGIN
+  SELECT
+    public.campaign_weekly_schedule(camp.weekly_schedule, camp.calling_hours, camp.active_days),
+    COALESCE(camp.timezone, 'America/New_York'),
+    COALESCE(camp.settings, '{}'::jsonb),
+    camp.user_id
+  INTO v_schedule, v_campaign_timezone, v_settings, v_user_id
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  v_order := COALESCE(v_settings->'queue_order', '{}'::jsonb);
+  v_strategy := COALESCE(v_order->>'strategy', 'created_at');
+  v_direction := COALESCE(v_order->>'direction', 'desc');
+  v_tiers := ARRAY(
+    SELECT lower(trim(t))
+    FROM jsonb_array_elements_text(COALESCE(v_order->'tiers', '[]'::jsonb)) AS t
+  );
+  SELECT SUM(GREATEST((f->>'weight')::numeric, 0))
+  INTO v_total_weight
+  FROM jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb)) AS f;
+
+  RETURN QUERY
+  WITH factor_values AS (
+    -- One row per contact and lead score factor
+    SELECT
+      c.id AS contact_id,
+      f.factor_index,
+      (f.factor->>'weight')::numeric AS weight,
+      COALESCE(f.factor->>'prefer', 'high') AS prefer,
+      public.contact_sort_value(c.data->>(f.factor->>'field')) AS value
+    FROM public.contacts c
+    CROSS JOIN jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb))
+      WITH ORDINALITY AS f(factor, factor_index)
+    WHERE v_strategy = 'lead_score'
+      AND c.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.campaign_contacts cc
+        WHERE cc.contact_group_id = c.contact_group_id
+          AND cc.campaign_id = p_campaign_id
+      )
+  ),
+  lead_scores AS (
+    -- Weighted percentile rank per factor across the campaign's contacts, scaled to 0-100
+    SELECT
+      ranked.contact_id,
+      round(100 * SUM(ranked.weight * ranked.score) / NULLIF(v_total_weight, 0), 1) AS lead_score
+    FROM (
+      SELECT
+        fv.contact_id,
+        fv.weight,
+        CASE
+          WHEN fv.prefer = 'low' THEN 1 - percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+          ELSE percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+        END AS score
+      FROM factor_values fv
+      WHERE fv.value IS NOT NULL
+        AND fv.weight > 0
+    ) ranked
+    GROUP BY ranked.contact_id
+  ),
+  contact_phones AS (
+    -- Expand contacts to have one row per phone number
+    SELECT
+      c.id as contact_id,
+      -- Build proper contact_data with all relevant fields
+      jsonb_build_object(
+        'first_name', c.first_name,
+        'last_name', c.last_name,
+        'email', c.email,
+        'address', c.address,
+        'phone_number', regexp_replace(ccp.phone_number, '[^0-9]', '', 'g'),
+        'custom_fields', c.custom_fields
+      ) as data,
+      c.contact_group_id,
+      c.created_at as contact_created_at,
+      COALESCE(c.timezone, v_campaign_timezone) as contact_timezone,
+      public.resolve_contact_state(ccp.phone_number, c.address, c.data) as contact_state,
+      -- Queue priority under the campaign's ordering strategy (higher is called first)
+      CASE v_strategy
+        WHEN 'field' THEN
+          CASE WHEN v_direction = 'asc' THEN -1 ELSE 1 END
+            * public.contact_sort_value(c.data->>(v_order->>'field'))
+        WHEN 'lead_score' THEN
+          COALESCE(ls.lead_score, 0)
+        WHEN 'priority_tiers' THEN
+          (cardinality(v_tiers) + 1 - array_position(v_tiers, lower(trim(c.data->>(v_order->>'tier_field')))))::numeric
+      END as priority,
+      ccp.phone_number as phone_num,
+      ccp.phone_index,
+      ccp.total_phones
+    FROM public.get_campaign_contact_phones(p_campaign_id) ccp
+    JOIN public.contacts c ON c.id = ccp.contact_id
+    LEFT JOIN lead_scores ls ON ls.contact_id = c.id
+    -- Numbers shared with another contact of the campaign are only dialed for the first of them
+    WHERE NOT ccp.is_duplicate
+      -- Only contacts whose own local time is inside one of the campaign's calling windows
+      AND public.is_within_weekly_schedule(v_schedule, COALESCE(c.timezone, v_campaign_timezone))
+      -- Never numbers on the account's do-not-call list
+      AND NOT public.is_number_suppressed(v_user_id, ccp.phone_number)
+  ),
+  call_history AS (
+    -- Latest attempt and attempt count for each contact/phone combination
+    SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+      cca.contact_id,
+      cca.phone_index,
+      cca.call_status as last_status,
+      cca.retry_outcome as last_outcome,
+      cca.created_at as last_attempt,
+      count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) as phone_attempts
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+  ),
+  contact_history AS (
+    -- Attempts across all of a contact's phone numbers
+    SELECT
+      cca.contact_id,
+      count(*) as contact_attempts,
+      count(*) FILTER (WHERE cca.created_at > now() - interval '24 hours') as attempts_last_day,
+      MIN(cca.created_at) as first_attempt,
+      bool_or(cca.call_status = 'in-progress') as has_in_progress,
+      -- Queue jumpers: the lead asked to be called back, or an earlier call went well
+      COALESCE(bool_or(lower(cca.custom_analysis->>'callback_requested') IN ('true', 'yes')), false) as callback_requested,
+      COALESCE(bool_or(
+        cca.call_successful
+        OR cca.appointment_data->>'booked' = 'true'
+        OR cca.follow_up_potential = 'high'
+      ), false) as had_positive_attempt
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    GROUP BY cca.contact_id
+  ),
+  due_callbacks AS (
+    -- Callbacks the lead asked for that are due now
+    SELECT sc.id, sc.contact_id, sc.phone_index, sc.callback_at
+    FROM public.scheduled_callbacks sc
+    WHERE sc.campaign_id = p_campaign_id
+      AND sc.status = 'pending'
+      AND sc.callback_at <= now()
+  ),
+  eligible_contacts AS (
+    SELECT
+      cp.*,
+      cb.id as callback_id,
+      cb.callback_at,
+      ch.last_outcome,
+      ch.last_attempt,
+      COALESCE(ch.phone_attempts, 0) as phone_attempts,
+      COALESCE(hist.contact_attempts, 0) as contact_attempts,
+      COALESCE(hist.callback_requested, false) as callback_requested,
+      COALESCE(hist.had_positive_attempt, false) as had_positive_attempt,
+      COALESCE(extract(day FROM now() - hist.first_attempt)::int, 0) as days_since_first_attempt,
+      blk.rule as compliance_rule,
+      blk.detail as compliance_detail
+    FROM contact_phones cp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = cp.contact_id
+      AND ch.phone_index = cp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = cp.contact_id
+    LEFT JOIN due_callbacks cb
+      ON cb.contact_id = cp.contact_id
+      AND cb.phone_index = cp.phone_index
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    -- State calling law of the contact's state, on top of the campaign schedule
+    LEFT JOIN LATERAL public.state_calling_rule_block(
+      cp.contact_state, cp.contact_timezone, COALESCE(hist.attempts_last_day, 0)::integer
+    ) blk ON true
+    WHERE
+      -- Include a due callback on the number the lead asked on, whatever the retry policy says
+      (cb.id IS NOT NULL AND NOT COALESCE(hist.has_in_progress, false))
+      -- Or if this phone was never called
+      OR ch.contact_id IS NULL
+      -- Or if the last outcome is retryable under the campaign retry policy
+      OR (
+        ch.last_outcome IS NOT NULL
+        AND COALESCE((r.rule->>'enabled')::boolean, false)
+        AND NOT COALESCE(hist.has_in_progress, false)
+        -- Within retry days
+        AND extract(day FROM now() - hist.first_attempt)::int < p_max_retry_days
+        -- Minimum spacing since the last attempt on this phone
+        AND now() - ch.last_attempt >= COALESCE((r.rule->>'min_spacing_hours')::numeric, 0) * interval '1 hour'
+        -- Attempt caps per phone and per contact
+        AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+        AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+        -- Time-of-day rotation: retry in a different part of the day's calling windows
+        AND (
+          NOT COALESCE((r.rule->>'rotate_time_of_day')::boolean, false)
+          OR public.weekly_schedule_segment(v_schedule, cp.contact_timezone, now())
+             IS DISTINCT FROM public.weekly_schedule_segment(v_schedule, cp.contact_timezone, ch.last_attempt)
+        )
+      )
+  )
+  (
+    -- Contacts to dial, in queue order
+    SELECT
+      ec.contact_id,
+      ec.phone_num as phone_number,
+      ec.phone_index,
+      ec.total_phones,
+      ec.data as contact_data,
+      ec.contact_timezone as timezone,
+      (ec.contact_attempts + 1)::integer as attempt_number,
+      ec.days_since_first_attempt as attempt_day,
+      ec.phone_attempts::integer,
+      ec.contact_attempts::integer,
+      ec.last_outcome,
+      ec.last_attempt as last_attempt_at,
+      ec.contact_group_id,
+      ec.callback_id,
+      ec.contact_state,
+      ec.compliance_rule,
+      ec.compliance_detail
+    FROM eligible_contacts ec
+    WHERE ec.compliance_rule IS NULL
+    ORDER BY
+      CASE
+        WHEN ec.callback_id IS NOT NULL THEN 3
+        WHEN ec.callback_requested AND COALESCE((v_order->>'boost_callbacks')::boolean, false) THEN 2
+        WHEN ec.had_positive_attempt AND COALESCE((v_order->>'boost_positive')::boolean, false) THEN 1
+        ELSE 0
+      END DESC,
+      ec.callback_at ASC NULLS LAST,  -- Earliest due callback first
+      ec.priority DESC NULLS LAST,  -- Campaign ordering strategy
+      ec.contact_created_at ASC,  -- Then oldest contacts first
+      ec.contact_id ASC,  -- Then by contact ID
+      ec.phone_index ASC  -- Then by phone number order
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    -- Contacts a state rule blocks, once a day per rule, for process-campaign to log as skipped
+    SELECT
+      ec.contact_id,
+      ec.phone_num as phone_number,
+      ec.phone_index,
+      ec.total_phones,
+      ec.data as contact_data,
+      ec.contact_timezone as timezone,
+      (ec.contact_attempts + 1)::integer as attempt_number,
+      ec.days_since_first_attempt as attempt_day,
+      ec.phone_attempts::integer,
+      ec.contact_attempts::integer,
+      ec.last_outcome,
+      ec.last_attempt as last_attempt_at,
+      ec.contact_group_id,
+      ec.callback_id,
+      ec.contact_state,
+      ec.compliance_rule,
+      ec.compliance_detail
+    FROM eligible_contacts ec
+    WHERE ec.compliance_rule IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.compliance_skips cs
+        WHERE cs.campaign_id = p_campaign_id
+          AND cs.contact_id = ec.contact_id
+          AND cs.phone_index = ec.phone_index
+          AND cs.rule = ec.compliance_rule
+          AND cs.local_date = (now() AT TIME ZONE ec.contact_timezone)::date
+      )
+    LIMIT 500
+  );
+END;
+$function$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.state_calling_rules TO authenticated;
+GRANT ALL ON public.state_calling_rules TO service_role;
+GRANT SELECT ON public.compliance_skips TO authenticated;
+GRANT ALL ON public.compliance_skips TO service_role;
+GRANT EXECUTE ON FUNCTION public.state_calling_rule_block(TEXT, TEXT, INTEGER, TIMESTAMPTZ) TO service_role;
+
+COMMENT ON TABLE public.state_calling_rules IS 'State calling-law rules enforced on top of campaign schedules';
+COMMENT ON TABLE public.compliance_skips IS 'Contacts held back by a state calling rule, with the rule that blocked them';
@@ -0,0 +1,109 @@
+-- Account-wide concurrency ceiling
+-- campaigns.concurrent_calls only limits one campaign, so several active campaigns could together
+-- place more simultaneous calls than an account (and its Retell key) should. Each account now has
+-- a ceiling on live calls across all of its campaigns: account_dialing_limits.max_concurrent_calls
+-- when an admin set one, otherwise the default of the account's plan.
+-- process-campaign shares the free slots fairly between the account's active campaigns (see
+-- shareAccountSlots in supabase/functions/_shared/dial-pacing.ts).
+
+-- 1. Plan defaults
+CREATE TABLE IF NOT EXISTS public.plan_concurrency_limits (
+  plan public.user_plan PRIMARY KEY,
+  max_concurrent_calls INTEGER NOT NULL CHECK (max_concurrent_calls > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.plan_concurrency_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read plan concurrency limits" ON public.plan_concurrency_limits
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage plan concurrency limits" ON public.plan_concurrency_limits
+  FOR ALL
+  TO authenticated
+  USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin')
+  WITH CHECK ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+CREATE POLICY "Service role can manage plan concurrency limits" ON public.plan_concurrency_limits
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+INSERT INTO public.plan_concurrency_limits (plan, max_concurrent_calls) VALUES
+  ('basic', 10),
+  ('professional', 25),
+  ('summit', 50)
+ON CONFLICT (plan) DO NOTHING;
+
+-- 2. Per-account override, set by admins (NULL = plan default)
+ALTER TABLE public.account_dialing_limits
+ADD COLUMN IF NOT EXISTS max_concurrent_calls INTEGER CHECK (max_concurrent_calls IS NULL OR max_concurrent_calls > 0);
+
+-- 3. Ceiling of an account: admin override, then plan default, then 10
+CREATE OR REPLACE FUNCTION public.get_account_concurrency_limit(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+BEGIN
+  IF p_user_id IS NULL OR (auth.uid() IS DISTINCT FROM p_user_id AND COALESCE(auth.jwt()->>'role', '') <> 'service_role') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN COALESCE(
+    (SELECT adl.max_concurrent_calls FROM public.account_dialing_limits adl WHERE adl.user_id = p_user_id),
+    (SELECT pcl.max_concurrent_calls
+     FROM public.profiles p
+     JOIN public.plan_concurrency_limits pcl ON pcl.plan = p.plan
+     WHERE p.id = p_user_id),
+    10
+  );
+END;
+$function$;
+
+-- 4. Slot usage of an account: its active campaigns and any campaign with a call still live
+CREATE OR REPLACE FUNCTION public.get_account_slot_usage(p_user_id UUID)
+RETURNS TABLE(
+  campaign_id UUID,
+  campaign_name TEXT,
+  status TEXT,
+  concurrent_calls INTEGER,
+  active_calls INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+BEGIN
+  IF p_user_id IS NULL OR (auth.uid() IS DISTINCT FROM p_user_id AND COALESCE(auth.jwt()->>'role', '') <> 'service_role') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    camp.id,
+    camp.name,
+    camp.status::TEXT,
+    camp.concurrent_calls,
+    COALESCE(live.calls, 0)::INTEGER
+  FROM public.campaigns camp
+  LEFT JOIN (
+    SELECT cca.campaign_id, count(*) AS calls
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.call_status = 'in-progress'
+    GROUP BY cca.campaign_id
+  ) live ON live.campaign_id = camp.id
+  WHERE camp.user_id = p_user_id
+    AND (camp.status = 'active' OR live.calls > 0)
+  ORDER BY camp.name;
+END;
+$function$;
+
+GRANT ALL ON public.plan_concurrency_limits TO service_role;
+GRANT SELECT ON public.plan_concurrency_limits TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_account_concurrency_limit(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_account_slot_usage(UUID) TO authenticated, service_role;
+
+COMMENT ON TABLE public.plan_concurrency_limits IS 'Default account-wide concurrent call ceiling per plan';
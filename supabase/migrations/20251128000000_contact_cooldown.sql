@@ -0,0 +1,582 @@
+-- Cross-campaign contact cooldown
+-- A phone number can be in several contact groups, so two campaigns could dial it on the same day.
+-- An account's cooldown rule holds a number across all of its campaigns:
+--   conversation_cooldown_days: no dial within N days of a completed conversation with the number
+--   max_dials_per_week:         at most M dials to the number in any 7 days
+-- get_next_contacts_to_call skips held numbers, except for a due callback the lead asked for.
+-- get_held_numbers tells the UI which numbers are held, until when and why.
+-- Numbers match on their last 10 digits, like the do-not-call list.
+--
+-- get_number_cooldown reason: 'recent_conversation' | 'weekly_dial_limit'
+
+-- 1. Rule per account
+
+CREATE TABLE IF NOT EXISTS public.contact_cooldown_rules (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  conversation_cooldown_days INTEGER CHECK (conversation_cooldown_days IS NULL OR conversation_cooldown_days > 0),
+  max_dials_per_week INTEGER CHECK (max_dials_per_week IS NULL OR max_dials_per_week > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.contact_cooldown_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cooldown rule" ON public.contact_cooldown_rules
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own cooldown rule" ON public.contact_cooldown_rules
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cooldown rule" ON public.contact_cooldown_rules
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage cooldown rules" ON public.contact_cooldown_rules
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- 2. Dials to a number, across campaigns
+CREATE INDEX IF NOT EXISTS idx_campaign_contact_attempts_phone_key
+  ON public.campaign_contact_attempts ((right(regexp_replace(phone_number, '[^0-9]', '', 'g'), 10)), created_at DESC);
+
+-- 3. Whether the account's cooldown holds a number right now, until when and why
+CREATE OR REPLACE FUNCTION public.get_number_cooldown(
+  p_user_id UUID,
+  p_phone_number TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE(held_until TIMESTAMPTZ, reason TEXT, detail TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_rule public.contact_cooldown_rules%ROWTYPE;
+  v_key TEXT;
+  v_last_conversation TIMESTAMPTZ;
+  v_campaign_name TEXT;
+  v_dials INTEGER;
+  v_oldest_counted TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_rule
+  FROM public.contact_cooldown_rules r
+  WHERE r.user_id = p_user_id
+    AND r.enabled;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_key := right(regexp_replace(COALESCE(p_phone_number, ''), '[^0-9]', '', 'g'), 10);
+  IF v_key = '' THEN
+    RETURN;
+  END IF;
+
+  -- A completed conversation: the call connected and was not a voicemail or quick hangup
+  IF v_rule.conversation_cooldown_days IS NOT NULL THEN
+    SELECT cca.created_at, camp.name
+    INTO v_last_conversation, v_campaign_name
+    FROM public.campaign_contact_attempts cca
+    JOIN public.campaigns camp ON camp.id = cca.campaign_id
+    WHERE right(regexp_replace(cca.phone_number, '[^0-9]', '', 'g'), 10) = v_key
+      AND cca.created_at > p_at - v_rule.conversation_cooldown_days * interval '1 day'
+      AND camp.user_id = p_user_id
+      AND cca.call_status = 'completed'
+      AND cca.retry_outcome IS NULL
+    ORDER BY cca.created_at DESC
+    LIMIT 1;
+
+    IF v_last_conversation IS NOT NULL THEN
+      RETURN QUERY SELECT
+        v_last_conversation + v_rule.conversation_cooldown_days * interval '1 day',
+        'recent_conversation'::TEXT,
+        format('Spoke with this number in %s on %s', v_campaign_name, to_char(v_last_conversation, 'Mon DD'));
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Dials in the last 7 days; the number is free again once the M-th most recent one is a week old
+  IF v_rule.max_dials_per_week IS NOT NULL THEN
+    SELECT count(*)::INTEGER INTO v_dials
+    FROM public.campaign_contact_attempts cca
+    JOIN public.campaigns camp ON camp.id = cca.campaign_id
+    WHERE right(regexp_replace(cca.phone_number, '[^0-9]', '', 'g'), 10) = v_key
+      AND cca.created_at > p_at - interval '7 days'
+      AND camp.user_id = p_user_id
+      AND cca.retry_outcome IS DISTINCT FROM 'failed-to-initiate';
+
+    IF v_dials >= v_rule.max_dials_per_week THEN
+      SELECT cca.created_at INTO v_oldest_counted
+      FROM public.campaign_contact_attempts cca
+      JOIN public.campaigns camp ON camp.id = cca.campaign_id
+      WHERE right(regexp_replace(cca.phone_number, '[^0-9]', '', 'g'), 10) = v_key
+        AND cca.created_at > p_at - interval '7 days'
+        AND camp.user_id = p_user_id
+        AND cca.retry_outcome IS DISTINCT FROM 'failed-to-initiate'
+      ORDER BY cca.created_at DESC
+      OFFSET v_rule.max_dials_per_week - 1
+      LIMIT 1;
+
+      RETURN QUERY SELECT
+        v_oldest_counted + interval '7 days',
+        'weekly_dial_limit'::TEXT,
+        format('Dialed %s times across campaigns in the last 7 days (limit %s)', v_dials, v_rule.max_dials_per_week);
+    END IF;
+  END IF;
+END;
+$function$;
+
+-- 4. Numbers of the current user that the cooldown holds, for the contact list
+CREATE OR REPLACE FUNCTION public.get_held_numbers(p_phone_numbers TEXT[])
+RETURNS TABLE(phone_key TEXT, held_until TIMESTAMPTZ, reason TEXT, detail TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+  SELECT DISTINCT ON (phones.phone_key) phones.phone_key, cd.held_until, cd.reason, cd.detail
+  FROM (
+    SELECT right(regexp_replace(p, '[^0-9]', '', 'g'), 10) AS phone_key
+    FROM unnest(p_phone_numbers) AS p
+  ) phones
+  CROSS JOIN LATERAL public.get_number_cooldown(auth.uid(), phones.phone_key) cd
+  WHERE auth.uid() IS NOT NULL
+  ORDER BY phones.phone_key;
+$function$;
+
+-- 5. Column of a contact group holding a queue ordering field. Groups map the campaign's variables
+-- to their own columns (campaign_contacts.field_mappings: { variable: column }), so the field can
+-- be a variable, or another group's column for a variable that this group names differently.
+CREATE OR REPLACE FUNCTION public.resolve_group_field(
+  p_campaign_id UUID,
+  p_contact_group_id UUID,
+  p_field TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  WITH groups AS (
+    SELECT
+      cc.contact_group_id,
+      CASE WHEN jsonb_typeof(cc.field_mappings) = 'object' THEN cc.field_mappings ELSE '{}'::jsonb END AS mappings
+    FROM public.campaign_contacts cc
+    WHERE cc.campaign_id = p_campaign_id
+  )
+  SELECT COALESCE(
+    (SELECT g.mappings->>p_field FROM groups g WHERE g.contact_group_id = p_contact_group_id),
+    (
+      SELECT g.mappings->>m.key
+      FROM groups other
+      CROSS JOIN jsonb_each_text(other.mappings) m
+      JOIN groups g ON g.contact_group_id = p_contact_group_id
+      WHERE m.value = p_field
+        AND g.mappings ? m.key
+      ORDER BY other.contact_group_id = p_contact_group_id DESC
+      LIMIT 1
+    ),
+    p_field
+  );
+$function$;
+
+-- 6. Contact selection skips numbers the cooldown holds; the state cap on calls per 24 hours counts
+-- a number's dials across the account's campaigns
+DROP FUNCTION IF EXISTS public.get_next_contacts_to_call(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_next_contacts_to_call(p_campaign_id uuid, p_max_retry_days integer, p_limit integer)
+ RETURNS TABLE(
+   contact_id uuid,
+   phone_number text,
+   phone_index integer,
+   total_phones integer,
+   contact_data jsonb,
+   timezone text,
+   attempt_number integer,
+   attempt_day integer,
+   phone_attempts integer,
+   contact_attempts integer,
+   last_outcome text,
+   last_attempt_at timestamptz,
+   contact_group_id uuid,
+   callback_id uuid,
+   contact_state text,
+   compliance_rule text,
+   compliance_detail text
+ )
+ LANGUAGE plpgsql
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule JSONB;
+  v_campaign_timezone TEXT;
+  v_settings JSONB;
+  v_order JSONB;
+  v_strategy TEXT;
+  v_direction TEXT;
+  v_tiers TEXT[];
+  v_total_weight NUMERIC;
+  v_user_id UUID;
+  v_has_cooldown BOOLEAN;
+  v_cooldown_days INTEGER;
+  v_max_dials_per_week INTEGER;
+BEGIN
+  SELECT
+    public.campaign_weekly_schedule(camp.weekly_schedule, camp.calling_hours, camp.active_days),
+    COALESCE(camp.timezone, 'America/New_York'),
+    COALESCE(camp.settings, '{}'::jsonb),
+    camp.user_id
+  INTO v_schedule, v_campaign_timezone, v_settings, v_user_id
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  SELECT r.conversation_cooldown_days, r.max_dials_per_week
+  INTO v_cooldown_days, v_max_dials_per_week
+  FROM public.contact_cooldown_rules r
+  WHERE r.user_id = v_user_id
+    AND r.enabled;
+  v_has_cooldown := FOUND;
+
+  v_order := COALESCE(v_settings->'queue_order', '{}'::jsonb);
+  v_strategy := COALESCE(v_order->>'strategy', 'created_at');
+  v_direction := COALESCE(v_order->>'direction', 'desc');
+  v_tiers := ARRAY(
+    SELECT lower(trim(t))
+    FROM jsonb_array_elements_text(COALESCE(v_order->'tiers', '[]'::jsonb)) AS t
+  );
+  SELECT SUM(GREATEST((f->>'weight')::numeric, 0))
+  INTO v_total_weight
+  FROM jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb)) AS f;
+
+  RETURN QUERY
+  WITH group_fields AS (
+    -- Each group's columns for the ordering and tier fields, through its field mappings
+    SELECT
+      cc.contact_group_id,
+      public.resolve_group_field(p_campaign_id, cc.contact_group_id, v_order->>'field') AS order_field,
+      public.resolve_group_field(p_campaign_id, cc.contact_group_id, v_order->>'tier_field') AS tier_field
+    FROM public.campaign_contacts cc
+    WHERE cc.campaign_id = p_campaign_id
+  ),
+  factor_fields AS (
+    -- Each group's column for each lead score factor
+    SELECT
+      cc.contact_group_id,
+      f.factor_index,
+      (f.factor->>'weight')::numeric AS weight,
+      COALESCE(f.factor->>'prefer', 'high') AS prefer,
+      public.resolve_group_field(p_campaign_id, cc.contact_group_id, f.factor->>'field') AS field
+    FROM public.campaign_contacts cc
+    CROSS JOIN jsonb_array_elements(COALESCE(v_order->'lead_score_factors', '[]'::jsonb))
+      WITH ORDINALITY AS f(factor, factor_index)
+    WHERE v_strategy = 'lead_score'
+      AND cc.campaign_id = p_campaign_id
+  ),
+  factor_values AS (
+    -- One row per contact and lead score factor
+    SELECT
+      c.id AS contact_id,
+      ff.factor_index,
+      ff.weight,
+      ff.prefer,
+      public.contact_sort_value(c.data->>ff.field) AS value
+    FROM factor_fields ff
+    JOIN public.contacts c ON c.contact_group_id = ff.contact_group_id
+    WHERE c.status = 'active'
+  ),
+  lead_scores AS (
+    -- Weighted percentile rank per factor across the campaign's contacts, scaled to 0-100
+    SELECT
+      ranked.contact_id,
+      round(100 * SUM(ranked.weight * ranked.score) / NULLIF(v_total_weight, 0), 1) AS lead_score
+    FROM (
+      SELECT
+        fv.contact_id,
+        fv.weight,
+        CASE
+          WHEN fv.prefer = 'low' THEN 1 - percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+          ELSE percent_rank() OVER (PARTITION BY fv.factor_index ORDER BY fv.value)
+        END AS score
+      FROM factor_values fv
+      WHERE fv.value IS NOT NULL
+        AND fv.weight > 0
+    ) ranked
+    GROUP BY ranked.contact_id
+  ),
+  contact_phones AS (
+    -- Expand contacts to have one row per phone number
+    SELECT
+      c.id as contact_id,
+      -- Build proper contact_data with all relevant fields
+      jsonb_build_object(
+        'first_name', c.first_name,
+        'last_name', c.last_name,
+        'email', c.email,
+        'address', c.address,
+        'phone_number', regexp_replace(ccp.phone_number, '[^0-9]', '', 'g'),
+        'custom_fields', c.custom_fields
+      ) as data,
+      c.contact_group_id,
+      c.created_at as contact_created_at,
+      COALESCE(c.timezone, v_campaign_timezone) as contact_timezone,
+      public.resolve_contact_state(ccp.phone_number, c.address, c.data) as contact_state,
+      -- Queue priority under the campaign's ordering strategy (higher is called first)
+      CASE v_strategy
+        WHEN 'field' THEN
+          CASE WHEN v_direction = 'asc' THEN -1 ELSE 1 END
+            * public.contact_sort_value(c.data->>gf.order_field)
+        WHEN 'lead_score' THEN
+          COALESCE(ls.lead_score, 0)
+        WHEN 'priority_tiers' THEN
+          (cardinality(v_tiers) + 1 - array_position(v_tiers, lower(trim(c.data->>gf.tier_field))))::numeric
+      END as priority,
+      ccp.phone_number as phone_num,
+      right(regexp_replace(ccp.phone_number, '[^0-9]', '', 'g'), 10) as phone_key,
+      ccp.phone_index,
+      ccp.total_phones
+    FROM public.get_campaign_contact_phones(p_campaign_id) ccp
+    JOIN public.contacts c ON c.id = ccp.contact_id
+    LEFT JOIN lead_scores ls ON ls.contact_id = c.id
+    LEFT JOIN group_fields gf ON gf.contact_group_id = c.contact_group_id
+    -- Numbers shared with another contact of the campaign are only dialed for the first of them
+    WHERE NOT ccp.is_duplicate
+      -- Only contacts whose own local time is inside one of the campaign's calling windows
+      AND public.is_within_weekly_schedule(v_schedule, COALESCE(c.timezone, v_campaign_timezone))
+      -- Never numbers on the account's do-not-call list
+      AND NOT public.is_number_suppressed(v_user_id, ccp.phone_number)
+  ),
+  call_history AS (
+    -- Latest attempt and attempt count for each contact/phone combination
+    SELECT DISTINCT ON (cca.contact_id, cca.phone_index)
+      cca.contact_id,
+      cca.phone_index,
+      cca.call_status as last_status,
+      cca.retry_outcome as last_outcome,
+      cca.created_at as last_attempt,
+      count(*) OVER (PARTITION BY cca.contact_id, cca.phone_index) as phone_attempts
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    ORDER BY cca.contact_id, cca.phone_index, cca.created_at DESC
+  ),
+  contact_history AS (
+    -- Attempts across all of a contact's phone numbers
+    SELECT
+      cca.contact_id,
+      count(*) as contact_attempts,
+      MIN(cca.created_at) as first_attempt,
+      bool_or(cca.call_status = 'in-progress') as has_in_progress,
+      -- Queue jumpers: the lead asked to be called back, or an earlier call went well
+      COALESCE(bool_or(lower(cca.custom_analysis->>'callback_requested') IN ('true', 'yes')), false) as callback_requested,
+      COALESCE(bool_or(
+        cca.call_successful
+        OR cca.appointment_data->>'booked' = 'true'
+        OR cca.follow_up_potential = 'high'
+      ), false) as had_positive_attempt
+    FROM public.campaign_contact_attempts cca
+    WHERE cca.campaign_id = p_campaign_id
+    GROUP BY cca.contact_id
+  ),
+  number_history AS (
+    -- Dials to each number in the last 24 hours across all of the account's campaigns: state laws cap
+    -- the calls a person gets, whichever campaign places them (numbers match on their last 10 digits)
+    SELECT
+      right(regexp_replace(cca.phone_number, '[^0-9]', '', 'g'), 10) as phone_key,
+      count(*) as attempts_last_day
+    FROM public.campaign_contact_attempts cca
+    JOIN public.campaigns camp ON camp.id = cca.campaign_id
+    WHERE camp.user_id = v_user_id
+      AND cca.created_at > now() - interval '24 hours'
+    GROUP BY 1
+  ),
+  cooldown_dials AS (
+    -- The account's dials within its cooldown windows (only read when the account has a rule), with
+    -- each number's dials of the last 7 days ranked newest first
+    SELECT
+      recent.phone_key,
+      recent.created_at,
+      recent.is_conversation,
+      CASE WHEN recent.counts_this_week THEN
+        row_number() OVER (PARTITION BY recent.phone_key, recent.counts_this_week ORDER BY recent.created_at DESC)
+      END AS week_rank
+    FROM (
+      SELECT
+        right(regexp_replace(cca.phone_number, '[^0-9]', '', 'g'), 10) AS phone_key,
+        cca.created_at,
+        cca.call_status = 'completed' AND cca.retry_outcome IS NULL AS is_conversation,
+        cca.created_at > now() - interval '7 days'
+          AND cca.retry_outcome IS DISTINCT FROM 'failed-to-initiate' AS counts_this_week
+      FROM public.campaign_contact_attempts cca
+      JOIN public.campaigns camp ON camp.id = cca.campaign_id
+      WHERE v_has_cooldown
+        AND camp.user_id = v_user_id
+        AND cca.created_at > now() - GREATEST(COALESCE(v_cooldown_days, 0) * interval '1 day', interval '7 days')
+    ) recent
+  ),
+  number_cooldowns AS (
+    -- get_number_cooldown for every number at once: held for N days after the last conversation,
+    -- otherwise until the M-th most recent dial of the week is a week old
+    SELECT
+      d.phone_key,
+      COALESCE(
+        MAX(d.created_at) FILTER (
+          WHERE d.is_conversation AND d.created_at > now() - v_cooldown_days * interval '1 day'
+        ) + v_cooldown_days * interval '1 day',
+        MAX(d.created_at) FILTER (WHERE d.week_rank = v_max_dials_per_week) + interval '7 days'
+      ) AS held_until
+    FROM cooldown_dials d
+    GROUP BY d.phone_key
+  ),
+  due_callbacks AS (
+    -- Callbacks the lead asked for that are due now
+    SELECT sc.id, sc.contact_id, sc.phone_index, sc.callback_at
+    FROM public.scheduled_callbacks sc
+    WHERE sc.campaign_id = p_campaign_id
+      AND sc.status = 'pending'
+      AND sc.callback_at <= now()
+  ),
+  eligible_contacts AS (
+    SELECT
+      cp.*,
+      cb.id as callback_id,
+      cb.callback_at,
+      ch.last_outcome,
+      ch.last_attempt,
+      COALESCE(ch.phone_attempts, 0) as phone_attempts,
+      COALESCE(hist.contact_attempts, 0) as contact_attempts,
+      COALESCE(hist.callback_requested, false) as callback_requested,
+      COALESCE(hist.had_positive_attempt, false) as had_positive_attempt,
+      COALESCE(extract(day FROM now() - hist.first_attempt)::int, 0) as days_since_first_attempt,
+      blk.rule as compliance_rule,
+      blk.detail as compliance_detail
+    FROM contact_phones cp
+    LEFT JOIN call_history ch
+      ON ch.contact_id = cp.contact_id
+      AND ch.phone_index = cp.phone_index
+    LEFT JOIN contact_history hist
+      ON hist.contact_id = cp.contact_id
+    LEFT JOIN number_history nh
+      ON nh.phone_key = cp.phone_key
+    LEFT JOIN due_callbacks cb
+      ON cb.contact_id = cp.contact_id
+      AND cb.phone_index = cp.phone_index
+    LEFT JOIN LATERAL (
+      SELECT public.get_retry_rule(v_settings, ch.last_outcome) AS rule
+    ) r ON true
+    -- State calling law of the contact's state, on top of the campaign schedule
+    LEFT JOIN LATERAL public.state_calling_rule_block(
+      cp.contact_state, cp.contact_timezone, COALESCE(nh.attempts_last_day, 0)::integer
+    ) blk ON true
+    -- Account cooldown of the number across all campaigns
+    LEFT JOIN number_cooldowns cd
+      ON cd.phone_key = cp.phone_key
+    WHERE
+      -- Numbers cooling down are held, except for a due callback the lead asked for
+      (cb.id IS NOT NULL OR cd.held_until IS NULL)
+      AND (
+        -- Include a due callback on the number the lead asked on, whatever the retry policy says
+        (cb.id IS NOT NULL AND NOT COALESCE(hist.has_in_progress, false))
+        -- Or if this phone was never called
+        OR ch.contact_id IS NULL
+        -- Or if the last outcome is retryable under the campaign retry policy
+        OR (
+          ch.last_outcome IS NOT NULL
+          AND COALESCE((r.rule->>'enabled')::boolean, false)
+          AND NOT COALESCE(hist.has_in_progress, false)
+          -- Within retry days
+          AND extract(day FROM now() - hist.first_attempt)::int < p_max_retry_days
+          -- Minimum spacing since the last attempt on this phone
+          AND now() - ch.last_attempt >= COALESCE((r.rule->>'min_spacing_hours')::numeric, 0) * interval '1 hour'
+          -- Attempt caps per phone and per contact
+          AND (r.rule->>'max_attempts_per_phone' IS NULL OR ch.phone_attempts < (r.rule->>'max_attempts_per_phone')::int)
+          AND (r.rule->>'max_attempts_per_contact' IS NULL OR hist.contact_attempts < (r.rule->>'max_attempts_per_contact')::int)
+          -- Time-of-day rotation: retry in a different part of the day's calling windows
+          AND (
+            NOT COALESCE((r.rule->>'rotate_time_of_day')::boolean, false)
+            OR public.weekly_schedule_segment(v_schedule, cp.contact_timezone, now())
+               IS DISTINCT FROM public.weekly_schedule_segment(v_schedule, cp.contact_timezone, ch.last_attempt)
+          )
+        )
+      )
+  )
+  (
+    -- Contacts to dial, in queue order
+    SELECT
+      ec.contact_id,
+      ec.phone_num as phone_number,
+      ec.phone_index,
+      ec.total_phones,
+      ec.data as contact_data,
+      ec.contact_timezone as timezone,
+      (ec.contact_attempts + 1)::integer as attempt_number,
+      ec.days_since_first_attempt as attempt_day,
+      ec.phone_attempts::integer,
+      ec.contact_attempts::integer,
+      ec.last_outcome,
+      ec.last_attempt as last_attempt_at,
+      ec.contact_group_id,
+      ec.callback_id,
+      ec.contact_state,
+      ec.compliance_rule,
+      ec.compliance_detail
+    FROM eligible_contacts ec
+    WHERE ec.compliance_rule IS NULL
+    ORDER BY
+      CASE
+        WHEN ec.callback_id IS NOT NULL THEN 3
+        WHEN ec.callback_requested AND COALESCE((v_order->>'boost_callbacks')::boolean, false) THEN 2
+        WHEN ec.had_positive_attempt AND COALESCE((v_order->>'boost_positive')::boolean, false) THEN 1
+        ELSE 0
+      END DESC,
+      ec.callback_at ASC NULLS LAST,  -- Earliest due callback first
+      ec.priority DESC NULLS LAST,  -- Campaign ordering strategy
+      ec.contact_created_at ASC,  -- Then oldest contacts first
+      ec.contact_id ASC,  -- Then by contact ID
+      ec.phone_index ASC  -- Then by phone number order
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    -- Contacts a state rule blocks, once a day per rule, for process-campaign to log as skipped
+    SELECT
+      ec.contact_id,
+      ec.phone_num as phone_number,
+      ec.phone_index,
+      ec.total_phones,
+      ec.data as contact_data,
+      ec.contact_timezone as timezone,
+      (ec.contact_attempts + 1)::integer as attempt_number,
+      ec.days_since_first_attempt as attempt_day,
+      ec.phone_attempts::integer,
+      ec.contact_attempts::integer,
+      ec.last_outcome,
+      ec.last_attempt as last_attempt_at,
+      ec.contact_group_id,
+      ec.callback_id,
+      ec.contact_state,
+      ec.compliance_rule,
+      ec.compliance_detail
+    FROM eligible_contacts ec
+    WHERE ec.compliance_rule IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.compliance_skips cs
+        WHERE cs.campaign_id = p_campaign_id
+          AND cs.contact_id = ec.contact_id
+          AND cs.phone_index = ec.phone_index
+          AND cs.rule = ec.compliance_rule
+          AND cs.local_date = (now() AT TIME ZONE ec.contact_timezone)::date
+      )
+    LIMIT 500
+  );
+END;
+$function$;
+
+GRANT SELECT, INSERT, UPDATE ON public.contact_cooldown_rules TO authenticated;
+GRANT ALL ON public.contact_cooldown_rules TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_number_cooldown(UUID, TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_held_numbers(TEXT[]) TO authenticated;
+
+COMMENT ON TABLE public.contact_cooldown_rules IS 'Account-wide cooldown holding a phone number across all campaigns';
@@ -0,0 +1,52 @@
+-- Voicemail drop
+-- The agent's voicemail setting applied to every call of a campaign. Campaigns can now choose per
+-- attempt whether a call that reaches voicemail leaves a message or hangs up (for example only on
+-- the final attempt), with a script whose {{placeholders}} are filled from the contact's data.
+-- The rule lives in campaigns.settings.retry_policy.voicemail_drop; process-campaign decides per
+-- call (see supabase/functions/_shared/voicemail-drop.ts) and records the decision on the attempt.
+
+-- 1. Voicemail decision of each attempt (NULL = the agent's own voicemail setting)
+ALTER TABLE public.campaign_contact_attempts
+ADD COLUMN IF NOT EXISTS voicemail_action TEXT CHECK (voicemail_action IN ('leave_message', 'hangup')),
+ADD COLUMN IF NOT EXISTS voicemail_message TEXT;
+
+COMMENT ON COLUMN public.campaign_contact_attempts.voicemail_action IS 'What the call does on reaching voicemail: leave_message, hangup, or NULL for the agent setting';
+COMMENT ON COLUMN public.campaign_contact_attempts.voicemail_message IS 'Voicemail script of the call with the contact placeholders filled in';
+
+-- 2. Voicemails of a campaign by attempt number and decision
+CREATE OR REPLACE FUNCTION public.get_campaign_voicemail_stats(p_campaign_id UUID)
+RETURNS TABLE(
+  attempt_number INTEGER,
+  voicemail_action TEXT,
+  voicemails INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT camp.user_id INTO v_user_id
+  FROM public.campaigns camp
+  WHERE camp.id = p_campaign_id;
+
+  IF v_user_id IS NULL OR (auth.uid() IS DISTINCT FROM v_user_id AND COALESCE(auth.jwt()->>'role', '') <> 'service_role') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cca.attempt_number,
+    cca.voicemail_action,
+    COUNT(*)::INTEGER
+  FROM public.campaign_contact_attempts cca
+  WHERE cca.campaign_id = p_campaign_id
+    AND cca.retry_outcome = 'voicemail'
+  GROUP BY cca.attempt_number, cca.voicemail_action
+  ORDER BY cca.attempt_number, cca.voicemail_action;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_voicemail_stats(UUID) TO authenticated, service_role;
@@ -0,0 +1,91 @@
+-- Idempotent Retell webhooks
+-- Retell redelivers a webhook when it gets no timely 2xx, so retell-webhook could apply the same
+-- call_ended twice (a second cost deduction attempt and analysis data overwritten by the older
+-- payload). Every Retell event is now recorded in webhook_events, keyed by call ID and event type,
+-- before it is processed; a delivery of an event that was already processed (or is being processed)
+-- is acknowledged without running it again. Failed events are claimed again by the next delivery;
+-- events whose processing stalled (the function died mid-event) are claimed again by the next
+-- delivery or by retry-webhook-errors once they are stale.
+-- call_analyzed arriving before call_ended is handled in _shared/call-results.ts: call_ended no
+-- longer replaces the analyzed call data (campaign_contact_attempts.call_analyzed_at).
+
+-- 1. Processing state of a webhook event
+ALTER TABLE public.webhook_events
+ADD COLUMN IF NOT EXISTS source TEXT,
+ADD COLUMN IF NOT EXISTS call_id TEXT,
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'processed' CHECK (status IN ('processing', 'processed', 'failed')),
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS last_error TEXT,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_call_event
+  ON public.webhook_events(call_id, event_type)
+  WHERE call_id IS NOT NULL;
+
+-- Events still processing, for the stalled event sweep of retry-webhook-errors
+CREATE INDEX IF NOT EXISTS idx_webhook_events_processing
+  ON public.webhook_events(updated_at)
+  WHERE status = 'processing';
+
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events" ON public.webhook_events
+  FOR SELECT
+  TO authenticated
+  USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+CREATE POLICY "Service role can manage webhook events" ON public.webhook_events
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- 2. When the analysis of a call was stored, so a late call_ended does not overwrite it
+ALTER TABLE public.campaign_contact_attempts
+ADD COLUMN IF NOT EXISTS call_analyzed_at TIMESTAMPTZ;
+
+-- 3. Claim an event for processing: 'new' (first delivery), 'retry' (it failed, or its processing
+-- stalled longer than p_stale_after) or 'duplicate' (already processed or being processed)
+CREATE OR REPLACE FUNCTION public.claim_webhook_event(
+  p_event_id TEXT,
+  p_source TEXT,
+  p_event_type TEXT,
+  p_call_id TEXT,
+  p_payload JSONB,
+  p_stale_after INTERVAL DEFAULT interval '5 minutes'
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO public.webhook_events (event_id, source, event_type, call_id, payload, status, processed_at)
+  VALUES (p_event_id, p_source, p_event_type, p_call_id, p_payload, 'processing', NULL)
+  ON CONFLICT (event_id) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NOT NULL THEN
+    RETURN 'new';
+  END IF;
+
+  UPDATE public.webhook_events
+  SET status = 'processing',
+      attempts = attempts + 1,
+      payload = p_payload,
+      last_error = NULL,
+      updated_at = now()
+  WHERE event_id = p_event_id
+    AND (status = 'failed' OR (status = 'processing' AND updated_at < now() - p_stale_after))
+  RETURNING id INTO v_id;
+
+  RETURN CASE WHEN v_id IS NULL THEN 'duplicate' ELSE 'retry' END;
+END;
+$function$;
+
+GRANT ALL ON public.webhook_events TO service_role;
+GRANT SELECT ON public.webhook_events TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_event(TEXT, TEXT, TEXT, TEXT, JSONB, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_webhook_event(TEXT, TEXT, TEXT, TEXT, JSONB, INTERVAL) TO service_role;
+
+COMMENT ON TABLE public.webhook_events IS 'Webhook deliveries by event (Retell: call ID and event type), for idempotent processing';
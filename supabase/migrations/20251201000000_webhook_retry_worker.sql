@@ -0,0 +1,39 @@
+-- Webhook retry worker
+-- WebhookErrorHandler.logError wrote webhook_errors rows with retry_count and next_retry_at, but
+-- nothing retried them. The retry-webhook-errors function now re-runs each due row's stored payload
+-- through the Retell or Stripe handler with exponential backoff: the row is resolved when the event
+-- applies and dead-lettered once max_retries retries failed. Admins list failed events and replay
+-- them from the Webhook Errors page.
+
+-- 1. Dead letters and the last retry of each failed event
+ALTER TABLE public.webhook_errors
+ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_retry_at TIMESTAMPTZ;
+
+-- Errors that were never going to be retried are dead letters
+UPDATE public.webhook_errors
+SET dead_lettered_at = COALESCE(next_retry_at, created_at, now())
+WHERE resolved_at IS NULL
+  AND dead_lettered_at IS NULL
+  AND (next_retry_at IS NULL OR retry_count >= max_retries);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_errors_due
+  ON public.webhook_errors(next_retry_at)
+  WHERE resolved_at IS NULL AND dead_lettered_at IS NULL;
+
+-- 2. Admins review failed events (replays go through the retry-webhook-errors function)
+CREATE POLICY "Admins can view webhook errors" ON public.webhook_errors
+  FOR SELECT
+  TO authenticated
+  USING ((SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin');
+
+GRANT SELECT ON public.webhook_errors TO authenticated;
+
+-- 3. Schedule via pg_cron in the Supabase dashboard (service role key in the Authorization header):
+-- SELECT cron.schedule('retry-webhook-errors', '*/2 * * * *', $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/retry-webhook-errors',
+--     headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer <service-role-key>'),
+--     body := jsonb_build_object('triggered_by', 'cron')
+--   );
+-- $$);
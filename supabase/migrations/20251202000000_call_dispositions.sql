@@ -0,0 +1,43 @@
+-- Call dispositions
+-- The outcome of a call was decided by three rules on the disconnection reason, and any hangup under
+-- 30 seconds counted as no-answer: a lead who said "stop calling me" within 20 seconds was retried.
+-- Each attempt now records a disposition derived from the disconnection reason, the call duration and
+-- the analysis (_shared/call-disposition.ts). It sets call_status and retry_outcome, so only calls
+-- that never reached the lead (and early hangups) are retried; booked, transferred and do-not-call
+-- dispositions are not.
+
+-- 1. Disposition of each attempt (NULL while the call is in progress)
+ALTER TABLE public.campaign_contact_attempts
+ADD COLUMN IF NOT EXISTS disposition TEXT
+  CHECK (disposition IN (
+    'connected', 'no-answer', 'busy', 'voicemail', 'failed-to-connect', 'invalid-number',
+    'early-hangup', 'do-not-call-request', 'transferred', 'appointment-booked'
+  ));
+
+COMMENT ON COLUMN public.campaign_contact_attempts.disposition IS
+'What happened on the call, set by retell-webhook. Decides call_status and retry_outcome.';
+
+-- 2. Backfill from the stored outcomes and Retell call data
+UPDATE public.campaign_contact_attempts cca
+SET disposition = CASE
+  WHEN cca.retell_call_data->>'disconnection_reason' = 'invalid_destination' THEN 'invalid-number'
+  WHEN cca.retry_outcome = 'failed-to-initiate' THEN 'failed-to-connect'
+  WHEN cca.retry_outcome IN ('no-answer', 'busy', 'voicemail') THEN cca.retry_outcome
+  WHEN EXISTS (SELECT 1 FROM public.do_not_call_numbers dnc WHERE dnc.attempt_id = cca.id) THEN 'do-not-call-request'
+  WHEN cca.appointment_data->>'booked' = 'true' THEN 'appointment-booked'
+  WHEN cca.retell_call_data->>'disconnection_reason' IN ('call_transfer', 'transfer_bridged') THEN 'transferred'
+  WHEN cca.retry_outcome = 'quick-hangup' THEN 'early-hangup'
+  WHEN cca.call_status::text = 'completed' THEN 'connected'
+  WHEN cca.call_status::text = 'failed' THEN 'failed-to-connect'
+END
+WHERE cca.disposition IS NULL
+  AND cca.call_status::text <> 'in-progress';
+
+-- Leads who asked not to be called were retried as quick hangups
+UPDATE public.campaign_contact_attempts
+SET retry_outcome = NULL
+WHERE disposition = 'do-not-call-request'
+  AND retry_outcome IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_attempts_disposition
+  ON public.campaign_contact_attempts(campaign_id, disposition);
@@ -0,0 +1,63 @@
+-- Structured post-call extraction
+-- custom_analysis held whatever Retell's post-call analysis returned and nothing mapped it back to the
+-- lead. Each agent now defines an extraction schema (motivation, timeline, asking price...), which
+-- update-retell-llm pushes to Retell as post-call analysis fields. When a call is analyzed its values
+-- are converted to the field types (supabase/functions/_shared/post-call-extraction.ts), stored on the
+-- attempt and merged into the contact.
+
+-- 1. Extraction schema of each agent:
+--   [{ "key": "asking_price", "label": "Asking price", "type": "number", "description": "...", "options": [] }]
+ALTER TABLE public.user_agents
+ADD COLUMN IF NOT EXISTS extraction_schema JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.user_agents.extraction_schema IS 'Fields extracted from each call by Retell post-call analysis (key, label, type, description, options)';
+
+-- 2. Extracted values of each call, and the latest value of each field on the contact
+ALTER TABLE public.campaign_contact_attempts
+ADD COLUMN IF NOT EXISTS extracted_fields JSONB;
+
+ALTER TABLE public.contacts
+ADD COLUMN IF NOT EXISTS extracted_fields JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS extracted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.campaign_contact_attempts.extracted_fields IS 'Typed values of the agent extraction schema from this call';
+COMMENT ON COLUMN public.contacts.extracted_fields IS 'Latest extracted value of each field across the contact''s calls';
+COMMENT ON COLUMN public.contacts.extracted_at IS 'Time of the latest call the extracted fields come from';
+
+-- 3. Store the extracted values of an attempt and merge them into its contact. Values from a call
+-- older than the contact's latest extraction (a replayed webhook) do not overwrite newer ones.
+CREATE OR REPLACE FUNCTION public.record_extracted_fields(
+  p_attempt_id UUID,
+  p_fields JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_contact_id UUID;
+  v_called_at TIMESTAMPTZ;
+BEGIN
+  UPDATE public.campaign_contact_attempts
+  SET extracted_fields = p_fields
+  WHERE id = p_attempt_id
+  RETURNING contact_id, created_at INTO v_contact_id, v_called_at;
+
+  IF v_contact_id IS NULL OR p_fields = '{}'::jsonb THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.contacts c
+  SET extracted_fields = CASE
+        WHEN c.extracted_at IS NULL OR c.extracted_at <= v_called_at THEN c.extracted_fields || p_fields
+        ELSE p_fields || c.extracted_fields
+      END,
+      extracted_at = GREATEST(COALESCE(c.extracted_at, v_called_at), v_called_at),
+      updated_at = now()
+  WHERE c.id = v_contact_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_extracted_fields(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_extracted_fields(UUID, JSONB) TO service_role;
@@ -0,0 +1,107 @@
+-- Follow-up potential scoring
+-- ResultsView filters by follow_up_potential and shows follow_up_reason, but nothing set them. Each
+-- analyzed call that reached the lead is now scored high / medium / low with a reason, from its
+-- transcript, summary and extracted fields and the account's rubric
+-- (supabase/functions/_shared/follow-up-scoring.ts). Storing the analysis queues the call (it clears
+-- follow_up_scored_at) and the scheduled score-follow-ups function scores calls not scored yet or
+-- scored with an older rubric, so the webhook never waits on the LLM.
+-- Attempts carry no user_id; a call belongs to the owner of its campaign.
+
+-- 1. Rubric per account; saving it bumps the version, which queues past calls for rescoring
+CREATE TABLE IF NOT EXISTS public.follow_up_rubrics (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  rubric JSONB NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.follow_up_rubrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own follow-up rubric" ON public.follow_up_rubrics
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage follow-up rubrics" ON public.follow_up_rubrics
+  FOR ALL
+  USING (auth.jwt()->>'role' = 'service_role');
+
+-- 2. How and with which rubric version each call was scored
+ALTER TABLE public.campaign_contact_attempts
+ADD COLUMN IF NOT EXISTS follow_up_scored_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS follow_up_rubric_version INTEGER,
+ADD COLUMN IF NOT EXISTS follow_up_scorer TEXT;
+
+COMMENT ON COLUMN public.campaign_contact_attempts.follow_up_rubric_version IS 'Rubric version the follow-up potential was scored with (0 = default rubric)';
+COMMENT ON COLUMN public.campaign_contact_attempts.follow_up_scorer IS 'What scored the call: bedrock, or stub for the local rule-based scorer';
+
+-- 3. Save the caller's rubric, returning its new version
+CREATE OR REPLACE FUNCTION public.save_follow_up_rubric(p_rubric JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.follow_up_rubrics (user_id, rubric)
+  VALUES (auth.uid(), p_rubric)
+  ON CONFLICT (user_id) DO UPDATE
+  SET rubric = EXCLUDED.rubric,
+      version = public.follow_up_rubrics.version + 1,
+      updated_at = now()
+  RETURNING version INTO v_version;
+
+  RETURN v_version;
+END;
+$function$;
+
+-- 4. Analyzed calls that reached the lead and were not scored with the account's current rubric,
+-- unscored calls first, newest first (optionally for one account)
+CREATE OR REPLACE FUNCTION public.get_follow_up_scoring_queue(
+  p_limit INTEGER DEFAULT 20,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE(attempt_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+  SELECT cca.id
+  FROM public.campaign_contact_attempts cca
+  JOIN public.campaigns camp ON camp.id = cca.campaign_id
+  LEFT JOIN public.follow_up_rubrics r ON r.user_id = camp.user_id
+  WHERE (p_user_id IS NULL OR camp.user_id = p_user_id)
+    AND cca.disposition IN ('connected', 'early-hangup', 'do-not-call-request', 'transferred', 'appointment-booked')
+    AND (cca.call_analyzed_at IS NOT NULL OR cca.call_summary IS NOT NULL)
+    AND (cca.follow_up_scored_at IS NULL OR cca.follow_up_rubric_version IS DISTINCT FROM COALESCE(r.version, 0))
+  ORDER BY (cca.follow_up_scored_at IS NOT NULL), cca.created_at DESC
+  LIMIT p_limit;
+$function$;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_attempts_follow_up_scoring
+  ON public.campaign_contact_attempts(created_at DESC)
+  WHERE follow_up_scored_at IS NULL;
+
+GRANT SELECT ON public.follow_up_rubrics TO authenticated;
+GRANT ALL ON public.follow_up_rubrics TO service_role;
+GRANT EXECUTE ON FUNCTION public.save_follow_up_rubric(JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_follow_up_scoring_queue(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_follow_up_scoring_queue(INTEGER, UUID) TO service_role;
+
+COMMENT ON TABLE public.follow_up_rubrics IS 'Follow-up potential scoring rubric per account, versioned so past calls can be rescored';
+
+-- 5. Schedule via pg_cron in the Supabase dashboard (service role key in the Authorization header):
+-- SELECT cron.schedule('score-follow-ups', '* * * * *', $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/score-follow-ups',
+--     headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer <service-role-key>'),
+--     body := jsonb_build_object('triggered_by', 'cron')
+--   );
+-- $$);